@@ -2,11 +2,18 @@ import React from 'react';
 import { HashRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { TransactionProvider } from './context/TransactionContext';
+import { TradeProvider } from './context/TradeContext';
+import { InvestmentProvider } from './context/InvestmentContext';
+import { KycProvider } from './context/KycContext';
+import { config } from './config';
 
 import AuthLayout from './components/layout/AuthLayout';
 import DashboardLayout from './components/layout/DashboardLayout';
 import LoginForm from './components/auth/LoginForm';
 import RegisterForm from './components/auth/RegisterForm';
+import ForgotPasswordForm from './components/auth/ForgotPasswordForm';
+import ResetPasswordForm from './components/auth/ResetPasswordForm';
+import VerifyEmailForm from './components/auth/VerifyEmailForm';
 import DashboardContent from './components/dashboard/DashboardContent';
 import AdminPanel from './components/admin/AdminPanel';
 import TradePage from './components/pages/TradePage';
@@ -36,11 +43,14 @@ const AppRoutes: React.FC = () => {
 
   return (
     <Router>
-      {status === 'UNAUTHENTICATED' ? (
+      {status !== 'AUTHENTICATED' ? (
         <AuthLayout>
           <Routes>
             <Route path="/" element={<LoginForm />} />
-            <Route path="/register" element={<RegisterForm />} />
+            {config.features.registration && <Route path="/register" element={<RegisterForm />} />}
+            <Route path="/forgot-password" element={<ForgotPasswordForm />} />
+            <Route path="/reset-password" element={<ResetPasswordForm />} />
+            <Route path="/verify-email" element={<VerifyEmailForm />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
         </AuthLayout>
@@ -48,7 +58,7 @@ const AppRoutes: React.FC = () => {
         <DashboardLayout>
           <Routes>
             <Route path="/" element={<DashboardContent />} />
-            <Route path="/trade" element={<TradePage />} />
+            {config.features.trading && <Route path="/trade" element={<TradePage />} />}
             
             {/* Wallet Routes */}
             <Route path="/wallet" element={<Navigate to="/wallet/balance" replace />} />
@@ -57,8 +67,9 @@ const AppRoutes: React.FC = () => {
             <Route path="/wallet/transfer" element={<WalletTransfer />} />
             <Route path="/wallet/withdrawal" element={<WalletWithdrawal />} />
             
-            <Route path="/investment" element={<InvestmentPage />} />
+            {config.features.investment && <Route path="/investment" element={<InvestmentPage />} />}
             <Route path="/kyc" element={<KycPage />} />
+            <Route path="/verify-email" element={<div className="max-w-md mx-auto bg-darkblue2 border border-borderGray rounded-lg p-6"><VerifyEmailForm /></div>} />
             <Route path="/security" element={<SecurityPage />} />
             <Route path="/setting" element={<SettingPage />} />
             <Route path="/faq" element={<FaqPage />} />
@@ -80,7 +91,13 @@ const App: React.FC = () => {
   return (
     <AuthProvider>
       <TransactionProvider>
-        <AppRoutes />
+        <TradeProvider>
+          <InvestmentProvider>
+            <KycProvider>
+              <AppRoutes />
+            </KycProvider>
+          </InvestmentProvider>
+        </TradeProvider>
       </TransactionProvider>
     </AuthProvider>
   );
@@ -1,9 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../context/AuthContext';
 import { useTransactions } from '../../context/TransactionContext';
-import { Transaction, TransactionStatus, User, CompanyBankInfo } from '../../types';
+import { useInvestments } from '../../context/InvestmentContext';
+import { useKyc } from '../../context/KycContext';
+import { Transaction, DepositTransaction, InvestmentContract, KycCase, KycDocumentType, KycStatus, TransactionStatus, User, CompanyBankInfo, LedgerEntry, LedgerDirection, BalanceReconciliation, AdminRole, Permission } from '../../types';
 import Button from '../common/Button';
 import Input from '../common/Input';
+import { normalizePhoneNumber } from '../../services/identifier';
+import { hasPermission, ROLE_LABELS } from '../../services/permissions';
+import { getAllowedTransitions, isTerminalStatus } from '../../services/transactionStateMachine';
+import RoleSelector from './RoleSelector';
+import ReasonModal, { ReasonField } from './ReasonModal';
+import AuditLogTab from './AuditLogTab';
+import ApprovalsTab from './ApprovalsTab';
+import ReconciliationTab from './ReconciliationTab';
+import UserLimitsModal from './UserLimitsModal';
+import FeeScheduleSettings from './FeeScheduleSettings';
+import DepositProofPreview from '../transactions/DepositProofPreview';
+import KycDocumentView from '../kyc/KycDocumentView';
 import { 
     BanknotesIcon, 
     CreditCardIcon, 
@@ -16,7 +30,8 @@ import {
     UserPlusIcon,
     EnvelopeIcon,
     PhoneIcon,
-    LockClosedIcon
+    LockClosedIcon,
+    BookOpenIcon
 } from '@heroicons/react/24/outline';
 
 
@@ -24,29 +39,78 @@ const AdminPanel: React.FC = () => {
   const { user } = useAuth();
   const {
     getAllUsers,
-    updateUserVerification,
     getAllTransactions,
     updateDepositStatus,
     updateWithdrawalStatus,
     companyBankInfoList,
     setCompanyBankInfoList,
     adminUpdateUserBalance,
-    adminCreateUser
+    adminCreateUser,
+    assignRoles,
+    getUserLedger,
+    transactionError
   } = useTransactions();
+  const { getAllInvestments, runDuePayouts } = useInvestments();
+  const { getReviewQueue, startReview, approveKyc, rejectKyc } = useKyc();
 
-  const [activeTab, setActiveTab] = useState<'users' | 'transactions' | 'settings'>('users');
+  const can = (permission: Permission) => hasPermission(user, permission);
+  const tabs = ([
+    { id: 'users', label: 'Manage Users', permission: Permission.USERS_VIEW },
+    { id: 'transactions', label: 'Manage Transactions', permission: Permission.TRANSACTIONS_VIEW },
+    { id: 'kyc', label: 'KYC Review', permission: Permission.KYC_REVIEW },
+    { id: 'investments', label: 'Investments', permission: Permission.INVESTMENTS_VIEW },
+    { id: 'reconciliation', label: 'Bank Reconciliation', permission: Permission.TRANSACTIONS_MANAGE },
+    { id: 'approvals', label: 'Approvals', permission: Permission.APPROVALS_DECIDE },
+    { id: 'settings', label: 'Company Settings', permission: Permission.SETTINGS_MANAGE },
+    { id: 'audit', label: 'Audit Log', permission: Permission.AUDIT_VIEW },
+  ] as const).filter(tab => can(tab.permission));
+
+  const [activeTab, setActiveTab] = useState<'users' | 'transactions' | 'kyc' | 'investments' | 'reconciliation' | 'approvals' | 'settings' | 'audit'>(tabs[0]?.id || 'users');
+  // Aksi satu klik (status transaksi, info bank, payout) meminta alasan lewat modal
+  const [reasonPrompt, setReasonPrompt] = useState<{ title: string; description?: string; run: (reason: string) => Promise<void> } | null>(null);
   const [bankList, setBankList] = useState<CompanyBankInfo[]>(companyBankInfoList);
   const [users, setUsers] = useState<User[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
   const [trxSearch, setTrxSearch] = useState('');
+  const [proofDeposit, setProofDeposit] = useState<DepositTransaction | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [investments, setInvestments] = useState<InvestmentContract[]>([]);
+  const [isRunningPayouts, setIsRunningPayouts] = useState(false);
+  const [payoutMessage, setPayoutMessage] = useState<string | null>(null);
+  // Info untuk aksi yang ditahan menunggu persetujuan admin lain
+  const [approvalNotice, setApprovalNotice] = useState<string | null>(null);
+
+  // KYC Review State
+  const [kycQueue, setKycQueue] = useState<KycCase[]>([]);
+  const [reviewCase, setReviewCase] = useState<KycCase | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [approvalNote, setApprovalNote] = useState('');
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [reviewLoading, setReviewLoading] = useState(false);
 
   // Balance Modal State
   const [isBalanceModalOpen, setIsBalanceModalOpen] = useState(false);
   const [selectedUserForBalance, setSelectedUserForBalance] = useState<User | null>(null);
   const [balanceAmount, setBalanceAmount] = useState('');
   const [balanceOperation, setBalanceOperation] = useState<'add' | 'set'>('add');
+  const [balanceReason, setBalanceReason] = useState('');
+
+  // Ledger Modal State
+  const [ledgerUser, setLedgerUser] = useState<User | null>(null);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [ledgerReconciliation, setLedgerReconciliation] = useState<BalanceReconciliation | null>(null);
+  const [ledgerLoading, setLedgerLoading] = useState(false);
+
+  // Role Modal State
+  const [roleUser, setRoleUser] = useState<User | null>(null);
+  const [roleDraft, setRoleDraft] = useState<AdminRole[]>([]);
+  const [roleReason, setRoleReason] = useState('');
+  const [roleError, setRoleError] = useState<string | null>(null);
+  const [roleLoading, setRoleLoading] = useState(false);
+
+  // Limits Modal State
+  const [limitsUser, setLimitsUser] = useState<User | null>(null);
 
   // Create User Modal State
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
@@ -56,9 +120,9 @@ const AdminPanel: React.FC = () => {
     phoneNumber: '',
     password: '',
     balance: '13000000',
-    isAdmin: false,
-    isVerified: true
+    roles: [] as AdminRole[]
   });
+  const [createReason, setCreateReason] = useState('');
   const [createError, setCreateError] = useState<string | null>(null);
   const [createLoading, setCreateLoading] = useState(false);
 
@@ -90,10 +154,11 @@ const AdminPanel: React.FC = () => {
   const loadData = async () => {
     setIsRefreshing(true);
     try {
-      const fetchedUsers = await getAllUsers();
-      setUsers(fetchedUsers);
-      const fetchedTransactions = await getAllTransactions();
-      setTransactions(fetchedTransactions);
+      // Hanya data yang boleh dilihat role user ini; service juga menolak sisanya
+      if (can(Permission.USERS_VIEW)) setUsers(await getAllUsers());
+      if (can(Permission.TRANSACTIONS_VIEW)) setTransactions(await getAllTransactions());
+      if (can(Permission.INVESTMENTS_VIEW)) setInvestments(await getAllInvestments());
+      if (can(Permission.KYC_REVIEW)) setKycQueue(await getReviewQueue());
     } catch (error) {
       console.error("Error loading admin data", error);
     } finally {
@@ -104,11 +169,55 @@ const AdminPanel: React.FC = () => {
   if (!user || !user.isAdmin) {
     return (
       <div className="container mx-auto text-center text-danger py-10">
-        Access Denied: You must be an administrator to view this page.
+        Access Denied: Your account has no admin role.
       </div>
     );
   }
 
+  const handleRunPayouts = () => {
+    setReasonPrompt({
+      title: 'Run Due Payouts',
+      description: 'Pays every active contract whose payout is due, for all users.',
+      run: async (reason) => {
+        setIsRunningPayouts(true);
+        setPayoutMessage(null);
+        try {
+          const paidCount = await runDuePayouts(reason);
+          setPayoutMessage(paidCount > 0 ? `Payout processed for ${paidCount} contract(s).` : 'No payouts are due.');
+          await loadData();
+        } finally {
+          setIsRunningPayouts(false);
+        }
+      },
+    });
+  };
+
+  const openReviewModal = (kycCase: KycCase) => {
+    setReviewCase(kycCase);
+    setRejectionReason('');
+    setApprovalNote('');
+    setReviewError(null);
+  };
+
+  const handleReviewAction = async (action: 'start' | 'approve' | 'reject') => {
+    if (!reviewCase) return;
+    setReviewLoading(true);
+    setReviewError(null);
+    const result = action === 'start'
+      ? await startReview(reviewCase.id)
+      : action === 'approve'
+        ? await approveKyc(reviewCase.id, approvalNote)
+        : await rejectKyc(reviewCase.id, rejectionReason);
+    setReviewLoading(false);
+    if (!result.success) {
+      setReviewError(result.message);
+      return;
+    }
+    // Setelah mulai review modal tetap terbuka untuk approve/reject
+    setReviewCase(action === 'start' && result.kycCase ? result.kycCase : null);
+    await loadData();
+  };
+
   const handleCreateSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setCreateError(null);
@@ -119,6 +228,11 @@ const AdminPanel: React.FC = () => {
         setCreateLoading(false);
         return;
     }
+    if (createData.phoneNumber && !normalizePhoneNumber(createData.phoneNumber)) {
+        setCreateError("Invalid phone number. Use an Indonesian number, e.g. 08123456789.");
+        setCreateLoading(false);
+        return;
+    }
 
     try {
         const success = await adminCreateUser({
@@ -126,10 +240,9 @@ const AdminPanel: React.FC = () => {
             email: createData.email,
             phoneNumber: createData.phoneNumber,
             password: createData.password,
-            balance: parseFloat(createData.balance) || 0,
-            isAdmin: createData.isAdmin,
-            isVerified: createData.isVerified
-        });
+            balance: can(Permission.BALANCE_ADJUST) ? parseFloat(createData.balance) || 0 : 0,
+            roles: createData.roles
+        }, createReason);
 
         if (success) {
             setIsCreateModalOpen(false);
@@ -139,16 +252,16 @@ const AdminPanel: React.FC = () => {
                 phoneNumber: '',
                 password: '',
                 balance: '13000000',
-                isAdmin: false,
-                isVerified: true
+                roles: []
             });
+            setCreateReason('');
             // Re-load users after successful creation
             await loadData();
         } else {
             setCreateError("Failed to create user. Email might be taken or database connection issue.");
         }
-    } catch (err) {
-        setCreateError("Error during user creation.");
+    } catch (err: any) {
+        setCreateError(err?.message || "Error during user creation.");
     } finally {
         setCreateLoading(false);
     }
@@ -170,26 +283,41 @@ const AdminPanel: React.FC = () => {
   };
 
   const handleUpdateBankInfo = () => {
-    setCompanyBankInfoList(bankList);
-    alert('Company Bank Info Updated!');
+    setReasonPrompt({
+      title: 'Update Company Bank Info',
+      run: async (reason) => {
+        await setCompanyBankInfoList(bankList, reason);
+        alert('Company Bank Info Updated!');
+      },
+    });
   };
 
-  const handleStatusChange = async (t: Transaction, newStatus: string) => {
+  const handleStatusChange = (t: Transaction, newStatus: string) => {
       if (t.status === newStatus) return;
       
       const status = newStatus as TransactionStatus;
-      if (t.type === 'DEPOSIT') {
-          await updateDepositStatus(t.id, status);
-      } else if (t.type === 'WITHDRAWAL') {
-          await updateWithdrawalStatus(t.id, status);
-      }
-      await loadData();
+      setReasonPrompt({
+          title: `Change ${t.type} status`,
+          description: `${t.status} → ${status} for Rp ${t.amount.toLocaleString('id-ID')} (${getUserDetails(t.userId)}).${
+              t.type === 'DEPOSIT' && status === TransactionStatus.SUCCESS && !t.proof ? ' No proof of transfer has been attached.' : ''
+          }`,
+          run: async (reason) => {
+              if (t.type === 'DEPOSIT') {
+                  await updateDepositStatus(t.id, status, reason);
+              } else if (t.type === 'WITHDRAWAL') {
+                  const result = await updateWithdrawalStatus(t.id, status, reason);
+                  if (result.pendingApproval) setApprovalNotice(result.message);
+              }
+              await loadData();
+          },
+      });
   };
 
   const openBalanceModal = (u: User) => {
     setSelectedUserForBalance(u);
     setBalanceAmount('');
     setBalanceOperation('add');
+    setBalanceReason('');
     setIsBalanceModalOpen(true);
   };
 
@@ -203,13 +331,53 @@ const AdminPanel: React.FC = () => {
         return;
     }
 
-    await adminUpdateUserBalance(selectedUserForBalance.id, amount, balanceOperation);
+    try {
+        const result = await adminUpdateUserBalance(selectedUserForBalance.id, amount, balanceOperation, balanceReason);
+        if (result.pendingApproval) setApprovalNotice(result.message);
+    } catch (err: any) {
+        alert(err?.message || 'Failed to update balance.');
+        return;
+    }
     setIsBalanceModalOpen(false);
     setSelectedUserForBalance(null);
     setBalanceAmount('');
     loadData();
   };
 
+  const openLedgerModal = async (u: User) => {
+    setLedgerUser(u);
+    setLedgerEntries([]);
+    setLedgerReconciliation(null);
+    setLedgerLoading(true);
+    try {
+      const { entries, reconciliation } = await getUserLedger(u.id);
+      setLedgerEntries(entries);
+      setLedgerReconciliation(reconciliation);
+    } finally {
+      setLedgerLoading(false);
+    }
+  };
+
+  const openRoleModal = (u: User) => {
+    setRoleUser(u);
+    setRoleDraft(u.roles);
+    setRoleReason('');
+    setRoleError(null);
+  };
+
+  const handleRoleSubmit = async () => {
+    if (!roleUser) return;
+    setRoleLoading(true);
+    const result = await assignRoles(roleUser.id, roleDraft, roleReason);
+    setRoleLoading(false);
+    if (!result.success) {
+      setRoleError(result.message);
+      return;
+    }
+    setRoleUser(null);
+    await loadData();
+  };
+
   const getStatusClass = (status: TransactionStatus): string => {
     switch (status) {
       case TransactionStatus.SUCCESS:
@@ -235,49 +403,50 @@ const AdminPanel: React.FC = () => {
       <div className="flex justify-between items-center mb-6">
         <div>
             <h2 className="text-2xl sm:text-3xl font-bold text-white mb-1">Admin Panel</h2>
-            <p className="text-gray-500">Manage users, transactions, and company settings.</p>
+            <p className="text-gray-500">Manage users, transactions, and company settings. Every change is recorded in the audit log.</p>
         </div>
         <Button onClick={loadData} variant="ghost" className="flex items-center" isLoading={isRefreshing}>
              Refresh Data
         </Button>
       </div>
 
+      {transactionError && (
+        <div className="mb-4 p-3 rounded-md text-sm bg-danger/20 text-danger border border-danger/30">{transactionError}</div>
+      )}
+      {approvalNotice && (
+        <div className="mb-4 p-3 rounded-md text-sm bg-primary/10 text-primary border border-primary/30 flex justify-between items-center">
+          <span>{approvalNotice}</span>
+          <button onClick={() => setApprovalNotice(null)} className="text-primary hover:text-white">
+            <XMarkIcon className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       <div className="bg-darkblue2 p-6 rounded-lg shadow-md">
         <div className="flex border-b border-gray-700 mb-6 overflow-x-auto">
-          <button
-            className={`px-4 py-2 text-base sm:text-lg font-medium whitespace-nowrap ${
-              activeTab === 'users' ? 'text-primary border-b-2 border-primary' : 'text-gray-400 hover:text-white'
-            }`}
-            onClick={() => setActiveTab('users')}
-          >
-            Manage Users
-          </button>
-          <button
-            className={`ml-4 px-4 py-2 text-base sm:text-lg font-medium whitespace-nowrap ${
-              activeTab === 'transactions' ? 'text-primary border-b-2 border-primary' : 'text-gray-400 hover:text-white'
-            }`}
-            onClick={() => setActiveTab('transactions')}
-          >
-            Manage Transactions
-          </button>
-          <button
-            className={`ml-4 px-4 py-2 text-base sm:text-lg font-medium whitespace-nowrap ${
-              activeTab === 'settings' ? 'text-primary border-b-2 border-primary' : 'text-gray-400 hover:text-white'
-            }`}
-            onClick={() => setActiveTab('settings')}
-          >
-            Company Settings
-          </button>
+          {tabs.map((tab, index) => (
+            <button
+              key={tab.id}
+              className={`${index > 0 ? 'ml-4 ' : ''}px-4 py-2 text-base sm:text-lg font-medium whitespace-nowrap ${
+                activeTab === tab.id ? 'text-primary border-b-2 border-primary' : 'text-gray-400 hover:text-white'
+              }`}
+              onClick={() => setActiveTab(tab.id)}
+            >
+              {tab.label}{tab.id === 'kyc' && kycQueue.length > 0 ? ` (${kycQueue.length})` : ''}
+            </button>
+          ))}
         </div>
 
-        {activeTab === 'users' && (
+        {activeTab === 'users' && can(Permission.USERS_VIEW) && (
           <div>
             <div className="flex justify-between items-center mb-6">
                 <h3 className="text-xl font-semibold">Registered Profiles ({users.length})</h3>
-                <Button variant="primary" size="sm" onClick={() => setIsCreateModalOpen(true)}>
-                    <UserPlusIcon className="w-4 h-4 mr-2" />
-                    Create New User
-                </Button>
+                {can(Permission.USERS_CREATE) && (
+                    <Button variant="primary" size="sm" onClick={() => setIsCreateModalOpen(true)}>
+                        <UserPlusIcon className="w-4 h-4 mr-2" />
+                        Create New User
+                    </Button>
+                )}
             </div>
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-700">
@@ -288,7 +457,7 @@ const AdminPanel: React.FC = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Email</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Balance</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Verified</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Admin</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Roles</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider text-right">Actions</th>
                   </tr>
                 </thead>
@@ -306,29 +475,51 @@ const AdminPanel: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm">
                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${u.isAdmin ? 'bg-primary/20 text-primary' : 'bg-gray-700 text-gray-400'}`}>
-                          {u.isAdmin ? 'Yes' : 'No'}
+                          {u.isAdmin ? u.roles.map(r => ROLE_LABELS[r]).join(', ') : 'Member'}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-xs sm:text-sm font-medium">
                         <div className="flex space-x-2 justify-end">
-                            <Button
-                                variant="secondary"
-                                size="sm"
-                                onClick={() => openBalanceModal(u)}
-                                className="bg-blue-600/20 hover:bg-blue-600 text-blue-400 hover:text-white border border-blue-600/30"
-                            >
-                                Edit Balance
-                            </Button>
-                            <Button
-                                variant={u.isVerified ? 'danger' : 'primary'}
-                                size="sm"
-                                onClick={async () => {
-                                    await updateUserVerification(u.id, !u.isVerified);
-                                    await loadData();
-                                }}
-                            >
-                                {u.isVerified ? 'Deactivate' : 'Activate'}
-                            </Button>
+                            {can(Permission.BALANCE_ADJUST) && (
+                                <Button
+                                    variant="secondary"
+                                    size="sm"
+                                    onClick={() => openBalanceModal(u)}
+                                    className="bg-blue-600/20 hover:bg-blue-600 text-blue-400 hover:text-white border border-blue-600/30"
+                                >
+                                    Edit Balance
+                                </Button>
+                            )}
+                            {can(Permission.LEDGER_VIEW) && (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openLedgerModal(u)}
+                                    className="border border-gray-700"
+                                >
+                                    Ledger
+                                </Button>
+                            )}
+                            {can(Permission.ROLES_MANAGE) && (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openRoleModal(u)}
+                                    className="border border-gray-700"
+                                >
+                                    Roles
+                                </Button>
+                            )}
+                            {can(Permission.LIMITS_MANAGE) && (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setLimitsUser(u)}
+                                    className="border border-gray-700"
+                                >
+                                    Limits
+                                </Button>
+                            )}
                         </div>
                       </td>
                     </tr>
@@ -344,7 +535,7 @@ const AdminPanel: React.FC = () => {
           </div>
         )}
 
-        {activeTab === 'transactions' && (
+        {activeTab === 'transactions' && can(Permission.TRANSACTIONS_VIEW) && (
           <div>
             <div className="flex flex-col sm:flex-row justify-between items-center mb-4 gap-4">
                 <h3 className="text-xl font-semibold">Transaction Management</h3>
@@ -384,30 +575,52 @@ const AdminPanel: React.FC = () => {
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-white">
                           <span className={`px-2 py-1 rounded text-[10px] font-bold tracking-wider ${t.type === 'DEPOSIT' ? 'bg-blue-500/20 text-blue-400' : 'bg-orange-500/20 text-orange-400'}`}>
-                             {t.type}
+                             {t.type}{t.type === 'TRANSFER' ? ` ${t.direction}` : ''}
                           </span>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-white font-sans tabular-nums font-bold">Rp {t.amount.toLocaleString('id-ID')}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-white font-sans tabular-nums font-bold">
+                          Rp {t.amount.toLocaleString('id-ID')}
+                          {t.type === 'DEPOSIT' && t.uniqueCode !== undefined && (
+                              <span className="block text-xs font-normal text-gray-400 mt-1">
+                                  Transfer Rp {t.transferAmount.toLocaleString('id-ID')} · {t.referenceCode}
+                              </span>
+                          )}
+                          {t.type !== 'DEPOSIT' && t.fee > 0 && (
+                              <span className="block text-xs font-normal text-gray-400 mt-1">
+                                  Fee Rp {t.fee.toLocaleString('id-ID')}
+                              </span>
+                          )}
+                          {t.type === 'DEPOSIT' && (
+                              t.proof ? (
+                                  <button type="button" onClick={() => setProofDeposit(t)} className="block text-xs font-normal text-primary hover:underline mt-1">
+                                      View proof
+                                  </button>
+                              ) : (
+                                  <span className="block text-xs font-normal text-gray-500 mt-1">No proof</span>
+                              )
+                          )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusClass(t.status)}`}>
                           {t.status}
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-left text-xs sm:text-sm font-medium">
-                        {t.type !== 'TRANSFER' ? (
+                        {t.type !== 'TRANSFER' && can(Permission.TRANSACTIONS_MANAGE) && !isTerminalStatus(t.type, t.status) ? (
+                          // Hanya transisi yang diizinkan state machine yang ditawarkan
                           <select
                             className="bg-[#1E2329] border border-gray-600 text-white text-xs rounded p-1.5 focus:border-primary focus:outline-none cursor-pointer"
                             value={t.status}
                             onChange={(e) => handleStatusChange(t, e.target.value)}
                           >
-                              <option value={TransactionStatus.PENDING}>PENDING</option>
-                              <option value={TransactionStatus.SUCCESS}>DONE (Success)</option>
-                              <option value={TransactionStatus.REJECTED}>REJECTED</option>
-                              {t.type === 'WITHDRAWAL' && <option value={TransactionStatus.CANCELLED}>CANCELLED</option>}
-                              {t.type === 'WITHDRAWAL' && <option value={TransactionStatus.FAILED}>FAILED</option>}
+                              {[t.status, ...getAllowedTransitions(t.type, t.status)].map(status => (
+                                <option key={status} value={status}>{status === TransactionStatus.SUCCESS ? 'DONE (Success)' : status}</option>
+                              ))}
                           </select>
                         ) : (
-                          <span className="text-gray-500 italic">Auto-Success</span>
+                          <span className="text-gray-500 italic">
+                            {t.type === 'TRANSFER' ? 'Auto-Success' : can(Permission.TRANSACTIONS_MANAGE) ? 'Final' : 'View only'}
+                          </span>
                         )}
                       </td>
                     </tr>
@@ -423,7 +636,118 @@ const AdminPanel: React.FC = () => {
           </div>
         )}
 
-        {activeTab === 'settings' && (
+        {activeTab === 'kyc' && can(Permission.KYC_REVIEW) && (
+          <div>
+            <h3 className="text-xl font-semibold mb-4">KYC Review Queue ({kycQueue.length})</h3>
+            <div className="overflow-x-auto min-h-[400px]">
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead className="bg-darkblue">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Submitted</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">User</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Name on KTP</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {kycQueue.map(k => (
+                    <tr key={k.id} className="hover:bg-white/[0.01]">
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-gray-500 font-sans tabular-nums">{k.submittedAt ? new Date(k.submittedAt).toLocaleString() : '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-gray-300">
+                          <div className="flex flex-col">
+                              <span className="text-white font-medium">{getUserDetails(k.userId).split('(')[0]}</span>
+                              <span className="text-xs text-gray-500">{getUserDetails(k.userId).split('(')[1]?.replace(')','')}</span>
+                          </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-white">{k.identity.fullName}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${k.status === KycStatus.IN_REVIEW ? 'bg-blue-500/20 text-blue-400' : 'bg-yellow-500/20 text-yellow-400'}`}>
+                          {k.status === KycStatus.IN_REVIEW ? 'IN REVIEW' : k.status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <Button variant="primary" size="sm" onClick={() => openReviewModal(k)}>Review</Button>
+                      </td>
+                    </tr>
+                  ))}
+                  {kycQueue.length === 0 && (
+                      <tr>
+                          <td colSpan={5} className="px-6 py-10 text-center text-gray-500">No KYC submissions waiting for review.</td>
+                      </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'investments' && can(Permission.INVESTMENTS_VIEW) && (
+          <div>
+            <div className="flex flex-col sm:flex-row justify-between items-center mb-4 gap-4">
+                <h3 className="text-xl font-semibold">Investment Contracts ({investments.length})</h3>
+                {can(Permission.INVESTMENTS_PAYOUT) && (
+                    <Button variant="primary" size="sm" onClick={handleRunPayouts} isLoading={isRunningPayouts}>
+                        <CurrencyDollarIcon className="w-4 h-4 mr-2" />
+                        Run Due Payouts
+                    </Button>
+                )}
+            </div>
+            {payoutMessage && (
+                <div className="mb-4 p-3 rounded-md text-sm bg-primary/10 text-primary border border-primary/30">{payoutMessage}</div>
+            )}
+
+            <div className="overflow-x-auto min-h-[400px]">
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead className="bg-darkblue">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Start</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">User</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Package</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Principal</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Profit Paid</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Periods</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Maturity</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {investments.map(c => (
+                    <tr key={c.id} className="hover:bg-white/[0.01]">
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-gray-500 font-sans tabular-nums">{new Date(c.startDate).toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-gray-300">
+                          <div className="flex flex-col">
+                              <span className="text-white font-medium">{getUserDetails(c.userId).split('(')[0]}</span>
+                              <span className="text-xs text-gray-500">{getUserDetails(c.userId).split('(')[1]?.replace(')','')}</span>
+                          </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-white">{c.planName} <span className="text-gray-500">({c.termDays}d)</span></td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-white font-sans tabular-nums font-bold">Rp {c.principal.toLocaleString('id-ID')}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm font-sans tabular-nums">
+                          <span className="text-success">Rp {c.paidProfit.toLocaleString('id-ID')}</span>
+                          <span className="text-gray-500"> / {c.projectedProfit.toLocaleString('id-ID')}</span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-gray-300 tabular-nums">{c.paidPeriods}/{c.totalPeriods}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-gray-500 font-sans tabular-nums">{new Date(c.maturityDate).toLocaleString()}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${c.status === 'Active' ? 'bg-blue-500/20 text-blue-400' : 'bg-success/20 text-success'}`}>
+                          {c.status}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                  {investments.length === 0 && (
+                      <tr>
+                          <td colSpan={8} className="px-6 py-10 text-center text-gray-500">No investment contracts yet.</td>
+                      </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'settings' && can(Permission.SETTINGS_MANAGE) && (
           <div>
             <h3 className="text-xl font-semibold mb-4 text-white">Company Bank Information for Deposits</h3>
             <div className="space-y-6">
@@ -471,10 +795,117 @@ const AdminPanel: React.FC = () => {
                   Save All Changes
               </Button>
             </div>
+
+            <FeeScheduleSettings />
           </div>
         )}
+
+        {activeTab === 'reconciliation' && can(Permission.TRANSACTIONS_MANAGE) && (
+          <ReconciliationTab users={users} transactions={transactions} onReconciled={loadData} />
+        )}
+
+        {activeTab === 'approvals' && can(Permission.APPROVALS_DECIDE) && (
+          <ApprovalsTab users={users} currentUserId={user.id} onDecided={loadData} />
+        )}
+
+        {activeTab === 'audit' && can(Permission.AUDIT_VIEW) && <AuditLogTab users={users} />}
       </div>
 
+      {proofDeposit && <DepositProofPreview deposit={proofDeposit} onClose={() => setProofDeposit(null)} />}
+
+      {reasonPrompt && (
+        <ReasonModal
+          title={reasonPrompt.title}
+          description={reasonPrompt.description}
+          onConfirm={reasonPrompt.run}
+          onClose={() => setReasonPrompt(null)}
+        />
+      )}
+
+      {/* KYC Review Modal */}
+      {reviewCase && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+              <div className="bg-darkblue2 border border-gray-700 rounded-lg shadow-2xl w-full max-w-3xl overflow-hidden animate-fade-in font-sans">
+                <div className="bg-darkblue p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-white text-lg font-semibold uppercase tracking-wider">
+                        KYC Review: {getUserDetails(reviewCase.userId)}
+                    </h3>
+                    <button onClick={() => setReviewCase(null)} className="text-gray-400 hover:text-white transition-colors">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-6 max-h-[75vh] overflow-y-auto">
+                    {reviewError && (
+                        <div className="bg-danger/20 text-danger p-3 rounded-md text-sm border border-danger/30">{reviewError}</div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+                        {([
+                            ['Full Name', reviewCase.identity.fullName],
+                            ['NIK', reviewCase.identity.idNumber],
+                            ['Place / Date of Birth', `${reviewCase.identity.placeOfBirth}, ${reviewCase.identity.dateOfBirth}`],
+                            ['Address', `${reviewCase.identity.address}, ${reviewCase.identity.city} ${reviewCase.identity.postalCode}`],
+                        ] as const).map(([label, value]) => (
+                            <div key={label}>
+                                <span className="text-gray-500">{label}: </span>
+                                <span className="text-white">{value}</span>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        {([
+                            [KycDocumentType.ID_CARD, 'ID Card (KTP)'],
+                            [KycDocumentType.SELFIE, 'Selfie with ID'],
+                            [KycDocumentType.PROOF_OF_ADDRESS, 'Proof of Address'],
+                        ] as const).map(([type, label]) => {
+                            const doc = reviewCase.documents[type];
+                            return (
+                                <div key={type}>
+                                    <p className="text-xs text-gray-400 uppercase mb-2">{label}</p>
+                                    {!doc ? (
+                                        <p className="text-danger text-sm">Missing</p>
+                                    ) : (
+                                        <KycDocumentView document={doc} label={label} />
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    {reviewCase.status === KycStatus.IN_REVIEW && (
+                        <div>
+                            <label htmlFor="kycRejectionReason" className="block text-gray-300 text-sm font-medium mb-2">Rejection reason (required to reject)</label>
+                            <textarea
+                                id="kycRejectionReason"
+                                className="w-full bg-[#1E2329] border border-gray-700 rounded p-2 text-sm text-white focus:outline-none focus:border-primary"
+                                rows={2}
+                                value={rejectionReason}
+                                onChange={(e) => setRejectionReason(e.target.value)}
+                            />
+                            <div className="mt-3">
+                                <ReasonField id="kycApprovalNote" label="Approval note (required to approve)" value={approvalNote} onChange={setApprovalNote} />
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <div className="p-4 border-t border-gray-700 flex justify-end space-x-3">
+                    {reviewCase.status === KycStatus.SUBMITTED ? (
+                        <Button variant="primary" onClick={() => handleReviewAction('start')} isLoading={reviewLoading}>
+                            Start Review
+                        </Button>
+                    ) : (
+                        <>
+                            <Button variant="danger" onClick={() => handleReviewAction('reject')} disabled={reviewLoading || !rejectionReason.trim()}>
+                                Reject
+                            </Button>
+                            <Button variant="primary" onClick={() => handleReviewAction('approve')} isLoading={reviewLoading} disabled={reviewLoading || !approvalNote.trim()}>
+                                Approve
+                            </Button>
+                        </>
+                    )}
+                </div>
+              </div>
+          </div>
+      )}
+
       {/* Create User Modal */}
       {isCreateModalOpen && (
           <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
@@ -535,36 +966,26 @@ const AdminPanel: React.FC = () => {
                         />
                     </div>
 
-                    <Input 
-                        id="createBalance"
-                        label="Initial Balance (Rp)"
-                        type="number"
-                        icon={<CurrencyDollarIcon />}
-                        value={createData.balance}
-                        onChange={(e) => setCreateData({...createData, balance: e.target.value})}
-                        className="font-sans"
-                    />
+                    {can(Permission.BALANCE_ADJUST) && (
+                        <Input 
+                            id="createBalance"
+                            label="Initial Balance (Rp)"
+                            type="number"
+                            icon={<CurrencyDollarIcon />}
+                            value={createData.balance}
+                            onChange={(e) => setCreateData({...createData, balance: e.target.value})}
+                            className="font-sans"
+                        />
+                    )}
 
-                    <div className="flex flex-col space-y-3 pt-2">
-                        <label className="flex items-center space-x-3 cursor-pointer group">
-                            <input 
-                                type="checkbox"
-                                checked={createData.isAdmin}
-                                onChange={(e) => setCreateData({...createData, isAdmin: e.target.checked})}
-                                className="w-5 h-5 bg-darkblue border-gray-700 rounded text-primary focus:ring-0"
-                            />
-                            <span className="text-sm text-gray-300 group-hover:text-white transition-colors">Make Administrator</span>
-                        </label>
-                        <label className="flex items-center space-x-3 cursor-pointer group">
-                            <input 
-                                type="checkbox"
-                                checked={createData.isVerified}
-                                onChange={(e) => setCreateData({...createData, isVerified: e.target.checked})}
-                                className="w-5 h-5 bg-darkblue border-gray-700 rounded text-primary focus:ring-0"
-                            />
-                            <span className="text-sm text-gray-300 group-hover:text-white transition-colors">Auto-Verify Account</span>
-                        </label>
-                    </div>
+                    {can(Permission.ROLES_MANAGE) && (
+                        <div className="pt-2">
+                            <p className="text-sm font-medium text-gray-400 mb-3">Admin Roles</p>
+                            <RoleSelector value={createData.roles} onChange={(roles) => setCreateData({...createData, roles})} />
+                        </div>
+                    )}
+
+                    <ReasonField id="createReason" value={createReason} onChange={setCreateReason} />
 
                     <div className="mt-8 flex space-x-3 pt-4 border-t border-gray-700">
                         <Button type="button" variant="ghost" fullWidth onClick={() => setIsCreateModalOpen(false)} disabled={createLoading}>
@@ -579,6 +1000,110 @@ const AdminPanel: React.FC = () => {
           </div>
       )}
 
+      {/* Role Modal */}
+      {roleUser && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+          <div className="bg-darkblue2 border border-gray-700 rounded-lg shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in font-sans">
+            <div className="bg-darkblue p-4 border-b border-gray-700 flex justify-between items-center">
+              <h3 className="text-white text-lg font-semibold uppercase tracking-wider">Roles: {roleUser.fullName}</h3>
+              <button onClick={() => setRoleUser(null)} className="text-gray-400 hover:text-white transition-colors">
+                <XMarkIcon className="w-6 h-6" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              {roleError && (
+                <div className="bg-danger/20 text-danger p-3 rounded-md text-sm border border-danger/30">{roleError}</div>
+              )}
+              <RoleSelector value={roleDraft} onChange={setRoleDraft} disabled={roleLoading} />
+              <ReasonField id="roleReason" value={roleReason} onChange={setRoleReason} />
+              <div className="flex space-x-3 pt-4 border-t border-gray-700">
+                <Button type="button" variant="ghost" fullWidth onClick={() => setRoleUser(null)} disabled={roleLoading}>
+                  Cancel
+                </Button>
+                <Button type="button" variant="primary" fullWidth onClick={handleRoleSubmit} isLoading={roleLoading}>
+                  Save Roles
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {limitsUser && <UserLimitsModal user={limitsUser} onClose={() => setLimitsUser(null)} />}
+
+      {/* Ledger Modal */}
+      {ledgerUser && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="bg-darkblue2 border border-gray-700 rounded-lg shadow-2xl w-full max-w-3xl overflow-hidden animate-fade-in font-sans">
+                <div className="bg-darkblue p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-white text-lg font-semibold flex items-center uppercase tracking-wider">
+                        <BookOpenIcon className="w-5 h-5 mr-2 text-primary" />
+                        Ledger - {ledgerUser.fullName}
+                    </h3>
+                    <button onClick={() => setLedgerUser(null)} className="text-gray-400 hover:text-white transition-colors">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="p-6 max-h-[80vh] overflow-y-auto">
+                    {ledgerReconciliation && (
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+                            <div className="bg-darkblue/50 p-4 rounded-lg border border-gray-800">
+                                <p className="text-xs text-gray-500 mb-1 uppercase tracking-widest font-bold">Stored Balance</p>
+                                <p className="text-white font-bold tabular-nums">Rp {ledgerReconciliation.storedBalance.toLocaleString('id-ID')}</p>
+                            </div>
+                            <div className="bg-darkblue/50 p-4 rounded-lg border border-gray-800">
+                                <p className="text-xs text-gray-500 mb-1 uppercase tracking-widest font-bold">Ledger Balance</p>
+                                <p className="text-white font-bold tabular-nums">Rp {ledgerReconciliation.ledgerBalance.toLocaleString('id-ID')}</p>
+                            </div>
+                            <div className={`p-4 rounded-lg border ${ledgerReconciliation.difference === 0 ? 'bg-success/10 border-success/30' : 'bg-danger/10 border-danger/30'}`}>
+                                <p className="text-xs text-gray-500 mb-1 uppercase tracking-widest font-bold">Difference</p>
+                                <p className={`font-bold tabular-nums ${ledgerReconciliation.difference === 0 ? 'text-success' : 'text-danger'}`}>
+                                    Rp {ledgerReconciliation.difference.toLocaleString('id-ID')}
+                                </p>
+                            </div>
+                        </div>
+                    )}
+
+                    <table className="min-w-full divide-y divide-gray-700">
+                        <thead className="bg-darkblue">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Date</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Memo</th>
+                                <th className="px-4 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Debit</th>
+                                <th className="px-4 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Credit</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-800">
+                            {ledgerEntries.map(entry => (
+                                <tr key={entry.id}>
+                                    <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-500 tabular-nums">{new Date(entry.createdAt).toLocaleString()}</td>
+                                    <td className="px-4 py-3 text-xs text-gray-300">
+                                        {entry.memo}
+                                        {entry.transactionId && <span className="block text-gray-600">#{entry.transactionId.substring(0, 8)}</span>}
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-xs text-right text-danger tabular-nums">
+                                        {entry.direction === LedgerDirection.DEBIT ? `Rp ${entry.amount.toLocaleString('id-ID')}` : ''}
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-xs text-right text-success tabular-nums">
+                                        {entry.direction === LedgerDirection.CREDIT ? `Rp ${entry.amount.toLocaleString('id-ID')}` : ''}
+                                    </td>
+                                </tr>
+                            ))}
+                            {ledgerEntries.length === 0 && (
+                                <tr>
+                                    <td colSpan={4} className="px-4 py-10 text-center text-gray-500">
+                                        {ledgerLoading ? 'Loading ledger...' : 'No ledger entries for this account.'}
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        </div>
+      )}
+
       {/* Balance Edit Modal */}
       {isBalanceModalOpen && selectedUserForBalance && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
@@ -646,6 +1171,7 @@ const AdminPanel: React.FC = () => {
                             icon={<CurrencyDollarIcon />}
                             className="font-sans"
                         />
+                        <ReasonField id="balanceReason" value={balanceReason} onChange={setBalanceReason} />
                     </div>
 
                     <div className="mt-10 flex space-x-3">
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { ApprovalRequest, ApprovalType, User } from '../../types';
+import { useTransactions } from '../../context/TransactionContext';
+import Button from '../common/Button';
+import ReasonModal from './ReasonModal';
+
+interface ApprovalsTabProps {
+  users: User[];
+  currentUserId: string;
+  onDecided: () => Promise<void>;
+}
+
+const describeRequest = (request: ApprovalRequest): string => {
+  if (request.type === ApprovalType.BALANCE_ADJUSTMENT) {
+    const { operation, amount, balanceAtRequest } = request.payload;
+    return operation === 'set'
+      ? `Set balance to Rp ${amount.toLocaleString('id-ID')} (was Rp ${balanceAtRequest.toLocaleString('id-ID')})`
+      : `Add Rp ${amount.toLocaleString('id-ID')} to balance (was Rp ${balanceAtRequest.toLocaleString('id-ID')})`;
+  }
+  return `Withdrawal #${request.targetId.substring(0, 8)}...: ${request.payload.fromStatus} → ${request.payload.toStatus}`;
+};
+
+// Antrian maker-checker: permintaan hanya bisa diputuskan oleh admin selain pembuatnya.
+const ApprovalsTab: React.FC<ApprovalsTabProps> = ({ users, currentUserId, onDecided }) => {
+  const { getPendingApprovals, approveRequest, rejectRequest } = useTransactions();
+  const [requests, setRequests] = useState<ApprovalRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [decision, setDecision] = useState<{ request: ApprovalRequest; approve: boolean } | null>(null);
+
+  const loadRequests = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRequests(await getPendingApprovals());
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load approval requests.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRequests();
+  }, []);
+
+  const userLabel = (userId?: string) => {
+    if (!userId) return '-';
+    const u = users.find(x => x.id === userId);
+    return u ? `${u.fullName} (${u.email})` : `${userId.substring(0, 8)}...`;
+  };
+
+  const handleDecision = async (reason: string) => {
+    if (!decision) return;
+    const result = decision.approve
+      ? await approveRequest(decision.request.id, reason)
+      : await rejectRequest(decision.request.id, reason);
+    // Gagal dilempar supaya pesan tampil di modal
+    if (!result.success) throw new Error(result.message);
+    setMessage(result.message);
+    await loadRequests();
+    await onDecided();
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-semibold">Pending Approvals</h3>
+        <Button variant="ghost" size="sm" onClick={loadRequests} isLoading={isLoading}>Refresh</Button>
+      </div>
+
+      {error && <div className="mb-4 p-3 rounded-md text-sm bg-danger/20 text-danger border border-danger/30">{error}</div>}
+      {message && <div className="mb-4 p-3 rounded-md text-sm bg-primary/10 text-primary border border-primary/30">{message}</div>}
+
+      <div className="overflow-x-auto min-h-[300px]">
+        <table className="min-w-full divide-y divide-gray-700">
+          <thead className="bg-darkblue">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Requested</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Maker</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">User</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Action</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Reason</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Decision</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {requests.map(r => {
+              const isOwnRequest = r.makerId === currentUserId || r.targetUserId === currentUserId;
+              return (
+                <tr key={r.id} className="hover:bg-white/[0.01] align-top">
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-500 font-sans tabular-nums">{new Date(r.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-white">{userLabel(r.makerId)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-300">{userLabel(r.targetUserId)}</td>
+                  <td className="px-4 py-3 text-xs text-gray-300">
+                    <div className="text-white font-semibold">Rp {r.amount.toLocaleString('id-ID')}</div>
+                    <div>{describeRequest(r)}</div>
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-300 max-w-xs">{r.reason}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right">
+                    {isOwnRequest ? (
+                      <span className="text-xs text-gray-500">Awaiting another admin</span>
+                    ) : (
+                      <div className="flex justify-end space-x-2">
+                        <Button size="sm" variant="primary" onClick={() => setDecision({ request: r, approve: true })}>Approve</Button>
+                        <Button size="sm" variant="danger" onClick={() => setDecision({ request: r, approve: false })}>Reject</Button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {requests.length === 0 && !isLoading && (
+              <tr>
+                <td colSpan={6} className="px-6 py-10 text-center text-gray-500">No requests are waiting for approval.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {decision && (
+        <ReasonModal
+          title={decision.approve ? 'Approve Request' : 'Reject Request'}
+          description={`${describeRequest(decision.request)} for ${userLabel(decision.request.targetUserId)}.`}
+          onConfirm={handleDecision}
+          onClose={() => setDecision(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ApprovalsTab;
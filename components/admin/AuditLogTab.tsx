@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { AuditAction, AuditLogEntry, AuditLogFilter, User } from '../../types';
+import { useTransactions } from '../../context/TransactionContext';
+import { AUDIT_ACTION_LABELS } from '../../services/auditService';
+import Button from '../common/Button';
+
+interface AuditLogTabProps {
+  users: User[];
+}
+
+const selectClass = 'bg-[#1E2329] border border-gray-700 rounded px-3 py-2 text-sm text-white focus:outline-none focus:border-primary';
+
+const formatValue = (value: Record<string, unknown> | null): string => (value ? JSON.stringify(value) : '-');
+
+const AuditLogTab: React.FC<AuditLogTabProps> = ({ users }) => {
+  const { getAuditLog } = useTransactions();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [actorId, setActorId] = useState('');
+  const [targetUserId, setTargetUserId] = useState('');
+  const [action, setAction] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [search, setSearch] = useState('');
+
+  const loadEntries = async () => {
+    // Tanggal dari input date dibaca sebagai hari penuh waktu lokal
+    const filter: AuditLogFilter = {
+      actorId: actorId || undefined,
+      targetUserId: targetUserId || undefined,
+      action: (action as AuditAction) || undefined,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+      search: search.trim() || undefined,
+    };
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await getAuditLog(filter));
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load audit log.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [actorId, targetUserId, action, fromDate, toDate]);
+
+  const userLabel = (userId?: string) => {
+    if (!userId) return '-';
+    const u = users.find(x => x.id === userId);
+    return u ? `${u.fullName} (${u.email})` : `${userId.substring(0, 8)}...`;
+  };
+
+  return (
+    <div>
+      <h3 className="text-xl font-semibold mb-4">Audit Log</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-4">
+        <select className={selectClass} value={actorId} onChange={(e) => setActorId(e.target.value)}>
+          <option value="">All admins</option>
+          {users.filter(u => u.isAdmin).map(u => <option key={u.id} value={u.id}>{u.fullName}</option>)}
+        </select>
+        <select className={selectClass} value={targetUserId} onChange={(e) => setTargetUserId(e.target.value)}>
+          <option value="">All users</option>
+          {users.map(u => <option key={u.id} value={u.id}>{u.fullName} ({u.email})</option>)}
+        </select>
+        <select className={selectClass} value={action} onChange={(e) => setAction(e.target.value)}>
+          <option value="">All actions</option>
+          {Object.values(AuditAction).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}
+        </select>
+        <input type="date" className={selectClass} value={fromDate} onChange={(e) => setFromDate(e.target.value)} aria-label="From date" />
+        <input type="date" className={selectClass} value={toDate} onChange={(e) => setToDate(e.target.value)} aria-label="To date" />
+        <form
+          className="relative"
+          onSubmit={(e) => { e.preventDefault(); loadEntries(); }}
+        >
+          <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search reason or ID..."
+            className={`${selectClass} w-full pl-9`}
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </form>
+      </div>
+
+      {error && <div className="mb-4 p-3 rounded-md text-sm bg-danger/20 text-danger border border-danger/30">{error}</div>}
+
+      <div className="flex justify-end mb-2">
+        <Button variant="ghost" size="sm" onClick={loadEntries} isLoading={isLoading}>Search</Button>
+      </div>
+
+      <div className="overflow-x-auto min-h-[400px]">
+        <table className="min-w-full divide-y divide-gray-700">
+          <thead className="bg-darkblue">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Time</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Admin</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Action</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Target</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Before</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">After</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Reason</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {entries.map(e => (
+              <tr key={e.id} className="hover:bg-white/[0.01] align-top">
+                <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-500 font-sans tabular-nums">{new Date(e.timestamp).toLocaleString()}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-xs text-white">{userLabel(e.actorId)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-xs text-primary font-semibold">{AUDIT_ACTION_LABELS[e.action] || e.action}</td>
+                <td className="px-4 py-3 text-xs text-gray-300">
+                  <div>{userLabel(e.targetUserId)}</div>
+                  {e.targetId && <div className="text-gray-500">#{e.targetId.substring(0, 8)}...</div>}
+                </td>
+                <td className="px-4 py-3 text-xs text-gray-400 font-mono break-all max-w-xs">{formatValue(e.before)}</td>
+                <td className="px-4 py-3 text-xs text-gray-300 font-mono break-all max-w-xs">{formatValue(e.after)}</td>
+                <td className="px-4 py-3 text-xs text-gray-300 max-w-xs">{e.reason}</td>
+              </tr>
+            ))}
+            {entries.length === 0 && !isLoading && (
+              <tr>
+                <td colSpan={7} className="px-6 py-10 text-center text-gray-500">No audit entries match these filters.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogTab;
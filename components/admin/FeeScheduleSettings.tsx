@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useTransactions } from '../../context/TransactionContext';
+import { FeeSchedule, FeeTier, FeeType } from '../../types';
+import { calculateFee, FEE_CHANNEL_LABELS } from '../../services/feeService';
+import Button from '../common/Button';
+import ReasonModal from './ReasonModal';
+
+const fieldClass = 'w-full bg-[#1E2329] border border-gray-700 rounded px-3 py-2 text-white text-sm outline-none focus:border-primary font-sans tabular-nums';
+
+const FEE_TYPE_LABELS: Record<FeeType, string> = {
+  [FeeType.FLAT]: 'Flat',
+  [FeeType.PERCENTAGE]: 'Percentage',
+  [FeeType.TIERED]: 'Tiered',
+};
+
+// Nominal contoh untuk preview biaya di tiap kartu
+const SAMPLE_AMOUNTS = [100000, 1000000, 10000000];
+
+const toNumber = (value: string): number => (value === '' ? 0 : Number(value));
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: string;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, step = '1' }) => (
+  <label className="block">
+    <span className="block text-gray-400 text-xs mb-1">{label}</span>
+    <input type="number" min="0" step={step} className={fieldClass} value={value} onChange={e => onChange(toNumber(e.target.value))} />
+  </label>
+);
+
+// Jadwal biaya withdrawal & transfer; disimpan bersama dengan satu alasan audit.
+const FeeScheduleSettings: React.FC = () => {
+  const { feeSchedules, setFeeSchedules } = useTransactions();
+  const [drafts, setDrafts] = useState<FeeSchedule[]>(feeSchedules);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  useEffect(() => {
+    setDrafts(feeSchedules);
+  }, [feeSchedules]);
+
+  const update = (index: number, patch: Partial<FeeSchedule>) => {
+    setDrafts(prev => prev.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  const updateTier = (index: number, tierIndex: number, patch: Partial<FeeTier>) => {
+    update(index, { tiers: drafts[index].tiers.map((t, i) => (i === tierIndex ? { ...t, ...patch } : t)) });
+  };
+
+  const changeType = (index: number, type: FeeType) => {
+    const schedule = drafts[index];
+    const tiers = type === FeeType.TIERED && schedule.tiers.length === 0 ? [{ minAmount: 0, flatFee: 0, percentage: 0 }] : schedule.tiers;
+    update(index, { type, tiers });
+  };
+
+  return (
+    <div className="mt-10">
+      <h3 className="text-xl font-semibold mb-1 text-white">Withdrawal & Transfer Fees</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        Fees are charged on top of the amount and shown to members before they submit. A tier applies from its starting amount up to the next tier.
+      </p>
+      <div className="space-y-6">
+        {drafts.map((schedule, index) => (
+          <div key={schedule.channel} className="bg-darkblue p-4 rounded-md border border-gray-700 space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <h4 className="font-semibold text-lg text-white">{FEE_CHANNEL_LABELS[schedule.channel]}</h4>
+              <select
+                className="bg-[#1E2329] border border-gray-700 rounded px-3 py-2 text-white text-sm outline-none focus:border-primary"
+                value={schedule.type}
+                onChange={e => changeType(index, e.target.value as FeeType)}
+              >
+                {Object.values(FeeType).map(type => <option key={type} value={type}>{FEE_TYPE_LABELS[type]}</option>)}
+              </select>
+            </div>
+
+            {schedule.type === FeeType.FLAT && (
+              <NumberField label="Fee (Rp)" value={schedule.flatFee} onChange={flatFee => update(index, { flatFee })} />
+            )}
+
+            {schedule.type === FeeType.PERCENTAGE && (
+              <NumberField label="Percentage (%)" value={schedule.percentage} step="0.01" onChange={percentage => update(index, { percentage })} />
+            )}
+
+            {schedule.type === FeeType.TIERED && (
+              <div className="space-y-2">
+                {schedule.tiers.map((tier, tierIndex) => (
+                  <div key={tierIndex} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+                    <NumberField label="From amount (Rp)" value={tier.minAmount} onChange={minAmount => updateTier(index, tierIndex, { minAmount })} />
+                    <NumberField label="Flat fee (Rp)" value={tier.flatFee} onChange={flatFee => updateTier(index, tierIndex, { flatFee })} />
+                    <NumberField label="Percentage (%)" value={tier.percentage} step="0.01" onChange={percentage => updateTier(index, tierIndex, { percentage })} />
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      className="!p-2 mb-0.5"
+                      onClick={() => update(index, { tiers: schedule.tiers.filter((_, i) => i !== tierIndex) })}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => update(index, { tiers: [...schedule.tiers, { minAmount: 0, flatFee: 0, percentage: 0 }] })}
+                  className="flex items-center text-primary text-sm hover:underline"
+                >
+                  <PlusIcon className="w-4 h-4 mr-1" />
+                  Add tier
+                </button>
+              </div>
+            )}
+
+            {schedule.type !== FeeType.FLAT && (
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField label="Minimum fee (Rp)" value={schedule.minFee} onChange={minFee => update(index, { minFee })} />
+                <NumberField label="Maximum fee (Rp, 0 = none)" value={schedule.maxFee} onChange={maxFee => update(index, { maxFee })} />
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500 font-sans tabular-nums">
+              {SAMPLE_AMOUNTS.map(amount => `Rp ${amount.toLocaleString('id-ID')} → fee Rp ${calculateFee(schedule, amount).toLocaleString('id-ID')}`).join(' · ')}
+            </p>
+          </div>
+        ))}
+      </div>
+      <div className="mt-6 flex justify-end border-t border-gray-700 pt-6">
+        <Button onClick={() => setIsConfirming(true)} variant="primary" size="lg" className="shadow-lg shadow-primary/20">
+          Save Fees
+        </Button>
+      </div>
+
+      {isConfirming && (
+        <ReasonModal
+          title="Update Fee Schedules"
+          description="New fees apply to withdrawals and transfers submitted after saving."
+          onConfirm={async (reason) => {
+            // Saluran FLAT tidak memakai min/max; dikosongkan supaya tidak ikut menghitung
+            await setFeeSchedules(drafts.map(s => (s.type === FeeType.FLAT ? { ...s, minFee: 0, maxFee: 0 } : s)), reason);
+          }}
+          onClose={() => setIsConfirming(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FeeScheduleSettings;
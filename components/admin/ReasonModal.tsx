@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import Button from '../common/Button';
+import { MIN_REASON_LENGTH } from '../../services/auditService';
+
+interface ReasonModalProps {
+  title: string;
+  description?: string;
+  onConfirm: (reason: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Meminta alasan sebelum aksi admin dijalankan; alasan disimpan di audit log.
+const ReasonModal: React.FC<ReasonModalProps> = ({ title, description, onConfirm, onClose }) => {
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleConfirm = async () => {
+    if (reason.trim().length < MIN_REASON_LENGTH) {
+      setError(`Please enter a reason of at least ${MIN_REASON_LENGTH} characters.`);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      await onConfirm(reason.trim());
+      onClose();
+    } catch (e: any) {
+      setError(e?.message || 'Action failed.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-darkblue2 border border-gray-700 rounded-lg shadow-2xl w-full max-w-md overflow-hidden animate-fade-in font-sans">
+        <div className="bg-darkblue p-4 border-b border-gray-700 flex justify-between items-center">
+          <h3 className="text-white text-lg font-semibold uppercase tracking-wider">{title}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          {description && <p className="text-sm text-gray-300">{description}</p>}
+          {error && (
+            <div className="bg-danger/20 text-danger p-3 rounded-md text-sm border border-danger/30">{error}</div>
+          )}
+          <ReasonField id="adminActionReason" value={reason} onChange={setReason} />
+          <div className="flex space-x-3 pt-2">
+            <Button type="button" variant="ghost" fullWidth onClick={onClose} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="button" variant="primary" fullWidth onClick={handleConfirm} isLoading={isLoading}>
+              Confirm
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ReasonFieldProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  label?: string;
+}
+
+export const ReasonField: React.FC<ReasonFieldProps> = ({ id, value, onChange, label = 'Reason (recorded in the audit log)' }) => (
+  <div>
+    <label htmlFor={id} className="block text-gray-300 text-sm font-medium mb-2">{label}</label>
+    <textarea
+      id={id}
+      className="w-full bg-[#1E2329] border border-gray-700 rounded p-2 text-sm text-white focus:outline-none focus:border-primary"
+      rows={2}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  </div>
+);
+
+export default ReasonModal;
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { BankStatementFormat, BankStatementLine, DepositTransaction, ReconciliationResult, Transaction, TransactionStatus, User } from '../../types';
+import { useTransactions } from '../../context/TransactionContext';
+import Button from '../common/Button';
+import ReasonModal, { ReasonField } from './ReasonModal';
+
+interface ReconciliationTabProps {
+  users: User[];
+  transactions: Transaction[];
+  onReconciled: () => Promise<void>;
+}
+
+const isPendingDeposit = (t: Transaction): t is DepositTransaction =>
+  t.type === 'DEPOSIT' && t.status === TransactionStatus.PENDING;
+
+// Impor mutasi rekening: kredit dicocokkan otomatis, sisanya ditinjau di sini.
+const ReconciliationTab: React.FC<ReconciliationTabProps> = ({ users, transactions, onReconciled }) => {
+  const { importBankStatement, getUnmatchedStatementLines, matchStatementLine, ignoreStatementLine } = useTransactions();
+  const [format, setFormat] = useState<BankStatementFormat>(BankStatementFormat.BCA);
+  const [file, setFile] = useState<File | null>(null);
+  const [importReason, setImportReason] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+  const [lines, setLines] = useState<BankStatementLine[]>([]);
+  const [selectedDeposit, setSelectedDeposit] = useState<Record<string, string>>({});
+  const [action, setAction] = useState<{ line: BankStatementLine; depositId?: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const pendingDeposits = transactions.filter(isPendingDeposit);
+
+  const loadLines = async () => {
+    setIsLoading(true);
+    try {
+      setLines(await getUnmatchedStatementLines());
+    } catch (e: any) {
+      setError(e?.message || 'Failed to load statement lines.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLines();
+  }, []);
+
+  const userLabel = (userId: string) => {
+    const u = users.find(x => x.id === userId);
+    return u ? u.fullName : `${userId.substring(0, 8)}...`;
+  };
+
+  const depositLabel = (d: DepositTransaction) =>
+    `Rp ${d.transferAmount.toLocaleString('id-ID')} · ${d.referenceCode || d.id.substring(0, 8)} · ${userLabel(d.userId)}`;
+
+  const handleImport = async () => {
+    if (!file) {
+      setError('Please choose a CSV statement file.');
+      return;
+    }
+    setIsImporting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setResult(await importBankStatement(format, await file.text(), importReason));
+      setImportReason('');
+      await loadLines();
+      await onReconciled();
+    } catch (e: any) {
+      setError(e?.message || 'Failed to import bank statement.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleAction = async (reason: string) => {
+    if (!action) return;
+    const outcome = action.depositId
+      ? await matchStatementLine(action.line.id, action.depositId, reason)
+      : await ignoreStatementLine(action.line.id, reason);
+    // Gagal dilempar supaya pesan tampil di modal
+    if (!outcome.success) throw new Error(outcome.message);
+    setMessage(outcome.message);
+    await loadLines();
+    if (action.depositId) await onReconciled();
+  };
+
+  const actionDeposit = action?.depositId ? pendingDeposits.find(d => d.id === action.depositId) : undefined;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="text-xl font-semibold mb-4">Import Bank Statement</h3>
+        <div className="bg-darkblue p-4 rounded-lg border border-gray-700 space-y-4 max-w-xl">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="statementFormat" className="block text-gray-300 text-sm font-medium mb-2">Bank</label>
+              <select
+                id="statementFormat"
+                className="w-full bg-[#1E2329] border border-gray-700 rounded p-2 text-sm text-white focus:outline-none focus:border-primary"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as BankStatementFormat)}
+              >
+                <option value={BankStatementFormat.BCA}>BCA (KlikBCA CSV)</option>
+                <option value={BankStatementFormat.MANDIRI}>Mandiri (CSV)</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="statementFile" className="block text-gray-300 text-sm font-medium mb-2">Statement file</label>
+              <input
+                id="statementFile"
+                type="file"
+                accept=".csv,text/csv"
+                className="w-full text-sm text-gray-300 file:mr-3 file:py-1.5 file:px-3 file:rounded file:border-0 file:bg-primary/20 file:text-primary"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+          </div>
+          <ReasonField id="statementReason" value={importReason} onChange={setImportReason} />
+          <Button variant="primary" onClick={handleImport} isLoading={isImporting}>Import & Match</Button>
+        </div>
+
+        {result && (
+          <div className="mt-4 p-4 rounded-md text-sm bg-primary/10 border border-primary/30 text-gray-300 max-w-xl">
+            <p>
+              {result.totalCredits} credit line(s): <span className="text-success font-semibold">{result.matched} matched</span>,{' '}
+              <span className="text-primary font-semibold">{result.unmatched} need review</span>, {result.duplicates} already imported.
+              {' '}{result.skippedDebits} debit line(s) skipped.
+            </p>
+            {result.errors.length > 0 && (
+              <ul className="mt-2 text-xs text-danger list-disc list-inside">
+                {result.errors.map(e => <li key={e}>{e}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-semibold">Unmatched Statement Lines</h3>
+          <Button variant="ghost" size="sm" onClick={loadLines} isLoading={isLoading}>Refresh</Button>
+        </div>
+
+        {error && <div className="mb-4 p-3 rounded-md text-sm bg-danger/20 text-danger border border-danger/30">{error}</div>}
+        {message && <div className="mb-4 p-3 rounded-md text-sm bg-primary/10 text-primary border border-primary/30">{message}</div>}
+
+        <div className="overflow-x-auto min-h-[300px]">
+          <table className="min-w-full divide-y divide-gray-700">
+            <thead className="bg-darkblue">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Bank Date</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Bank</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Description</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Amount</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-400 uppercase tracking-wider">Resolve</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {lines.map(line => {
+                // Deposit dengan nominal yang sama ditawarkan lebih dulu
+                const options = [...pendingDeposits].sort((a, b) =>
+                  Number(b.transferAmount === line.amount) - Number(a.transferAmount === line.amount));
+                const selected = selectedDeposit[line.id] || '';
+                return (
+                  <tr key={line.id} className="hover:bg-white/[0.01] align-top">
+                    <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-500 font-sans tabular-nums">{line.bankDate}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-300">{line.format}</td>
+                    <td className="px-4 py-3 text-xs text-gray-300 max-w-xs break-words">{line.description}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-xs text-white font-sans tabular-nums font-bold">Rp {line.amount.toLocaleString('id-ID')}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right">
+                      <div className="flex justify-end items-center space-x-2">
+                        <select
+                          className="bg-[#1E2329] border border-gray-600 text-white text-xs rounded p-1.5 focus:border-primary focus:outline-none max-w-[16rem]"
+                          value={selected}
+                          onChange={(e) => setSelectedDeposit({ ...selectedDeposit, [line.id]: e.target.value })}
+                        >
+                          <option value="">Select pending deposit...</option>
+                          {options.map(d => <option key={d.id} value={d.id}>{depositLabel(d)}</option>)}
+                        </select>
+                        <Button size="sm" variant="primary" disabled={!selected} onClick={() => setAction({ line, depositId: selected })}>Match</Button>
+                        <Button size="sm" variant="ghost" onClick={() => setAction({ line })}>Ignore</Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+              {lines.length === 0 && !isLoading && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-10 text-center text-gray-500">All imported statement lines have been reconciled.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {action && (
+        <ReasonModal
+          title={action.depositId ? 'Match Statement Line' : 'Ignore Statement Line'}
+          description={action.depositId
+            ? `Approve deposit ${actionDeposit ? depositLabel(actionDeposit) : action.depositId} using the bank credit of Rp ${action.line.amount.toLocaleString('id-ID')} on ${action.line.bankDate}.${actionDeposit && actionDeposit.transferAmount !== action.line.amount ? ' Warning: the amounts do not match.' : ''}`
+            : `The credit of Rp ${action.line.amount.toLocaleString('id-ID')} on ${action.line.bankDate} will no longer be offered for matching.`}
+          onConfirm={handleAction}
+          onClose={() => setAction(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationTab;
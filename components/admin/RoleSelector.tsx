@@ -0,0 +1,37 @@
+import React from 'react';
+import { AdminRole } from '../../types';
+import { ROLE_LABELS, ROLE_PERMISSIONS } from '../../services/permissions';
+
+interface RoleSelectorProps {
+  value: AdminRole[];
+  onChange: (roles: AdminRole[]) => void;
+  disabled?: boolean;
+}
+
+const RoleSelector: React.FC<RoleSelectorProps> = ({ value, onChange, disabled }) => {
+  const toggle = (role: AdminRole, checked: boolean) => {
+    onChange(checked ? [...value, role] : value.filter(r => r !== role));
+  };
+
+  return (
+    <div className="flex flex-col space-y-3">
+      {Object.values(AdminRole).map(role => (
+        <label key={role} className="flex items-start space-x-3 cursor-pointer group">
+          <input
+            type="checkbox"
+            checked={value.includes(role)}
+            disabled={disabled}
+            onChange={(e) => toggle(role, e.target.checked)}
+            className="mt-0.5 w-5 h-5 bg-darkblue border-gray-700 rounded text-primary focus:ring-0"
+          />
+          <span>
+            <span className="block text-sm text-gray-300 group-hover:text-white transition-colors">{ROLE_LABELS[role]}</span>
+            <span className="block text-xs text-gray-500">{ROLE_PERMISSIONS[role].join(', ')}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default RoleSelector;
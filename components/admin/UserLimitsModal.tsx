@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { useTransactions } from '../../context/TransactionContext';
+import { LimitedTransactionType, TransactionLimits, TransactionType, User, VerificationLevel } from '../../types';
+import { DEFAULT_LIMITS, LIMIT_FIELDS } from '../../services/limitsService';
+import Button from '../common/Button';
+import { ReasonField } from './ReasonModal';
+
+interface UserLimitsModalProps {
+  user: User;
+  onClose: () => void;
+}
+
+type LimitDraft = Record<keyof TransactionLimits, string>;
+
+const FIELD_LABELS: Record<keyof TransactionLimits, string> = {
+  minPerTransaction: 'Min per transaction (Rp)',
+  maxPerTransaction: 'Max per transaction (Rp)',
+  dailyAmount: 'Daily amount (Rp)',
+  monthlyAmount: 'Monthly amount (Rp)',
+  dailyCount: 'Transactions per day',
+};
+
+const TYPES: LimitedTransactionType[] = [TransactionType.WITHDRAWAL, TransactionType.TRANSFER];
+
+const emptyDraft = (): LimitDraft => ({ minPerTransaction: '', maxPerTransaction: '', dailyAmount: '', monthlyAmount: '', dailyCount: '' });
+
+// Limit khusus per user; kolom kosong memakai limit global level verifikasinya.
+const UserLimitsModal: React.FC<UserLimitsModalProps> = ({ user, onClose }) => {
+  const { getUserLimitOverrides, setUserLimitOverride } = useTransactions();
+  const [type, setType] = useState<LimitedTransactionType>(TransactionType.WITHDRAWAL);
+  const [drafts, setDrafts] = useState<Record<LimitedTransactionType, LimitDraft>>({
+    [TransactionType.WITHDRAWAL]: emptyDraft(),
+    [TransactionType.TRANSFER]: emptyDraft(),
+  });
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const level = user.isVerified ? VerificationLevel.VERIFIED : VerificationLevel.BASIC;
+  const defaults = DEFAULT_LIMITS[level][type];
+
+  useEffect(() => {
+    getUserLimitOverrides(user.id)
+      .then(overrides => {
+        const next = { [TransactionType.WITHDRAWAL]: emptyDraft(), [TransactionType.TRANSFER]: emptyDraft() };
+        for (const override of overrides) {
+          for (const field of LIMIT_FIELDS) {
+            const value = override.limits[field];
+            if (value !== undefined) next[override.type][field] = String(value);
+          }
+        }
+        setDrafts(next);
+      })
+      .catch((e: any) => setError(e?.message || 'Failed to load limits.'));
+  }, [getUserLimitOverrides, user.id]);
+
+  const setField = (field: keyof TransactionLimits, value: string) => {
+    setDrafts(prev => ({ ...prev, [type]: { ...prev[type], [field]: value.replace(/\D/g, '') } }));
+  };
+
+  const save = async (limits: Partial<TransactionLimits> | null) => {
+    setIsLoading(true);
+    setError(null);
+    const result = await setUserLimitOverride(user.id, type, limits, reason);
+    setIsLoading(false);
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    onClose();
+  };
+
+  const handleSave = () => {
+    const limits: Partial<TransactionLimits> = {};
+    for (const field of LIMIT_FIELDS) {
+      if (drafts[type][field] !== '') limits[field] = parseInt(drafts[type][field], 10);
+    }
+    save(limits);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-darkblue2 border border-gray-700 rounded-lg shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in font-sans">
+        <div className="bg-darkblue p-4 border-b border-gray-700 flex justify-between items-center">
+          <h3 className="text-white text-lg font-semibold uppercase tracking-wider">Limits: {user.fullName}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-danger/20 text-danger p-3 rounded-md text-sm border border-danger/30">{error}</div>
+          )}
+          <div className="flex space-x-2">
+            {TYPES.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setType(option)}
+                className={`px-3 py-1.5 rounded text-xs font-medium ${type === option ? 'bg-primary text-white' : 'bg-darkblue text-gray-400 border border-gray-700'}`}
+              >
+                {option === TransactionType.WITHDRAWAL ? 'Withdrawal' : 'Transfer'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">
+            Level: {level === VerificationLevel.VERIFIED ? 'KYC verified' : 'Basic'}. Leave a field empty to use the default shown.
+          </p>
+          <div className="space-y-3">
+            {LIMIT_FIELDS.map(field => (
+              <div key={field} className="flex items-center justify-between">
+                <label htmlFor={`limit-${field}`} className="text-sm text-gray-300">{FIELD_LABELS[field]}</label>
+                <input
+                  id={`limit-${field}`}
+                  type="text"
+                  inputMode="numeric"
+                  className="w-44 bg-[#1E2329] border border-gray-700 rounded px-3 py-1.5 text-white text-sm text-right outline-none focus:border-primary font-sans tabular-nums"
+                  placeholder={defaults[field].toLocaleString('id-ID')}
+                  value={drafts[type][field]}
+                  onChange={e => setField(field, e.target.value)}
+                  disabled={isLoading}
+                />
+              </div>
+            ))}
+          </div>
+          <ReasonField id="limitsReason" value={reason} onChange={setReason} />
+          <div className="flex space-x-3 pt-4 border-t border-gray-700">
+            <Button type="button" variant="ghost" fullWidth onClick={() => save(null)} disabled={isLoading}>
+              Reset to Default
+            </Button>
+            <Button type="button" variant="primary" fullWidth onClick={handleSave} isLoading={isLoading}>
+              Save Limits
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserLimitsModal;
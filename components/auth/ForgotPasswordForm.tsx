@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { EnvelopeIcon } from '@heroicons/react/24/outline';
+import Input from '../common/Input';
+import { useAuth } from '../../context/AuthContext';
+
+const ForgotPasswordForm: React.FC = () => {
+  const { requestPasswordReset } = useAuth();
+  const navigate = useNavigate();
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/\S+@\S+\.\S+/.test(email.trim())) {
+      setEmailError('Enter the email address of your account.');
+      return;
+    }
+    setIsSubmitting(true);
+    await requestPasswordReset(email);
+    setIsSubmitting(false);
+    // Selalu lanjut ke halaman reset, terdaftar atau tidak
+    navigate(`/reset-password?email=${encodeURIComponent(email.trim())}`);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="text-center mb-8">
+        <h1 className="text-2xl font-bold tracking-wide text-white">Forgot Password</h1>
+        <p className="text-gray-300 mt-2 text-sm">
+          Enter your account email and we'll send you a reset code. The code expires after a short time.
+        </p>
+      </div>
+
+      <Input
+        id="resetEmail"
+        label="Email Address"
+        type="email"
+        placeholder="you@example.com"
+        autoComplete="email"
+        icon={<EnvelopeIcon />}
+        value={email}
+        onChange={(e) => { setEmail(e.target.value); setEmailError(undefined); }}
+        error={emailError}
+        className="bg-slate-700/50 border-gray-600 focus:border-blue-500"
+      />
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className={`w-full py-3 px-4 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-lg transition duration-200 shadow-lg shadow-blue-600/20 ${
+          isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
+        }`}
+      >
+        {isSubmitting ? 'Sending...' : 'Send Reset Code'}
+      </button>
+
+      <p className="text-center text-gray-400 text-sm">
+        <Link to="/" className="text-blue-500 hover:text-blue-400 font-semibold">
+          Back to login
+        </Link>
+      </p>
+    </form>
+  );
+};
+
+export default ForgotPasswordForm;
@@ -1,20 +1,28 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { EnvelopeIcon, LockClosedIcon, PhoneIcon } from '@heroicons/react/24/outline';
+import { EnvelopeIcon, LockClosedIcon, PhoneIcon, ShieldCheckIcon, UserIcon } from '@heroicons/react/24/outline';
 import Input from '../common/Input';
 import Button from '../common/Button';
 import { useAuth } from '../../context/AuthContext';
+import { config } from '../../config';
+import { AuthStatus } from '../../types';
 
 const LoginForm: React.FC = () => {
-  const [identifier, setIdentifier] = useState(''); // Can be email or phone number
+  const [identifier, setIdentifier] = useState(''); // Email, phone number or username
   const [password, setPassword] = useState('');
   const [errors, setErrors] = useState<{ identifier?: string; password?: string; api?: string }>({});
-  const { login, isLoading, error } = useAuth();
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const { login, verifyTwoFactorLogin, logout, status, isLoading, error, unverifiedEmail } = useAuth();
   const navigate = useNavigate();
 
+  // `error` dari context baru terisi setelah render berikutnya
+  useEffect(() => {
+    if (error && status === AuthStatus.UNAUTHENTICATED) setErrors(prev => ({ ...prev, api: error }));
+  }, [error, status]);
+
   const validate = () => {
     const newErrors: typeof errors = {};
-    if (!identifier) newErrors.identifier = 'Email or Phone Number is required.';
+    if (!identifier.trim()) newErrors.identifier = 'Email, phone number or username is required.';
     if (!password) newErrors.password = 'Password is required.';
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -27,11 +35,69 @@ const LoginForm: React.FC = () => {
     const success = await login(identifier, password); 
     if (success) {
       navigate('/'); // Navigate to dashboard on successful login
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorCode.trim()) return;
+    const success = await verifyTwoFactorLogin(twoFactorCode.trim());
+    if (success) {
+      navigate('/');
     } else {
-      setErrors(prev => ({ ...prev, api: error || 'Login failed. Please try again.' }));
+      setTwoFactorCode('');
     }
   };
 
+  // Langkah kedua: password sudah benar, minta kode authenticator atau recovery code
+  if (status === AuthStatus.TWO_FACTOR_REQUIRED) {
+    return (
+      <form onSubmit={handleTwoFactorSubmit} className="space-y-6">
+        <div className="text-center mb-8">
+          <h1 className="text-2xl font-bold tracking-wide text-white">Two-Factor Authentication</h1>
+          <p className="text-gray-300 mt-2 text-sm">
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500 text-red-500 p-3 rounded-md text-sm text-center">
+            {error}
+          </div>
+        )}
+
+        <Input
+          id="twoFactorCode"
+          label="Authentication Code"
+          type="text"
+          placeholder="123456"
+          autoComplete="one-time-code"
+          autoFocus
+          icon={<ShieldCheckIcon />}
+          value={twoFactorCode}
+          onChange={(e) => setTwoFactorCode(e.target.value)}
+          className="bg-slate-700/50 border-gray-600 focus:border-blue-500"
+        />
+
+        <button
+          type="submit"
+          disabled={isLoading || !twoFactorCode.trim()}
+          className={`w-full py-3 px-4 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-lg transition duration-200 shadow-lg shadow-blue-600/20 ${
+            isLoading ? 'opacity-70 cursor-not-allowed' : ''
+          }`}
+        >
+          {isLoading ? 'Verifying...' : 'Verify'}
+        </button>
+
+        <p className="text-center text-gray-400 text-sm">
+          <button type="button" onClick={() => logout()} className="text-blue-500 hover:text-blue-400 font-semibold">
+            Back to login
+          </button>
+        </p>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <div className="text-center mb-8">
@@ -44,16 +110,22 @@ const LoginForm: React.FC = () => {
       {errors.api && (
         <div className="bg-red-500/10 border border-red-500 text-red-500 p-3 rounded-md text-sm text-center">
           {errors.api}
+          {unverifiedEmail && (
+            <Link to={`/verify-email?email=${encodeURIComponent(unverifiedEmail)}`} className="block mt-2 text-blue-500 hover:text-blue-400 font-semibold">
+              Verify email
+            </Link>
+          )}
         </div>
       )}
 
       <div className="space-y-4">
         <Input
           id="identifier"
-          label="Email Address"
+          label="Email, Phone Number or Username"
           type="text"
-          placeholder="Enter your email"
-          icon={identifier.includes('@') || identifier === '' ? <EnvelopeIcon /> : <PhoneIcon />}
+          placeholder="you@example.com / 0812xxxxxxx / username"
+          autoComplete="username"
+          icon={identifier.includes('@') || identifier === '' ? <EnvelopeIcon /> : /^\+?[\d\s-]+$/.test(identifier) ? <PhoneIcon /> : <UserIcon />}
           value={identifier}
           onChange={(e) => {
             setIdentifier(e.target.value);
@@ -102,12 +174,14 @@ const LoginForm: React.FC = () => {
         <hr className="flex-grow border-gray-700" />
       </div>
 
-      <p className="text-center text-gray-400 text-sm">
-        Don't have an account?{' '}
-        <Link to="/register" className="text-blue-500 hover:text-blue-400 font-semibold ml-1">
-          Register Now
-        </Link>
-      </p>
+      {config.features.registration && (
+        <p className="text-center text-gray-400 text-sm">
+          Don't have an account?{' '}
+          <Link to="/register" className="text-blue-500 hover:text-blue-400 font-semibold ml-1">
+            Register Now
+          </Link>
+        </p>
+      )}
     </form>
   );
 };
@@ -5,6 +5,7 @@ import { EnvelopeIcon, LockClosedIcon, PhoneIcon, UserIcon, InformationCircleIco
 import Input from '../common/Input';
 import Button from '../common/Button';
 import { useAuth } from '../../context/AuthContext';
+import { normalizePhoneNumber } from '../../services/identifier';
 
 const RegisterForm: React.FC = () => {
   const [fullName, setFullName] = useState('');
@@ -25,6 +26,7 @@ const RegisterForm: React.FC = () => {
     if (!email) newErrors.email = 'Email wajib diisi.';
     else if (!/\S+@\S+\.\S+/.test(email)) newErrors.email = 'Format email tidak valid.';
     if (!phoneNumber) newErrors.phoneNumber = 'Nomor Telepon wajib diisi.';
+    else if (!normalizePhoneNumber(phoneNumber)) newErrors.phoneNumber = 'Nomor Telepon tidak valid (contoh: 08123456789).';
     if (!password) newErrors.password = 'Password wajib diisi.';
     else if (password.length < 6) newErrors.password = 'Password minimal 6 karakter.';
     if (password !== confirmPassword) newErrors.confirmPassword = 'Konfirmasi password tidak cocok.';
@@ -37,7 +39,7 @@ const RegisterForm: React.FC = () => {
     e.preventDefault();
     if (!validate()) return;
 
-    const userData: Omit<User, 'id' | 'username' | 'isAdmin' | 'isVerified' | 'balance' | 'notifications' | 'profilePictureUrl'> & { password: string } = {
+    const userData: Omit<User, 'id' | 'username' | 'isAdmin' | 'roles' | 'isVerified' | 'emailVerified' | 'balance' | 'notifications' | 'profilePictureUrl'> & { password: string } = {
       fullName,
       email,
       phoneNumber,
@@ -57,10 +59,13 @@ const RegisterForm: React.FC = () => {
            <InformationCircleIcon className="w-16 h-16 mx-auto mb-4" />
            <h2 className="text-2xl font-bold mb-2">Pendaftaran Berhasil!</h2>
            <p className="text-sm leading-relaxed">
-             Silakan periksa kotak masuk email Anda (**{email}**) untuk mengonfirmasi akun sebelum login. 
-             Jika link verifikasi tidak muncul, periksa folder Spam.
+             Kode verifikasi telah dikirim ke email Anda (**{email}**). Masukkan kode tersebut untuk mengonfirmasi akun sebelum login.
+             Jika email tidak muncul, periksa folder Spam.
            </p>
         </div>
+        <Link to={`/verify-email?email=${encodeURIComponent(email.trim())}`} className="block mb-4 text-primary font-bold hover:underline">
+          Masukkan Kode Verifikasi
+        </Link>
         <Link to="/" className="text-primary font-bold hover:underline">
           Kembali ke Halaman Login
         </Link>
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { EnvelopeIcon, KeyIcon, LockClosedIcon } from '@heroicons/react/24/outline';
+import Input from '../common/Input';
+import { useAuth } from '../../context/AuthContext';
+import { validateNewPassword } from '../../services/authService';
+
+const ResetPasswordForm: React.FC = () => {
+  const { resetPassword, requestPasswordReset } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [email, setEmail] = useState(searchParams.get('email') || '');
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<{ [key: string]: string | undefined }>({});
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+
+  const validate = () => {
+    const newErrors: typeof errors = {};
+    if (!email.trim()) newErrors.email = 'Email is required.';
+    if (!code.trim()) newErrors.code = 'Enter the code from the reset email.';
+    newErrors.newPassword = validateNewPassword(newPassword) || undefined;
+    if (newPassword !== confirmPassword) newErrors.confirmPassword = 'Passwords do not match.';
+    setErrors(newErrors);
+    return Object.values(newErrors).every(v => !v);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    if (!validate()) return;
+    setIsSubmitting(true);
+    const result = await resetPassword(email, code, newPassword);
+    setIsSubmitting(false);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    if (result.success) setIsDone(true);
+  };
+
+  const handleResend = async () => {
+    if (!email.trim()) {
+      setErrors(prev => ({ ...prev, email: 'Email is required.' }));
+      return;
+    }
+    await requestPasswordReset(email);
+    setMessage({ type: 'success', text: 'If the email is registered, a new reset code has been sent.' });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="text-center mb-6">
+        <h1 className="text-2xl font-bold tracking-wide text-white">Reset Password</h1>
+        <p className="text-gray-300 mt-2 text-sm">
+          If the email is registered, we've sent a reset code to it. Enter the code and choose a new password.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-md text-sm text-center border ${
+          message.type === 'success' ? 'bg-success/10 border-success text-success' : 'bg-red-500/10 border-red-500 text-red-500'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {!isDone && (
+        <>
+          <Input
+            id="resetEmail"
+            label="Email Address"
+            type="email"
+            icon={<EnvelopeIcon />}
+            value={email}
+            onChange={(e) => { setEmail(e.target.value); setErrors(prev => ({ ...prev, email: undefined })); }}
+            error={errors.email}
+            className="bg-slate-700/50 border-gray-600 focus:border-blue-500"
+          />
+          <Input
+            id="resetCode"
+            label="Reset Code"
+            type="text"
+            placeholder="123456"
+            autoComplete="one-time-code"
+            icon={<KeyIcon />}
+            value={code}
+            onChange={(e) => { setCode(e.target.value); setErrors(prev => ({ ...prev, code: undefined })); }}
+            error={errors.code}
+            className="bg-slate-700/50 border-gray-600 focus:border-blue-500"
+          />
+          <Input
+            id="newPassword"
+            label="New Password"
+            type="password"
+            autoComplete="new-password"
+            icon={<LockClosedIcon />}
+            value={newPassword}
+            onChange={(e) => { setNewPassword(e.target.value); setErrors(prev => ({ ...prev, newPassword: undefined })); }}
+            error={errors.newPassword}
+            className="bg-slate-700/50 border-gray-600 focus:border-blue-500"
+          />
+          <Input
+            id="confirmNewPassword"
+            label="Confirm New Password"
+            type="password"
+            autoComplete="new-password"
+            icon={<LockClosedIcon />}
+            value={confirmPassword}
+            onChange={(e) => { setConfirmPassword(e.target.value); setErrors(prev => ({ ...prev, confirmPassword: undefined })); }}
+            error={errors.confirmPassword}
+            className="bg-slate-700/50 border-gray-600 focus:border-blue-500"
+          />
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className={`w-full py-3 px-4 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-lg transition duration-200 shadow-lg shadow-blue-600/20 ${
+              isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
+            }`}
+          >
+            {isSubmitting ? 'Resetting...' : 'Reset Password'}
+          </button>
+
+          <p className="text-center text-gray-400 text-sm">
+            Didn't get a code?{' '}
+            <button type="button" onClick={handleResend} className="text-blue-500 hover:text-blue-400 font-semibold">
+              Send again
+            </button>
+          </p>
+        </>
+      )}
+
+      <p className="text-center text-gray-400 text-sm">
+        <Link to="/" className="text-blue-500 hover:text-blue-400 font-semibold">
+          Back to login
+        </Link>
+      </p>
+    </form>
+  );
+};
+
+export default ResetPasswordForm;
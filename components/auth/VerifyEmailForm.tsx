@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { EnvelopeIcon, KeyIcon } from '@heroicons/react/24/outline';
+import Input from '../common/Input';
+import { useAuth } from '../../context/AuthContext';
+import { RESEND_COOLDOWN_SECONDS } from '../../services/emailVerificationService';
+
+const VerifyEmailForm: React.FC = () => {
+  const { user, confirmEmail, resendVerificationEmail } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [email, setEmail] = useState(searchParams.get('email') || user?.email || '');
+  const [code, setCode] = useState('');
+  const [errors, setErrors] = useState<{ [key: string]: string | undefined }>({});
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [cooldown, setCooldown] = useState(0);
+
+  useEffect(() => {
+    if (cooldown <= 0) return;
+    const timer = setTimeout(() => setCooldown(c => c - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const validate = () => {
+    const newErrors: typeof errors = {};
+    if (!email.trim()) newErrors.email = 'Email is required.';
+    if (!code.trim()) newErrors.code = 'Enter the code from the verification email.';
+    setErrors(newErrors);
+    return Object.values(newErrors).every(v => !v);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    if (!validate()) return;
+    setIsSubmitting(true);
+    const result = await confirmEmail(email, code);
+    setIsSubmitting(false);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    if (result.success) setIsDone(true);
+  };
+
+  const handleResend = async () => {
+    if (!email.trim()) {
+      setErrors(prev => ({ ...prev, email: 'Email is required.' }));
+      return;
+    }
+    const result = await resendVerificationEmail(email);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    setCooldown(result.retryAfterSeconds || RESEND_COOLDOWN_SECONDS);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="text-center mb-6">
+        <h1 className="text-2xl font-bold tracking-wide text-white">Verify Email</h1>
+        <p className="text-gray-300 mt-2 text-sm">
+          Enter the verification code we sent to your email. Deposits, withdrawals, transfers and trading unlock once your email is verified.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded-md text-sm text-center border ${
+          message.type === 'success' ? 'bg-success/10 border-success text-success' : 'bg-red-500/10 border-red-500 text-red-500'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      {!isDone && (
+        <>
+          <Input
+            id="verifyEmail"
+            label="Email Address"
+            type="email"
+            icon={<EnvelopeIcon />}
+            value={email}
+            onChange={(e) => { setEmail(e.target.value); setErrors(prev => ({ ...prev, email: undefined })); }}
+            error={errors.email}
+            className="bg-slate-700/50 border-gray-600 focus:border-blue-500"
+          />
+          <Input
+            id="verifyCode"
+            label="Verification Code"
+            type="text"
+            placeholder="123456"
+            autoComplete="one-time-code"
+            icon={<KeyIcon />}
+            value={code}
+            onChange={(e) => { setCode(e.target.value); setErrors(prev => ({ ...prev, code: undefined })); }}
+            error={errors.code}
+            className="bg-slate-700/50 border-gray-600 focus:border-blue-500"
+          />
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className={`w-full py-3 px-4 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-lg transition duration-200 shadow-lg shadow-blue-600/20 ${
+              isSubmitting ? 'opacity-70 cursor-not-allowed' : ''
+            }`}
+          >
+            {isSubmitting ? 'Verifying...' : 'Verify Email'}
+          </button>
+
+          <p className="text-center text-gray-400 text-sm">
+            Didn't get a code?{' '}
+            <button
+              type="button"
+              onClick={handleResend}
+              disabled={cooldown > 0}
+              className="text-blue-500 hover:text-blue-400 font-semibold disabled:text-gray-500 disabled:cursor-not-allowed"
+            >
+              {cooldown > 0 ? `Send again in ${cooldown}s` : 'Send again'}
+            </button>
+          </p>
+        </>
+      )}
+
+      <p className="text-center text-gray-400 text-sm">
+        <Link to="/" className="text-blue-500 hover:text-blue-400 font-semibold">
+          {user ? 'Back to dashboard' : 'Back to login'}
+        </Link>
+      </p>
+    </form>
+  );
+};
+
+export default VerifyEmailForm;
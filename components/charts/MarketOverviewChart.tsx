@@ -1,82 +1,51 @@
-import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { MOCK_OHLC_DATA } from '../../constants';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ComposedChart, LineChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { MagnifyingGlassPlusIcon, MagnifyingGlassMinusIcon, ForwardIcon } from '@heroicons/react/24/outline';
+import { useCandles } from '../../hooks/useCandles';
+import { Timeframe, TIMEFRAME_MS } from '../../services/priceFeed';
+import { sma, ema, bollingerBands, rsi } from '../../services/indicators';
 
-// Custom Shape for Candlestick
+type IndicatorKey = 'sma' | 'ema' | 'bollinger' | 'rsi';
+
+const INDICATORS: { key: IndicatorKey; label: string; color: string }[] = [
+  { key: 'sma', label: 'SMA 20', color: '#F0B90B' },
+  { key: 'ema', label: 'EMA 9', color: '#A855F7' },
+  { key: 'bollinger', label: 'BB 20,2', color: '#3B82F6' },
+  { key: 'rsi', label: 'RSI 14', color: '#00C0EF' },
+];
+
+const TIMEFRAMES = Object.keys(TIMEFRAME_MS) as Timeframe[];
+
+const MIN_VISIBLE_CANDLES = 15;
+const DEFAULT_VISIBLE_CANDLES = 60;
+
+// Custom Shape for Candlestick: `y`/`height` adalah kotak piksel dari high ke low
 const Candlestick = (props: any) => {
-  const {
-    x,
-    y,
-    width,
-    height,
-    low,
-    high,
-    open,
-    close,
-  } = props;
-
-  const isBullish = close > open;
+  const { x, y, width, height, low, high, open, close } = props;
+
+  const isBullish = close >= open;
   const color = isBullish ? '#10B981' : '#EF4444'; // Green (Success) or Red (Danger)
-  const ratio = Math.abs(height / (high - low));
-
-  // Calculate positions
-  // Note: y is the top position of the bar in pixels
-  // We need to map prices to pixels. 
-  // Recharts passes the scaled values for y if we bind data properly, 
-  // but for custom shapes, it often passes the bounding box of the "bar" value.
-  // Instead, we can calculate offsets relative to the high/low passed in.
-  
-  // However, simpler math with Recharts custom shape:
-  // The `y` prop usually corresponds to the top of the plotted value. 
-  // If we plot [min, max], `y` is the pixel of `max`, and `height` is `pixel(min) - pixel(max)`.
-  
-  // Let's calculate pixel positions manually based on the YAxis scale provided by Recharts context if available,
-  // OR assume the dataKey was [low, high].
-  
-  // Better Approach for Recharts Candlestick:
-  // The `y` received is the top pixel. `height` is the height of the bar [low, high].
-  // We need to draw the body [open, close] and wick [high, low] inside this box.
-  
-  // Pixel coordinate of Top Price (High) = y
-  // Pixel coordinate of Bottom Price (Low) = y + height
-  // Range = High - Low
-  
-  const pixelHeight = height;
   const priceRange = high - low;
-  
-  if (priceRange === 0) return null;
+  const centerX = x + width / 2;
 
-  const priceToPixel = (price: number) => {
-    // Relative to the High (which is at 'y')
-    const diffFromHigh = high - price;
-    return y + (diffFromHigh / priceRange) * pixelHeight;
-  };
+  if (priceRange === 0) {
+    return <line x1={x} y1={y} x2={x + width} y2={y} stroke={color} strokeWidth={1} />;
+  }
 
+  const priceToPixel = (price: number) => y + ((high - price) / priceRange) * height;
   const yOpen = priceToPixel(open);
   const yClose = priceToPixel(close);
-  const yHigh = y;
-  const yLow = y + height;
-
-  const bodyTop = Math.min(yOpen, yClose);
-  const bodyHeight = Math.abs(yOpen - yClose);
 
   return (
     <g>
       {/* Wick (Line from High to Low) */}
-      <line
-        x1={x + width / 2}
-        y1={yHigh}
-        x2={x + width / 2}
-        y2={yLow}
-        stroke={color}
-        strokeWidth={1}
-      />
+      <line x1={centerX} y1={y} x2={centerX} y2={y + height} stroke={color} strokeWidth={1} />
       {/* Body (Rect from Open to Close) */}
       <rect
         x={x}
-        y={bodyTop}
+        y={Math.min(yOpen, yClose)}
         width={width}
-        height={Math.max(bodyHeight, 1)} // Ensure at least 1px visibility
+        height={Math.max(Math.abs(yOpen - yClose), 1)} // Ensure at least 1px visibility
         fill={color}
         stroke={color}
       />
@@ -84,73 +53,241 @@ const Candlestick = (props: any) => {
   );
 };
 
-const CustomTooltip = ({ active, payload, label }: any) => {
-  if (active && payload && payload.length) {
-    const data = payload[0].payload;
-    return (
-      <div className="bg-gray-800 border border-gray-700 p-2 rounded shadow-lg text-xs">
-        <p className="text-gray-400 mb-1">{`Time: ${data.time}`}</p>
-        <p className="text-green-400">{`Open: ${data.open.toFixed(2)}`}</p>
-        <p className="text-blue-400">{`High: ${data.high.toFixed(2)}`}</p>
-        <p className="text-red-400">{`Low: ${data.low.toFixed(2)}`}</p>
-        <p className="text-yellow-400">{`Close: ${data.close.toFixed(2)}`}</p>
-      </div>
-    );
-  }
-  return null;
+const formatTime = (time: number, timeframe: Timeframe) => {
+  const date = new Date(time);
+  return timeframe === '1d'
+    ? date.toLocaleDateString('id-ID', { day: '2-digit', month: 'short' })
+    : date.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
 };
 
-const MarketOverviewChart: React.FC = () => {
-  // Prepare data for Recharts
-  // Recharts doesn't take [low, high] natively in Bar dataKey.
-  // We need to construct a data array where we pass full objects.
-  
-  // We calculate domain min/max for YAxis
-  const minPrice = Math.min(...MOCK_OHLC_DATA.map(d => d.low));
-  const maxPrice = Math.max(...MOCK_OHLC_DATA.map(d => d.high));
-  const padding = (maxPrice - minPrice) * 0.1;
+interface MarketOverviewChartProps {
+  symbol: string;
+  decimals?: number;
+}
+
+const MarketOverviewChart: React.FC<MarketOverviewChartProps> = ({ symbol, decimals = 2 }) => {
+  const [timeframe, setTimeframe] = useState<Timeframe>('1m');
+  const [enabled, setEnabled] = useState<Record<IndicatorKey, boolean>>({ sma: true, ema: false, bollinger: false, rsi: true });
+  const [visibleCount, setVisibleCount] = useState(DEFAULT_VISIBLE_CANDLES);
+  // Jumlah candle terbaru yang digeser keluar ke kanan; 0 = mengikuti harga live.
+  const [offset, setOffset] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; offset: number } | null>(null);
+  const { candles, isLoading, error } = useCandles(symbol, timeframe);
+
+  const rows = useMemo(() => {
+    const closes = candles.map(c => c.close);
+    const smaValues = sma(closes, 20);
+    const emaValues = ema(closes, 9);
+    const bands = bollingerBands(closes, 20, 2);
+    const rsiValues = rsi(closes, 14);
+    return candles.map((c, i) => ({
+      ...c,
+      sma: smaValues[i],
+      ema: emaValues[i],
+      bbUpper: bands[i]?.upper ?? null,
+      bbMiddle: bands[i]?.middle ?? null,
+      bbLower: bands[i]?.lower ?? null,
+      rsi: rsiValues[i],
+    }));
+  }, [candles]);
+
+  const count = Math.max(Math.min(visibleCount, rows.length), 1);
+  const maxOffset = Math.max(rows.length - count, 0);
+  const currentOffset = Math.min(offset, maxOffset);
+  const end = rows.length - currentOffset;
+  const visible = rows.slice(Math.max(end - count, 0), end);
+
+  const priceValues = visible.flatMap(r => [
+    r.low,
+    r.high,
+    ...(enabled.bollinger && r.bbUpper !== null && r.bbLower !== null ? [r.bbUpper, r.bbLower] : []),
+  ]);
+  const minPrice = Math.min(...priceValues);
+  const maxPrice = Math.max(...priceValues);
+  const padding = (maxPrice - minPrice) * 0.1 || maxPrice * 0.001;
+
+  const zoom = (factor: number) => {
+    setVisibleCount(c => Math.min(Math.max(Math.round(c * factor), MIN_VISIBLE_CANDLES), Math.max(rows.length, MIN_VISIBLE_CANDLES)));
+  };
+
+  // Listener wheel native karena onWheel React bersifat passive dan tidak bisa preventDefault.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoom(e.deltaY > 0 ? 1.15 : 1 / 1.15);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [rows.length]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = { x: e.clientX, offset: currentOffset };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current || !containerRef.current) return;
+    const candleWidth = containerRef.current.clientWidth / count;
+    const shifted = Math.round(dragRef.current.offset + (e.clientX - dragRef.current.x) / candleWidth);
+    setOffset(Math.min(Math.max(shifted, 0), maxOffset));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const changeTimeframe = (tf: Timeframe) => {
+    setTimeframe(tf);
+    setOffset(0);
+  };
+
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      return (
+        <div className="bg-gray-800 border border-gray-700 p-2 rounded shadow-lg text-xs font-sans tabular-nums">
+          <p className="text-gray-400 mb-1">{new Date(data.time).toLocaleString('id-ID')}</p>
+          <p className="text-green-400">{`Open: ${data.open.toFixed(decimals)}`}</p>
+          <p className="text-blue-400">{`High: ${data.high.toFixed(decimals)}`}</p>
+          <p className="text-red-400">{`Low: ${data.low.toFixed(decimals)}`}</p>
+          <p className="text-yellow-400">{`Close: ${data.close.toFixed(decimals)}`}</p>
+          {enabled.rsi && data.rsi !== null && <p className="text-cyan-400">{`RSI: ${data.rsi.toFixed(1)}`}</p>}
+        </div>
+      );
+    }
+    return null;
+  };
 
   return (
-    <ResponsiveContainer width="100%" height="100%">
-      <BarChart
-        data={MOCK_OHLC_DATA}
-        margin={{
-          top: 10,
-          right: 10,
-          left: 0,
-          bottom: 0,
-        }}
+    <div className="flex flex-col w-full h-full bg-[#1C1C1C]">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-[#2B2B2B] text-xs">
+        <div className="flex bg-[#151922] rounded overflow-hidden border border-[#333]">
+          {TIMEFRAMES.map(tf => (
+            <button
+              key={tf}
+              onClick={() => changeTimeframe(tf)}
+              className={`px-3 py-1.5 font-semibold ${timeframe === tf ? 'bg-primary text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {tf}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {INDICATORS.map(ind => (
+            <button
+              key={ind.key}
+              onClick={() => setEnabled(prev => ({ ...prev, [ind.key]: !prev[ind.key] }))}
+              className={`px-2 py-1.5 rounded border ${enabled[ind.key] ? 'border-[#444] text-white' : 'border-transparent text-gray-500 hover:text-gray-300'}`}
+              style={enabled[ind.key] ? { color: ind.color } : undefined}
+            >
+              {ind.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1 ml-auto">
+          <button onClick={() => zoom(1 / 1.5)} className="p-1.5 text-gray-400 hover:text-white" title="Zoom in">
+            <MagnifyingGlassPlusIcon className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoom(1.5)} className="p-1.5 text-gray-400 hover:text-white" title="Zoom out">
+            <MagnifyingGlassMinusIcon className="w-4 h-4" />
+          </button>
+          {currentOffset > 0 && (
+            <button onClick={() => setOffset(0)} className="flex items-center px-2 py-1 text-primary hover:text-blue-400" title="Back to live">
+              <ForwardIcon className="w-4 h-4 mr-1" /> Live
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Price pane */}
+      <div
+        ref={containerRef}
+        className="flex-1 min-h-0 cursor-grab active:cursor-grabbing select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
       >
-        <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" vertical={false} />
-        <XAxis dataKey="time" hide />
-        <YAxis 
-          domain={[minPrice - padding, maxPrice + padding]} 
-          orientation="right" 
-          tick={{ fontSize: 10, fill: '#9CA3AF', fontFamily: 'Inter, sans-serif' }}
-          axisLine={false}
-          tickLine={false}
-        />
-        <Tooltip content={<CustomTooltip />} cursor={{fill: 'rgba(255,255,255,0.05)'}} />
-        <Bar
-          shape={(props: any) => {
-             // Recharts passes the value of 'dataKey' (high) as properties, 
-             // but we need to trick it to give us the full height from High to Low.
-             // Actually, the easiest way in Recharts is to bind `dataKey` to an array `[low, high]`.
-             return <Candlestick {...props} 
-                open={props.payload.open} 
-                close={props.payload.close} 
-                high={props.payload.high} 
-                low={props.payload.low} 
-             />;
-          }}
-          // Important: We need to trick the Bar to render from Low to High so the "height" prop in shape covers the full range.
-          // Recharts allows dataKey to be an array [min, max]
-          dataKey={(item: any) => [item.low, item.high]}
-          isAnimationActive={false}
-        />
-      </BarChart>
-    </ResponsiveContainer>
+        {error ? (
+          <div className="flex items-center justify-center h-full text-danger text-sm">{error}</div>
+        ) : isLoading || visible.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-gray-500 text-sm">Loading market data...</div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={visible} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" vertical={false} />
+              <XAxis
+                dataKey="time"
+                tickFormatter={(t: number) => formatTime(t, timeframe)}
+                tick={{ fontSize: 10, fill: '#9CA3AF', fontFamily: 'Inter, sans-serif' }}
+                axisLine={false}
+                tickLine={false}
+                minTickGap={40}
+              />
+              <YAxis
+                domain={[minPrice - padding, maxPrice + padding]}
+                orientation="right"
+                tickFormatter={(v: number) => v.toFixed(decimals)}
+                tick={{ fontSize: 10, fill: '#9CA3AF', fontFamily: 'Inter, sans-serif' }}
+                axisLine={false}
+                tickLine={false}
+                width={70}
+              />
+              <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(255,255,255,0.05)' }} />
+              <Bar
+                shape={(props: any) => (
+                  <Candlestick
+                    {...props}
+                    open={props.payload.open}
+                    close={props.payload.close}
+                    high={props.payload.high}
+                    low={props.payload.low}
+                  />
+                )}
+                // Bar digambar dari low ke high agar `height` pada shape mencakup seluruh candle
+                dataKey={(item: any) => [item.low, item.high]}
+                isAnimationActive={false}
+              />
+              {enabled.sma && <Line dataKey="sma" stroke="#F0B90B" dot={false} strokeWidth={1.5} isAnimationActive={false} />}
+              {enabled.ema && <Line dataKey="ema" stroke="#A855F7" dot={false} strokeWidth={1.5} isAnimationActive={false} />}
+              {enabled.bollinger && <Line dataKey="bbUpper" stroke="#3B82F6" dot={false} strokeWidth={1} strokeDasharray="4 2" isAnimationActive={false} />}
+              {enabled.bollinger && <Line dataKey="bbMiddle" stroke="#3B82F6" dot={false} strokeWidth={1} isAnimationActive={false} />}
+              {enabled.bollinger && <Line dataKey="bbLower" stroke="#3B82F6" dot={false} strokeWidth={1} strokeDasharray="4 2" isAnimationActive={false} />}
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      {/* RSI pane */}
+      {enabled.rsi && visible.length > 0 && (
+        <div className="h-28 border-t border-[#2B2B2B]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={visible} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <XAxis dataKey="time" hide />
+              <YAxis
+                domain={[0, 100]}
+                ticks={[30, 70]}
+                orientation="right"
+                tick={{ fontSize: 10, fill: '#9CA3AF', fontFamily: 'Inter, sans-serif' }}
+                axisLine={false}
+                tickLine={false}
+                width={70}
+              />
+              <ReferenceLine y={70} stroke="#F6465D" strokeDasharray="3 3" />
+              <ReferenceLine y={30} stroke="#0ECB81" strokeDasharray="3 3" />
+              <Line dataKey="rsi" stroke="#00C0EF" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
   );
 };
 
-export default MarketOverviewChart;
\ No newline at end of file
+export default MarketOverviewChart;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface ConfigErrorScreenProps {
+  errors: string[];
+}
+
+const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ errors }) => {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#0B0E11] text-white p-4 font-sans">
+      <div className="w-full max-w-2xl bg-[#151922] border border-red-500/40 rounded-2xl shadow-2xl p-8">
+        <div className="flex items-center mb-4">
+          <ExclamationTriangleIcon className="w-8 h-8 text-red-500 mr-3" />
+          <h1 className="text-xl font-bold">Konfigurasi aplikasi tidak valid</h1>
+        </div>
+        <p className="text-gray-400 text-sm mb-4">
+          Aplikasi tidak dapat dijalankan karena environment variable berikut hilang atau salah.
+          Periksa file <code className="text-blue-400">.env.local</code> (lihat <code className="text-blue-400">.env.example</code>) lalu jalankan ulang server.
+        </p>
+        <ul className="space-y-2">
+          {errors.map(error => (
+            <li key={error} className="bg-red-500/10 border border-red-500/30 text-red-300 text-sm rounded-lg px-4 py-2 font-mono">
+              {error}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigErrorScreen;
@@ -2,6 +2,7 @@ import React, { useEffect, useRef, useState } from 'react';
 import { useAuth } from '../../context/AuthContext';
 import { useTransactions } from '../../context/TransactionContext';
 import { MOCK_NEWS } from '../../constants';
+import { config } from '../../config';
 import { 
     HomeIcon, 
     UserGroupIcon, 
@@ -48,7 +49,7 @@ const DashboardContent: React.FC = () => {
   const forexRef = useRef<HTMLDivElement>(null);
   const [copyStatus, setCopyStatus] = useState('Salin Link Reff');
 
-  const referralLink = user ? `http://FOREXimf.com/?reff=${user.username}` : 'Memuat...';
+  const referralLink = user ? `${config.branding.referralBaseUrl}/?reff=${user.username}` : 'Memuat...';
 
   const handleCopy = () => {
       navigator.clipboard.writeText(referralLink);
@@ -179,7 +180,7 @@ const DashboardContent: React.FC = () => {
 
        <div className="text-center md:text-left pt-8 border-t border-gray-800">
             <p className="text-gray-600 text-[10px] uppercase tracking-widest font-bold">
-                Hak Cipta © 2025 <span className="text-gray-400 font-black">FOREXimf Pro</span>. Seluruh Hak Dilindungi.
+                Hak Cipta © 2025 <span className="text-gray-400 font-black">{config.branding.appName}</span>. Seluruh Hak Dilindungi.
             </p>
        </div>
     </div>
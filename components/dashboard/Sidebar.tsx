@@ -4,6 +4,7 @@ import { ArrowLeftOnRectangleIcon, UserCircleIcon, ChevronDownIcon, ChevronUpIco
 import { DASHBOARD_MENU_ITEMS } from '../../constants';
 import { useAuth } from '../../context/AuthContext';
 import { MenuItem } from '../../types';
+import { config } from '../../config';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -29,6 +30,8 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
     if (item.id === 'admin') {
       return user?.isAdmin;
     }
+    if (item.id === 'trade') return config.features.trading;
+    if (item.id === 'investment') return config.features.investment;
     return true;
   });
 
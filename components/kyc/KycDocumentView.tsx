@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { KycDocument } from '../../types';
+import { useKyc } from '../../context/KycContext';
+
+interface KycDocumentViewProps {
+  document: KycDocument;
+  label: string;
+  imageClassName?: string;
+}
+
+// URL file private diminta saat dokumen ditampilkan karena hanya berlaku sementara.
+const KycDocumentView: React.FC<KycDocumentViewProps> = ({ document, label, imageClassName = 'w-full rounded border border-gray-700' }) => {
+  const { getDocumentUrl } = useKyc();
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setError(null);
+    getDocumentUrl(document)
+      .then(result => {
+        if (cancelled) return;
+        if (result) setUrl(result);
+        else setError('Document not found.');
+      })
+      .catch((e: any) => !cancelled && setError(e?.message || 'Failed to load document.'));
+    return () => { cancelled = true; };
+  }, [document.path, document.dataUrl, getDocumentUrl]);
+
+  if (error) return <p className="text-danger text-sm">{error}</p>;
+  if (!url) return <p className="text-gray-400 text-sm">Loading {document.fileName}...</p>;
+  return document.mimeType.startsWith('image/') ? (
+    <a href={url} target="_blank" rel="noreferrer">
+      <img src={url} alt={label} className={imageClassName} />
+    </a>
+  ) : (
+    <a href={url} target="_blank" rel="noreferrer" download={document.fileName} className="text-primary text-sm underline">{document.fileName}</a>
+  );
+};
+
+export default KycDocumentView;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import Header from '../dashboard/Header';
 import Sidebar from '../dashboard/Sidebar';
 import { InformationCircleIcon } from '@heroicons/react/24/outline';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 
 interface DashboardLayoutProps {
@@ -30,7 +31,18 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
             - TOTAL: 158px
         */}
         <main className="flex-1 px-4 sm:px-6 pt-[170px] pb-8 min-w-0">
-          {!user?.isVerified && (
+          {user && !user.emailVerified ? (
+            <div className="bg-danger/10 text-danger p-4 rounded-xl shadow-sm mb-6 flex items-start border border-danger/20">
+              <InformationCircleIcon className="h-6 w-6 mr-3 flex-shrink-0" />
+              <div>
+                <h3 className="font-bold text-base">Verifikasi Email</h3>
+                <p className="text-sm mt-1">
+                  Konfirmasi email Anda untuk membuka deposit, penarikan, transfer dan trading.{' '}
+                  <Link to="/verify-email" className="font-semibold underline">Verifikasi sekarang</Link>
+                </p>
+              </div>
+            </div>
+          ) : !user?.isVerified && (
             <div className="bg-danger/10 text-danger p-4 rounded-xl shadow-sm mb-6 flex items-start border border-danger/20">
               <InformationCircleIcon className="h-6 w-6 mr-3 flex-shrink-0" />
               <div>
@@ -1,83 +1,94 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { 
   TrophyIcon, 
   RocketLaunchIcon, 
   SparklesIcon, 
   ShieldCheckIcon,
   CheckCircleIcon,
-  CurrencyDollarIcon
+  CurrencyDollarIcon,
+  XMarkIcon
 } from '@heroicons/react/24/solid';
+import { config } from '../../config';
+import { INVESTMENT_PLANS } from '../../constants';
+import { InvestmentPlan } from '../../types';
+import { useInvestments } from '../../context/InvestmentContext';
+import { useAuth } from '../../context/AuthContext';
 
-interface InvestmentTier {
-  investment: string;
-  profit: string;
-}
-
-interface InvestmentPackage {
-  name: string;
+interface PlanStyle {
   icon: React.ReactNode;
   color: string;
   textColor: string;
   borderColor: string;
   shadowColor: string;
-  tiers: InvestmentTier[];
+  ringColor: string;
 }
 
-const INVESTMENT_PACKAGES: InvestmentPackage[] = [
-  {
-    name: "PAKET GOLD",
+// Tampilan per paket; nominal dan jangka waktu ada di INVESTMENT_PLANS (constants.ts).
+const PLAN_STYLES: Record<string, PlanStyle> = {
+  gold: {
     icon: <TrophyIcon className="w-12 h-12" />,
     color: "bg-yellow-500",
     textColor: "text-yellow-500",
     borderColor: "border-yellow-500/30",
     shadowColor: "shadow-yellow-500/10",
-    tiers: [
-      { investment: "500.000", profit: "13.000.000" },
-      { investment: "1.000.000", profit: "30.000.000" },
-    ]
+    ringColor: "border-yellow-500",
   },
-  {
-    name: "PAKET PLATINUM",
+  platinum: {
     icon: <RocketLaunchIcon className="w-12 h-12" />,
     color: "bg-gray-300",
     textColor: "text-gray-300",
     borderColor: "border-gray-300/30",
     shadowColor: "shadow-gray-300/10",
-    tiers: [
-      { investment: "1.500.000", profit: "50.000.000" },
-      { investment: "2.500.000", profit: "80.000.000" },
-      { investment: "3.500.000", profit: "110.000.000" },
-    ]
+    ringColor: "border-gray-300",
   },
-  {
-    name: "PAKET DIAMOND",
+  diamond: {
     icon: <SparklesIcon className="w-12 h-12" />,
     color: "bg-cyan-400",
     textColor: "text-cyan-400",
     borderColor: "border-cyan-400/30",
     shadowColor: "shadow-cyan-400/10",
-    tiers: [
-      { investment: "4.500.000", profit: "140.000.000" },
-      { investment: "5.500.000", profit: "170.000.000" },
-      { investment: "6.500.000", profit: "200.000.000" },
-    ]
+    ringColor: "border-cyan-400",
   },
-  {
-    name: "PAKET VIP",
+  vip: {
     icon: <ShieldCheckIcon className="w-12 h-12" />,
     color: "bg-purple-600",
     textColor: "text-purple-500",
     borderColor: "border-purple-500/30",
     shadowColor: "shadow-purple-500/10",
-    tiers: [
-      { investment: "8.000.000", profit: "235.000.000" },
-      { investment: "9.000.000", profit: "275.000.000" },
-      { investment: "10.000.000", profit: "295.000.000" },
-    ]
-  }
-];
+    ringColor: "border-purple-500",
+  },
+};
+
+const formatRupiah = (amount: number) => amount.toLocaleString('id-ID', { maximumFractionDigits: 2 });
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('id-ID', {
+  day: '2-digit',
+  month: 'short',
+  year: 'numeric',
+});
+
+const formatInterval = (ms: number) => {
+  const hours = ms / (60 * 60 * 1000);
+  return hours % 24 === 0 ? `${hours / 24} hari` : `${Number(hours.toFixed(2))} jam`;
+};
 
 const InvestmentPage: React.FC = () => {
+  const { user } = useAuth();
+  const { investments, isLoadingInvestments, isPurchasing, purchaseInvestment } = useInvestments();
+  const [selectedTiers, setSelectedTiers] = useState<Record<string, number>>({});
+  const [pendingPurchase, setPendingPurchase] = useState<{ plan: InvestmentPlan; tierIndex: number } | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  const handleConfirmPurchase = async () => {
+    if (!pendingPurchase) return;
+    const result = await purchaseInvestment(pendingPurchase.plan.id, pendingPurchase.tierIndex);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    setPendingPurchase(null);
+  };
+
+  const pendingTier = pendingPurchase ? pendingPurchase.plan.tiers[pendingPurchase.tierIndex] : null;
+  const payoutIntervalMs = config.investment.payoutIntervalMs;
+
   return (
     <div className="w-full flex flex-col space-y-8 animate-fade-in font-sans">
       
@@ -91,11 +102,20 @@ const InvestmentPage: React.FC = () => {
         </p>
       </div>
 
+      {message && (
+          <div className={`p-3 rounded-md text-sm border ${message.type === 'success' ? 'bg-success/20 text-success border-success/30' : 'bg-danger/20 text-danger border-danger/30'}`}>
+              {message.text}
+          </div>
+      )}
+
       {/* Grid Packages */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        {INVESTMENT_PACKAGES.map((pkg, idx) => (
+        {INVESTMENT_PLANS.map((plan) => {
+          const pkg = PLAN_STYLES[plan.id];
+          const selectedTier = selectedTiers[plan.id] ?? 0;
+          return (
           <div 
-            key={idx} 
+            key={plan.id} 
             className={`bg-darkblue2 border ${pkg.borderColor} rounded-2xl overflow-hidden shadow-2xl ${pkg.shadowColor} transition-all duration-300 hover:scale-[1.02] hover:border-white/20 group flex flex-col`}
           >
             {/* Package Header */}
@@ -104,30 +124,40 @@ const InvestmentPage: React.FC = () => {
                     {pkg.icon}
                 </div>
                 <h3 className={`text-xl font-black tracking-widest ${pkg.textColor} text-center`}>
-                    {pkg.name}
+                    {plan.name}
                 </h3>
+                <span className="text-gray-500 text-[10px] uppercase font-bold tracking-widest">Kontrak {plan.termDays} Hari</span>
             </div>
 
             {/* Tiers List */}
             <div className="px-6 py-4 flex-grow space-y-4">
-                {pkg.tiers.map((tier, tIdx) => (
-                  <div key={tIdx} className="bg-darkblue/50 border border-gray-800 rounded-xl p-4 space-y-2 group/item hover:bg-darkblue transition-colors">
+                {plan.tiers.map((tier, tIdx) => (
+                  <button
+                    key={tIdx}
+                    type="button"
+                    onClick={() => setSelectedTiers({ ...selectedTiers, [plan.id]: tIdx })}
+                    className={`w-full text-left bg-darkblue/50 border ${selectedTier === tIdx ? pkg.ringColor : 'border-gray-800'} rounded-xl p-4 space-y-2 group/item hover:bg-darkblue transition-colors`}
+                  >
                       <div className="flex justify-between items-center">
                           <span className="text-gray-500 text-[10px] uppercase font-bold tracking-tighter">Modal</span>
-                          <span className="text-white font-sans font-bold text-sm">Rp {tier.investment}</span>
+                          <span className="text-white font-sans font-bold text-sm">Rp {formatRupiah(tier.principal)}</span>
                       </div>
                       <div className="h-[1px] bg-gray-800 w-full"></div>
                       <div className="flex justify-between items-center">
                           <span className="text-gray-500 text-[10px] uppercase font-bold tracking-tighter">Hasil</span>
-                          <span className={`${pkg.textColor} font-sans font-bold text-base`}>Rp {tier.profit}</span>
+                          <span className={`${pkg.textColor} font-sans font-bold text-base`}>Rp {formatRupiah(tier.projectedProfit)}</span>
                       </div>
-                  </div>
+                  </button>
                 ))}
             </div>
 
             {/* Bottom Section */}
             <div className="p-6 mt-auto">
-                <button className={`w-full ${pkg.color} text-darkblue font-black py-3 rounded-xl uppercase tracking-widest text-sm shadow-lg active:scale-95 transition-all hover:brightness-110 flex items-center justify-center`}>
+                <button
+                  onClick={() => setPendingPurchase({ plan, tierIndex: selectedTier })}
+                  disabled={isPurchasing}
+                  className={`w-full ${pkg.color} text-darkblue font-black py-3 rounded-xl uppercase tracking-widest text-sm shadow-lg active:scale-95 transition-all hover:brightness-110 flex items-center justify-center disabled:opacity-50`}
+                >
                     <CurrencyDollarIcon className="w-5 h-5 mr-2" />
                     Pilih Paket
                 </button>
@@ -137,7 +167,56 @@ const InvestmentPage: React.FC = () => {
                 </div>
             </div>
           </div>
-        ))}
+          );
+        })}
+      </div>
+
+      {/* My Investments */}
+      <div className="bg-darkblue2 border border-gray-800 rounded-2xl shadow-xl overflow-hidden">
+          <div className="p-6 border-b border-gray-800">
+              <h3 className="text-white font-bold text-lg uppercase tracking-wider">Investasi Saya</h3>
+              <p className="text-gray-500 text-xs mt-1">Profit dibayarkan ke wallet setiap {formatInterval(payoutIntervalMs)}; modal dikembalikan saat jatuh tempo.</p>
+          </div>
+          <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-800">
+                  <thead className="bg-darkblue">
+                      <tr>
+                          {['Paket', 'Modal', 'Mulai', 'Jatuh Tempo', 'Profit Dibayar', 'Progress', 'Status'].map(h => (
+                              <th key={h} className="px-6 py-3 text-left text-[10px] font-bold text-gray-500 uppercase tracking-widest">{h}</th>
+                          ))}
+                      </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-800">
+                      {isLoadingInvestments && investments.length === 0 ? (
+                          <tr><td colSpan={7} className="px-6 py-8 text-center text-gray-500 text-sm">Memuat...</td></tr>
+                      ) : investments.length === 0 ? (
+                          <tr><td colSpan={7} className="px-6 py-8 text-center text-gray-500 text-sm">Belum ada paket investasi.</td></tr>
+                      ) : investments.map(contract => (
+                          <tr key={contract.id} className="hover:bg-white/[0.02]">
+                              <td className={`px-6 py-4 text-sm font-bold ${PLAN_STYLES[contract.planId]?.textColor || 'text-white'}`}>{contract.planName}</td>
+                              <td className="px-6 py-4 text-sm text-white tabular-nums">Rp {formatRupiah(contract.principal)}</td>
+                              <td className="px-6 py-4 text-sm text-gray-400">{formatDate(contract.startDate)}</td>
+                              <td className="px-6 py-4 text-sm text-gray-400">{formatDate(contract.maturityDate)}</td>
+                              <td className="px-6 py-4 text-sm text-success tabular-nums">
+                                  Rp {formatRupiah(contract.paidProfit)}
+                                  <span className="text-gray-600"> / {formatRupiah(contract.projectedProfit)}</span>
+                              </td>
+                              <td className="px-6 py-4 min-w-[140px]">
+                                  <div className="w-full bg-gray-800 rounded-full h-1.5">
+                                      <div className="bg-primary h-1.5 rounded-full" style={{ width: `${(contract.paidPeriods / contract.totalPeriods) * 100}%` }}></div>
+                                  </div>
+                                  <span className="text-[10px] text-gray-500">{contract.paidPeriods}/{contract.totalPeriods} periode</span>
+                              </td>
+                              <td className="px-6 py-4">
+                                  <span className={`px-2 py-1 text-[10px] font-bold uppercase rounded ${contract.status === 'Active' ? 'bg-primary/20 text-primary' : 'bg-success/20 text-success'}`}>
+                                      {contract.status === 'Active' ? 'Aktif' : 'Selesai'}
+                                  </span>
+                              </td>
+                          </tr>
+                      ))}
+                  </tbody>
+              </table>
+          </div>
       </div>
 
       {/* Footer Info */}
@@ -160,10 +239,50 @@ const InvestmentPage: React.FC = () => {
 
       <div className="text-center pt-8 pb-4">
           <p className="text-gray-700 text-[9px] uppercase tracking-[0.4em] font-black">
-              Official Investment Program &copy; 2025 FOREXimf
+              Official Investment Program &copy; 2025 {config.branding.appName}
           </p>
       </div>
 
+      {/* Purchase Confirmation Modal */}
+      {pendingPurchase && pendingTier && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+              <div className="bg-darkblue2 border border-gray-700 rounded-lg shadow-2xl w-full max-w-md overflow-hidden animate-fade-in font-sans">
+                <div className="bg-darkblue p-4 border-b border-gray-700 flex justify-between items-center">
+                    <h3 className="text-white text-lg font-semibold uppercase tracking-wider">Konfirmasi Investasi</h3>
+                    <button onClick={() => setPendingPurchase(null)} className="text-gray-400 hover:text-white transition-colors">
+                        <XMarkIcon className="w-6 h-6" />
+                    </button>
+                </div>
+                <div className="p-6 space-y-3 text-sm">
+                    {[
+                        ['Paket', pendingPurchase.plan.name],
+                        ['Modal', `Rp ${formatRupiah(pendingTier.principal)}`],
+                        ['Proyeksi Hasil', `Rp ${formatRupiah(pendingTier.projectedProfit)}`],
+                        ['Jangka Waktu', `${pendingPurchase.plan.termDays} hari`],
+                        ['Pembayaran Profit', `Setiap ${formatInterval(Math.min(payoutIntervalMs, pendingPurchase.plan.termDays * 24 * 60 * 60 * 1000))}`],
+                        ['Saldo Wallet', `Rp ${formatRupiah(user?.balance || 0)}`],
+                    ].map(([label, value]) => (
+                        <div key={label} className="flex justify-between">
+                            <span className="text-gray-500">{label}</span>
+                            <span className="text-white font-bold">{value}</span>
+                        </div>
+                    ))}
+                    <p className="text-gray-500 text-xs pt-2">Modal akan dipotong dari saldo wallet Anda dan dikembalikan saat kontrak jatuh tempo.</p>
+                </div>
+                <div className="p-4 border-t border-gray-700 flex justify-end space-x-3">
+                    <button onClick={() => setPendingPurchase(null)} className="px-4 py-2 text-sm text-gray-400 hover:text-white">Batal</button>
+                    <button
+                      onClick={handleConfirmPurchase}
+                      disabled={isPurchasing}
+                      className="px-6 py-2 bg-primary text-white text-sm font-bold rounded-md hover:brightness-110 disabled:opacity-50"
+                    >
+                        {isPurchasing ? 'Memproses...' : 'Konfirmasi'}
+                    </button>
+                </div>
+              </div>
+          </div>
+      )}
+
     </div>
   );
 };
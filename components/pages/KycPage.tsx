@@ -1,21 +1,312 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import Button from '../common/Button';
+import Input from '../common/Input';
+import { useAuth } from '../../context/AuthContext';
+import { useKyc } from '../../context/KycContext';
+import { KycDocument, KycDocumentType, KycIdentity, KycStatus } from '../../types';
+import { EMPTY_KYC_IDENTITY, KYC_DOCUMENT_ACCEPT, KYC_DOCUMENT_MAX_MB, validateDocument, validateIdentity } from '../../services/kycService';
+import KycDocumentView from '../kyc/KycDocumentView';
+import {
+  UserIcon,
+  IdentificationIcon,
+  MapPinIcon,
+  CalendarIcon,
+  DocumentArrowUpIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+
+interface DocumentStep {
+  type: KycDocumentType;
+  title: string;
+  description: string;
+}
+
+const DOCUMENT_STEPS: DocumentStep[] = [
+  {
+    type: KycDocumentType.ID_CARD,
+    title: 'ID Card (KTP)',
+    description: 'Upload a clear photo of the front of your KTP. All four corners must be visible and the text readable.',
+  },
+  {
+    type: KycDocumentType.SELFIE,
+    title: 'Selfie with ID',
+    description: 'Take a selfie while holding your KTP next to your face. Your face and the KTP must both be clearly visible.',
+  },
+  {
+    type: KycDocumentType.PROOF_OF_ADDRESS,
+    title: 'Proof of Address',
+    description: 'Upload a utility bill or bank statement from the last 3 months showing your name and address.',
+  },
+];
+
+const STEP_TITLES = ['Identity', ...DOCUMENT_STEPS.map(d => d.title), 'Review'];
+
+const formatDate = (iso?: string) => iso ? new Date(iso).toLocaleString('id-ID') : '-';
 
 const KycPage: React.FC = () => {
+  const { user } = useAuth();
+  const { kycCase, isLoadingKyc, saveDraft, uploadDocument, submitKyc } = useKyc();
+  const [step, setStep] = useState(0);
+  const [identity, setIdentity] = useState<KycIdentity>(EMPTY_KYC_IDENTITY);
+  const [documents, setDocuments] = useState<Partial<Record<KycDocumentType, KycDocument>>>({});
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Isi form dari draft (atau pengajuan yang ditolak) saat data dimuat
+  useEffect(() => {
+    if (kycCase && (kycCase.status === KycStatus.DRAFT || kycCase.status === KycStatus.REJECTED)) {
+      setIdentity({ ...EMPTY_KYC_IDENTITY, ...kycCase.identity });
+      setDocuments(kycCase.documents);
+    } else if (!kycCase && user) {
+      setIdentity({ ...EMPTY_KYC_IDENTITY, fullName: user.fullName });
+    }
+  }, [kycCase?.id, user?.id]);
+
+  const status = kycCase?.status;
+  const showForm = !kycCase || status === KycStatus.DRAFT || (status === KycStatus.REJECTED && isEditing);
+
+  const updateIdentity = (field: keyof KycIdentity, value: string) => {
+    setIdentity(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleFileChange = async (docStep: DocumentStep, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const validationError = validateDocument(docStep.type, file);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setIsSaving(true);
+    const result = await uploadDocument(docStep.type, file);
+    setIsSaving(false);
+    if (!result.document) {
+      setError(result.message);
+      return;
+    }
+    setDocuments(prev => ({ ...prev, [docStep.type]: result.document }));
+    setError(null);
+  };
+
+  const validateStep = (): string | null => {
+    if (step === 0) {
+      const errors = validateIdentity(identity);
+      return errors.length > 0 ? errors[0] : null;
+    }
+    const docStep = DOCUMENT_STEPS[step - 1];
+    if (docStep && !documents[docStep.type]) return `Please upload your ${docStep.title}.`;
+    return null;
+  };
+
+  // Setiap langkah disimpan sebagai draft agar user bisa melanjutkan nanti.
+  const handleNext = async () => {
+    const stepError = validateStep();
+    if (stepError) {
+      setError(stepError);
+      return;
+    }
+    setIsSaving(true);
+    const result = await saveDraft(identity, documents);
+    setIsSaving(false);
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    setError(null);
+    setStep(step + 1);
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    const saved = await saveDraft(identity, documents);
+    const result = saved.success ? await submitKyc() : saved;
+    setIsSaving(false);
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    setError(null);
+    setIsEditing(false);
+    setStep(0);
+  };
+
+  const renderStatus = () => {
+    if (!kycCase) return null;
+    if (status === KycStatus.APPROVED) {
+      return (
+        <div className="flex items-start space-x-4">
+          <CheckCircleIcon className="w-10 h-10 text-success flex-shrink-0" />
+          <div>
+            <h3 className="text-xl font-semibold text-white">Verification Approved</h3>
+            <p className="text-gray-400 mt-1">Your account is verified. Approved on {formatDate(kycCase.reviewedAt)}.</p>
+          </div>
+        </div>
+      );
+    }
+    if (status === KycStatus.SUBMITTED || status === KycStatus.IN_REVIEW) {
+      return (
+        <div className="flex items-start space-x-4">
+          <ClockIcon className="w-10 h-10 text-primary flex-shrink-0" />
+          <div>
+            <h3 className="text-xl font-semibold text-white">
+              {status === KycStatus.SUBMITTED ? 'Waiting for Review' : 'In Review'}
+            </h3>
+            <p className="text-gray-400 mt-1">
+              Submitted on {formatDate(kycCase.submittedAt)}. We will notify you once the review is complete.
+            </p>
+          </div>
+        </div>
+      );
+    }
+    if (status === KycStatus.REJECTED && !isEditing) {
+      return (
+        <div className="flex items-start space-x-4">
+          <XCircleIcon className="w-10 h-10 text-danger flex-shrink-0" />
+          <div>
+            <h3 className="text-xl font-semibold text-white">Verification Rejected</h3>
+            <p className="text-gray-400 mt-1">Reason: <span className="text-danger">{kycCase.rejectionReason}</span></p>
+            <Button variant="primary" className="mt-4" onClick={() => { setIsEditing(true); setStep(0); }}>
+              Fix and Resubmit
+            </Button>
+          </div>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const renderIdentityStep = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <Input id="kycFullName" label="Full Name (as on KTP)" icon={<UserIcon />} value={identity.fullName}
+        onChange={e => updateIdentity('fullName', e.target.value)} />
+      <Input id="kycIdNumber" label="NIK" icon={<IdentificationIcon />} inputMode="numeric" maxLength={16} value={identity.idNumber}
+        onChange={e => updateIdentity('idNumber', e.target.value.replace(/\D/g, ''))} />
+      <Input id="kycPlaceOfBirth" label="Place of Birth" icon={<MapPinIcon />} value={identity.placeOfBirth}
+        onChange={e => updateIdentity('placeOfBirth', e.target.value)} />
+      <Input id="kycDateOfBirth" label="Date of Birth" type="date" icon={<CalendarIcon />} value={identity.dateOfBirth}
+        onChange={e => updateIdentity('dateOfBirth', e.target.value)} />
+      <div className="md:col-span-2">
+        <Input id="kycAddress" label="Address" icon={<MapPinIcon />} value={identity.address}
+          onChange={e => updateIdentity('address', e.target.value)} />
+      </div>
+      <Input id="kycCity" label="City" icon={<MapPinIcon />} value={identity.city}
+        onChange={e => updateIdentity('city', e.target.value)} />
+      <Input id="kycPostalCode" label="Postal Code" icon={<MapPinIcon />} inputMode="numeric" maxLength={5} value={identity.postalCode}
+        onChange={e => updateIdentity('postalCode', e.target.value.replace(/\D/g, ''))} />
+    </div>
+  );
+
+  const renderDocumentStep = (docStep: DocumentStep) => {
+    const doc = documents[docStep.type];
+    return (
+      <div>
+        <p className="text-gray-400 mb-4">{docStep.description}</p>
+        {doc && (
+          <div className="mb-4">
+            <KycDocumentView document={doc} label={docStep.title} imageClassName="max-h-64 rounded-lg border border-gray-700" />
+          </div>
+        )}
+        <label htmlFor={`kyc-${docStep.type}`} className="cursor-pointer inline-flex items-center bg-primary hover:bg-secondary text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200">
+          <DocumentArrowUpIcon className="h-5 w-5 mr-2" />
+          {doc ? 'Replace File' : 'Upload File'}
+        </label>
+        <input
+          id={`kyc-${docStep.type}`}
+          type="file"
+          accept={KYC_DOCUMENT_ACCEPT[docStep.type].join(', ')}
+          className="hidden"
+          onChange={e => handleFileChange(docStep, e)}
+          disabled={isSaving}
+        />
+        <p className="mt-2 text-xs text-gray-500">Max file size: {KYC_DOCUMENT_MAX_MB}MB.</p>
+      </div>
+    );
+  };
+
+  const renderReviewStep = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+        {([
+          ['Full Name', identity.fullName],
+          ['NIK', identity.idNumber],
+          ['Place / Date of Birth', `${identity.placeOfBirth}, ${identity.dateOfBirth}`],
+          ['Address', `${identity.address}, ${identity.city} ${identity.postalCode}`],
+        ] as const).map(([label, value]) => (
+          <div key={label}>
+            <span className="text-gray-500">{label}: </span>
+            <span className="text-white">{value}</span>
+          </div>
+        ))}
+      </div>
+      <ul className="text-sm space-y-1">
+        {DOCUMENT_STEPS.map(d => (
+          <li key={d.type} className="flex items-center">
+            <CheckCircleIcon className={`w-4 h-4 mr-2 ${documents[d.type] ? 'text-success' : 'text-gray-600'}`} />
+            <span className="text-gray-300">{d.title}</span>
+            <span className="text-gray-500 ml-2">{documents[d.type]?.fileName}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500">By submitting, you confirm that the information and documents provided are true and belong to you.</p>
+    </div>
+  );
+
   return (
     <div className="container mx-auto p-4 md:p-6 lg:p-8">
       <h2 className="text-3xl font-bold text-white mb-6">KYC (Know Your Customer)</h2>
       <div className="bg-darkblue2 p-6 rounded-lg shadow-md">
-        <p className="text-gray-400 mb-4">
-          To comply with regulations and enhance security, please complete your KYC verification.
-          This usually involves uploading identification documents.
-        </p>
-        <p className="text-gray-500 mb-6">
-          Example: Upload ID card, proof of address, selfie with ID.
-        </p>
-        <Button variant="primary">
-          Start KYC Verification
-        </Button>
+        {isLoadingKyc && !kycCase ? (
+          <p className="text-gray-400">Loading...</p>
+        ) : !showForm ? (
+          renderStatus()
+        ) : (
+          <>
+            <p className="text-gray-400 mb-6">
+              To comply with regulations and enhance security, please complete your KYC verification.
+              Your progress is saved as a draft after each step.
+            </p>
+
+            {/* Step indicator */}
+            <div className="flex flex-wrap gap-2 mb-6">
+              {STEP_TITLES.map((title, i) => (
+                <span
+                  key={title}
+                  className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                    i === step ? 'bg-primary text-white' : i < step ? 'bg-success/20 text-success' : 'bg-gray-700 text-gray-400'
+                  }`}
+                >
+                  {i + 1}. {title}
+                </span>
+              ))}
+            </div>
+
+            {error && (
+              <div className="bg-danger/20 text-danger p-3 rounded-md text-sm border border-danger/30 mb-4">{error}</div>
+            )}
+
+            {step === 0 && renderIdentityStep()}
+            {step > 0 && step <= DOCUMENT_STEPS.length && renderDocumentStep(DOCUMENT_STEPS[step - 1])}
+            {step === STEP_TITLES.length - 1 && renderReviewStep()}
+
+            <div className="flex justify-between mt-6 pt-4 border-t border-gray-700">
+              <Button variant="ghost" onClick={() => { setError(null); setStep(step - 1); }} disabled={step === 0 || isSaving}>
+                Back
+              </Button>
+              {step < STEP_TITLES.length - 1 ? (
+                <Button variant="primary" onClick={handleNext} isLoading={isSaving}>
+                  Save & Continue
+                </Button>
+              ) : (
+                <Button variant="primary" onClick={handleSubmit} isLoading={isSaving}>
+                  Submit for Review
+                </Button>
+              )}
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
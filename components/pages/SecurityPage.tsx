@@ -1,27 +1,27 @@
 import React from 'react';
-import Button from '../common/Button';
+import { Link } from 'react-router-dom';
+import TwoFactorSettings from '../security/TwoFactorSettings';
+import ActiveSessions from '../security/ActiveSessions';
+import LoginActivityTable from '../security/LoginActivityTable';
 
 const SecurityPage: React.FC = () => {
   return (
     <div className="container mx-auto p-4 md:p-6 lg:p-8">
       <h2 className="text-3xl font-bold text-white mb-6">Security Settings</h2>
-      <div className="bg-darkblue2 p-6 rounded-lg shadow-md">
-        <p className="text-gray-400 mb-4">
-          Manage your account's security features, such as changing your password,
-          enabling two-factor authentication (2FA), and reviewing login activity.
-        </p>
-        <p className="text-gray-500 mb-6">
-          Example: Change password, setup 2FA, view recent logins.
-        </p>
-        <Button variant="primary">
-          Change Password
-        </Button>
-        <Button variant="secondary" className="ml-4">
-          Enable 2FA
-        </Button>
+      <div className="space-y-6">
+        <TwoFactorSettings />
+        <div className="bg-darkblue2 p-6 rounded-lg shadow-md">
+          <h3 className="text-white text-lg font-medium">Password</h3>
+          <p className="text-gray-400 text-sm mt-1">
+            Change your password from{' '}
+            <Link to="/setting" className="text-primary hover:underline">Settings</Link>. Doing so signs out all other sessions.
+          </p>
+        </div>
+        <ActiveSessions />
+        <LoginActivityTable />
       </div>
     </div>
   );
 };
 
-export default SecurityPage;
\ No newline at end of file
+export default SecurityPage;
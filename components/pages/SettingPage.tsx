@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import Button from '../common/Button';
 import Input from '../common/Input';
 import { useAuth } from '../../context/AuthContext';
+import { normalizePhoneNumber } from '../../services/identifier';
+import ChangePasswordForm from '../security/ChangePasswordForm';
 import { UserIcon, PhoneIcon, CameraIcon } from '@heroicons/react/24/outline'; // Added CameraIcon
 
 const SettingPage: React.FC = () => {
@@ -35,8 +37,8 @@ const SettingPage: React.FC = () => {
     }
     if (!phoneNumber.trim()) {
       newErrors.phoneNumber = 'Phone Number cannot be empty.';
-    } else if (!/^\d+$/.test(phoneNumber)) {
-      newErrors.phoneNumber = 'Phone Number must be numeric.';
+    } else if (!normalizePhoneNumber(phoneNumber)) {
+      newErrors.phoneNumber = 'Enter a valid Indonesian phone number (e.g. 08123456789).';
     }
     setFormErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -201,6 +203,11 @@ const SettingPage: React.FC = () => {
             Update Profile
           </Button>
         </form>
+
+        <h3 className="text-xl font-semibold text-white mt-10 mb-4 pt-6 border-t border-gray-700">Change Password</h3>
+        <div className="max-w-md">
+          <ChangePasswordForm />
+        </div>
       </div>
     </div>
   );
@@ -1,83 +1,46 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useState } from 'react';
 import { useTransactions } from '../../context/TransactionContext';
+import { useTrades } from '../../context/TradeContext';
+import { usePriceFeed } from '../../hooks/usePriceFeed';
+import MarketOverviewChart from '../charts/MarketOverviewChart';
 import { ChevronDownIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { TRADE_MARKETS, TRADE_PACKAGES } from '../../constants';
+import { TradeDirection } from '../../types';
+import { config } from '../../config';
 
-interface TradeHistoryItem {
-  id: string;
-  date: string;
-  market: string;
-  trx: string;
-  package: string;
-  amount: number;
-  rateStake: number;
-  rateEnd: number;
-  status: 'Win' | 'Loss' | 'Pending';
-}
-
-// Mock data to show how it looks with rows
-const MOCK_TRADE_HISTORY: TradeHistoryItem[] = [
-  // Example row if needed, but keeping empty for now to match the "No records" feel if that's what's intended
-  /*
-  {
-    id: '1',
-    date: '18/12/2025 00:26',
-    market: 'ETH/BTC',
-    trx: 'BUY',
-    package: 'Basic',
-    amount: 50,
-    rateStake: 0.03311,
-    rateEnd: 0.03328,
-    status: 'Win'
-  }
-  */
-];
+const formatTradeDate = (iso: string) => new Date(iso).toLocaleString('id-ID', {
+  day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit',
+});
 
 const TradePage: React.FC = () => {
   const { balance } = useTransactions();
-  const containerRef = useRef<HTMLDivElement>(null);
-  const [stakeAmount, setStakeAmount] = useState('50');
+  const { trades, openTrade, isOpeningTrade } = useTrades();
+  const [stakeAmount, setStakeAmount] = useState(String(config.trading.minStake));
   const [tradeTime, setTradeTime] = useState('3 Hour');
-
-  useEffect(() => {
-    if (containerRef.current) {
-        if (containerRef.current.querySelector('script')) return;
-
-        const widgetContainer = document.createElement('div');
-        widgetContainer.className = 'tradingview-widget-container__widget';
-        widgetContainer.style.height = '100%';
-        widgetContainer.style.width = '100%';
-        containerRef.current.appendChild(widgetContainer);
-
-        const script = document.createElement('script');
-        script.src = "https://s3.tradingview.com/external-embedding/embed-widget-advanced-chart.js";
-        script.type = "text/javascript";
-        script.async = true;
-        script.innerHTML = JSON.stringify({
-          "autosize": true,
-          "symbol": "BINANCE:ETHBTC",
-          "interval": "1",
-          "timezone": "Etc/UTC",
-          "theme": "dark",
-          "style": "1",
-          "locale": "en",
-          "enable_publishing": false,
-          "hide_side_toolbar": false,
-          "allow_symbol_change": true,
-          "container_id": "tradingview_chart",
-          "show_popup_button": true,
-          "popup_width": "1000",
-          "popup_height": "650",
-          "support_host": "https://www.tradingview.com"
-        });
-        containerRef.current.appendChild(script);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const market = TRADE_MARKETS[0];
+  const { tick, previous } = usePriceFeed(market);
+  const payoutPercent = Math.round(config.trading.payoutRatio * 100);
+
+  const handleTrade = async (direction: TradeDirection) => {
+    const amount = parseFloat(stakeAmount.replace(/\D/g, ''));
+    if (isNaN(amount) || amount <= 0) {
+      setMessage({ type: 'error', text: 'Invalid stake amount.' });
+      return;
     }
-    
-    return () => {
-        if (containerRef.current) {
-            containerRef.current.innerHTML = '';
-        }
-    };
-  }, []);
+    if (amount > balance) {
+      setMessage({ type: 'error', text: 'Insufficient balance.' });
+      return;
+    }
+    const tradePackage = TRADE_PACKAGES.find(p => p.label === tradeTime) || TRADE_PACKAGES[0];
+    const result = await openTrade(market, direction, amount, tradePackage);
+    setMessage({
+      type: result.success ? 'success' : 'error',
+      text: result.success && result.trade
+        ? `${direction} ${market} @ ${result.trade.rateStake.toFixed(5)} opened. Expires ${formatTradeDate(result.trade.expiresAt)}.`
+        : result.message,
+    });
+  };
 
   return (
     <div className="w-full flex flex-col min-h-screen bg-[#0B0E11] space-y-4 p-1 sm:p-2 lg:p-4">
@@ -88,19 +51,19 @@ const TradePage: React.FC = () => {
           {/* Chart Header */}
           <div className="p-4 border-b border-[#2B2B2B] bg-[#1C1C1C] flex items-center justify-between">
               <div className="flex items-center space-x-2 cursor-pointer group">
-                  <h2 className="text-white text-lg font-bold">ETH/BTC</h2>
+                  <h2 className="text-white text-lg font-bold">{market}</h2>
                   <ChevronDownIcon className="w-4 h-4 text-gray-500 group-hover:text-white transition-colors" />
               </div>
+              {tick && (
+                  <div className={`text-lg font-bold font-sans tabular-nums ${previous && tick.price < previous.price ? 'text-danger' : 'text-success'}`}>
+                      {tick.price.toFixed(5)}
+                  </div>
+              )}
           </div>
 
           {/* Chart Body */}
           <div className="relative h-[450px] sm:h-[550px] lg:h-[650px]">
-              <div 
-                id="tradingview_chart"
-                className="tradingview-widget-container w-full h-full" 
-                ref={containerRef}
-              >
-              </div>
+              <MarketOverviewChart symbol={market} decimals={5} />
           </div>
 
           {/* Bottom Control Bar */}
@@ -120,26 +83,45 @@ const TradePage: React.FC = () => {
                    <div className="px-3 py-2.5 text-gray-500 border-r border-[#333]">
                        <ClockIcon className="w-4 h-4" />
                    </div>
-                   <div className="flex-grow flex items-center justify-between px-3 py-2.5">
-                       <span className="text-gray-300 text-sm">{tradeTime}</span>
-                       <ChevronDownIcon className="w-3 h-3 text-gray-500" />
+                   <div className="relative flex-grow flex items-center">
+                       <select
+                            value={tradeTime}
+                            onChange={(e) => setTradeTime(e.target.value)}
+                            className="appearance-none bg-transparent w-full px-3 py-2.5 text-gray-300 text-sm outline-none cursor-pointer"
+                       >
+                           {TRADE_PACKAGES.map(p => (
+                               <option key={p.label} value={p.label} className="bg-[#151922]">{p.label}</option>
+                           ))}
+                       </select>
+                       <ChevronDownIcon className="w-3 h-3 text-gray-500 absolute right-3 pointer-events-none" />
                    </div>
                </div>
 
-               <button className="flex-grow lg:flex-1 bg-[#00C098] hover:bg-[#00D8AB] text-white font-bold py-3 px-6 rounded flex items-center justify-center space-x-2 transition-all active:scale-95">
+               <button
+                    onClick={() => handleTrade(TradeDirection.BUY)}
+                    disabled={isOpeningTrade}
+                    className="flex-grow lg:flex-1 bg-[#00C098] hover:bg-[#00D8AB] text-white font-bold py-3 px-6 rounded flex items-center justify-center space-x-2 transition-all active:scale-95 disabled:opacity-50">
                    <div className="bg-white/20 p-1 rounded-full">
                        <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 10l7-7m0 0l7 7m-7-7v18" /></svg>
                    </div>
-                   <span className="text-base tracking-wide">Buy 99%</span>
+                   <span className="text-base tracking-wide">Buy {payoutPercent}%</span>
                </button>
 
-               <button className="flex-grow lg:flex-1 bg-[#FF8A65] hover:bg-[#FF9D7E] text-white font-bold py-3 px-6 rounded flex items-center justify-center space-x-2 transition-all active:scale-95">
+               <button
+                    onClick={() => handleTrade(TradeDirection.SELL)}
+                    disabled={isOpeningTrade}
+                    className="flex-grow lg:flex-1 bg-[#FF8A65] hover:bg-[#FF9D7E] text-white font-bold py-3 px-6 rounded flex items-center justify-center space-x-2 transition-all active:scale-95 disabled:opacity-50">
                    <div className="bg-white/20 p-1 rounded-full rotate-180">
                        <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 10l7-7m0 0l7 7m-7-7v18" /></svg>
                    </div>
-                   <span className="text-base tracking-wide">Sell 99%</span>
+                   <span className="text-base tracking-wide">Sell {payoutPercent}%</span>
                </button>
           </div>
+          {message && (
+              <div className={`mx-4 mb-4 p-2 rounded text-xs ${message.type === 'success' ? 'bg-success/20 text-success' : 'bg-danger/20 text-danger'}`}>
+                  {message.text}
+              </div>
+          )}
       </div>
 
       {/* 2. History Card - EXACTLY LIKE SCREENSHOT */}
@@ -163,12 +145,12 @@ const TradePage: React.FC = () => {
                       </tr>
                   </thead>
                   <tbody>
-                      {MOCK_TRADE_HISTORY.map((item) => (
+                      {trades.map((item) => (
                           <tr key={item.id} className="border-b border-[#2B2B2B]/50 hover:bg-white/[0.02] transition-colors">
-                              <td className="px-6 py-4 text-sm text-gray-400 font-sans tabular-nums">{item.date}</td>
+                              <td className="px-6 py-4 text-sm text-gray-400 font-sans tabular-nums">{formatTradeDate(item.date)}</td>
                               <td className="px-6 py-4 text-sm text-white font-medium">{item.market}</td>
                               <td className="px-6 py-4">
-                                  <span className={`text-xs font-bold ${item.trx === 'BUY' ? 'text-success' : 'text-danger'}`}>
+                                  <span className={`text-xs font-bold ${item.trx === TradeDirection.BUY ? 'text-success' : 'text-danger'}`}>
                                       {item.trx}
                                   </span>
                               </td>
@@ -177,18 +159,19 @@ const TradePage: React.FC = () => {
                                   {item.amount.toLocaleString('id-ID')}
                               </td>
                               <td className="px-6 py-4 text-sm text-gray-400 text-center font-sans tabular-nums">{item.rateStake.toFixed(5)}</td>
-                              <td className="px-6 py-4 text-sm text-gray-400 text-center font-sans tabular-nums">{item.rateEnd.toFixed(5)}</td>
+                              <td className="px-6 py-4 text-sm text-gray-400 text-center font-sans tabular-nums">{item.rateEnd === null ? '-' : item.rateEnd.toFixed(5)}</td>
                               <td className="px-6 py-4 text-center">
                                   <span className={`px-3 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${
                                       item.status === 'Win' ? 'bg-success/20 text-success' : 
-                                      item.status === 'Loss' ? 'bg-danger/20 text-danger' : 'bg-warning/20 text-warning'
+                                      item.status === 'Loss' ? 'bg-danger/20 text-danger' :
+                                      item.status === 'Refunded' ? 'bg-white/10 text-gray-400' : 'bg-warning/20 text-warning'
                                   }`}>
                                       {item.status}
                                   </span>
                               </td>
                           </tr>
                       ))}
-                      {MOCK_TRADE_HISTORY.length === 0 && (
+                      {trades.length === 0 && (
                           <tr>
                               <td colSpan={8} className="py-20 text-center text-gray-600 text-sm">
                                   No transaction records found.
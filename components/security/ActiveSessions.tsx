@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { ComputerDesktopIcon, DevicePhoneMobileIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../../context/AuthContext';
+import { UserSession } from '../../types';
+import { formatDevice, getCurrentSessionId } from '../../services/sessionService';
+import Button from '../common/Button';
+
+const ActiveSessions: React.FC = () => {
+  const { getActiveSessions, signOutOtherSessions } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadSessions = async () => {
+    setSessions(await getActiveSessions());
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const currentSessionId = getCurrentSessionId();
+  const otherSessions = sessions.filter(s => s.id !== currentSessionId);
+
+  const handleSignOutOthers = async () => {
+    if (!window.confirm('Sign out all other sessions?')) return;
+    setIsSigningOut(true);
+    setMessage(null);
+    try {
+      await signOutOtherSessions();
+      setMessage({ type: 'success', text: 'All other sessions have been signed out.' });
+      await loadSessions();
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message || 'Failed to sign out other sessions.' });
+    }
+    setIsSigningOut(false);
+  };
+
+  return (
+    <div className="bg-darkblue2 p-6 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-white text-lg font-medium">Active Sessions</h3>
+          <p className="text-gray-500 text-xs">Devices currently signed in to your account.</p>
+        </div>
+        <Button variant="danger" size="sm" onClick={handleSignOutOthers} isLoading={isSigningOut} disabled={isSigningOut || otherSessions.length === 0}>
+          Sign Out Other Sessions
+        </Button>
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded text-sm mb-4 ${message.type === 'success' ? 'bg-success/20 text-success' : 'bg-danger/20 text-danger'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm">Loading sessions...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-gray-400 text-sm">No active sessions.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {sessions.map(session => (
+            <li key={session.id} className="py-3 flex items-center">
+              {session.device.deviceType === 'Desktop'
+                ? <ComputerDesktopIcon className="w-6 h-6 text-gray-400 mr-3" />
+                : <DevicePhoneMobileIcon className="w-6 h-6 text-gray-400 mr-3" />}
+              <div className="flex-1">
+                <p className="text-white text-sm">
+                  {formatDevice(session.device)}
+                  {session.id === currentSessionId && (
+                    <span className="ml-2 px-2 py-0.5 rounded text-xs bg-success/20 text-success">This device</span>
+                  )}
+                </p>
+                <p className="text-gray-500 text-xs">
+                  Signed in {new Date(session.createdAt).toLocaleString('id-ID')} · Last active {new Date(session.lastSeenAt).toLocaleString('id-ID')}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../../context/AuthContext';
+import { validateNewPassword } from '../../services/authService';
+import Button from '../common/Button';
+import Input from '../common/Input';
+
+const ChangePasswordForm: React.FC = () => {
+  const { changePassword } = useAuth();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<{ [key: string]: string | undefined }>({});
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validate = () => {
+    const newErrors: typeof errors = {};
+    if (!currentPassword) newErrors.currentPassword = 'Current password is required.';
+    newErrors.newPassword = validateNewPassword(newPassword) || undefined;
+    if (newPassword !== confirmPassword) newErrors.confirmPassword = 'Passwords do not match.';
+    setErrors(newErrors);
+    return Object.values(newErrors).every(v => !v);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    if (!validate()) return;
+
+    setIsSubmitting(true);
+    const result = await changePassword(currentPassword, newPassword);
+    setIsSubmitting(false);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    if (result.success) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {message && (
+        <div className={`p-3 rounded-md text-sm ${message.type === 'success' ? 'bg-success/20 text-success' : 'bg-danger/20 text-danger'}`}>
+          {message.text}
+        </div>
+      )}
+      <Input
+        id="currentPassword"
+        label="Current Password"
+        type="password"
+        autoComplete="current-password"
+        icon={<LockClosedIcon />}
+        value={currentPassword}
+        onChange={(e) => { setCurrentPassword(e.target.value); setErrors(prev => ({ ...prev, currentPassword: undefined })); }}
+        error={errors.currentPassword}
+      />
+      <Input
+        id="newPassword"
+        label="New Password"
+        type="password"
+        autoComplete="new-password"
+        icon={<LockClosedIcon />}
+        value={newPassword}
+        onChange={(e) => { setNewPassword(e.target.value); setErrors(prev => ({ ...prev, newPassword: undefined })); }}
+        error={errors.newPassword}
+      />
+      <Input
+        id="confirmNewPassword"
+        label="Confirm New Password"
+        type="password"
+        autoComplete="new-password"
+        icon={<LockClosedIcon />}
+        value={confirmPassword}
+        onChange={(e) => { setConfirmPassword(e.target.value); setErrors(prev => ({ ...prev, confirmPassword: undefined })); }}
+        error={errors.confirmPassword}
+      />
+      <p className="text-xs text-gray-500">Changing your password signs out all other sessions.</p>
+      <Button type="submit" variant="primary" isLoading={isSubmitting} disabled={isSubmitting}>
+        Change Password
+      </Button>
+    </form>
+  );
+};
+
+export default ChangePasswordForm;
@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { LoginActivity, LoginEventType } from '../../types';
+import { formatDevice } from '../../services/sessionService';
+
+const EVENT_CLASS: Record<LoginEventType, string> = {
+  [LoginEventType.LOGIN]: 'bg-success/20 text-success',
+  [LoginEventType.LOGOUT]: 'bg-gray-700 text-gray-300',
+  [LoginEventType.LOGIN_FAILED]: 'bg-danger/20 text-danger',
+};
+
+const LoginActivityTable: React.FC = () => {
+  const { getLoginActivity } = useAuth();
+  const [activity, setActivity] = useState<LoginActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getLoginActivity()
+      .then(setActivity)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="bg-darkblue2 p-6 rounded-lg shadow-md">
+      <h3 className="text-white text-lg font-medium">Recent Login Activity</h3>
+      <p className="text-gray-500 text-xs mb-4">If you don't recognise an entry, change your password and sign out other sessions.</p>
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm">Loading activity...</p>
+      ) : activity.length === 0 ? (
+        <p className="text-gray-400 text-sm">No login activity recorded yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="py-2 pr-4 font-medium">Time</th>
+                <th className="py-2 pr-4 font-medium">Event</th>
+                <th className="py-2 pr-4 font-medium">Device</th>
+                <th className="py-2 font-medium">User Agent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {activity.map(item => (
+                <tr key={item.id} className="border-b border-gray-800">
+                  <td className="py-2 pr-4 text-gray-300 whitespace-nowrap">{new Date(item.timestamp).toLocaleString('id-ID')}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${EVENT_CLASS[item.event]}`}>{item.event}</span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-300 whitespace-nowrap">{formatDevice(item.device)}</td>
+                  <td className="py-2 text-gray-500 text-xs truncate max-w-xs" title={item.userAgent}>{item.userAgent}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoginActivityTable;
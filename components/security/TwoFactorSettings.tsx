@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { ShieldCheckIcon, KeyIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../../context/AuthContext';
+import { TwoFactorEnrollment, TwoFactorStatus } from '../../types';
+import Button from '../common/Button';
+import Input from '../common/Input';
+
+type Mode = 'idle' | 'enrolling' | 'regenerating' | 'disabling';
+
+const TwoFactorSettings: React.FC = () => {
+  const { getTwoFactorStatus, beginTwoFactorSetup, confirmTwoFactorSetup, regenerateRecoveryCodes, disableTwoFactor } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>('idle');
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadStatus = async () => setStatus(await getTwoFactorStatus());
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const reset = () => {
+    setMode('idle');
+    setEnrollment(null);
+    setQrDataUrl(null);
+    setCode('');
+  };
+
+  const handleBeginSetup = async () => {
+    setMessage(null);
+    setRecoveryCodes(null);
+    setIsBusy(true);
+    try {
+      const result = await beginTwoFactorSetup();
+      setEnrollment(result);
+      setQrDataUrl(await QRCode.toDataURL(result.otpauthUri, { margin: 1, width: 200 }));
+      setMode('enrolling');
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message || 'Failed to start 2FA setup.' });
+    }
+    setIsBusy(false);
+  };
+
+  const handleSubmitCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setIsBusy(true);
+    const action = mode === 'enrolling' ? confirmTwoFactorSetup : mode === 'regenerating' ? regenerateRecoveryCodes : disableTwoFactor;
+    const result = await action(code.trim());
+    setIsBusy(false);
+    setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+    if (result.success) {
+      setRecoveryCodes(result.recoveryCodes || null);
+      reset();
+      loadStatus();
+    } else {
+      setCode('');
+    }
+  };
+
+  const startMode = (next: Mode) => {
+    setMessage(null);
+    setRecoveryCodes(null);
+    setCode('');
+    setMode(next);
+  };
+
+  return (
+    <div className="bg-darkblue2 p-6 rounded-lg shadow-md">
+      <div className="flex items-center mb-4">
+        <div className="p-2 bg-primary/20 rounded mr-3">
+          <ShieldCheckIcon className="w-6 h-6 text-primary" />
+        </div>
+        <div>
+          <h3 className="text-white text-lg font-medium">Two-Factor Authentication (2FA)</h3>
+          <p className="text-gray-500 text-xs">Require a code from an authenticator app when logging in, withdrawing and transferring.</p>
+        </div>
+        {status && (
+          <span className={`ml-auto px-2 py-1 rounded text-xs font-semibold ${status.enabled ? 'bg-success/20 text-success' : 'bg-gray-700 text-gray-300'}`}>
+            {status.enabled ? 'Enabled' : 'Disabled'}
+          </span>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-3 rounded text-sm mb-4 ${message.type === 'success' ? 'bg-success/20 text-success' : 'bg-danger/20 text-danger'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="bg-[#1E2329] border border-warning/50 rounded p-4 mb-4">
+          <p className="text-warning text-sm font-medium mb-1">Save your recovery codes</p>
+          <p className="text-gray-400 text-xs mb-3">
+            Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-white">
+            {recoveryCodes.map(rc => <span key={rc}>{rc}</span>)}
+          </div>
+          <Button variant="ghost" size="sm" className="mt-3" onClick={() => navigator.clipboard?.writeText(recoveryCodes.join('\n'))}>
+            Copy codes
+          </Button>
+        </div>
+      )}
+
+      {mode === 'enrolling' && enrollment && (
+        <div className="flex flex-col md:flex-row gap-6 mb-4">
+          {qrDataUrl && <img src={qrDataUrl} alt="2FA QR code" className="w-48 h-48 rounded bg-white p-2" />}
+          <div className="text-sm text-gray-300 space-y-2">
+            <p>1. Scan the QR code with Google Authenticator, Authy or a similar app.</p>
+            <p>2. Or enter this key manually:</p>
+            <p className="font-mono text-white break-all bg-[#1E2329] px-3 py-2 rounded">{enrollment.secret}</p>
+            <p>3. Enter the 6-digit code shown in the app to finish.</p>
+          </div>
+        </div>
+      )}
+
+      {mode !== 'idle' ? (
+        <form onSubmit={handleSubmitCode} className="space-y-4 max-w-sm">
+          <Input
+            id="twoFactorSettingsCode"
+            label={mode === 'disabling' ? 'Authenticator or recovery code' : 'Authenticator code'}
+            type="text"
+            placeholder={mode === 'disabling' ? '123456 or xxxxx-xxxxx' : '123456'}
+            icon={<KeyIcon />}
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            autoComplete="one-time-code"
+            autoFocus
+          />
+          <div className="flex space-x-3">
+            <Button type="submit" variant={mode === 'disabling' ? 'danger' : 'primary'} isLoading={isBusy} disabled={isBusy}>
+              {mode === 'enrolling' ? 'Verify & Enable' : mode === 'regenerating' ? 'Generate New Codes' : 'Disable 2FA'}
+            </Button>
+            <Button type="button" variant="secondary" onClick={reset} disabled={isBusy}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : status?.enabled ? (
+        <div>
+          <p className="text-gray-400 text-sm mb-4">
+            Enabled since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString('id-ID') : '-'} · {status.recoveryCodesRemaining} recovery codes remaining.
+          </p>
+          <div className="flex space-x-3">
+            <Button variant="secondary" onClick={() => startMode('regenerating')}>Regenerate Recovery Codes</Button>
+            <Button variant="danger" onClick={() => startMode('disabling')}>Disable 2FA</Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="primary" onClick={handleBeginSetup} isLoading={isBusy} disabled={isBusy || !status}>
+          Enable 2FA
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { PlusIcon, TrashIcon, ClockIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../../context/AuthContext';
+import { useTransactions } from '../../context/TransactionContext';
+import { BANK_OPTIONS, E_WALLET_OPTIONS } from '../../constants';
+import { Beneficiary, BeneficiaryType } from '../../types';
+import { isBeneficiaryActive } from '../../services/beneficiaryService';
+import { config } from '../../config';
+import Button from '../common/Button';
+
+interface BeneficiaryPickerProps {
+  value: string;
+  onChange: (beneficiaryId: string) => void;
+  disabled?: boolean;
+}
+
+const fieldClass = 'w-full bg-[#1E2329] border border-gray-700 rounded px-3 py-2 text-white text-sm outline-none focus:border-primary';
+
+const coolingOffHours = config.beneficiaries.coolingOffMs / (60 * 60 * 1000);
+
+// Buku rekening penarikan: pilih rekening tersimpan atau tambahkan yang baru.
+const BeneficiaryPicker: React.FC<BeneficiaryPickerProps> = ({ value, onChange, disabled }) => {
+  const { user, twoFactorEnabled } = useAuth();
+  const { beneficiaries, addBeneficiary, removeBeneficiary } = useTransactions();
+  const [isAdding, setIsAdding] = useState(false);
+  const [type, setType] = useState<BeneficiaryType>(BeneficiaryType.BANK);
+  const [providerName, setProviderName] = useState('');
+  const [accountNumber, setAccountNumber] = useState('');
+  const [accountHolderName, setAccountHolderName] = useState(user?.fullName || '');
+  const [nickname, setNickname] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setProviderName('');
+    setAccountNumber('');
+    setNickname('');
+    setTwoFactorCode('');
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    const result = await addBeneficiary({ type, providerName, accountNumber, accountHolderName, nickname }, twoFactorCode || undefined);
+    setIsSaving(false);
+    setTwoFactorCode('');
+    if (!result.success) {
+      setError(result.message);
+      return;
+    }
+    resetForm();
+    setIsAdding(false);
+    if (result.beneficiary && isBeneficiaryActive(result.beneficiary)) onChange(result.beneficiary.id);
+  };
+
+  const handleRemove = async (beneficiary: Beneficiary) => {
+    if (!window.confirm(`Remove ${beneficiary.providerName} ${beneficiary.accountNumber}?`)) return;
+    if (await removeBeneficiary(beneficiary.id) && value === beneficiary.id) onChange('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {beneficiaries.map(b => {
+        const active = isBeneficiaryActive(b);
+        return (
+          <label
+            key={b.id}
+            className={`flex items-start justify-between bg-[#1E2329] border rounded p-3 ${value === b.id ? 'border-primary' : 'border-gray-700'} ${active && !disabled ? 'cursor-pointer' : 'opacity-60'}`}
+          >
+            <div className="flex items-start">
+              <input
+                type="radio"
+                name="beneficiary"
+                className="mt-1 mr-3 form-radio text-primary bg-darkblue2 border-gray-700 focus:ring-primary"
+                checked={value === b.id}
+                disabled={!active || disabled}
+                onChange={() => onChange(b.id)}
+              />
+              <div className="text-sm">
+                <p className="text-white font-medium">{b.nickname || b.providerName}</p>
+                <p className="text-gray-400 text-xs">
+                  {b.type === BeneficiaryType.BANK ? 'Bank' : 'E-Wallet'} · {b.providerName} · <span className="font-sans tabular-nums">{b.accountNumber}</span>
+                </p>
+                <p className="text-gray-500 text-xs uppercase">{b.accountHolderName}</p>
+                {!active && (
+                  <p className="text-warning text-xs mt-1 flex items-center">
+                    <ClockIcon className="w-3.5 h-3.5 mr-1" />
+                    Available from {new Date(b.activeAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+            </div>
+            <button type="button" onClick={() => handleRemove(b)} disabled={disabled} className="text-gray-500 hover:text-danger" title="Remove">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </label>
+        );
+      })}
+
+      {beneficiaries.length === 0 && !isAdding && (
+        <p className="text-gray-500 text-xs">No saved withdrawal accounts yet.</p>
+      )}
+
+      {isAdding ? (
+        <div className="bg-darkblue border border-gray-700 rounded p-3 space-y-2">
+          <div className="flex space-x-4 text-sm">
+            {[BeneficiaryType.BANK, BeneficiaryType.E_WALLET].map(option => (
+              <label key={option} className="inline-flex items-center text-white">
+                <input
+                  type="radio"
+                  name="beneficiaryType"
+                  checked={type === option}
+                  onChange={() => { setType(option); setProviderName(''); }}
+                  className="form-radio text-primary bg-darkblue2 border-gray-700 focus:ring-primary"
+                />
+                <span className="ml-2">{option === BeneficiaryType.BANK ? 'Bank Account' : 'E-Wallet'}</span>
+              </label>
+            ))}
+          </div>
+          <select className={fieldClass} value={providerName} onChange={e => setProviderName(e.target.value)}>
+            <option value="">{type === BeneficiaryType.BANK ? 'Select Bank' : 'Select E-Wallet'}</option>
+            {(type === BeneficiaryType.BANK ? BANK_OPTIONS : E_WALLET_OPTIONS).map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          <input
+            type="text"
+            inputMode="numeric"
+            className={`${fieldClass} font-sans tabular-nums`}
+            placeholder={type === BeneficiaryType.BANK ? 'Account Number' : 'E-Wallet Phone Number'}
+            value={accountNumber}
+            onChange={e => setAccountNumber(e.target.value)}
+          />
+          <input
+            type="text"
+            className={fieldClass}
+            placeholder="Account Holder Name"
+            value={accountHolderName}
+            onChange={e => setAccountHolderName(e.target.value)}
+          />
+          <input
+            type="text"
+            className={fieldClass}
+            placeholder="Nickname (optional)"
+            value={nickname}
+            onChange={e => setNickname(e.target.value)}
+          />
+          {twoFactorEnabled && (
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              className={`${fieldClass} font-sans tabular-nums tracking-widest`}
+              placeholder="Authenticator code"
+              value={twoFactorCode}
+              onChange={e => setTwoFactorCode(e.target.value.replace(/\D/g, ''))}
+            />
+          )}
+          <p className="text-gray-500 text-xs">
+            The account must be in your registered name.
+            {coolingOffHours > 0 && ` New accounts can receive withdrawals after ${coolingOffHours} hour${coolingOffHours === 1 ? '' : 's'}.`}
+          </p>
+          {error && <div className="p-2 rounded text-xs bg-danger/20 text-danger">{error}</div>}
+          <div className="flex space-x-2">
+            <Button type="button" size="sm" variant="ghost" onClick={() => { resetForm(); setIsAdding(false); }} disabled={isSaving}>Cancel</Button>
+            <Button type="button" size="sm" variant="primary" onClick={handleSave} isLoading={isSaving}>Save Account</Button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsAdding(true)}
+          disabled={disabled}
+          className="flex items-center text-primary text-sm hover:underline disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4 mr-1" />
+          Add withdrawal account
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default BeneficiaryPicker;
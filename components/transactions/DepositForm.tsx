@@ -4,13 +4,18 @@ import Button from '../common/Button';
 import { BanknotesIcon, CreditCardIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../../context/AuthContext';
 import { useTransactions } from '../../context/TransactionContext';
+import { useIdempotencyKey } from '../../hooks/useIdempotencyKey';
+import { config } from '../../config';
+import DepositProofInput from './DepositProofInput';
 
 const DepositForm: React.FC = () => {
   const { user } = useAuth();
   const { deposit, companyBankInfoList, isLoadingTransactions, transactionError, addNotification } = useTransactions();
   const [amount, setAmount] = useState<string>('');
+  const [proofFile, setProofFile] = useState<File | null>(null);
   const [errors, setErrors] = useState<{ amount?: string; api?: string }>({});
   const [depositSuccessMessage, setDepositSuccessMessage] = useState<string | null>(null);
+  const { idempotencyKey, resetIdempotencyKey } = useIdempotencyKey([amount]);
 
   useEffect(() => {
     if (transactionError) {
@@ -26,8 +31,8 @@ const DepositForm: React.FC = () => {
 
     if (!amount || isNaN(parsedAmount) || parsedAmount <= 0) {
       newErrors.amount = 'Please enter a valid amount greater than 0.';
-    } else if (parsedAmount < 10000) { // Example minimum deposit
-      newErrors.amount = 'Minimum deposit amount is Rp 10,000.';
+    } else if (parsedAmount < config.limits.minDeposit) {
+      newErrors.amount = `Minimum deposit amount is Rp ${config.limits.minDeposit.toLocaleString('id-ID')}.`;
     }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -40,12 +45,14 @@ const DepositForm: React.FC = () => {
     }
 
     setDepositSuccessMessage(null);
-    const success = await deposit(parseFloat(amount));
+    const success = await deposit(parseFloat(amount), idempotencyKey, proofFile || undefined);
 
     if (success) {
-      setDepositSuccessMessage(`Deposit of Rp ${parseFloat(amount).toLocaleString('id-ID')} submitted successfully. Please transfer funds to one of the company's bank accounts shown below. Your deposit will be approved by admin.`);
+      setDepositSuccessMessage(`Deposit of Rp ${parseFloat(amount).toLocaleString('id-ID')} submitted successfully. Please transfer the exact amount shown in your deposit history (it includes a unique code) to one of the company's bank accounts below, with the reference in the transfer note.`);
       setAmount('');
+      setProofFile(null);
       setErrors({});
+      resetIdempotencyKey();
     } else {
       setErrors(prev => ({ ...prev, api: transactionError || 'Failed to submit deposit. Please try again.' }));
     }
@@ -115,10 +122,12 @@ const DepositForm: React.FC = () => {
             ))}
           </div>
 
-          <p className="text-sm text-gray-500 mt-4">
+          <p className="text-sm text-gray-500 mt-4 mb-6">
             Please transfer the exact amount to one of the accounts above. Your deposit will be processed upon verification.
           </p>
 
+          <DepositProofInput id="depositProof" file={proofFile} onChange={setProofFile} />
+
           <div className="mt-8">
             <Button type="submit" fullWidth isLoading={isLoadingTransactions} disabled={isLoadingTransactions}>
               Submit Deposit Request
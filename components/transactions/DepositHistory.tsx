@@ -1,11 +1,32 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '../../context/AuthContext';
 import { useTransactions } from '../../context/TransactionContext';
 import { DepositTransaction, TransactionStatus } from '../../types';
+import { DEPOSIT_PROOF_TYPES, validateDepositProof } from '../../services/transactionService';
+import DepositProofPreview from './DepositProofPreview';
+import ExpiryCountdown from './ExpiryCountdown';
 
 const DepositHistory: React.FC = () => {
   const { user } = useAuth();
-  const { depositHistory, isLoadingTransactions } = useTransactions();
+  const { depositHistory, isLoadingTransactions, attachDepositProof } = useTransactions();
+  const [previewDeposit, setPreviewDeposit] = useState<DepositTransaction | null>(null);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [uploadMessage, setUploadMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleProofUpload = async (depositId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const validationError = validateDepositProof(file);
+    if (validationError) {
+      setUploadMessage({ type: 'error', text: validationError });
+      return;
+    }
+    setUploadingId(depositId);
+    const result = await attachDepositProof(depositId, file);
+    setUploadingId(null);
+    setUploadMessage({ type: result.success ? 'success' : 'error', text: result.message });
+  };
 
   const getStatusClass = (status: TransactionStatus): string => {
     switch (status) {
@@ -34,6 +55,11 @@ const DepositHistory: React.FC = () => {
       <h2 className="text-2xl sm:text-3xl font-bold text-white mb-6">Deposit History</h2>
 
       <div className="bg-darkblue2 p-6 rounded-lg shadow-md overflow-x-auto">
+        {uploadMessage && (
+          <div className={`p-3 rounded-md mb-4 text-sm ${uploadMessage.type === 'success' ? 'bg-success/20 text-success' : 'bg-danger/20 text-danger'}`}>
+            {uploadMessage.text}
+          </div>
+        )}
         {isLoadingTransactions ? (
           <p className="text-center text-gray-400">Loading deposit history...</p>
         ) : depositHistory.length === 0 ? (
@@ -57,6 +83,9 @@ const DepositHistory: React.FC = () => {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                   ID
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                  Proof
+                </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-800">
@@ -67,6 +96,11 @@ const DepositHistory: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-white font-medium font-sans tabular-nums">
                     Rp {transaction.amount.toLocaleString('id-ID')}
+                    {transaction.uniqueCode !== undefined && (
+                      <span className="block text-xs font-normal text-gray-400">
+                        Transfer Rp {transaction.transferAmount.toLocaleString('id-ID')} · {transaction.referenceCode}
+                      </span>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-gray-300">
                     {transaction.method}
@@ -77,16 +111,40 @@ const DepositHistory: React.FC = () => {
                     >
                       {transaction.status}
                     </span>
+                    {transaction.expiresAt && <div className="mt-1"><ExpiryCountdown expiresAt={transaction.expiresAt} /></div>}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-gray-500 font-sans tabular-nums">
                     {transaction.id}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm">
+                    <div className="flex items-center space-x-3">
+                      {transaction.proof && (
+                        <button type="button" onClick={() => setPreviewDeposit(transaction)} className="text-primary hover:underline">
+                          View
+                        </button>
+                      )}
+                      {transaction.status === TransactionStatus.PENDING && (
+                        <label className={`text-gray-300 hover:text-white cursor-pointer ${uploadingId ? 'pointer-events-none opacity-50' : ''}`}>
+                          {uploadingId === transaction.id ? 'Uploading...' : transaction.proof ? 'Replace' : 'Upload'}
+                          <input
+                            type="file"
+                            className="hidden"
+                            accept={DEPOSIT_PROOF_TYPES.join(',')}
+                            onChange={(e) => handleProofUpload(transaction.id, e)}
+                          />
+                        </label>
+                      )}
+                      {!transaction.proof && transaction.status !== TransactionStatus.PENDING && <span className="text-gray-500">-</span>}
+                    </div>
+                  </td>
                 </tr>
               ))}
             </tbody>
           </table>
         )}
       </div>
+
+      {previewDeposit && <DepositProofPreview deposit={previewDeposit} onClose={() => setPreviewDeposit(null)} />}
     </div>
   );
 };
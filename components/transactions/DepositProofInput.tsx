@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { PaperClipIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { DEPOSIT_PROOF_TYPES, validateDepositProof } from '../../services/transactionService';
+
+interface DepositProofInputProps {
+  id: string;
+  file: File | null;
+  onChange: (file: File | null) => void;
+}
+
+// Pilih bukti transfer (gambar/PDF) dengan validasi tipe & ukuran sebelum upload.
+const DepositProofInput: React.FC<DepositProofInputProps> = ({ id, file, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file || !file.type.startsWith('image/')) {
+      setPreviewUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setPreviewUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    const validationError = validateDepositProof(selected);
+    setError(validationError);
+    onChange(validationError ? null : selected);
+  };
+
+  return (
+    <div className="mb-4">
+      <label htmlFor={id} className="block text-gray-300 text-sm font-medium mb-2">Proof of Transfer (optional)</label>
+      {file ? (
+        <div className="bg-darkblue p-3 rounded-md border border-gray-700 flex items-center justify-between">
+          <div className="flex items-center min-w-0">
+            {previewUrl
+              ? <img src={previewUrl} alt="Proof of transfer" className="h-12 w-12 object-cover rounded mr-3" />
+              : <PaperClipIcon className="h-5 w-5 mr-3 text-gray-400" />}
+            <span className="text-sm text-white truncate">{file.name}</span>
+          </div>
+          <button type="button" onClick={() => onChange(null)} className="text-gray-400 hover:text-white ml-3" aria-label="Remove file">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+      ) : (
+        <input
+          id={id}
+          type="file"
+          accept={DEPOSIT_PROOF_TYPES.join(',')}
+          onChange={handleChange}
+          className="block w-full text-sm text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded file:border-0 file:text-sm file:font-semibold file:bg-primary/20 file:text-primary hover:file:bg-primary/30"
+        />
+      )}
+      {error && <p className="text-danger text-xs mt-1">{error}</p>}
+      <p className="text-xs text-gray-500 mt-1">JPG, PNG or PDF of your bank transfer receipt.</p>
+    </div>
+  );
+};
+
+export default DepositProofInput;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { DepositTransaction } from '../../types';
+import { useTransactions } from '../../context/TransactionContext';
+
+interface DepositProofPreviewProps {
+  deposit: DepositTransaction;
+  onClose: () => void;
+}
+
+// URL file private diminta saat modal dibuka karena hanya berlaku sementara.
+const DepositProofPreview: React.FC<DepositProofPreviewProps> = ({ deposit, onClose }) => {
+  const { getDepositProofUrl } = useTransactions();
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    getDepositProofUrl(deposit.id)
+      .then(result => {
+        if (cancelled) return;
+        if (result) setUrl(result);
+        else setError('Proof of transfer not found.');
+      })
+      .catch((e: any) => !cancelled && setError(e?.message || 'Failed to load proof of transfer.'))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [deposit.id]);
+
+  const isPdf = deposit.proof?.contentType === 'application/pdf';
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-darkblue2 border border-gray-700 rounded-lg shadow-2xl w-full max-w-2xl overflow-hidden animate-fade-in font-sans">
+        <div className="bg-darkblue p-4 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h3 className="text-white text-lg font-semibold uppercase tracking-wider">Proof of Transfer</h3>
+            <p className="text-xs text-gray-400">
+              Rp {deposit.amount.toLocaleString('id-ID')} · {deposit.proof?.fileName}
+              {deposit.proof && ` · uploaded ${new Date(deposit.proof.uploadedAt).toLocaleString()}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="p-6">
+          {isLoading && <p className="text-center text-gray-400">Loading proof of transfer...</p>}
+          {error && <div className="bg-danger/20 text-danger p-3 rounded-md text-sm border border-danger/30">{error}</div>}
+          {url && (isPdf ? (
+            <div className="space-y-3">
+              <iframe src={url} title="Proof of transfer" className="w-full h-[60vh] rounded border border-gray-700 bg-white" />
+              <a href={url} target="_blank" rel="noreferrer" className="text-primary text-sm underline">Open PDF in a new tab</a>
+            </div>
+          ) : (
+            <a href={url} target="_blank" rel="noreferrer">
+              <img src={url} alt="Proof of transfer" className="max-h-[60vh] mx-auto rounded border border-gray-700" />
+            </a>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DepositProofPreview;
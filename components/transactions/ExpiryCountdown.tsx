@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { ClockIcon } from '@heroicons/react/24/outline';
+
+interface ExpiryCountdownProps {
+  expiresAt: string;
+  className?: string;
+}
+
+const formatRemaining = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(n => String(n).padStart(2, '0')).join(':');
+};
+
+// Sisa waktu sebelum transaksi PENDING dibatalkan otomatis oleh sweeper.
+const ExpiryCountdown: React.FC<ExpiryCountdownProps> = ({ expiresAt, className = '' }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = new Date(expiresAt).getTime() - now;
+  const isUrgent = remaining < 60 * 60 * 1000;
+
+  return (
+    <span className={`inline-flex items-center text-xs font-sans tabular-nums ${isUrgent ? 'text-danger' : 'text-gray-400'} ${className}`}>
+      <ClockIcon className="w-3.5 h-3.5 mr-1" />
+      {remaining > 0 ? `Expires in ${formatRemaining(remaining)}` : 'Expiring...'}
+    </span>
+  );
+};
+
+export default ExpiryCountdown;
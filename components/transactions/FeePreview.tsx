@@ -0,0 +1,27 @@
+import React from 'react';
+import { FeeChannel } from '../../types';
+import { useTransactions } from '../../context/TransactionContext';
+import { quoteFee } from '../../services/feeService';
+
+interface FeePreviewProps {
+  // null bila saluran belum diketahui (mis. rekening tujuan belum dipilih)
+  channel: FeeChannel | null;
+  amount: number;
+  className?: string;
+}
+
+// Biaya dan total potongan saldo untuk nominal yang sedang diisi.
+const FeePreview: React.FC<FeePreviewProps> = ({ channel, amount, className = '' }) => {
+  const { feeSchedules } = useTransactions();
+  if (!channel || !(amount > 0)) return null;
+  const quote = quoteFee(feeSchedules, channel, amount);
+
+  return (
+    <div className={`text-xs font-sans tabular-nums space-y-0.5 ${className}`}>
+      <p className="text-gray-400">Fee: {quote.fee > 0 ? `Rp ${quote.fee.toLocaleString('id-ID')}` : 'Free'}</p>
+      <p className="text-gray-300">Total deducted from balance: Rp {quote.total.toLocaleString('id-ID')}</p>
+    </div>
+  );
+};
+
+export default FeePreview;
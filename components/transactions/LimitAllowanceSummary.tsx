@@ -0,0 +1,30 @@
+import React from 'react';
+import { LimitAllowance, VerificationLevel } from '../../types';
+
+interface LimitAllowanceSummaryProps {
+  allowance: LimitAllowance | null;
+  className?: string;
+}
+
+const rupiah = (amount: number): string => `Rp ${amount.toLocaleString('id-ID')}`;
+
+// Ringkasan limit per transaksi dan sisa kuota harian/bulanan.
+const LimitAllowanceSummary: React.FC<LimitAllowanceSummaryProps> = ({ allowance, className = '' }) => {
+  if (!allowance) return null;
+  const { limits } = allowance;
+
+  return (
+    <div className={`text-xs space-y-1 ${className}`}>
+      <p>
+        Min {rupiah(limits.minPerTransaction)}, Max {rupiah(limits.maxPerTransaction)} per transaction
+        {allowance.level === VerificationLevel.BASIC && !allowance.hasOverride && ' (complete KYC verification for higher limits)'}.
+      </p>
+      <p className="font-sans tabular-nums">
+        Remaining today: {rupiah(allowance.remainingDailyAmount)} · {allowance.remainingDailyCount} of {limits.dailyCount} transactions
+      </p>
+      <p className="font-sans tabular-nums">Remaining this month: {rupiah(allowance.remainingMonthlyAmount)}</p>
+    </div>
+  );
+};
+
+export default LimitAllowanceSummary;
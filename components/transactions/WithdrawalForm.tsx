@@ -2,22 +2,31 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import Input from '../common/Input';
 import Button from '../common/Button';
-import { BanknotesIcon, WalletIcon, BuildingLibraryIcon, IdentificationIcon, CreditCardIcon } from '@heroicons/react/24/outline';
+import { BanknotesIcon, ShieldCheckIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../../context/AuthContext';
 import { useTransactions } from '../../context/TransactionContext';
-import { E_WALLET_OPTIONS, BANK_OPTIONS } from '../../constants';
-import { TransactionStatus } from '../../types';
+import { useIdempotencyKey } from '../../hooks/useIdempotencyKey';
+import { useLimitAllowance } from '../../hooks/useLimitAllowance';
+import { TransactionStatus, TransactionType } from '../../types';
+import { config } from '../../config';
+import BeneficiaryPicker from './BeneficiaryPicker';
+import LimitAllowanceSummary from './LimitAllowanceSummary';
+import FeePreview from './FeePreview';
+import { getWithdrawalFeeChannel, quoteFee } from '../../services/feeService';
 
 const WithdrawalForm: React.FC = () => {
-  const { user } = useAuth();
-  const { balance, withdraw, isLoadingTransactions, transactionError, accountMode, withdrawalHistory } = useTransactions();
+  const { user, twoFactorEnabled } = useAuth();
+  const { balance, withdraw, isLoadingTransactions, transactionError, accountMode, withdrawalHistory, beneficiaries, feeSchedules } = useTransactions();
   const [amount, setAmount] = useState<string>('');
-  const [method, setMethod] = useState<'bank' | 'e-wallet'>('bank');
-  const [bankOrEwalletName, setBankOrEwalletName] = useState('');
-  const [accountNumber, setAccountNumber] = useState('');
-  const [accountHolderName, setAccountHolderName] = useState('');
+  const [beneficiaryId, setBeneficiaryId] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [withdrawalSuccessMessage, setWithdrawalSuccessMessage] = useState<string | null>(null);
+  const { idempotencyKey, resetIdempotencyKey } = useIdempotencyKey([amount, beneficiaryId]);
+  const allowance = useLimitAllowance(TransactionType.WITHDRAWAL);
+  const minWithdrawal = allowance?.limits.minPerTransaction ?? config.limits.minWithdrawal;
+  const selectedBeneficiary = beneficiaries.find(b => b.id === beneficiaryId);
+  const feeChannel = selectedBeneficiary ? getWithdrawalFeeChannel(selectedBeneficiary.type) : null;
 
   useEffect(() => {
     if (transactionError) {
@@ -37,15 +46,20 @@ const WithdrawalForm: React.FC = () => {
 
     if (!amount || isNaN(parsedAmount) || parsedAmount <= 0) {
       newErrors.amount = 'Please enter a valid amount greater than 0.';
-    } else if (parsedAmount < 50000) { // Example minimum withdrawal
-      newErrors.amount = 'Minimum withdrawal amount is Rp 50,000.';
+    } else if (parsedAmount < minWithdrawal) {
+      newErrors.amount = `Minimum withdrawal amount is Rp ${minWithdrawal.toLocaleString('id-ID')}.`;
+    } else if (allowance && parsedAmount > allowance.maxAmount) {
+      newErrors.amount = allowance.maxAmount > 0
+        ? `You can withdraw at most Rp ${allowance.maxAmount.toLocaleString('id-ID')} right now.`
+        : 'You have reached your withdrawal limit for now.';
     } else if (balance < parsedAmount) {
       newErrors.amount = 'Insufficient balance.';
+    } else if (feeChannel && balance < quoteFee(feeSchedules, feeChannel, parsedAmount).total) {
+      newErrors.amount = 'Insufficient balance for the amount plus fee.';
     }
 
-    if (!bankOrEwalletName) newErrors.bankOrEwalletName = `${method === 'bank' ? 'Bank' : 'E-Wallet'} name is required.`;
-    if (!accountNumber) newErrors.accountNumber = 'Account number is required.';
-    if (!accountHolderName) newErrors.accountHolderName = 'Account holder name is required.';
+    if (!beneficiaryId) newErrors.beneficiaryId = 'Select a withdrawal account.';
+    if (twoFactorEnabled && !/^\d{6}$/.test(twoFactorCode)) newErrors.twoFactorCode = 'Enter the 6-digit code from your authenticator app.';
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -58,23 +72,14 @@ const WithdrawalForm: React.FC = () => {
     }
 
     setWithdrawalSuccessMessage(null);
-    const fullMethodName = method === 'bank' ? `Bank Transfer (${bankOrEwalletName})` : `E-Wallet (${bankOrEwalletName})`;
-
-    const success = await withdraw(
-      parseFloat(amount),
-      fullMethodName,
-      bankOrEwalletName,
-      accountNumber,
-      accountHolderName,
-    );
+    const success = await withdraw(parseFloat(amount), beneficiaryId, idempotencyKey, twoFactorCode || undefined);
+    setTwoFactorCode('');
 
     if (success) {
       setWithdrawalSuccessMessage(`Withdrawal of Rp ${parseFloat(amount).toLocaleString('id-ID')} submitted successfully and your balance has been adjusted. It is now pending admin approval.`);
       setAmount('');
-      setBankOrEwalletName('');
-      setAccountNumber('');
-      setAccountHolderName('');
       setErrors({});
+      resetIdempotencyKey();
     } else {
       setErrors(prev => ({ ...prev, api: transactionError || 'Failed to submit withdrawal. Please try again.' }));
     }
@@ -127,6 +132,7 @@ const WithdrawalForm: React.FC = () => {
         <p className="text-gray-300 mb-4">
           Saldo Tersedia - {user?.fullName}: <span className="font-semibold text-white">Rp {balance.toLocaleString('id-ID')}</span>
         </p>
+        <LimitAllowanceSummary allowance={allowance} className="text-gray-400 mb-4" />
 
         <form onSubmit={handleSubmit}>
           <Input
@@ -143,120 +149,31 @@ const WithdrawalForm: React.FC = () => {
           />
 
           <div className="mb-4">
-            <label htmlFor="withdrawalMethod" className="block text-gray-300 text-sm font-medium mb-1">
-              Withdrawal Method
-            </label>
-            <div className="flex space-x-4">
-              <label className="inline-flex items-center">
-                <input
-                  type="radio"
-                  name="method"
-                  value="bank"
-                  checked={method === 'bank'}
-                  onChange={() => {
-                    setMethod('bank');
-                    setBankOrEwalletName('');
-                    setErrors(prev => ({ ...prev, bankOrEwalletName: undefined }));
-                  }}
-                  className="form-radio text-primary bg-darkblue2 border-gray-700 focus:ring-primary"
-                  disabled={accountMode === 'demo'}
-                />
-                <span className="ml-2 text-white">Bank Transfer</span>
-              </label>
-              <label className="inline-flex items-center">
-                <input
-                  type="radio"
-                  name="method"
-                  value="e-wallet"
-                  checked={method === 'e-wallet'}
-                  onChange={() => {
-                    setMethod('e-wallet');
-                    setBankOrEwalletName('');
-                    setErrors(prev => ({ ...prev, bankOrEwalletName: undefined }));
-                  }}
-                  className="form-radio text-primary bg-darkblue2 border-gray-700 focus:ring-primary"
-                  disabled={accountMode === 'demo'}
-                />
-                <span className="ml-2 text-white">E-Wallet</span>
-              </label>
-            </div>
+            <label className="block text-gray-300 text-sm font-medium mb-1">Withdraw To</label>
+            <BeneficiaryPicker
+              value={beneficiaryId}
+              onChange={(id) => { setBeneficiaryId(id); setErrors(prev => ({ ...prev, beneficiaryId: undefined })); }}
+              disabled={accountMode === 'demo'}
+            />
+            {errors.beneficiaryId && <p className="mt-1 text-sm text-danger">{errors.beneficiaryId}</p>}
           </div>
-
-          {method === 'bank' ? (
-            <div className="mb-4">
-              <label htmlFor="bankName" className="block text-gray-300 text-sm font-medium mb-1">
-                Bank Name
-              </label>
-              <div className="relative">
-                <BuildingLibraryIcon className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
-                <select
-                  id="bankName"
-                  className={`block w-full pl-10 pr-4 py-2 bg-darkblue2 text-white border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent ${errors.bankOrEwalletName ? 'border-danger focus:ring-danger' : ''}`}
-                  value={bankOrEwalletName}
-                  onChange={(e) => {
-                    setBankOrEwalletName(e.target.value);
-                    setErrors(prev => ({ ...prev, bankOrEwalletName: undefined }));
-                  }}
-                  disabled={accountMode === 'demo'}
-                >
-                  <option value="">Select Bank</option>
-                  {BANK_OPTIONS.map((bank) => (
-                    <option key={bank} value={bank}>{bank}</option>
-                  ))}
-                </select>
-              </div>
-              {errors.bankOrEwalletName && <p className="mt-1 text-sm text-danger">{errors.bankOrEwalletName}</p>}
-            </div>
-          ) : (
-            <div className="mb-4">
-              <label htmlFor="eWalletName" className="block text-gray-300 text-sm font-medium mb-1">
-                E-Wallet Provider
-              </label>
-              <div className="relative">
-                <WalletIcon className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
-                <select
-                  id="eWalletName"
-                  className={`block w-full pl-10 pr-4 py-2 bg-darkblue2 text-white border border-gray-700 rounded-md focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent ${errors.bankOrEwalletName ? 'border-danger focus:ring-danger' : ''}`}
-                  value={bankOrEwalletName}
-                  onChange={(e) => {
-                    setBankOrEwalletName(e.target.value);
-                    setErrors(prev => ({ ...prev, bankOrEwalletName: undefined }));
-                  }}
-                  disabled={accountMode === 'demo'}
-                >
-                  <option value="">Select E-Wallet</option>
-                  {E_WALLET_OPTIONS.map((ewallet) => (
-                    <option key={ewallet} value={ewallet}>{ewallet}</option>
-                  ))}
-                </select>
-              </div>
-              {errors.bankOrEwalletName && <p className="mt-1 text-sm text-danger">{errors.bankOrEwalletName}</p>}
-            </div>
+          <FeePreview channel={feeChannel} amount={parseFloat(amount)} className="mb-4" />
+          {twoFactorEnabled && (
+            <Input
+              id="twoFactorCode"
+              label="Authenticator Code"
+              type="text"
+              placeholder="6-digit code"
+              icon={<ShieldCheckIcon />}
+              value={twoFactorCode}
+              onChange={(e) => { setTwoFactorCode(e.target.value.replace(/\D/g, '').slice(0, 6)); setErrors(prev => ({ ...prev, twoFactorCode: undefined })); }}
+              error={errors.twoFactorCode}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              disabled={accountMode === 'demo'}
+            />
           )}
 
-          <Input
-            id="accountNumber"
-            label={`${method === 'bank' ? 'Bank Account Number' : 'E-Wallet Phone Number'}`}
-            type="text"
-            placeholder={`Enter your ${method === 'bank' ? 'bank account number' : 'e-wallet phone number'}`}
-            icon={<CreditCardIcon />}
-            value={accountNumber}
-            onChange={(e) => { setAccountNumber(e.target.value); setErrors(prev => ({ ...prev, accountNumber: undefined })); }}
-            error={errors.accountNumber}
-            disabled={accountMode === 'demo'}
-          />
-          <Input
-            id="accountHolderName"
-            label="Account Holder Name"
-            type="text"
-            placeholder="Enter your account holder name"
-            icon={<IdentificationIcon />}
-            value={accountHolderName}
-            onChange={(e) => { setAccountHolderName(e.target.value); setErrors(prev => ({ ...prev, accountHolderName: undefined })); }}
-            error={errors.accountHolderName}
-            disabled={accountMode === 'demo'}
-          />
-
           <div className="mt-8">
             <Button type="submit" fullWidth isLoading={isLoadingTransactions} disabled={isLoadingTransactions || accountMode === 'demo'}>
               Submit Withdrawal Request
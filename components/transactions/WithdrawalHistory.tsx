@@ -71,6 +71,9 @@ const WithdrawalHistory: React.FC = () => {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-white font-medium font-sans tabular-nums">
                     Rp {transaction.amount.toLocaleString('id-ID')}
+                    {transaction.fee > 0 && (
+                      <div className="text-xs text-gray-500 font-normal">Fee Rp {transaction.fee.toLocaleString('id-ID')}</div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-xs sm:text-sm text-gray-300">
                     {transaction.method}
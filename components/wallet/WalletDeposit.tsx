@@ -1,12 +1,19 @@
 import React, { useState } from 'react';
 import { useTransactions } from '../../context/TransactionContext';
 import WalletLayout from './WalletLayout';
+import { useIdempotencyKey } from '../../hooks/useIdempotencyKey';
+import { config } from '../../config';
+import { TransactionStatus } from '../../types';
+import ExpiryCountdown from '../transactions/ExpiryCountdown';
 import { InformationCircleIcon, ClipboardDocumentCheckIcon } from '@heroicons/react/24/outline';
 
 const WalletDeposit: React.FC = () => {
-  const { deposit, companyBankInfoList, isLoadingTransactions } = useTransactions();
+  const { deposit, depositHistory, companyBankInfoList, isLoadingTransactions } = useTransactions();
   const [amount, setAmount] = useState('');
   const [msg, setMsg] = useState<{type:'success'|'error', text:string}|null>(null);
+  const { idempotencyKey, resetIdempotencyKey } = useIdempotencyKey([amount]);
+  // Nominal + kode unik dan referensi dipakai admin untuk mencocokkan mutasi bank
+  const pendingDeposits = depositHistory.filter(d => d.status === TransactionStatus.PENDING && d.uniqueCode !== undefined);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -15,10 +22,15 @@ const WalletDeposit: React.FC = () => {
         setMsg({type:'error', text: 'Invalid amount'});
         return;
     }
-    const success = await deposit(num);
+    if (num < config.limits.minDeposit) {
+        setMsg({type:'error', text: `Minimum deposit is Rp ${config.limits.minDeposit.toLocaleString('id-ID')}`});
+        return;
+    }
+    const success = await deposit(num, idempotencyKey);
     if(success) {
-        setMsg({type:'success', text: 'Deposit request created. Please transfer to bank below.'});
+        setMsg({type:'success', text: 'Deposit request created. Please transfer the exact amount shown below.'});
         setAmount('');
+        resetIdempotencyKey();
     } else {
         setMsg({type:'error', text: 'Deposit failed.'});
     }
@@ -53,6 +65,21 @@ const WalletDeposit: React.FC = () => {
 
             <div className="bg-darkblue2 border border-borderGray rounded-lg p-6">
                 <h3 className="text-white text-lg mb-4">Transfer Destination</h3>
+                {pendingDeposits.length > 0 && (
+                    <div className="space-y-2 mb-4">
+                        {pendingDeposits.map(d => (
+                            <div key={d.id} className="bg-primary/10 border border-primary/30 rounded p-3">
+                                <p className="text-gray-400 text-xs">Transfer exactly</p>
+                                <p className="text-white text-lg font-bold font-sans tabular-nums">Rp {d.transferAmount.toLocaleString('id-ID')}</p>
+                                <p className="text-gray-400 text-xs mt-1">
+                                    Transfer note: <span className="text-primary font-bold tracking-wider">{d.referenceCode}</span>
+                                    <span className="text-gray-500"> · requested Rp {d.amount.toLocaleString('id-ID')} + unique code {d.uniqueCode}</span>
+                                </p>
+                                {d.expiresAt && <ExpiryCountdown expiresAt={d.expiresAt} className="mt-1" />}
+                            </div>
+                        ))}
+                    </div>
+                )}
                 <div className="space-y-4">
                     {companyBankInfoList.map((info, idx) => (
                         <div key={idx} className="bg-[#1E2329] p-3 rounded border border-gray-700 flex justify-between items-center">
@@ -69,7 +96,7 @@ const WalletDeposit: React.FC = () => {
                 </div>
                 <div className="bg-warning/10 text-warning p-3 rounded text-xs mt-4 flex">
                     <InformationCircleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
-                    <p>Please transfer the exact amount. Your balance will be updated automatically after admin verification.</p>
+                    <p>Please transfer the exact amount including the unique code, and put the reference in the transfer note. Your balance is credited with the full transferred amount once the bank statement is matched.</p>
                 </div>
             </div>
         </div>
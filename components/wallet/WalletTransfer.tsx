@@ -1,13 +1,24 @@
 import React, { useState } from 'react';
 import { useTransactions } from '../../context/TransactionContext';
+import { useAuth } from '../../context/AuthContext';
 import WalletLayout from './WalletLayout';
+import LimitAllowanceSummary from '../transactions/LimitAllowanceSummary';
+import FeePreview from '../transactions/FeePreview';
+import { quoteFee } from '../../services/feeService';
+import { useIdempotencyKey } from '../../hooks/useIdempotencyKey';
+import { useLimitAllowance } from '../../hooks/useLimitAllowance';
 import { ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { FeeChannel, TransactionType, TransferDirection } from '../../types';
 
 const WalletTransfer: React.FC = () => {
-  const { transfer, balance, isLoadingTransactions } = useTransactions();
+  const { twoFactorEnabled } = useAuth();
+  const { transfer, balance, isLoadingTransactions, transferHistory, feeSchedules } = useTransactions();
   const [email, setEmail] = useState('');
   const [amount, setAmount] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
   const [msg, setMsg] = useState<{type:'success'|'error', text:string}|null>(null);
+  const { idempotencyKey, resetIdempotencyKey } = useIdempotencyKey([email, amount]);
+  const allowance = useLimitAllowance(TransactionType.TRANSFER);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -15,12 +26,21 @@ const WalletTransfer: React.FC = () => {
     const num = parseFloat(amount);
     if (!email) { setMsg({type:'error', text: 'Email required'}); return; }
     if (!num || num <= 0) { setMsg({type:'error', text: 'Invalid amount'}); return; }
+    if (allowance && num < allowance.limits.minPerTransaction) { setMsg({type:'error', text: `Minimum transfer is Rp ${allowance.limits.minPerTransaction.toLocaleString('id-ID')}`}); return; }
+    if (allowance && num > allowance.maxAmount) {
+        setMsg({type:'error', text: allowance.maxAmount > 0 ? `You can transfer at most Rp ${allowance.maxAmount.toLocaleString('id-ID')} right now` : 'Transfer limit reached for now'});
+        return;
+    }
+    if (quoteFee(feeSchedules, FeeChannel.TRANSFER, num).total > balance) { setMsg({type:'error', text: 'Insufficient balance for the amount plus fee'}); return; }
+    if (twoFactorEnabled && !twoFactorCode) { setMsg({type:'error', text: 'Authenticator code required'}); return; }
     
-    const res = await transfer(email, num);
+    const res = await transfer(email, num, idempotencyKey, twoFactorCode || undefined);
+    setTwoFactorCode('');
     if (res.success) {
         setMsg({type:'success', text: res.message});
         setAmount('');
         setEmail('');
+        resetIdempotencyKey();
     } else {
         setMsg({type:'error', text: res.message});
     }
@@ -65,8 +85,26 @@ const WalletTransfer: React.FC = () => {
                         value={amount}
                         onChange={e => setAmount(e.target.value)}
                     />
+                    <FeePreview channel={FeeChannel.TRANSFER} amount={parseFloat(amount)} className="mt-2" />
+                    <LimitAllowanceSummary allowance={allowance} className="text-gray-500 mt-2" />
                 </div>
 
+                {twoFactorEnabled && (
+                    <div>
+                        <label className="block text-gray-400 text-xs mb-1">Authenticator Code</label>
+                        <input 
+                            type="text" 
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            maxLength={6}
+                            className="w-full bg-[#1E2329] border border-gray-700 rounded px-3 py-2 text-white outline-none focus:border-primary font-sans tabular-nums tracking-widest"
+                            placeholder="6-digit code"
+                            value={twoFactorCode}
+                            onChange={e => setTwoFactorCode(e.target.value.replace(/\D/g, ''))}
+                        />
+                    </div>
+                )}
+
                 <button disabled={isLoadingTransactions} className="w-full bg-primary hover:bg-blue-600 text-white py-3 rounded font-medium">
                     {isLoadingTransactions ? 'Sending...' : 'Confirm Transfer'}
                 </button>
@@ -77,6 +115,30 @@ const WalletTransfer: React.FC = () => {
                     </div>
                 )}
             </form>
+
+            {transferHistory.length > 0 && (
+                <div className="mt-8 pt-6 border-t border-gray-700">
+                    <h4 className="text-white text-sm font-medium mb-3">Recent Transfers</h4>
+                    <div className="space-y-2">
+                        {transferHistory.slice(0, 5).map(t => (
+                            <div key={t.id} className="bg-[#1E2329] p-3 rounded flex justify-between items-center text-xs">
+                                <div>
+                                    <p className="text-gray-300">
+                                        {t.direction === TransferDirection.OUT ? 'To' : 'From'} {t.counterpartyEmail}
+                                    </p>
+                                    <p className="text-gray-500">
+                                        {new Date(t.date).toLocaleString()}
+                                        {t.fee > 0 && ` · Fee Rp ${t.fee.toLocaleString('id-ID')}`}
+                                    </p>
+                                </div>
+                                <span className={`font-sans tabular-nums font-bold ${t.direction === TransferDirection.OUT ? 'text-danger' : 'text-success'}`}>
+                                    {t.direction === TransferDirection.OUT ? '-' : '+'}Rp {t.amount.toLocaleString('id-ID')}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
         </div>
     </WalletLayout>
   );
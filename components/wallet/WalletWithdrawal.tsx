@@ -1,23 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../context/AuthContext';
 import { useTransactions } from '../../context/TransactionContext';
-import { E_WALLET_OPTIONS, BANK_OPTIONS } from '../../constants';
-import { TransactionStatus } from '../../types';
+import { FeeChannel, TransactionStatus, TransactionType } from '../../types';
 import Button from '../common/Button';
 import WalletLayout from './WalletLayout';
+import BeneficiaryPicker from '../transactions/BeneficiaryPicker';
+import LimitAllowanceSummary from '../transactions/LimitAllowanceSummary';
+import FeePreview from '../transactions/FeePreview';
+import { describeFeeSchedule, findFeeSchedule, getWithdrawalFeeChannel, quoteFee } from '../../services/feeService';
+import { useIdempotencyKey } from '../../hooks/useIdempotencyKey';
+import { useLimitAllowance } from '../../hooks/useLimitAllowance';
 import { InformationCircleIcon } from '@heroicons/react/24/solid';
 
 const WalletWithdrawal: React.FC = () => {
-  const { user } = useAuth();
-  const { balance, withdraw, isLoadingTransactions, withdrawalHistory, accountMode } = useTransactions();
+  const { user, twoFactorEnabled } = useAuth();
+  const { balance, withdraw, isLoadingTransactions, transactionError, withdrawalHistory, accountMode, beneficiaries, feeSchedules } = useTransactions();
   const [amount, setAmount] = useState<string>('');
-  const [method, setMethod] = useState<'bank' | 'e-wallet'>('bank');
-  const [bankOrEwalletName, setBankOrEwalletName] = useState('');
-  const [accountNumber, setAccountNumber] = useState('');
-  const [accountHolderName, setAccountHolderName] = useState('');
+  const [beneficiaryId, setBeneficiaryId] = useState('');
+  const [twoFactorCode, setTwoFactorCode] = useState('');
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const { idempotencyKey, resetIdempotencyKey } = useIdempotencyKey([amount, beneficiaryId]);
+  const allowance = useLimitAllowance(TransactionType.WITHDRAWAL);
 
   const isLowBalance = balance <= 0;
+  const numericAmount = parseFloat(amount.replace(/\D/g, ''));
+  const selectedBeneficiary = beneficiaries.find(b => b.id === beneficiaryId);
+  const feeChannel = selectedBeneficiary ? getWithdrawalFeeChannel(selectedBeneficiary.type) : null;
+  const feeNotice = `Fee: ${describeFeeSchedule(findFeeSchedule(feeSchedules, FeeChannel.WITHDRAWAL_BANK))} to bank accounts, ${describeFeeSchedule(findFeeSchedule(feeSchedules, FeeChannel.WITHDRAWAL_E_WALLET))} to e-wallets.`;
+
+  useEffect(() => {
+    if (transactionError) setMessage({ type: 'error', text: transactionError });
+  }, [transactionError]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -28,21 +41,41 @@ const WalletWithdrawal: React.FC = () => {
          return;
     }
 
-    const numAmount = parseFloat(amount.replace(/\D/g, ''));
+    const numAmount = numericAmount;
     if (isNaN(numAmount) || numAmount <= 0) {
         setMessage({ type: 'error', text: 'Invalid amount.' });
         return;
     }
+    if (allowance && numAmount < allowance.limits.minPerTransaction) {
+        setMessage({ type: 'error', text: `Minimum withdrawal is Rp ${allowance.limits.minPerTransaction.toLocaleString('id-ID')}.` });
+        return;
+    }
+    if (allowance && numAmount > allowance.maxAmount) {
+        setMessage({ type: 'error', text: allowance.maxAmount > 0 ? `You can withdraw at most Rp ${allowance.maxAmount.toLocaleString('id-ID')} right now.` : 'Withdrawal limit reached for now.' });
+        return;
+    }
 
-    const fullMethodName = method === 'bank' ? `Bank (${bankOrEwalletName})` : `E-Wallet (${bankOrEwalletName})`;
-    const success = await withdraw(numAmount, fullMethodName, bankOrEwalletName, accountNumber, accountHolderName);
+    if (!beneficiaryId) {
+        setMessage({ type: 'error', text: 'Select a withdrawal account.' });
+        return;
+    }
+    if (feeChannel && quoteFee(feeSchedules, feeChannel, numAmount).total > balance) {
+        setMessage({ type: 'error', text: 'Insufficient balance for the amount plus fee.' });
+        return;
+    }
+    if (twoFactorEnabled && !twoFactorCode) {
+        setMessage({ type: 'error', text: 'Enter the code from your authenticator app.' });
+        return;
+    }
+
+    setMessage(null);
+    const success = await withdraw(numAmount, beneficiaryId, idempotencyKey, twoFactorCode || undefined);
+    setTwoFactorCode('');
 
     if (success) {
       setMessage({ type: 'success', text: 'Withdrawal submitted.' });
       setAmount('');
-      setAccountNumber('');
-    } else {
-      setMessage({ type: 'error', text: 'Withdrawal failed. Check balance.' });
+      resetIdempotencyKey();
     }
   };
 
@@ -80,35 +113,7 @@ const WalletWithdrawal: React.FC = () => {
                        {/* Withdrawal To */}
                        <div>
                            <label className="block text-gray-500 text-xs mb-1">Withdrawal To</label>
-                           <select 
-                                className="w-full bg-[#1E2329] border border-gray-700 rounded px-3 py-2 text-gray-300 text-sm outline-none focus:border-primary"
-                                value={bankOrEwalletName}
-                                onChange={(e) => setBankOrEwalletName(e.target.value)}
-                           >
-                               <option value="">Select Bank / E-Wallet</option>
-                               <optgroup label="Banks">
-                                   {BANK_OPTIONS.map(b => <option key={b} value={b}>{b}</option>)}
-                               </optgroup>
-                               <optgroup label="E-Wallets">
-                                    {E_WALLET_OPTIONS.map(e => <option key={e} value={e}>{e}</option>)}
-                               </optgroup>
-                           </select>
-                           
-                           {/* Extra inputs for account details */}
-                           <input 
-                                type="text"
-                                placeholder="Account Number"
-                                className="w-full bg-[#1E2329] border border-gray-700 rounded px-3 py-2 text-gray-300 text-sm outline-none focus:border-primary mt-2 font-sans tabular-nums"
-                                value={accountNumber}
-                                onChange={e => setAccountNumber(e.target.value)}
-                           />
-                           <input 
-                                type="text"
-                                placeholder="Account Holder Name"
-                                className="w-full bg-[#1E2329] border border-gray-700 rounded px-3 py-2 text-gray-300 text-sm outline-none focus:border-primary mt-2"
-                                value={accountHolderName}
-                                onChange={e => setAccountHolderName(e.target.value)}
-                           />
+                           <BeneficiaryPicker value={beneficiaryId} onChange={setBeneficiaryId} />
                        </div>
 
                        {/* Amount */}
@@ -124,8 +129,25 @@ const WalletWithdrawal: React.FC = () => {
                                     onChange={(e) => setAmount(e.target.value)}
                                />
                            </div>
+                           <FeePreview channel={feeChannel} amount={numericAmount} className="mt-2" />
                        </div>
 
+                       {twoFactorEnabled && (
+                           <div>
+                               <label className="block text-gray-500 text-xs mb-1">Authenticator Code</label>
+                               <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    autoComplete="one-time-code"
+                                    maxLength={6}
+                                    placeholder="6-digit code"
+                                    className="w-full bg-[#1E2329] border border-gray-700 rounded px-3 py-2 text-white text-sm outline-none focus:border-primary font-sans tabular-nums tracking-widest"
+                                    value={twoFactorCode}
+                                    onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, ''))}
+                               />
+                           </div>
+                       )}
+
                        <div className="pt-2">
                            <button type="submit" disabled={isLoadingTransactions} className="bg-primary hover:bg-blue-600 text-white font-medium py-2 px-4 rounded text-sm transition-colors">
                                {isLoadingTransactions ? 'Processing...' : 'Submit'}
@@ -138,7 +160,8 @@ const WalletWithdrawal: React.FC = () => {
                                <InformationCircleIcon className="w-4 h-4 mr-1 mt-0.5" />
                                <div>
                                    <span className="font-bold block mb-1">Notice:</span>
-                                   <p>Min Rp 10, Max Rp 500,000,000, Fee 0%.</p>
+                                   <p>{feeNotice}</p>
+                                   <LimitAllowanceSummary allowance={allowance} className="mt-1" />
                                </div>
                            </div>
                        </div>
@@ -183,7 +206,7 @@ const WalletWithdrawal: React.FC = () => {
                                 <tbody>
                                     {withdrawalHistory.map(wd => (
                                         <tr key={wd.id} className="border-b border-gray-700 text-xs">
-                                            <td className="p-3 text-gray-400 border-r border-gray-700 font-sans tabular-nums">Rp 0</td>
+                                            <td className="p-3 text-gray-400 border-r border-gray-700 font-sans tabular-nums">Rp {wd.fee.toLocaleString('id-ID')}</td>
                                             <td className="p-3 text-gray-300 border-r border-gray-700 font-sans tabular-nums">Rp {wd.amount.toLocaleString('id-ID')}</td>
                                             <td className="p-3 text-gray-400 border-r border-gray-700 max-w-xs">
                                                 <div className="font-bold text-gray-300">Withdrawal IDR Balance</div>
@@ -0,0 +1,228 @@
+/**
+ * Konfigurasi runtime aplikasi. Semua nilai dibaca dari environment variable
+ * `VITE_*` (lihat .env.example) dan divalidasi sekali saat startup; bila ada
+ * yang salah, index.tsx menampilkan ConfigErrorScreen alih-alih aplikasi.
+ */
+
+export type DataBackend = 'supabase' | 'local';
+
+export type PriceFeedProvider = 'server' | 'simulated' | 'replay';
+
+export interface AppConfig {
+  dataBackend: DataBackend;
+  supabase: {
+    url: string;
+    anonKey: string;
+  };
+  features: {
+    registration: boolean;
+    trading: boolean;
+    investment: boolean;
+  };
+  limits: {
+    minDeposit: number;
+    minWithdrawal: number;
+  };
+  expiry: {
+    // Deposit/withdrawal PENDING yang lebih tua dari ini dibatalkan otomatis; 0 = tidak pernah kedaluwarsa.
+    depositMs: number;
+    withdrawalMs: number;
+  };
+  beneficiaries: {
+    // Masa tunggu sebelum rekening penarikan yang baru disimpan bisa menerima dana.
+    coolingOffMs: number;
+  };
+  approvals: {
+    // Penyesuaian saldo (nilai absolut selisihnya) di atas angka ini butuh persetujuan admin kedua.
+    balanceAdjustmentThreshold: number;
+    // Withdrawal di atas angka ini butuh persetujuan admin kedua sebelum ditandai SUCCESS.
+    withdrawalThreshold: number;
+  };
+  trading: {
+    // Keuntungan bersih posisi menang sebagai pecahan stake (0.99 = 99%).
+    payoutRatio: number;
+    minStake: number;
+  };
+  investment: {
+    // Jarak antar pembayaran profit kontrak investasi.
+    payoutIntervalMs: number;
+  };
+  priceFeed: {
+    provider: PriceFeedProvider;
+    // Seed random walk provider simulasi; seed sama = harga sama.
+    seed: number;
+    // Symbol -> URL file CSV OHLC untuk provider replay.
+    replayFiles: Record<string, string>;
+    replayCandleIntervalMs: number;
+    replaySpeed: number;
+  };
+  branding: {
+    appName: string;
+    referralBaseUrl: string;
+  };
+}
+
+export interface ConfigLoadResult {
+  config: AppConfig;
+  errors: string[];
+}
+
+type RawEnv = Record<string, string | boolean | undefined>;
+
+const readString = (env: RawEnv, name: string, fallback = ''): string => {
+  const value = env[name];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : fallback;
+};
+
+const readBoolean = (env: RawEnv, name: string, fallback: boolean, errors: string[]): boolean => {
+  const value = readString(env, name);
+  if (!value) return fallback;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  errors.push(`${name} must be "true" or "false" (got "${value}").`);
+  return fallback;
+};
+
+const readAmount = (env: RawEnv, name: string, fallback: number, errors: string[]): number => {
+  const value = readString(env, name);
+  if (!value) return fallback;
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    errors.push(`${name} must be a non-negative number (got "${value}").`);
+    return fallback;
+  }
+  return amount;
+};
+
+// Format: "ETH/BTC=/price-data/ETHBTC-1m.csv,EUR/USD=/price-data/EURUSD-1m.csv"
+const readFileMap = (env: RawEnv, name: string, fallback: string, errors: string[]): Record<string, string> => {
+  const files: Record<string, string> = {};
+  for (const entry of readString(env, name, fallback).split(',').filter(e => e.trim() !== '')) {
+    const [symbol, url] = entry.split('=').map(part => part?.trim());
+    if (!symbol || !url) {
+      errors.push(`${name} entries must look like SYMBOL=url (got "${entry}").`);
+      continue;
+    }
+    files[symbol] = url;
+  }
+  return files;
+};
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+export const loadConfig = (env: RawEnv): ConfigLoadResult => {
+  const errors: string[] = [];
+
+  const backendValue = readString(env, 'VITE_DATA_BACKEND', 'supabase');
+  if (backendValue !== 'supabase' && backendValue !== 'local') {
+    errors.push(`VITE_DATA_BACKEND must be "supabase" or "local" (got "${backendValue}").`);
+  }
+  const dataBackend: DataBackend = backendValue === 'local' ? 'local' : 'supabase';
+
+  const supabaseUrl = readString(env, 'VITE_SUPABASE_URL');
+  const supabaseAnonKey = readString(env, 'VITE_SUPABASE_ANON_KEY');
+  // Kredensial Supabase hanya wajib bila backend Supabase dipakai.
+  if (dataBackend === 'supabase') {
+    if (!supabaseUrl) errors.push('VITE_SUPABASE_URL is required when VITE_DATA_BACKEND is "supabase".');
+    else if (!isHttpUrl(supabaseUrl)) errors.push(`VITE_SUPABASE_URL is not a valid URL (got "${supabaseUrl}").`);
+    if (!supabaseAnonKey) errors.push('VITE_SUPABASE_ANON_KEY is required when VITE_DATA_BACKEND is "supabase".');
+  }
+
+  const payoutRatio = readAmount(env, 'VITE_TRADE_PAYOUT_RATIO', 0.99, errors);
+  if (payoutRatio <= 0 || payoutRatio > 10) {
+    errors.push(`VITE_TRADE_PAYOUT_RATIO must be greater than 0 and at most 10 (got "${payoutRatio}").`);
+  }
+
+  const payoutIntervalHours = readAmount(env, 'VITE_INVESTMENT_PAYOUT_INTERVAL_HOURS', 24, errors);
+  if (payoutIntervalHours <= 0) errors.push('VITE_INVESTMENT_PAYOUT_INTERVAL_HOURS must be greater than 0.');
+
+  const depositExpiryHours = readAmount(env, 'VITE_DEPOSIT_EXPIRY_HOURS', 24, errors);
+  const withdrawalExpiryHours = readAmount(env, 'VITE_WITHDRAWAL_EXPIRY_HOURS', 72, errors);
+
+  const coolingOffHours = readAmount(env, 'VITE_BENEFICIARY_COOLING_OFF_HOURS', 24, errors);
+
+  // Dengan Supabase, trade dibuka dan diselesaikan di database pada harga market_prices;
+  // chart harus membaca sumber yang sama. Provider simulated/replay hanya untuk backend lokal.
+  const priceFeedValue = readString(env, 'VITE_PRICE_FEED', dataBackend === 'supabase' ? 'server' : 'simulated');
+  if (priceFeedValue !== 'server' && priceFeedValue !== 'simulated' && priceFeedValue !== 'replay') {
+    errors.push(`VITE_PRICE_FEED must be "server", "simulated" or "replay" (got "${priceFeedValue}").`);
+  } else if (dataBackend === 'supabase' && priceFeedValue !== 'server') {
+    errors.push(`VITE_PRICE_FEED must be "server" when VITE_DATA_BACKEND is "supabase" (got "${priceFeedValue}").`);
+  } else if (dataBackend === 'local' && priceFeedValue === 'server') {
+    errors.push('VITE_PRICE_FEED "server" requires VITE_DATA_BACKEND "supabase".');
+  }
+  const priceFeedProvider: PriceFeedProvider = priceFeedValue === 'replay' || priceFeedValue === 'server' ? priceFeedValue : 'simulated';
+  const replayFiles = readFileMap(env, 'VITE_PRICE_FEED_REPLAY_FILES', 'ETH/BTC=/price-data/ETHBTC-1m.csv', errors);
+  if (priceFeedProvider === 'replay' && Object.keys(replayFiles).length === 0) {
+    errors.push('VITE_PRICE_FEED_REPLAY_FILES is required when VITE_PRICE_FEED is "replay".');
+  }
+  const replaySpeed = readAmount(env, 'VITE_PRICE_FEED_REPLAY_SPEED', 1, errors);
+  if (replaySpeed <= 0) errors.push('VITE_PRICE_FEED_REPLAY_SPEED must be greater than 0.');
+  const replayIntervalSeconds = readAmount(env, 'VITE_PRICE_FEED_REPLAY_INTERVAL_SECONDS', 60, errors);
+  if (replayIntervalSeconds <= 0) errors.push('VITE_PRICE_FEED_REPLAY_INTERVAL_SECONDS must be greater than 0.');
+
+  const referralBaseUrl = readString(env, 'VITE_REFERRAL_BASE_URL', 'http://FOREXimf.com');
+  if (!isHttpUrl(referralBaseUrl)) {
+    errors.push(`VITE_REFERRAL_BASE_URL is not a valid URL (got "${referralBaseUrl}").`);
+  }
+
+  const config: AppConfig = {
+    dataBackend,
+    supabase: {
+      url: supabaseUrl,
+      anonKey: supabaseAnonKey,
+    },
+    features: {
+      registration: readBoolean(env, 'VITE_FEATURE_REGISTRATION', true, errors),
+      trading: readBoolean(env, 'VITE_FEATURE_TRADING', true, errors),
+      investment: readBoolean(env, 'VITE_FEATURE_INVESTMENT', true, errors),
+    },
+    limits: {
+      minDeposit: readAmount(env, 'VITE_MIN_DEPOSIT', 10000, errors),
+      minWithdrawal: readAmount(env, 'VITE_MIN_WITHDRAWAL', 50000, errors),
+    },
+    expiry: {
+      depositMs: depositExpiryHours * 60 * 60 * 1000,
+      withdrawalMs: withdrawalExpiryHours * 60 * 60 * 1000,
+    },
+    beneficiaries: {
+      coolingOffMs: coolingOffHours * 60 * 60 * 1000,
+    },
+    approvals: {
+      balanceAdjustmentThreshold: readAmount(env, 'VITE_APPROVAL_BALANCE_ADJUSTMENT_THRESHOLD', 10000000, errors),
+      withdrawalThreshold: readAmount(env, 'VITE_APPROVAL_WITHDRAWAL_THRESHOLD', 50000000, errors),
+    },
+    trading: {
+      payoutRatio,
+      minStake: readAmount(env, 'VITE_MIN_TRADE_STAKE', 50, errors),
+    },
+    investment: {
+      payoutIntervalMs: payoutIntervalHours * 60 * 60 * 1000,
+    },
+    priceFeed: {
+      provider: priceFeedProvider,
+      seed: Math.floor(readAmount(env, 'VITE_PRICE_FEED_SEED', 20250101, errors)),
+      replayFiles,
+      replayCandleIntervalMs: replayIntervalSeconds * 1000,
+      replaySpeed,
+    },
+    branding: {
+      appName: readString(env, 'VITE_APP_NAME', 'FOREXimf Pro'),
+      referralBaseUrl: referralBaseUrl.replace(/\/+$/, ''),
+    },
+  };
+
+  return { config, errors };
+};
+
+const loaded = loadConfig(import.meta.env);
+
+export const config: AppConfig = loaded.config;
+export const configErrors: string[] = loaded.errors;
@@ -1,7 +1,10 @@
 import React from 'react';
 import {
+  InvestmentPlan,
   MenuItem,
+  TradePackage,
 } from './types';
+import { SimulatedSymbol } from './services/priceFeed/simulatedFeed';
 import {
   ChartBarIcon,
   CurrencyDollarIcon,
@@ -60,23 +63,68 @@ export const MOCK_MARKET_DATA = [
   { name: 'Dec', value: 3900, pv: 4800, amt: 2181 },
 ];
 
-// --- Mock OHLC Data for Candlestick Chart (UI Only) ---
-export const MOCK_OHLC_DATA = Array.from({ length: 30 }, (_, i) => {
-  const basePrice = 17000 + Math.sin(i * 0.2) * 1000;
-  const volatility = 200;
-  const open = basePrice + (Math.random() - 0.5) * volatility;
-  const close = basePrice + (Math.random() - 0.5) * volatility;
-  const high = Math.max(open, close) + Math.random() * 100;
-  const low = Math.min(open, close) - Math.random() * 100;
-  
-  return {
-    time: `T${i}`,
-    open,
-    high,
-    low,
-    close,
-  };
-});
+// --- Trading ---
+export const TRADE_MARKETS = ['ETH/BTC'];
+
+// Parameter provider harga simulasi (services/priceFeed/simulatedFeed.ts)
+export const SIMULATED_PRICE_SYMBOLS: SimulatedSymbol[] = [
+  { symbol: 'ETH/BTC', initialPrice: 0.035, volatility: 0.0003, decimals: 5 },
+  { symbol: 'BTC/USDT', initialPrice: 65000, volatility: 0.0003, decimals: 2 },
+  { symbol: 'EUR/USD', initialPrice: 1.085, volatility: 0.00005, decimals: 5 },
+  { symbol: 'XAU/USD', initialPrice: 2350, volatility: 0.0001, decimals: 2 },
+];
+
+// Durasi posisi yang bisa dipilih di Trade page
+export const TRADE_PACKAGES: TradePackage[] = [
+  { label: '1 Minute', durationSeconds: 60 },
+  { label: '5 Minute', durationSeconds: 5 * 60 },
+  { label: '15 Minute', durationSeconds: 15 * 60 },
+  { label: '1 Hour', durationSeconds: 60 * 60 },
+  { label: '3 Hour', durationSeconds: 3 * 60 * 60 },
+];
+
+// Paket investasi. Nominal dalam Rupiah; projectedProfit dibayar bertahap selama termDays.
+export const INVESTMENT_PLANS: InvestmentPlan[] = [
+  {
+    id: 'gold',
+    name: 'PAKET GOLD',
+    termDays: 30,
+    tiers: [
+      { principal: 500_000, projectedProfit: 13_000_000 },
+      { principal: 1_000_000, projectedProfit: 30_000_000 },
+    ],
+  },
+  {
+    id: 'platinum',
+    name: 'PAKET PLATINUM',
+    termDays: 60,
+    tiers: [
+      { principal: 1_500_000, projectedProfit: 50_000_000 },
+      { principal: 2_500_000, projectedProfit: 80_000_000 },
+      { principal: 3_500_000, projectedProfit: 110_000_000 },
+    ],
+  },
+  {
+    id: 'diamond',
+    name: 'PAKET DIAMOND',
+    termDays: 90,
+    tiers: [
+      { principal: 4_500_000, projectedProfit: 140_000_000 },
+      { principal: 5_500_000, projectedProfit: 170_000_000 },
+      { principal: 6_500_000, projectedProfit: 200_000_000 },
+    ],
+  },
+  {
+    id: 'vip',
+    name: 'PAKET VIP',
+    termDays: 120,
+    tiers: [
+      { principal: 8_000_000, projectedProfit: 235_000_000 },
+      { principal: 9_000_000, projectedProfit: 275_000_000 },
+      { principal: 10_000_000, projectedProfit: 295_000_000 },
+    ],
+  },
+];
 
 // Mock News Data
 export const MOCK_NEWS = [
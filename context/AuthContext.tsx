@@ -1,20 +1,43 @@
 import React, { createContext, useState, useEffect, useContext, useCallback } from 'react';
-import { User, AuthStatus, UserProfileUpdate } from '../types';
+import { User, AuthStatus, UserProfileUpdate, TwoFactorStatus, TwoFactorEnrollment, TwoFactorResult, LoginActivity, UserSession, EmailVerificationResult } from '../types';
 import * as authService from '../services/authService';
+import * as twoFactorService from '../services/twoFactorService';
+import * as sessionService from '../services/sessionService';
+import * as emailVerificationService from '../services/emailVerificationService';
+import { scheduleJob } from '../services/scheduler';
 
 interface AuthContextType {
   user: User | null;
   status: AuthStatus;
+  // true bila password benar; status menjadi TWO_FACTOR_REQUIRED bila user memakai 2FA.
   login: (identifier: string, passwordAttempt: string) => Promise<boolean>;
-  register: (userData: Omit<User, 'id' | 'username' | 'isAdmin' | 'isVerified' | 'balance' | 'notifications' | 'profilePictureUrl'> & { password: string }) => Promise<boolean>;
+  verifyTwoFactorLogin: (code: string) => Promise<boolean>;
+  twoFactorEnabled: boolean;
+  getTwoFactorStatus: () => Promise<TwoFactorStatus>;
+  beginTwoFactorSetup: () => Promise<TwoFactorEnrollment>;
+  confirmTwoFactorSetup: (code: string) => Promise<TwoFactorResult>;
+  regenerateRecoveryCodes: (code: string) => Promise<TwoFactorResult>;
+  disableTwoFactor: (code: string) => Promise<TwoFactorResult>;
+  getLoginActivity: () => Promise<LoginActivity[]>;
+  getActiveSessions: () => Promise<UserSession[]>;
+  signOutOtherSessions: () => Promise<void>;
+  register: (userData: Omit<User, 'id' | 'username' | 'isAdmin' | 'roles' | 'isVerified' | 'emailVerified' | 'balance' | 'notifications' | 'profilePictureUrl'> & { password: string }) => Promise<boolean>;
   logout: () => void;
   isLoading: boolean;
   error: string | null;
-  verifyEmail: (email: string) => Promise<boolean>;
+  // Email akun yang login-nya ditolak karena belum dikonfirmasi.
+  unverifiedEmail: string | null;
+  confirmEmail: (email: string, code: string) => Promise<EmailVerificationResult>;
+  resendVerificationEmail: (email: string) => Promise<EmailVerificationResult>;
   refreshUser: () => void;
   updateProfile: (updatedData: UserProfileUpdate) => Promise<boolean>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (email: string, code: string, newPassword: string) => Promise<{ success: boolean; message: string }>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean; message: string }>;
 }
 
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) => {
@@ -22,26 +45,55 @@ export const AuthProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }
   const [status, setStatus] = useState<AuthStatus>(AuthStatus.LOADING);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState<boolean>(false);
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+
+  // Sesi yang belum melewati langkah kedua tidak dianggap login.
+  const applySession = useCallback(async (currentUser: User | null) => {
+    const requiresCode = currentUser ? await twoFactorService.isEnabled(currentUser.id) : false;
+    if (currentUser && requiresCode && !(await twoFactorService.isSessionVerified(currentUser.id))) {
+      setUser(null);
+      setStatus(AuthStatus.TWO_FACTOR_REQUIRED);
+    } else {
+      setUser(currentUser);
+      setStatus(currentUser ? AuthStatus.AUTHENTICATED : AuthStatus.UNAUTHENTICATED);
+    }
+    setTwoFactorEnabled(requiresCode);
+  }, []);
 
   const refreshUser = useCallback(async () => {
     setIsLoading(true);
     const currentUser = await authService.getCurrentUser();
-    setUser(currentUser);
-    setStatus(currentUser ? AuthStatus.AUTHENTICATED : AuthStatus.UNAUTHENTICATED);
+    await applySession(currentUser);
     setIsLoading(false);
-  }, []);
+  }, [applySession]);
 
   useEffect(() => {
     refreshUser();
   }, [refreshUser]);
 
+  // Sesi yang dikeluarkan lewat "sign out other sessions" berakhir dalam satu menit.
+  useEffect(() => {
+    if (status !== AuthStatus.AUTHENTICATED) return;
+    return scheduleJob({
+      name: 'session-check',
+      intervalMs: SESSION_CHECK_INTERVAL_MS,
+      run: async () => {
+        if (await authService.checkSession()) return;
+        setUser(null);
+        setStatus(AuthStatus.UNAUTHENTICATED);
+        setError('You have been signed out from another device.');
+      },
+    });
+  }, [status]);
+
   const login = async (identifier: string, passwordAttempt: string): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
     const result = await authService.login(identifier, passwordAttempt);
+    setUnverifiedEmail(result.unverifiedEmail || null);
     if (result.user) {
-      setUser(result.user);
-      setStatus(AuthStatus.AUTHENTICATED);
+      await applySession(result.user);
       setIsLoading(false);
       return true;
     } else {
@@ -52,7 +104,67 @@ export const AuthProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }
     }
   };
 
-  const register = async (userData: Omit<User, 'id' | 'username' | 'isAdmin' | 'isVerified' | 'balance' | 'notifications' | 'profilePictureUrl'> & { password: string }): Promise<boolean> => {
+  const verifyTwoFactorLogin = async (code: string): Promise<boolean> => {
+    setIsLoading(true);
+    setError(null);
+    const currentUser = await authService.getCurrentUser();
+    if (!currentUser) {
+      setError('Your session has expired. Please log in again.');
+      setStatus(AuthStatus.UNAUTHENTICATED);
+      setIsLoading(false);
+      return false;
+    }
+    if (!(await twoFactorService.verifyCode(currentUser.id, code))) {
+      setError('Invalid authentication code.');
+      setIsLoading(false);
+      return false;
+    }
+    await applySession(currentUser);
+    setIsLoading(false);
+    return true;
+  };
+
+  const requireUser = (): User => {
+    if (!user) throw new Error('You must be logged in.');
+    return user;
+  };
+
+  const getTwoFactorStatus = async (): Promise<TwoFactorStatus> =>
+    twoFactorService.getStatus(requireUser().id);
+
+  const beginTwoFactorSetup = async (): Promise<TwoFactorEnrollment> => {
+    const currentUser = requireUser();
+    return twoFactorService.beginEnrollment(currentUser.id, currentUser.email);
+  };
+
+  const confirmTwoFactorSetup = async (code: string): Promise<TwoFactorResult> => {
+    const result = await twoFactorService.confirmEnrollment(requireUser().id, code);
+    if (result.success) setTwoFactorEnabled(true);
+    return result;
+  };
+
+  const regenerateRecoveryCodes = async (code: string): Promise<TwoFactorResult> =>
+    twoFactorService.regenerateRecoveryCodes(requireUser().id, code);
+
+  const disableTwoFactor = async (code: string): Promise<TwoFactorResult> => {
+    const result = await twoFactorService.disable(requireUser().id, code);
+    if (result.success) setTwoFactorEnabled(false);
+    return result;
+  };
+
+  const getLoginActivity = async (): Promise<LoginActivity[]> =>
+    sessionService.getLoginActivity(requireUser().id);
+
+  const getActiveSessions = async (): Promise<UserSession[]> =>
+    sessionService.getActiveSessions(requireUser().id);
+
+  const signOutOtherSessions = async (): Promise<void> =>
+    sessionService.signOutOtherSessions(requireUser().id);
+
+  const changePassword = async (currentPassword: string, newPassword: string) =>
+    authService.changePassword(requireUser().id, currentPassword, newPassword);
+
+  const register = async (userData: Omit<User, 'id' | 'username' | 'isAdmin' | 'roles' | 'isVerified' | 'emailVerified' | 'balance' | 'notifications' | 'profilePictureUrl'> & { password: string }): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
     const result = await authService.register(userData);
@@ -73,17 +185,13 @@ export const AuthProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }
     setError(null);
   };
 
-  const verifyEmail = async (email: string): Promise<boolean> => {
-    setIsLoading(true);
-    setError(null);
-    const success = await authService.verifyEmail(email);
-    if (success) {
-      refreshUser();
-    } else {
-      setError('Email verification failed.');
+  const confirmEmail = async (email: string, code: string): Promise<EmailVerificationResult> => {
+    const result = await emailVerificationService.confirmEmail(email, code);
+    if (result.success) {
+      setUnverifiedEmail(null);
+      if (user) refreshUser();
     }
-    setIsLoading(false);
-    return success;
+    return result;
   };
 
   const updateProfile = async (updatedData: UserProfileUpdate): Promise<boolean> => {
@@ -110,13 +218,28 @@ export const AuthProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }
     user,
     status,
     login,
+    verifyTwoFactorLogin,
+    twoFactorEnabled,
+    getTwoFactorStatus,
+    beginTwoFactorSetup,
+    confirmTwoFactorSetup,
+    regenerateRecoveryCodes,
+    disableTwoFactor,
+    getLoginActivity,
+    getActiveSessions,
+    signOutOtherSessions,
     register,
     logout,
     isLoading,
     error,
-    verifyEmail,
+    unverifiedEmail,
+    confirmEmail,
+    resendVerificationEmail: emailVerificationService.sendVerificationEmail,
     refreshUser,
     updateProfile,
+    requestPasswordReset: authService.requestPasswordReset,
+    resetPassword: authService.resetPassword,
+    changePassword,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,109 @@
+import React, { createContext, useState, useEffect, useContext, useCallback } from 'react';
+import { InvestmentContract, InvestmentResult } from '../types';
+import * as investmentService from '../services/investmentService';
+import { scheduleJob } from '../services/scheduler';
+import { useAuth } from './AuthContext';
+import { useTransactions } from './TransactionContext';
+
+// Interval pengecekan payout kontrak investasi yang sudah jatuh tempo periodenya
+const PAYOUT_CHECK_INTERVAL_MS = 60 * 1000;
+
+interface InvestmentContextType {
+  investments: InvestmentContract[];
+  isLoadingInvestments: boolean;
+  isPurchasing: boolean;
+  purchaseInvestment: (planId: string, tierIndex: number) => Promise<InvestmentResult>;
+  refreshInvestments: () => Promise<void>;
+  // Admin
+  getAllInvestments: () => Promise<InvestmentContract[]>;
+  runDuePayouts: (reason: string) => Promise<number>;
+}
+
+const InvestmentContext = createContext<InvestmentContextType | undefined>(undefined);
+
+export const InvestmentProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) => {
+  const { user, refreshUser } = useAuth();
+  const { accountMode } = useTransactions();
+  const [investments, setInvestments] = useState<InvestmentContract[]>([]);
+  const [isLoadingInvestments, setIsLoadingInvestments] = useState<boolean>(false);
+  const [isPurchasing, setIsPurchasing] = useState<boolean>(false);
+
+  const fetchInvestments = useCallback(async () => {
+    if (user) {
+      setIsLoadingInvestments(true);
+      setInvestments(await investmentService.getUserInvestments(user.id));
+      setIsLoadingInvestments(false);
+    } else {
+      setInvestments([]);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    fetchInvestments();
+  }, [fetchInvestments]);
+
+  const hasActiveInvestments = investments.some(c => c.status === 'Active');
+
+  useEffect(() => {
+    if (!user || !hasActiveInvestments) return;
+    return scheduleJob({
+      name: 'investment-payouts',
+      intervalMs: PAYOUT_CHECK_INTERVAL_MS,
+      run: async () => {
+        const paidCount = await investmentService.processDuePayouts(user.id);
+        if (paidCount > 0) {
+          fetchInvestments();
+          refreshUser();
+        }
+      },
+    });
+  }, [user?.id, hasActiveInvestments, fetchInvestments, refreshUser]);
+
+  const purchaseInvestment = async (planId: string, tierIndex: number): Promise<InvestmentResult> => {
+    if (accountMode === 'demo') {
+      return { success: false, message: 'Investasi tidak tersedia dalam mode Demo.' };
+    }
+    if (!user) {
+      return { success: false, message: 'Anda harus login untuk berinvestasi.' };
+    }
+    setIsPurchasing(true);
+    const result = await investmentService.purchaseInvestment(user.id, planId, tierIndex);
+    if (result.success) {
+      refreshUser();
+      fetchInvestments();
+    }
+    setIsPurchasing(false);
+    return result;
+  };
+
+  // Admin: memproses payout semua kontrak Active, termasuk milik user yang sedang tidak online.
+  const runDuePayouts = async (reason: string): Promise<number> => {
+    if (!user) return 0;
+    const paidCount = await investmentService.runAllDuePayouts(user.id, reason);
+    if (paidCount > 0) {
+      fetchInvestments();
+      refreshUser();
+    }
+    return paidCount;
+  };
+
+  const value = {
+    investments,
+    isLoadingInvestments,
+    isPurchasing,
+    purchaseInvestment,
+    refreshInvestments: fetchInvestments,
+    getAllInvestments: async () => (user ? investmentService.getAllInvestments(user.id) : []),
+    runDuePayouts,
+  };
+
+  return <InvestmentContext.Provider value={value}>{children}</InvestmentContext.Provider>;
+};
+
+export const useInvestments = (): InvestmentContextType => {
+  const context = useContext(InvestmentContext);
+  if (context === undefined) {
+    throw new Error('useInvestments must be used within an InvestmentProvider');
+  }
+  return context;
+};
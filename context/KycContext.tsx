@@ -0,0 +1,97 @@
+import React, { createContext, useState, useEffect, useContext, useCallback } from 'react';
+import { KycCase, KycDocument, KycDocumentResult, KycDocumentType, KycIdentity, KycResult, Permission } from '../types';
+import * as kycService from '../services/kycService';
+import { hasPermission } from '../services/permissions';
+import { useAuth } from './AuthContext';
+
+interface KycContextType {
+  kycCase: KycCase | null;
+  isLoadingKyc: boolean;
+  saveDraft: (identity: KycIdentity, documents: Partial<Record<KycDocumentType, KycDocument>>) => Promise<KycResult>;
+  uploadDocument: (type: KycDocumentType, file: File) => Promise<KycDocumentResult>;
+  getDocumentUrl: (document: KycDocument) => Promise<string | null>;
+  submitKyc: () => Promise<KycResult>;
+  // Admin
+  getReviewQueue: () => Promise<KycCase[]>;
+  startReview: (caseId: string) => Promise<KycResult>;
+  approveKyc: (caseId: string, reason: string) => Promise<KycResult>;
+  rejectKyc: (caseId: string, reason: string) => Promise<KycResult>;
+}
+
+const KycContext = createContext<KycContextType | undefined>(undefined);
+
+export const KycProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) => {
+  const { user } = useAuth();
+  const [kycCase, setKycCase] = useState<KycCase | null>(null);
+  const [isLoadingKyc, setIsLoadingKyc] = useState<boolean>(false);
+
+  const fetchKycCase = useCallback(async () => {
+    if (user) {
+      setIsLoadingKyc(true);
+      setKycCase(await kycService.getLatestCase(user.id));
+      setIsLoadingKyc(false);
+    } else {
+      setKycCase(null);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    fetchKycCase();
+  }, [fetchKycCase]);
+
+  const saveDraft = async (identity: KycIdentity, documents: Partial<Record<KycDocumentType, KycDocument>>) => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    const result = await kycService.saveDraft(user.id, identity, documents);
+    if (result.kycCase) setKycCase(result.kycCase);
+    return result;
+  };
+
+  const uploadDocument = async (type: KycDocumentType, file: File): Promise<KycDocumentResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    return kycService.uploadDocument(user.id, type, file);
+  };
+
+  const getDocumentUrl = useCallback(
+    async (document: KycDocument) => (user ? kycService.getDocumentUrl(user.id, document) : null),
+    [user?.id],
+  );
+
+  const submitKyc = async () => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    const result = await kycService.submitCase(user.id);
+    if (result.kycCase) setKycCase(result.kycCase);
+    return result;
+  };
+
+  const reviewAs = async (action: (reviewerId: string) => Promise<KycResult>): Promise<KycResult> => {
+    if (!user || !hasPermission(user, Permission.KYC_REVIEW)) return { success: false, message: 'Only compliance staff can review KYC.' };
+    try {
+      return await action(user.id);
+    } catch (e: any) {
+      return { success: false, message: e?.message || 'KYC review failed.' };
+    }
+  };
+
+  const value = {
+    kycCase,
+    isLoadingKyc,
+    saveDraft,
+    uploadDocument,
+    getDocumentUrl,
+    submitKyc,
+    getReviewQueue: async () => (user ? kycService.getReviewQueue(user.id) : []),
+    startReview: (caseId: string) => reviewAs(reviewerId => kycService.startReview(caseId, reviewerId)),
+    approveKyc: (caseId: string, reason: string) => reviewAs(reviewerId => kycService.approveCase(caseId, reviewerId, reason)),
+    rejectKyc: (caseId: string, reason: string) => reviewAs(reviewerId => kycService.rejectCase(caseId, reviewerId, reason)),
+  };
+
+  return <KycContext.Provider value={value}>{children}</KycContext.Provider>;
+};
+
+export const useKyc = (): KycContextType => {
+  const context = useContext(KycContext);
+  if (context === undefined) {
+    throw new Error('useKyc must be used within a KycProvider');
+  }
+  return context;
+};
@@ -0,0 +1,93 @@
+import React, { createContext, useState, useEffect, useContext, useCallback } from 'react';
+import { OpenTradeResult, TradeDirection, TradeHistoryItem, TradePackage } from '../types';
+import * as tradeService from '../services/tradeService';
+import { useAuth } from './AuthContext';
+import { useTransactions } from './TransactionContext';
+
+// Interval pengecekan posisi yang sudah expired
+const SETTLEMENT_INTERVAL_MS = 5000;
+
+interface TradeContextType {
+  trades: TradeHistoryItem[];
+  isLoadingTrades: boolean;
+  isOpeningTrade: boolean;
+  tradeError: string | null;
+  openTrade: (market: string, direction: TradeDirection, amount: number, tradePackage: TradePackage) => Promise<OpenTradeResult>;
+}
+
+const TradeContext = createContext<TradeContextType | undefined>(undefined);
+
+export const TradeProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) => {
+  const { user, refreshUser } = useAuth();
+  const { accountMode } = useTransactions();
+  const [trades, setTrades] = useState<TradeHistoryItem[]>([]);
+  const [isLoadingTrades, setIsLoadingTrades] = useState<boolean>(false);
+  const [isOpeningTrade, setIsOpeningTrade] = useState<boolean>(false);
+  const [tradeError, setTradeError] = useState<string | null>(null);
+
+  const fetchTrades = useCallback(async () => {
+    if (user) {
+      setIsLoadingTrades(true);
+      setTrades(await tradeService.getTradeHistory(user.id));
+      setIsLoadingTrades(false);
+    } else {
+      setTrades([]);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    fetchTrades();
+  }, [fetchTrades]);
+
+  const hasPendingTrades = trades.some(t => t.status === 'Pending');
+
+  useEffect(() => {
+    if (!user || !hasPendingTrades) return;
+    const timer = setInterval(async () => {
+      const settledCount = await tradeService.settleDueTrades(user.id);
+      if (settledCount > 0) {
+        fetchTrades();
+        refreshUser();
+      }
+    }, SETTLEMENT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user?.id, hasPendingTrades, fetchTrades, refreshUser]);
+
+  const openTrade = async (market: string, direction: TradeDirection, amount: number, tradePackage: TradePackage): Promise<OpenTradeResult> => {
+    if (accountMode === 'demo') {
+      return { success: false, message: 'Trading is disabled in Demo mode.' };
+    }
+    if (!user) {
+      return { success: false, message: 'You must be logged in to trade.' };
+    }
+    setIsOpeningTrade(true);
+    setTradeError(null);
+    const result = await tradeService.openTrade(user.id, market, direction, amount, tradePackage);
+    if (result.success) {
+      refreshUser();
+      fetchTrades();
+    } else {
+      setTradeError(result.message);
+    }
+    setIsOpeningTrade(false);
+    return result;
+  };
+
+  const value = {
+    trades,
+    isLoadingTrades,
+    isOpeningTrade,
+    tradeError,
+    openTrade,
+  };
+
+  return <TradeContext.Provider value={value}>{children}</TradeContext.Provider>;
+};
+
+export const useTrades = (): TradeContextType => {
+  const context = useContext(TradeContext);
+  if (context === undefined) {
+    throw new Error('useTrades must be used within a TradeProvider');
+  }
+  return context;
+};
@@ -3,14 +3,45 @@ import React, { createContext, useState, useEffect, useContext, useCallback } fr
 import {
   DepositTransaction,
   WithdrawalTransaction,
+  TransferTransaction,
+  TransferResult,
+  TransactionResult,
+  TransferErrorCode,
   TransactionStatus,
   NotificationItem,
   CompanyBankInfo,
   Transaction,
   User,
+  LedgerEntry,
+  BalanceReconciliation,
+  AdminRole,
+  AuditLogEntry,
+  AuditLogFilter,
+  AdminActionResult,
+  ApprovalRequest,
+  BankStatementFormat,
+  BankStatementLine,
+  ReconciliationResult,
+  Permission,
+  Beneficiary,
+  BeneficiaryResult,
+  NewBeneficiaryInput,
+  LimitAllowance,
+  LimitedTransactionType,
+  TransactionLimits,
+  UserLimitOverride,
+  FeeSchedule,
 } from '../types';
 import * as transactionService from '../services/transactionService';
 import * as authService from '../services/authService';
+import * as auditService from '../services/auditService';
+import * as approvalService from '../services/approvalService';
+import * as bankReconciliationService from '../services/bankReconciliationService';
+import * as beneficiaryService from '../services/beneficiaryService';
+import * as limitsService from '../services/limitsService';
+import * as feeService from '../services/feeService';
+import { hasPermission } from '../services/permissions';
+import { scheduleJob } from '../services/scheduler';
 import { useAuth } from './AuthContext';
 
 interface TransactionContextType {
@@ -19,25 +50,55 @@ interface TransactionContextType {
   toggleAccountMode: () => void;
   depositHistory: DepositTransaction[];
   withdrawalHistory: WithdrawalTransaction[];
+  transferHistory: TransferTransaction[];
   notifications: NotificationItem[];
   companyBankInfoList: CompanyBankInfo[];
+  // Jadwal biaya withdrawal/transfer untuk preview (lihat feeService.quoteFee).
+  feeSchedules: FeeSchedule[];
   isLoadingTransactions: boolean;
   transactionError: string | null;
   addNotification: (message: string) => void;
   markNotificationAsRead: (notificationId: string) => void;
-  deposit: (amount: number) => Promise<boolean>;
-  withdraw: (amount: number, method: string, bankOrEwalletName: string, accountNumber: string, accountHolderName: string) => Promise<boolean>;
-  transfer: (recipientEmail: string, amount: number) => Promise<{ success: boolean; message: string }>;
-  updateDepositStatus: (depositId: string, status: TransactionStatus) => void;
-  updateWithdrawalStatus: (withdrawalId: string, status: TransactionStatus) => void;
-  setCompanyBankInfoList: (info: CompanyBankInfo[]) => void;
-  adminUpdateUserBalance: (userId: string, amount: number, type: 'set' | 'add') => void;
-  adminCreateUser: (userData: Omit<User, 'id' | 'username' | 'notifications'> & { password: string }) => Promise<boolean>;
+  // Bukti transfer opsional; bisa juga dilampirkan nanti dari riwayat deposit.
+  deposit: (amount: number, idempotencyKey: string, proof?: File) => Promise<boolean>;
+  attachDepositProof: (depositId: string, file: File) => Promise<TransactionResult>;
+  getDepositProofUrl: (depositId: string) => Promise<string | null>;
+  // Penarikan hanya ke rekening tersimpan yang sudah melewati masa tunggu.
+  withdraw: (amount: number, beneficiaryId: string, idempotencyKey: string, twoFactorCode?: string) => Promise<boolean>;
+  beneficiaries: Beneficiary[];
+  addBeneficiary: (input: NewBeneficiaryInput, twoFactorCode?: string) => Promise<BeneficiaryResult>;
+  removeBeneficiary: (beneficiaryId: string) => Promise<boolean>;
+  transfer: (recipientEmail: string, amount: number, idempotencyKey: string, twoFactorCode?: string) => Promise<TransferResult>;
+  // Sisa limit withdrawal/transfer user yang login; null bila belum login.
+  getLimitAllowance: (type: LimitedTransactionType) => Promise<LimitAllowance | null>;
+  // Aksi admin wajib menyertakan alasan; semuanya dicatat di audit log.
+  updateDepositStatus: (depositId: string, status: TransactionStatus, reason: string) => Promise<void>;
+  // Aksi di atas threshold tidak langsung berlaku; hasilnya membawa `pendingApproval`.
+  updateWithdrawalStatus: (withdrawalId: string, status: TransactionStatus, reason: string) => Promise<AdminActionResult>;
+  setCompanyBankInfoList: (info: CompanyBankInfo[], reason: string) => Promise<void>;
+  setFeeSchedules: (schedules: FeeSchedule[], reason: string) => Promise<void>;
+  adminUpdateUserBalance: (userId: string, amount: number, type: 'set' | 'add', reason: string) => Promise<AdminActionResult>;
+  adminCreateUser: (userData: Omit<User, 'id' | 'username' | 'notifications' | 'isAdmin' | 'isVerified' | 'emailVerified'> & { password: string }, reason: string) => Promise<boolean>;
+  assignRoles: (userId: string, roles: AdminRole[], reason: string) => Promise<{ success: boolean; message: string }>;
+  getAuditLog: (filter: AuditLogFilter) => Promise<AuditLogEntry[]>;
+  getPendingApprovals: () => Promise<ApprovalRequest[]>;
+  approveRequest: (requestId: string, reason: string) => Promise<AdminActionResult>;
+  rejectRequest: (requestId: string, reason: string) => Promise<AdminActionResult>;
+  importBankStatement: (format: BankStatementFormat, csv: string, reason: string) => Promise<ReconciliationResult>;
+  getUnmatchedStatementLines: () => Promise<BankStatementLine[]>;
+  matchStatementLine: (lineId: string, depositId: string, reason: string) => Promise<AdminActionResult>;
+  ignoreStatementLine: (lineId: string, reason: string) => Promise<AdminActionResult>;
+  getUserLimitOverrides: (userId: string) => Promise<UserLimitOverride[]>;
+  // `limits` null mengembalikan user ke limit global levelnya.
+  setUserLimitOverride: (userId: string, type: LimitedTransactionType, limits: Partial<TransactionLimits> | null, reason: string) => Promise<AdminActionResult>;
   getAllTransactions: () => Promise<Transaction[]>;
   getAllUsers: () => Promise<User[]>;
-  updateUserVerification: (userId: string, isVerified: boolean) => void;
+  getUserLedger: (userId: string) => Promise<{ entries: LedgerEntry[]; reconciliation: BalanceReconciliation }>;
 }
 
+// Interval pengecekan deposit/withdrawal PENDING yang sudah kedaluwarsa
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 1000;
+
 const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
 
 export const TransactionProvider: React.FC<React.PropsWithChildren<{}>> = ({ children }) => {
@@ -46,10 +107,13 @@ export const TransactionProvider: React.FC<React.PropsWithChildren<{}>> = ({ chi
   const [accountMode, setAccountMode] = useState<'real' | 'demo'>('real');
   const [depositHistory, setDepositHistory] = useState<DepositTransaction[]>([]);
   const [withdrawalHistory, setWithdrawalHistory] = useState<WithdrawalTransaction[]>([]);
+  const [transferHistory, setTransferHistory] = useState<TransferTransaction[]>([]);
   const [notifications, setNotifications] = useState<NotificationItem[]>([]);
   const [companyBankInfoList, setCompanyBankInfoListState] = useState<CompanyBankInfo[]>([]);
   const [isLoadingTransactions, setIsLoadingTransactions] = useState<boolean>(false);
   const [transactionError, setTransactionError] = useState<string | null>(null);
+  const [beneficiaries, setBeneficiaries] = useState<Beneficiary[]>([]);
+  const [feeSchedules, setFeeSchedulesState] = useState<FeeSchedule[]>([]);
 
   const fetchTransactions = useCallback(async () => {
     if (user) {
@@ -57,14 +121,17 @@ export const TransactionProvider: React.FC<React.PropsWithChildren<{}>> = ({ chi
       setBalance(user.balance);
       const deposits = await transactionService.getDepositHistory(user.id);
       const withdrawals = await transactionService.getWithdrawalHistory(user.id);
+      const transfers = await transactionService.getTransferHistory(user.id);
       setDepositHistory(deposits);
       setWithdrawalHistory(withdrawals);
+      setTransferHistory(transfers);
       setNotifications(user.notifications);
       setIsLoadingTransactions(false);
     } else {
       setBalance(0);
       setDepositHistory([]);
       setWithdrawalHistory([]);
+      setTransferHistory([]);
       setNotifications([]);
     }
   }, [user]);
@@ -73,6 +140,29 @@ export const TransactionProvider: React.FC<React.PropsWithChildren<{}>> = ({ chi
     fetchTransactions();
   }, [fetchTransactions]);
 
+  const fetchBeneficiaries = useCallback(async () => {
+    setBeneficiaries(user ? await beneficiaryService.listBeneficiaries(user.id) : []);
+  }, [user?.id]);
+
+  useEffect(() => {
+    fetchBeneficiaries();
+  }, [fetchBeneficiaries]);
+
+  // Hanya sesi staf keuangan yang menyapu transaksi kedaluwarsa (di Supabase pg_cron juga).
+  const canExpire = hasPermission(user, Permission.TRANSACTIONS_MANAGE);
+
+  useEffect(() => {
+    if (!user || !canExpire) return;
+    return scheduleJob({
+      name: 'transaction-expiry',
+      intervalMs: EXPIRY_CHECK_INTERVAL_MS,
+      run: async () => {
+        const expiredCount = await transactionService.expireStaleTransactions(user.id);
+        if (expiredCount > 0) refreshUser();
+      },
+    });
+  }, [user?.id, canExpire, refreshUser]);
+
   useEffect(() => {
     const loadBankInfo = async () => {
       const info = await transactionService.getCompanyBankInfoList();
@@ -81,6 +171,12 @@ export const TransactionProvider: React.FC<React.PropsWithChildren<{}>> = ({ chi
     loadBankInfo();
   }, []);
 
+  // Jadwal biaya hanya bisa dibaca user yang login
+  useEffect(() => {
+    if (!user) return;
+    feeService.getFeeSchedules().then(setFeeSchedulesState).catch(e => console.error("Failed to load fee schedules", e));
+  }, [user?.id]);
+
   const toggleAccountMode = () => {
     setAccountMode(prevMode => (prevMode === 'real' ? 'demo' : 'real'));
   };
@@ -101,7 +197,7 @@ export const TransactionProvider: React.FC<React.PropsWithChildren<{}>> = ({ chi
     }
   };
 
-  const deposit = async (amount: number): Promise<boolean> => {
+  const deposit = async (amount: number, idempotencyKey: string, proof?: File): Promise<boolean> => {
     if (accountMode === 'demo') {
       setTransactionError('Deposits are disabled in Demo mode.');
       return false;
@@ -112,24 +208,50 @@ export const TransactionProvider: React.FC<React.PropsWithChildren<{}>> = ({ chi
     }
     setIsLoadingTransactions(true);
     setTransactionError(null);
-    const success = await transactionService.deposit(user.id, amount);
-    if (success) {
+    const result = await transactionService.deposit(user.id, amount, idempotencyKey);
+    if (result.success) {
+      if (proof && result.transactionId) {
+        const upload = await transactionService.attachDepositProof(user.id, result.transactionId, proof);
+        if (!upload.success) {
+          setTransactionError(`Deposit created, but the proof of transfer could not be uploaded (${upload.message}). You can upload it from Deposit History.`);
+        }
+      }
       refreshUser();
       fetchTransactions();
     } else {
-      setTransactionError('Deposit failed.');
+      setTransactionError(result.message || 'Deposit failed.');
     }
     setIsLoadingTransactions(false);
-    return success;
+    return result.success;
+  };
+
+  const attachDepositProof = async (depositId: string, file: File): Promise<TransactionResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    const result = await transactionService.attachDepositProof(user.id, depositId, file);
+    if (result.success) fetchTransactions();
+    return result;
+  };
+
+  const addBeneficiary = async (input: NewBeneficiaryInput, twoFactorCode?: string): Promise<BeneficiaryResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    const result = await beneficiaryService.addBeneficiary(user.id, input, twoFactorCode);
+    if (result.success) {
+      await fetchBeneficiaries();
+      refreshUser();
+    }
+    return result;
   };
 
-  const withdraw = async (
-    amount: number,
-    method: string,
-    bankOrEwalletName: string,
-    accountNumber: string,
-    accountHolderName: string,
-  ): Promise<boolean> => {
+  const removeBeneficiary = async (beneficiaryId: string): Promise<boolean> => {
+    if (!user) return false;
+    const removed = await beneficiaryService.removeBeneficiary(user.id, beneficiaryId);
+    if (removed) await fetchBeneficiaries();
+    return removed;
+  };
+
+  const getDepositProofUrl = useCallback(async (depositId: string) => (user ? transactionService.getDepositProofUrl(user.id, depositId) : null), [user?.id]);
+
+  const withdraw = async (amount: number, beneficiaryId: string, idempotencyKey: string, twoFactorCode?: string): Promise<boolean> => {
     if (accountMode === 'demo') {
       setTransactionError('Withdrawals are disabled in Demo mode.');
       return false;
@@ -145,97 +267,185 @@ export const TransactionProvider: React.FC<React.PropsWithChildren<{}>> = ({ chi
 
     setIsLoadingTransactions(true);
     setTransactionError(null);
-    const success = await transactionService.withdraw(
-      user.id,
-      amount,
-      method,
-      bankOrEwalletName,
-      accountNumber,
-      accountHolderName,
-    );
-    if (success) {
+    const result = await transactionService.withdraw(user.id, amount, beneficiaryId, idempotencyKey, twoFactorCode);
+    if (result.success) {
       refreshUser();
       fetchTransactions();
     } else {
-      setTransactionError('Withdrawal failed.');
+      setTransactionError(result.message || 'Withdrawal failed.');
     }
     setIsLoadingTransactions(false);
-    return success;
+    return result.success;
   };
 
-  const transfer = async (recipientEmail: string, amount: number): Promise<{ success: boolean; message: string }> => {
+  const transfer = async (recipientEmail: string, amount: number, idempotencyKey: string, twoFactorCode?: string): Promise<TransferResult> => {
     if (accountMode === 'demo') {
-        return { success: false, message: 'Transfer disabled in Demo mode.' };
+        return { success: false, message: 'Transfer disabled in Demo mode.', errorCode: TransferErrorCode.FAILED };
     }
     if (!user) {
-        return { success: false, message: 'Login required.' };
+        return { success: false, message: 'Login required.', errorCode: TransferErrorCode.UNAUTHORIZED };
     }
     setIsLoadingTransactions(true);
-    const result = await transactionService.transfer(user.id, recipientEmail, amount);
+    const result = await transactionService.transfer(user.id, recipientEmail, amount, idempotencyKey, twoFactorCode);
     if (result.success) {
         refreshUser();
         fetchTransactions();
     } else {
         setTransactionError(result.message);
+        if (result.errorCode === TransferErrorCode.FEE_CHANGED) setFeeSchedulesState(await feeService.getFeeSchedules());
     }
     setIsLoadingTransactions(false);
     return result;
   };
+
+  const getLimitAllowance = useCallback(async (type: LimitedTransactionType) => (user ? limitsService.getLimitAllowance(user.id, type) : null), [user?.id]);
   
-  const adminUpdateUserBalance = async (userId: string, amount: number, type: 'set' | 'add') => {
-    const users = await authService.getAllUsers();
-    const targetUser = users.find(u => u.id === userId);
-    if (targetUser) {
-        const newBalance = type === 'set' ? amount : targetUser.balance + amount;
-        await authService.updateUserBalance(userId, newBalance);
-        if (user?.id === userId) {
-            refreshUser();
-        }
+  const adminUpdateUserBalance = async (userId: string, amount: number, type: 'set' | 'add', reason: string): Promise<AdminActionResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    const result = await transactionService.adjustUserBalance(user.id, userId, amount, type, reason);
+    if (user.id === userId && !result.pendingApproval) {
+        refreshUser();
     }
+    return result;
   };
 
-  const adminCreateUser = async (userData: Omit<User, 'id' | 'username' | 'notifications'> & { password: string }): Promise<boolean> => {
+  const adminCreateUser = async (userData: Omit<User, 'id' | 'username' | 'notifications' | 'isAdmin' | 'isVerified' | 'emailVerified'> & { password: string }, reason: string): Promise<boolean> => {
+    if (!user) return false;
     setIsLoadingTransactions(true);
-    const newUser = await authService.adminCreateUser(userData);
-    setIsLoadingTransactions(false);
-    return !!newUser;
+    try {
+      const newUser = await authService.adminCreateUser(user.id, userData, reason);
+      return !!newUser;
+    } finally {
+      setIsLoadingTransactions(false);
+    }
   };
 
-  const updateDepositStatus = async (depositId: string, status: TransactionStatus) => {
+  const assignRoles = async (userId: string, roles: AdminRole[], reason: string) => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    try {
+      const result = await authService.assignRoles(user.id, userId, roles, reason);
+      if (result.success && userId === user.id) refreshUser();
+      return result;
+    } catch (e: any) {
+      return { success: false, message: e?.message || 'Failed to update roles.' };
+    }
+  };
+
+  const updateDepositStatus = async (depositId: string, status: TransactionStatus, reason: string) => {
+    if (!user) return;
     setIsLoadingTransactions(true);
-    const success = await transactionService.updateDepositStatus(depositId, status);
-    if (success) {
-      refreshUser();
-      fetchTransactions();
-    } else {
-      setTransactionError('Failed to update deposit status.');
+    try {
+      const success = await transactionService.updateDepositStatus(user.id, depositId, status, reason);
+      if (success) {
+        refreshUser();
+        fetchTransactions();
+      } else {
+        setTransactionError('Failed to update deposit status.');
+      }
+    } catch (e: any) {
+      setTransactionError(e?.message || 'Failed to update deposit status.');
     }
     setIsLoadingTransactions(false);
   };
 
-  const updateWithdrawalStatus = async (withdrawalId: string, status: TransactionStatus) => {
+  const updateWithdrawalStatus = async (withdrawalId: string, status: TransactionStatus, reason: string): Promise<AdminActionResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
     setIsLoadingTransactions(true);
-    const success = await transactionService.updateWithdrawalStatus(withdrawalId, status);
-    if (success) {
-      refreshUser();
-      fetchTransactions();
-    } else {
-      setTransactionError('Failed to update withdrawal status.');
+    let result: AdminActionResult;
+    try {
+      result = await transactionService.updateWithdrawalStatus(user.id, withdrawalId, status, reason);
+      if (result.success) {
+        refreshUser();
+        fetchTransactions();
+      } else {
+        setTransactionError(result.message);
+      }
+    } catch (e: any) {
+      result = { success: false, message: e?.message || 'Failed to update withdrawal status.' };
+      setTransactionError(result.message);
     }
     setIsLoadingTransactions(false);
+    return result;
   };
 
-  const updateCompanyBankInfoList = async (infoList: CompanyBankInfo[]) => {
-    await transactionService.setCompanyBankInfoList(infoList);
+  const updateCompanyBankInfoList = async (infoList: CompanyBankInfo[], reason: string) => {
+    if (!user) return;
+    await transactionService.setCompanyBankInfoList(user.id, infoList, reason);
     setCompanyBankInfoListState(infoList);
-    if(user?.isAdmin) addNotification('Company bank information updated.');
+    addNotification('Company bank information updated.');
+  };
+
+  const updateFeeSchedules = async (schedules: FeeSchedule[], reason: string) => {
+    if (!user) return;
+    await feeService.setFeeSchedules(user.id, schedules, reason);
+    setFeeSchedulesState(await feeService.getFeeSchedules());
+  };
+
+  const getAllTransactions = useCallback(async () => (user ? transactionService.getAllTransactions(user.id) : []), [user?.id]);
+  const getAllUsers = useCallback(async () => (user ? authService.getAllUsers(user.id) : []), [user?.id]);
+  const getUserLedger = useCallback(async (userId: string) => {
+    if (!user) throw new Error('You must be logged in.');
+    return transactionService.getUserLedger(user.id, userId);
+  }, [user?.id]);
+  const getAuditLog = useCallback(async (filter: AuditLogFilter) => (user ? auditService.getAuditLog(user.id, filter) : []), [user?.id]);
+  const getPendingApprovals = useCallback(async () => (user ? approvalService.getPendingApprovals(user.id) : []), [user?.id]);
+
+  const approveRequest = async (requestId: string, reason: string): Promise<AdminActionResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    const result = await transactionService.approveRequest(user.id, requestId, reason);
+    if (result.success) refreshUser();
+    return result;
+  };
+
+  const rejectRequest = async (requestId: string, reason: string): Promise<AdminActionResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    return transactionService.rejectRequest(user.id, requestId, reason);
   };
 
-  const getAllTransactions = useCallback(async () => transactionService.getAllTransactions(), []);
-  const getAllUsers = useCallback(async () => authService.getAllUsers(), []);
-  const updateUserVerification = async (userId: string, isVerified: boolean) => {
-    await authService.updateUserInfo({ id: userId, isVerified });
-    refreshUser();
+  const importBankStatement = async (format: BankStatementFormat, csv: string, reason: string): Promise<ReconciliationResult> => {
+    if (!user) throw new Error('You must be logged in.');
+    const result = await bankReconciliationService.importBankStatement(user.id, format, csv, reason);
+    if (result.matched > 0) {
+      refreshUser();
+      fetchTransactions();
+    }
+    return result;
+  };
+
+  const getUnmatchedStatementLines = useCallback(async () => (user ? bankReconciliationService.getUnmatchedStatementLines(user.id) : []), [user?.id]);
+
+  const matchStatementLine = async (lineId: string, depositId: string, reason: string): Promise<AdminActionResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    try {
+      const result = await bankReconciliationService.matchStatementLine(user.id, lineId, depositId, reason);
+      if (result.success) {
+        refreshUser();
+        fetchTransactions();
+      }
+      return result;
+    } catch (e: any) {
+      return { success: false, message: e?.message || 'Failed to match statement line.' };
+    }
+  };
+
+  const ignoreStatementLine = async (lineId: string, reason: string): Promise<AdminActionResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    try {
+      return await bankReconciliationService.ignoreStatementLine(user.id, lineId, reason);
+    } catch (e: any) {
+      return { success: false, message: e?.message || 'Failed to ignore statement line.' };
+    }
+  };
+
+  const getUserLimitOverrides = useCallback(async (userId: string) => (user ? limitsService.getUserLimitOverrides(user.id, userId) : []), [user?.id]);
+
+  const setUserLimitOverride = async (userId: string, type: LimitedTransactionType, limits: Partial<TransactionLimits> | null, reason: string): Promise<AdminActionResult> => {
+    if (!user) return { success: false, message: 'You must be logged in.' };
+    try {
+      return await limitsService.setUserLimitOverride(user.id, userId, type, limits, reason);
+    } catch (e: any) {
+      return { success: false, message: e?.message || 'Failed to update limits.' };
+    }
   };
 
   const value = {
@@ -244,23 +454,43 @@ export const TransactionProvider: React.FC<React.PropsWithChildren<{}>> = ({ chi
     toggleAccountMode,
     depositHistory,
     withdrawalHistory,
+    transferHistory,
     notifications,
     companyBankInfoList: companyBankInfoList,
+    feeSchedules,
     isLoadingTransactions,
     transactionError,
     addNotification,
     markNotificationAsRead,
     deposit,
+    attachDepositProof,
+    getDepositProofUrl,
     withdraw,
+    beneficiaries,
+    addBeneficiary,
+    removeBeneficiary,
     transfer,
+    getLimitAllowance,
     updateDepositStatus,
     updateWithdrawalStatus,
     setCompanyBankInfoList: updateCompanyBankInfoList,
+    setFeeSchedules: updateFeeSchedules,
     getAllTransactions,
     getAllUsers,
-    updateUserVerification,
+    getUserLedger,
     adminUpdateUserBalance,
     adminCreateUser,
+    assignRoles,
+    getAuditLog,
+    getPendingApprovals,
+    approveRequest,
+    rejectRequest,
+    importBankStatement,
+    getUnmatchedStatementLines,
+    matchStatementLine,
+    ignoreStatementLine,
+    getUserLimitOverrides,
+    setUserLimitOverride,
   };
 
   return <TransactionContext.Provider value={value}>{children}</TransactionContext.Provider>;
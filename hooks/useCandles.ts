@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { applyTick, buildCandles, OhlcCandle, priceFeed, Timeframe, TIMEFRAME_MS } from '../services/priceFeed';
+
+// Jumlah candle historis per timeframe; 1d dibatasi karena tiap candle mencakup sehari penuh.
+const HISTORY_CANDLES: Record<Timeframe, number> = {
+  '1m': 240,
+  '5m': 240,
+  '1h': 240,
+  '1d': 60,
+};
+
+/**
+ * Candle OHLC `symbol` pada `timeframe`: riwayat dibangun dari price feed,
+ * lalu candle terakhir diperbarui oleh setiap tick live.
+ */
+export const useCandles = (symbol: string, timeframe: Timeframe) => {
+  const [candles, setCandles] = useState<OhlcCandle[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    const timeframeMs = TIMEFRAME_MS[timeframe];
+    setIsLoading(true);
+    setError(null);
+
+    priceFeed.ready()
+      .then(() => {
+        if (!active) return;
+        setCandles(buildCandles(priceFeed, symbol, timeframeMs, HISTORY_CANDLES[timeframe]));
+        setIsLoading(false);
+      })
+      .catch(e => {
+        if (!active) return;
+        setError(e?.message || 'Price feed unavailable.');
+        setIsLoading(false);
+      });
+
+    const unsubscribe = priceFeed.subscribe(symbol, tick => {
+      setCandles(current => (current.length > 0 ? applyTick(current, tick, timeframeMs) : current));
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [symbol, timeframe]);
+
+  return { candles, isLoading, error };
+};
@@ -0,0 +1,14 @@
+import { useCallback, useMemo, useState } from 'react';
+import { createIdempotencyKey } from '../services/idempotency';
+
+/**
+ * Kunci idempotensi untuk satu isian form. Kunci tetap sama selama `payload`
+ * tidak berubah, sehingga double-click atau retry setelah gangguan jaringan
+ * tidak membuat transaksi ganda. Panggil `resetIdempotencyKey` setelah sukses.
+ */
+export const useIdempotencyKey = (payload: unknown[]) => {
+  const [generation, setGeneration] = useState(0);
+  const idempotencyKey = useMemo(() => createIdempotencyKey(), [generation, ...payload]);
+  const resetIdempotencyKey = useCallback(() => setGeneration(g => g + 1), []);
+  return { idempotencyKey, resetIdempotencyKey };
+};
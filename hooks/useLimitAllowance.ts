@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { LimitAllowance, LimitedTransactionType, TransactionType } from '../types';
+import { useTransactions } from '../context/TransactionContext';
+
+/**
+ * Sisa limit user untuk withdrawal/transfer. Dihitung ulang setiap riwayat
+ * transaksi tipe tersebut berubah, jadi langsung berkurang setelah submit.
+ */
+export const useLimitAllowance = (type: LimitedTransactionType): LimitAllowance | null => {
+  const { getLimitAllowance, withdrawalHistory, transferHistory } = useTransactions();
+  const [allowance, setAllowance] = useState<LimitAllowance | null>(null);
+  const history = type === TransactionType.WITHDRAWAL ? withdrawalHistory : transferHistory;
+
+  useEffect(() => {
+    let cancelled = false;
+    getLimitAllowance(type)
+      .then(result => { if (!cancelled) setAllowance(result); })
+      .catch(() => { if (!cancelled) setAllowance(null); });
+    return () => { cancelled = true; };
+  }, [getLimitAllowance, type, history]);
+
+  return allowance;
+};
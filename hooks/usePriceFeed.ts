@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { priceFeed, PriceTick } from '../services/priceFeed';
+
+/**
+ * Harga terakhir `symbol` dari price feed aplikasi, diperbarui setiap tick.
+ * `previous` dipakai untuk warna naik/turun.
+ */
+export const usePriceFeed = (symbol: string) => {
+  const [ticks, setTicks] = useState<{ tick: PriceTick | null; previous: PriceTick | null }>(() => ({
+    tick: priceFeed.snapshot(symbol),
+    previous: null,
+  }));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    priceFeed.ready()
+      .then(() => {
+        if (active) setTicks({ tick: priceFeed.snapshot(symbol), previous: null });
+      })
+      .catch(e => {
+        if (active) setError(e?.message || 'Price feed unavailable.');
+      });
+
+    const unsubscribe = priceFeed.subscribe(symbol, next => {
+      setTicks(current => ({ tick: next, previous: current.tick }));
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [symbol]);
+
+  return { ...ticks, error };
+};
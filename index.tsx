@@ -1,15 +1,19 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import ConfigErrorScreen from './components/common/ConfigErrorScreen';
+import { config, configErrors } from './config';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+document.title = config.branding.appName;
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {configErrors.length > 0 ? <ConfigErrorScreen errors={configErrors} /> : <App />}
   </React.StrictMode>
-);
\ No newline at end of file
+);
@@ -0,0 +1,32 @@
+import { AdminActionResult, ApprovalRequest, ApprovalStatus, Permission } from '../types';
+import { repository } from './repositories';
+import { requirePermission } from './permissions';
+import { requireReason } from './auditService';
+
+// Permintaan dibuat repository saat aksi admin melebihi threshold (maker-checker).
+export const getPendingApprovals = async (actorId: string): Promise<ApprovalRequest[]> => {
+  await requirePermission(actorId, Permission.APPROVALS_DECIDE);
+  return repository.approvals.listByStatus([ApprovalStatus.PENDING]);
+};
+
+/**
+ * Memutuskan permintaan. Pemeriksa harus berbeda dari pembuat permintaan dan
+ * dari user yang terdampak; klaim, aksi yang disetujui, audit log dan
+ * notifikasi ditulis repository dalam satu langkah (di Supabase lewat
+ * `decide_approval`).
+ */
+export const decideApproval = async (
+  checkerId: string,
+  requestId: string,
+  decision: ApprovalStatus.APPROVED | ApprovalStatus.REJECTED,
+  reason: string,
+): Promise<AdminActionResult> => {
+  await requirePermission(checkerId, Permission.APPROVALS_DECIDE);
+  const decisionReason = requireReason(reason);
+  try {
+    return await repository.approvals.decide({ checkerId, requestId, decision, reason: decisionReason });
+  } catch (e: any) {
+    console.error(e);
+    return { success: false, message: e?.message || 'Gagal memutuskan permintaan.' };
+  }
+};
@@ -0,0 +1,42 @@
+import { AuditAction, AuditLogEntry, AuditLogFilter, Permission } from '../types';
+import { repository } from './repositories';
+import { requirePermission } from './permissions';
+
+export const MIN_REASON_LENGTH = 5;
+const AUDIT_LOG_LIMIT = 500;
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  [AuditAction.USER_CREATE]: 'Create user',
+  [AuditAction.ROLES_ASSIGN]: 'Assign roles',
+  [AuditAction.BALANCE_ADJUST]: 'Adjust balance',
+  [AuditAction.DEPOSIT_STATUS]: 'Deposit status',
+  [AuditAction.WITHDRAWAL_STATUS]: 'Withdrawal status',
+  [AuditAction.COMPANY_BANK_INFO]: 'Company bank info',
+  [AuditAction.KYC_APPROVE]: 'Approve KYC',
+  [AuditAction.KYC_REJECT]: 'Reject KYC',
+  [AuditAction.INVESTMENT_PAYOUTS]: 'Run payouts',
+  [AuditAction.APPROVAL_REQUEST]: 'Request approval',
+  [AuditAction.APPROVAL_REJECT]: 'Reject approval',
+  [AuditAction.STATEMENT_IMPORT]: 'Import bank statement',
+  [AuditAction.STATEMENT_LINE_IGNORE]: 'Ignore statement line',
+  [AuditAction.LIMITS_UPDATE]: 'Update limits',
+  [AuditAction.FEE_SCHEDULE_UPDATE]: 'Update fee schedules',
+};
+
+// Dicek sebelum aksi dijalankan, supaya aksi tanpa alasan tidak sempat mengubah data.
+export const requireReason = (reason: string | undefined): string => {
+  const trimmed = (reason || '').trim();
+  if (trimmed.length < MIN_REASON_LENGTH) {
+    throw new Error(`Alasan wajib diisi (minimal ${MIN_REASON_LENGTH} karakter).`);
+  }
+  return trimmed;
+};
+
+export const recordAdminAction = async (entry: Omit<AuditLogEntry, 'id' | 'timestamp'>): Promise<AuditLogEntry> => {
+  return repository.auditLog.append({ ...entry, reason: requireReason(entry.reason) });
+};
+
+export const getAuditLog = async (actorId: string, filter: AuditLogFilter): Promise<AuditLogEntry[]> => {
+  await requirePermission(actorId, Permission.AUDIT_VIEW);
+  return repository.auditLog.list(filter, AUDIT_LOG_LIMIT);
+};
@@ -1,176 +1,265 @@
-import { User, UserProfileUpdate } from '../types';
-import { supabase } from './supabaseClient';
-
-const mapProfileToUser = (profile: any, authUser: any): User => {
-  return {
-    id: authUser?.id || profile?.id,
-    email: profile.email || authUser?.email || '',
-    fullName: profile.full_name || '',
-    username: profile.username || '',
-    phoneNumber: profile.phone_number || '',
-    isAdmin: profile.is_admin || false,
-    isVerified: profile.is_verified || false,
-    balance: profile.balance || 0,
-    notifications: [], 
-    profilePictureUrl: profile.profile_picture_url,
-  };
-};
+import { AdminRole, AuditAction, Permission, User } from '../types';
+import { repository, UserRecord } from './repositories';
+import * as sessionService from './sessionService';
+import { normalizePhoneNumber, parseLoginIdentifier } from './identifier';
+import { requirePermission, ROLE_LABELS } from './permissions';
+import { recordAdminAction, requireReason } from './auditService';
 
-export const register = async (userData: Omit<User, 'id' | 'username' | 'isAdmin' | 'isVerified' | 'balance' | 'notifications' | 'profilePictureUrl'> & { password: string }): Promise<{ user: User | null; error: string | null }> => {
-  try {
-    const { data: authData, error: authError } = await supabase.auth.signUp({
-      email: userData.email,
-      password: userData.password,
-      options: {
-        data: {
-          full_name: userData.fullName,
-        }
-      }
-    });
+// Satu pesan untuk akun tidak ada, password salah atau format identifier salah.
+const INVALID_CREDENTIALS = 'Email/nomor HP/username atau password salah.';
 
-    if (authError) return { user: null, error: authError.message };
-    if (!authData.user) return { user: null, error: 'Gagal membuat akun.' };
+const toUser = (record: UserRecord): User => ({
+  ...record,
+  notifications: [],
+});
 
-    // Tunggu sejenak agar trigger SQL selesai membuat record di tabel profiles
-    await new Promise(r => setTimeout(r, 1000));
+export const register = async (userData: Omit<User, 'id' | 'username' | 'isAdmin' | 'roles' | 'isVerified' | 'emailVerified' | 'balance' | 'notifications' | 'profilePictureUrl'> & { password: string }): Promise<{ user: User | null; error: string | null }> => {
+  try {
+    const phoneNumber = normalizePhoneNumber(userData.phoneNumber);
+    if (!phoneNumber) return { user: null, error: 'Nomor HP tidak valid. Gunakan nomor Indonesia, mis. 0812xxxxxxx.' };
 
-    const { data: profileData } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', authData.user.id)
-      .single();
+    const { userId, error } = await repository.auth.signUp(userData.email, userData.password, userData.fullName, phoneNumber);
+    if (error || !userId) return { user: null, error: error || 'Gagal membuat akun.' };
 
-    return { user: mapProfileToUser(profileData || {}, authData.user), error: null };
+    const profile = await repository.users.getById(userId);
+    return {
+      user: profile ? toUser(profile) : toUser({ id: userId, email: userData.email, fullName: userData.fullName, username: '', phoneNumber, isAdmin: false, roles: [], isVerified: false, emailVerified: false, balance: 0 }),
+      error: null,
+    };
   } catch (e: any) {
     return { user: null, error: e.message || 'Terjadi kesalahan sistem.' };
   }
 };
 
-export const login = async (identifier: string, passwordAttempt: string): Promise<{ user: User | null; error: string | null }> => {
+export const login = async (identifier: string, passwordAttempt: string): Promise<{ user: User | null; error: string | null; unverifiedEmail?: string }> => {
   try {
-    const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
-      email: identifier,
-      password: passwordAttempt,
-    });
-
-    if (authError) return { user: null, error: authError.message };
-    if (!authData.user) return { user: null, error: 'User tidak ditemukan.' };
+    const parsed = parseLoginIdentifier(identifier);
+    if (!parsed) return { user: null, error: INVALID_CREDENTIALS };
 
-    const { data: profileData, error: profileError } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', authData.user.id)
-      .single();
+    // Password dicek (dan kegagalan dicatat) di sini untuk semua jenis identifier
+    const email = await repository.auth.resolveLoginEmail(parsed, passwordAttempt, sessionService.currentLoginAttempt());
+    const { userId, error, emailNotConfirmed } = email
+      ? await repository.auth.signIn(email, passwordAttempt)
+      : { userId: null, error: INVALID_CREDENTIALS, emailNotConfirmed: false };
+    // Password sudah benar, jadi aman memberi tahu bahwa email perlu dikonfirmasi
+    if (emailNotConfirmed && email) {
+      return { user: null, error: 'Email belum diverifikasi. Masukkan kode verifikasi yang dikirim ke email Anda.', unverifiedEmail: email };
+    }
+    if (error) return { user: null, error: INVALID_CREDENTIALS };
+    if (!userId) return { user: null, error: 'User tidak ditemukan.' };
 
-    if (profileError) return { user: null, error: 'Profil tidak ditemukan. Pastikan email sudah diverifikasi.' };
+    const profile = await repository.users.getById(userId);
+    if (!profile) return { user: null, error: 'Profil tidak ditemukan. Pastikan email sudah diverifikasi.' };
 
-    return { user: mapProfileToUser(profileData, authData.user), error: null };
+    await sessionService.startSession(userId);
+    return { user: toUser(profile), error: null };
   } catch (e: any) {
     return { user: null, error: e.message };
   }
 };
 
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const validateNewPassword = (password: string): string | null => {
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password minimal ${MIN_PASSWORD_LENGTH} karakter.`;
+  return null;
+};
+
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  if (!/\S+@\S+\.\S+/.test(email.trim())) return;
+  await repository.auth.requestPasswordReset(email.trim().toLowerCase());
+};
+
+/**
+ * Mengganti password dengan kode dari email reset. Semua sesi user (termasuk
+ * sesi yang dibuat saat verifikasi kode) diakhiri; user login ulang dengan
+ * password baru.
+ */
+export const resetPassword = async (email: string, code: string, newPassword: string): Promise<{ success: boolean; message: string }> => {
+  const invalidPassword = validateNewPassword(newPassword);
+  if (invalidPassword) return { success: false, message: invalidPassword };
+
+  try {
+    const { userId, error } = await repository.auth.resetPassword(email.trim().toLowerCase(), code, newPassword);
+    if (error || !userId) return { success: false, message: 'Kode reset tidak valid atau sudah kedaluwarsa.' };
+
+    await sessionService.revokeAllSessions(userId);
+    await addUserNotification(userId, 'Keamanan: Password akun Anda telah direset. Semua sesi login sebelumnya telah dikeluarkan.');
+    await repository.auth.signOut();
+    return { success: true, message: 'Password berhasil direset. Silakan login dengan password baru.' };
+  } catch (e: any) {
+    return { success: false, message: e.message || 'Gagal mereset password.' };
+  }
+};
+
+export const changePassword = async (userId: string, currentPassword: string, newPassword: string): Promise<{ success: boolean; message: string }> => {
+  const invalidPassword = validateNewPassword(newPassword);
+  if (invalidPassword) return { success: false, message: invalidPassword };
+  if (currentPassword === newPassword) return { success: false, message: 'Password baru harus berbeda dari password saat ini.' };
+
+  try {
+    const profile = await repository.users.getById(userId);
+    if (!profile || !(await repository.auth.verifyPassword(profile.email, currentPassword))) {
+      return { success: false, message: 'Password saat ini salah.' };
+    }
+
+    await repository.auth.updatePassword(userId, newPassword);
+    await sessionService.signOutOtherSessions(userId, false);
+    await addUserNotification(userId, 'Keamanan: Password akun Anda telah diubah. Semua sesi di perangkat lain telah dikeluarkan.');
+    return { success: true, message: 'Password berhasil diubah. Sesi di perangkat lain telah dikeluarkan.' };
+  } catch (e: any) {
+    return { success: false, message: e.message || 'Gagal mengubah password.' };
+  }
+};
+
 export const logout = async (): Promise<void> => {
-  await supabase.auth.signOut();
+  const userId = await repository.auth.getSessionUserId();
+  if (userId) await sessionService.endSession(userId);
+  await repository.auth.signOut();
 };
 
 export const getCurrentUser = async (): Promise<User | null> => {
   try {
-    const { data: { session }, error } = await supabase.auth.getSession();
-    if (error || !session?.user) return null;
-
-    const { data: profileData } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', session.user.id)
-      .single();
-
-    if (!profileData) return null;
-
-    const { data: notifs } = await supabase
-      .from('notifications')
-      .select('*')
-      .eq('user_id', session.user.id)
-      .order('date', { ascending: false });
-
-    const user = mapProfileToUser(profileData, session.user);
-    user.notifications = notifs || [];
-    
+    const userId = await repository.auth.getSessionUserId();
+    if (!userId) return null;
+
+    // Sesi yang dikeluarkan dari perangkat lain ikut logout di sini
+    if (!(await sessionService.validateSession(userId))) {
+      await repository.auth.signOut();
+      return null;
+    }
+
+    const profile = await repository.users.getById(userId);
+    if (!profile) return null;
+
+    const user = toUser(profile);
+    user.notifications = await repository.notifications.listByUser(userId);
+
     return user;
   } catch {
     return null;
   }
 };
 
-export const updateUserNotification = async (userId: string, notificationId: string, read: boolean): Promise<void> => {
-  await supabase.from('notifications').update({ read }).eq('id', notificationId).eq('user_id', userId);
+// Cek ringan berkala: false bila sesi sudah berakhir atau dikeluarkan dari perangkat lain.
+export const checkSession = async (): Promise<boolean> => {
+  const userId = await repository.auth.getSessionUserId();
+  if (!userId) return false;
+  if (await sessionService.validateSession(userId)) return true;
+  await repository.auth.signOut();
+  return false;
 };
 
-export const addUserNotification = async (userId: string, message: string): Promise<void> => {
-  await supabase.from('notifications').insert([{ user_id: userId, message, date: new Date().toISOString(), read: false }]);
+export const updateUserNotification = async (userId: string, notificationId: string, read: boolean): Promise<void> => {
+  await repository.notifications.setRead(userId, notificationId, read);
 };
 
-export const updateUserBalance = async (userId: string, newBalance: number): Promise<void> => {
-  await supabase.from('profiles').update({ balance: newBalance }).eq('id', userId);
+export const addUserNotification = async (userId: string, message: string): Promise<void> => {
+  await repository.notifications.add(userId, message);
 };
 
-export const getAllUsers = async (): Promise<User[]> => {
-  const { data: profiles, error } = await supabase
-    .from('profiles')
-    .select('*')
-    .order('created_at', { ascending: false });
-    
-  if (error) return [];
-  return profiles.map((p: any) => mapProfileToUser(p, null));
+export const getAllUsers = async (actorId: string): Promise<User[]> => {
+  await requirePermission(actorId, Permission.USERS_VIEW);
+  const profiles = await repository.users.list();
+  return profiles.map(toUser);
 };
 
 export const updateUserInfo = async (updatedData: Partial<User>): Promise<void> => {
   if (!updatedData.id) return;
-  const updates: any = {};
-  if (updatedData.fullName) updates.full_name = updatedData.fullName;
-  if (updatedData.phoneNumber) updates.phone_number = updatedData.phoneNumber;
-  if (updatedData.profilePictureUrl) updates.profile_picture_url = updatedData.profilePictureUrl;
-  if (updatedData.isVerified !== undefined) updates.is_verified = updatedData.isVerified;
-  await supabase.from('profiles').update(updates).eq('id', updatedData.id);
+  let phoneNumber: string | undefined;
+  if (updatedData.phoneNumber) {
+    phoneNumber = normalizePhoneNumber(updatedData.phoneNumber) || undefined;
+    if (!phoneNumber) throw new Error('Nomor HP tidak valid. Gunakan nomor Indonesia, mis. 0812xxxxxxx.');
+  }
+  await repository.users.update(updatedData.id, {
+    fullName: updatedData.fullName || undefined,
+    phoneNumber,
+    profilePictureUrl: updatedData.profilePictureUrl || undefined,
+  });
 };
 
-export const adminCreateUser = async (userData: Omit<User, 'id' | 'username' | 'notifications'> & { password: string }): Promise<User | null> => {
+export const adminCreateUser = async (
+  actorId: string,
+  userData: Omit<User, 'id' | 'username' | 'notifications' | 'isAdmin' | 'isVerified' | 'emailVerified'> & { password: string },
+  reason: string,
+): Promise<User | null> => {
+  await requirePermission(actorId, Permission.USERS_CREATE);
+  const trimmedReason = requireReason(reason);
+  if (userData.roles.length > 0) await requirePermission(actorId, Permission.ROLES_MANAGE);
+  if (userData.balance) await requirePermission(actorId, Permission.BALANCE_ADJUST);
   try {
-    // 1. Buat user di Auth
-    const { data: authData, error: authError } = await supabase.auth.signUp({ 
-        email: userData.email, 
-        password: userData.password,
-        options: { data: { full_name: userData.fullName } } 
+    // 1. Buat user di Auth (backend menunggu record profiles dibuat)
+    const phoneNumber = userData.phoneNumber ? normalizePhoneNumber(userData.phoneNumber) : '';
+    if (phoneNumber === null) throw new Error('Nomor HP tidak valid.');
+
+    const { userId, error } = await repository.auth.signUp(userData.email, userData.password, userData.fullName, phoneNumber || undefined);
+    if (error || !userId) throw new Error(error || 'Gagal membuat akun.');
+
+    // 2. Update data tambahan yang tidak dihandle trigger otomatis. Verifikasi hanya lewat approval KYC.
+    await repository.users.update(userId, {
+      roles: userData.roles,
+      phoneNumber,
+    });
+
+    // Saldo awal dicatat lewat ledger, bukan ditulis langsung ke profiles.balance.
+    // Di atas threshold, saldo awal menunggu persetujuan admin lain seperti penyesuaian biasa.
+    let balancePendingApproval = false;
+    if (userData.balance) {
+        const result = await repository.ledger.adjustBalance({
+          actorId,
+          userId,
+          operation: 'add',
+          amount: userData.balance,
+          reason: trimmedReason,
+          memo: 'Saldo awal akun dibuat oleh Administrator',
+        });
+        if (!result.success) throw new Error(result.message);
+        balancePendingApproval = !!result.pendingApproval;
+    }
+
+    const profile = await repository.users.getById(userId);
+    if (!profile) throw new Error('Profil tidak ditemukan.');
+
+    await recordAdminAction({
+      actorId,
+      action: AuditAction.USER_CREATE,
+      targetUserId: userId,
+      before: null,
+      after: { email: profile.email, fullName: profile.fullName, phoneNumber: profile.phoneNumber, roles: profile.roles, balance: balancePendingApproval ? 0 : userData.balance || 0 },
+      reason,
     });
-    
-    if (authError || !authData.user) throw authError;
-
-    // 2. Tunggu trigger SQL membuat profile (biasanya instan, tapi kita beri jeda sedikit)
-    await new Promise(r => setTimeout(r, 1200));
-
-    // 3. Update data tambahan yang tidak dihandle trigger otomatis (admin, balance, verification)
-    const { data: profileData, error: updateError } = await supabase
-        .from('profiles')
-        .update({ 
-            is_admin: userData.isAdmin || false, 
-            is_verified: userData.isVerified || false, 
-            balance: userData.balance || 0,
-            phone_number: userData.phoneNumber || ''
-        })
-        .eq('id', authData.user.id)
-        .select()
-        .single();
-
-    if (updateError) throw updateError;
-
-    // 4. Kirim notifikasi selamat datang
-    await addUserNotification(authData.user.id, `Akun Anda telah dibuat oleh Administrator. Selamat bergabung!`);
-
-    return mapProfileToUser(profileData, authData.user);
+
+    // 3. Kirim notifikasi selamat datang
+    await addUserNotification(userId, `Akun Anda telah dibuat oleh Administrator. Selamat bergabung!`);
+
+    return toUser(profile);
   } catch (err) { 
     console.error("Admin Create User Error:", err);
     return null; 
   }
 };
 
-export const verifyEmail = async (email: string) => true;
+export const assignRoles = async (actorId: string, userId: string, roles: AdminRole[], reason: string): Promise<{ success: boolean; message: string }> => {
+  await requirePermission(actorId, Permission.ROLES_MANAGE);
+  requireReason(reason);
+  // Cegah super-admin terakhir mengunci dirinya sendiri
+  if (actorId === userId && !roles.includes(AdminRole.SUPER_ADMIN)) {
+    return { success: false, message: 'Anda tidak dapat mencabut role Super Admin dari akun Anda sendiri.' };
+  }
+  const uniqueRoles = Array.from(new Set(roles)).filter(r => Object.values(AdminRole).includes(r));
+  const existing = await repository.users.getById(userId);
+  if (!existing) return { success: false, message: 'User tidak ditemukan.' };
+  await repository.users.update(userId, { roles: uniqueRoles });
+  await recordAdminAction({
+    actorId,
+    action: AuditAction.ROLES_ASSIGN,
+    targetUserId: userId,
+    before: { roles: existing.roles },
+    after: { roles: uniqueRoles },
+    reason,
+  });
+
+  const labels = uniqueRoles.map(r => ROLE_LABELS[r]).join(', ');
+  await addUserNotification(userId, uniqueRoles.length > 0 ? `Role akun Anda diperbarui: ${labels}.` : 'Semua role admin pada akun Anda telah dicabut.');
+  return { success: true, message: 'Role berhasil diperbarui.' };
+};
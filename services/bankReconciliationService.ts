@@ -0,0 +1,170 @@
+import {
+  AdminActionResult,
+  AuditAction,
+  BankStatementFormat,
+  BankStatementLine,
+  Permission,
+  ReconciliationResult,
+  StatementLineStatus,
+  TransactionStatus,
+  TransactionType,
+} from '../types';
+import { repository, TransactionRecord } from './repositories';
+import { requirePermission } from './permissions';
+import { recordAdminAction, requireReason } from './auditService';
+import { parseBankStatement } from './bankStatementParser';
+import { depositTransferAmount, updateDepositStatus } from './transactionService';
+
+const REFERENCE_PATTERN = /DP[A-Z0-9]{6}/g;
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const listPendingDeposits = async (): Promise<TransactionRecord[]> =>
+  (await repository.transactions.listAll()).filter(t => t.type === TransactionType.DEPOSIT && t.status === TransactionStatus.PENDING);
+
+/**
+ * Referensi di berita transfer diutamakan, tetapi nominalnya tetap harus sama
+ * persis. Tanpa referensi, nominal (yang unik berkat kode unik) sudah cukup.
+ */
+const findMatchingDeposit = (line: BankStatementLine, pending: TransactionRecord[]): TransactionRecord | null => {
+  const references: string[] = line.description.toUpperCase().match(REFERENCE_PATTERN) || [];
+  const byReference = pending.find(t => t.referenceCode && references.includes(t.referenceCode));
+  if (byReference) return depositTransferAmount(byReference) === line.amount ? byReference : null;
+
+  const byAmount = pending.filter(t => depositTransferAmount(t) === line.amount);
+  return byAmount.length === 1 ? byAmount[0] : null;
+};
+
+// Baris diklaim dulu supaya satu mutasi tidak bisa menyetujui dua deposit.
+const applyMatch = async (actorId: string, line: BankStatementLine, depositId: string, reason: string): Promise<AdminActionResult> => {
+  const claimed = await repository.bankStatements.update(line.id, [StatementLineStatus.UNMATCHED], {
+    status: StatementLineStatus.MATCHED,
+    matchedTransactionId: depositId,
+    resolvedBy: actorId,
+    resolvedAt: new Date().toISOString(),
+  });
+  if (!claimed) return { success: false, message: 'Baris mutasi sudah diproses oleh admin lain.' };
+
+  const auditReason = `${reason} (mutasi ${line.format} ${line.bankDate} Rp ${line.amount.toLocaleString('id-ID')})`;
+  let approved = false;
+  let failure = 'Deposit gagal disetujui.';
+  try {
+    approved = await updateDepositStatus(actorId, depositId, TransactionStatus.SUCCESS, auditReason);
+  } catch (e: any) {
+    // Satu deposit yang gagal tidak boleh menghentikan impor baris-baris lainnya.
+    failure = e?.message || failure;
+  } finally {
+    if (!approved) await repository.bankStatements.update(line.id, [StatementLineStatus.MATCHED], { status: StatementLineStatus.UNMATCHED });
+  }
+  return approved
+    ? { success: true, message: 'Deposit disetujui dari mutasi bank.' }
+    : { success: false, message: failure };
+};
+
+/**
+ * Mengimpor CSV rekening koran: mutasi kredit disimpan (baris yang pernah
+ * diimpor dilewati), lalu dicocokkan otomatis ke deposit PENDING. Yang tidak
+ * cocok tetap UNMATCHED untuk ditinjau manual.
+ */
+export const importBankStatement = async (
+  actorId: string,
+  format: BankStatementFormat,
+  csv: string,
+  reason: string,
+): Promise<ReconciliationResult> => {
+  await requirePermission(actorId, Permission.TRANSACTIONS_MANAGE);
+  requireReason(reason);
+  const parsed = parseBankStatement(format, csv);
+  const credits = parsed.lines.filter(l => l.direction === 'CR');
+
+  // Mutasi identik dalam satu file dibedakan dengan urutannya
+  const occurrences = new Map<string, number>();
+  const importedAt = new Date().toISOString();
+  const candidates = await Promise.all(credits.map(async (l): Promise<BankStatementLine> => {
+    const content = `${format}|${l.bankDate}|${l.amount}|${l.description.replace(/\s+/g, ' ').toUpperCase()}`;
+    const occurrence = (occurrences.get(content) || 0) + 1;
+    occurrences.set(content, occurrence);
+    return {
+      id: crypto.randomUUID(),
+      format,
+      bankDate: l.bankDate,
+      description: l.description,
+      amount: l.amount,
+      fingerprint: await sha256(`${content}|${occurrence}`),
+      status: StatementLineStatus.UNMATCHED,
+      importedBy: actorId,
+      importedAt,
+    };
+  }));
+  const added = await repository.bankStatements.addLines(candidates);
+
+  await recordAdminAction({
+    actorId,
+    action: AuditAction.STATEMENT_IMPORT,
+    before: null,
+    after: { format, credits: credits.length, imported: added.length, duplicates: credits.length - added.length },
+    reason,
+  });
+
+  const pending = await listPendingDeposits();
+  let matched = 0;
+  for (const line of added) {
+    const deposit = findMatchingDeposit(line, pending);
+    if (!deposit) continue;
+    const result = await applyMatch(actorId, line, deposit.id, `${reason} [otomatis]`);
+    if (result.success) {
+      matched++;
+      pending.splice(pending.indexOf(deposit), 1);
+    }
+  }
+
+  return {
+    totalCredits: credits.length,
+    skippedDebits: parsed.lines.length - credits.length,
+    duplicates: credits.length - added.length,
+    matched,
+    unmatched: added.length - matched,
+    errors: parsed.errors,
+  };
+};
+
+export const getUnmatchedStatementLines = async (actorId: string): Promise<BankStatementLine[]> => {
+  await requirePermission(actorId, Permission.TRANSACTIONS_MANAGE);
+  return repository.bankStatements.listByStatus([StatementLineStatus.UNMATCHED]);
+};
+
+// Pencocokan manual; admin bertanggung jawab bila nominalnya berbeda.
+export const matchStatementLine = async (actorId: string, lineId: string, depositId: string, reason: string): Promise<AdminActionResult> => {
+  await requirePermission(actorId, Permission.TRANSACTIONS_MANAGE);
+  requireReason(reason);
+  const [line] = (await repository.bankStatements.listByStatus([StatementLineStatus.UNMATCHED])).filter(l => l.id === lineId);
+  if (!line) return { success: false, message: 'Baris mutasi tidak ditemukan atau sudah diproses.' };
+  const deposit = await repository.transactions.getById(depositId);
+  if (!deposit || deposit.type !== TransactionType.DEPOSIT || deposit.status !== TransactionStatus.PENDING) {
+    return { success: false, message: 'Deposit tidak ditemukan atau sudah diproses.' };
+  }
+  return applyMatch(actorId, line, depositId, reason);
+};
+
+export const ignoreStatementLine = async (actorId: string, lineId: string, reason: string): Promise<AdminActionResult> => {
+  await requirePermission(actorId, Permission.TRANSACTIONS_MANAGE);
+  requireReason(reason);
+  const line = await repository.bankStatements.update(lineId, [StatementLineStatus.UNMATCHED], {
+    status: StatementLineStatus.IGNORED,
+    resolvedBy: actorId,
+    resolvedAt: new Date().toISOString(),
+  });
+  if (!line) return { success: false, message: 'Baris mutasi tidak ditemukan atau sudah diproses.' };
+  await recordAdminAction({
+    actorId,
+    action: AuditAction.STATEMENT_LINE_IGNORE,
+    targetId: line.id,
+    before: { status: StatementLineStatus.UNMATCHED },
+    after: { status: StatementLineStatus.IGNORED, bankDate: line.bankDate, amount: line.amount, description: line.description },
+    reason,
+  });
+  return { success: true, message: 'Baris mutasi diabaikan.' };
+};
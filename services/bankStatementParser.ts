@@ -0,0 +1,196 @@
+import { BankStatementFormat } from '../types';
+import { StatementFormatError } from './errors';
+
+export interface ParsedStatementLine {
+  // Nomor baris di file (mulai dari 1), untuk pesan error
+  row: number;
+  bankDate: string;
+  description: string;
+  amount: number;
+  direction: 'CR' | 'DB';
+}
+
+export interface ParsedStatement {
+  lines: ParsedStatementLine[];
+  errors: string[];
+}
+
+// Memecah satu baris CSV; mendukung field ber-quote dan "" di dalamnya.
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  // Ekspor BCA memberi prefix ' supaya Excel tidak mengubah angka/tanggal
+  return fields.map(f => f.trim().replace(/^'/, ''));
+};
+
+const detectDelimiter = (headerLine: string) =>
+  (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+
+/**
+ * Mengubah teks nominal ke angka. Menerima format 1,234,567.00 (BCA/Mandiri)
+ * maupun 1.234.567,00; pemisah yang muncul terakhir dianggap desimal bila
+ * diikuti 1-2 digit.
+ */
+export const parseStatementAmount = (raw: string): number | null => {
+  const cleaned = raw.replace(/rp|idr|\s/gi, '').replace(/(cr|db)$/i, '');
+  if (!cleaned || !/^-?[\d.,]+$/.test(cleaned)) return null;
+  const lastSeparator = Math.max(cleaned.lastIndexOf('.'), cleaned.lastIndexOf(','));
+  const decimals = lastSeparator >= 0 ? cleaned.length - lastSeparator - 1 : 0;
+  const normalized = lastSeparator >= 0 && decimals <= 2
+    ? `${cleaned.slice(0, lastSeparator).replace(/[.,]/g, '')}.${cleaned.slice(lastSeparator + 1)}`
+    : cleaned.replace(/[.,]/g, '');
+  const value = Number(normalized);
+  return Number.isFinite(value) ? Math.abs(value) : null;
+};
+
+// Nama bulan Inggris dan Indonesia (3 huruf pertama) pada tanggal ekspor Mandiri
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, mei: 5, jun: 6, jul: 7,
+  aug: 8, agu: 8, sep: 9, oct: 10, okt: 10, nov: 11, dec: 12, des: 12,
+};
+
+const formatStatementDate = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Tanggal mutasi -> YYYY-MM-DD. Menerima dd/mm, dd/mm/yy, dd/mm/yyyy (juga
+ * dengan -), yyyy-mm-dd, serta dd MMM yyyy / dd-MMM-yy; jam di belakangnya
+ * diabaikan. Format lain menghasilkan null.
+ */
+const parseStatementDate = (raw: string, fallbackYear: number): string | null => {
+  const text = raw.trim().replace(/[\sT]+\d{1,2}[:.]\d{2}(?:[:.]\d{2})?$/, '');
+  const toYear = (yearText?: string) => (!yearText ? fallbackYear : yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText));
+
+  const numeric = text.match(/^(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2}|\d{4}))?$/);
+  if (numeric) return formatStatementDate(toYear(numeric[3]), Number(numeric[2]), Number(numeric[1]));
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) return formatStatementDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const named = text.match(/^(\d{1,2})[\s/-]([a-z]+)[\s/-](\d{2}|\d{4})$/i);
+  const month = named ? MONTH_NAMES[named[2].slice(0, 3).toLowerCase()] : undefined;
+  if (named && month) return formatStatementDate(toYear(named[3]), month, Number(named[1]));
+  return null;
+};
+
+const findHeader = (rows: string[], isHeader: (lower: string) => boolean) =>
+  rows.findIndex(row => isHeader(row.toLowerCase()));
+
+// Kolom yang tidak ada membuat setiap baris terlewat diam-diam, jadi file ditolak.
+const requireColumns = (bank: string, columns: Record<string, number>) => {
+  const missing = Object.entries(columns).filter(([, index]) => index < 0).map(([name]) => name);
+  if (missing.length > 0) throw new StatementFormatError(`Kolom ${bank} tidak ditemukan: ${missing.join(', ')}.`);
+};
+
+/**
+ * Ekspor CSV KlikBCA: beberapa baris info rekening (termasuk "Periode"), lalu
+ * kolom Tanggal Transaksi, Keterangan, Cabang, Jumlah, [CR/DB], Saldo. Tanggal
+ * hanya dd/mm sehingga tahunnya diambil dari baris Periode.
+ */
+const parseBca = (rows: string[]): ParsedStatement => {
+  const headerIndex = findHeader(rows, l => l.includes('tanggal transaksi') && l.includes('keterangan') && l.includes('jumlah'));
+  if (headerIndex < 0) throw new StatementFormatError('Header BCA (Tanggal Transaksi, Keterangan, Jumlah) tidak ditemukan.');
+
+  const periodYear = rows.slice(0, headerIndex).join(' ').match(/\d{1,2}\/\d{1,2}\/(\d{4})/);
+  const fallbackYear = periodYear ? Number(periodYear[1]) : new Date().getFullYear();
+  const delimiter = detectDelimiter(rows[headerIndex]);
+  const header = splitCsvLine(rows[headerIndex], delimiter).map(h => h.toLowerCase());
+  const dateCol = header.indexOf('tanggal transaksi');
+  const descCol = header.indexOf('keterangan');
+  const amountCol = header.indexOf('jumlah');
+  requireColumns('BCA', { 'Tanggal Transaksi': dateCol, Keterangan: descCol, Jumlah: amountCol });
+
+  const lines: ParsedStatementLine[] = [];
+  const errors: string[] = [];
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const rowNumber = headerIndex + i + 2;
+    const fields = splitCsvLine(row, delimiter);
+    // Baris ringkasan di akhir file (Saldo Awal, Mutasi Kredit, ...)
+    if (!fields[dateCol] || /saldo|mutasi/i.test(fields[dateCol])) return;
+    if (/^pend$/i.test(fields[dateCol])) {
+      errors.push(`Baris ${rowNumber}: transaksi masih PEND, dilewati.`);
+      return;
+    }
+    const amountText = fields[amountCol] || '';
+    const directionText = /\b(CR|DB)\s*$/i.exec(amountText)?.[1] || fields[amountCol + 1] || '';
+    const bankDate = parseStatementDate(fields[dateCol], fallbackYear);
+    const amount = parseStatementAmount(amountText);
+    const direction = directionText.toUpperCase();
+    if (!bankDate || amount === null || (direction !== 'CR' && direction !== 'DB')) {
+      errors.push(`Baris ${rowNumber}: format tidak dikenali.`);
+      return;
+    }
+    lines.push({ row: rowNumber, bankDate, description: fields[descCol] || '', amount, direction });
+  });
+  return { lines, errors };
+};
+
+/**
+ * Ekspor CSV Mandiri (Livin'/MCM): Account No, Date (atau Tanggal Transaksi),
+ * Val. Date, Transaction Code, Description (bisa lebih dari satu kolom),
+ * Reference No., Debit, Credit.
+ */
+const parseMandiri = (rows: string[]): ParsedStatement => {
+  const headerIndex = findHeader(rows, l => /\b(date|tanggal)\b/.test(l) && /\b(credit|kredit)\b/.test(l) && /\bdebit\b/.test(l));
+  if (headerIndex < 0) throw new StatementFormatError('Header Mandiri (Date, Debit, Credit) tidak ditemukan.');
+
+  const delimiter = detectDelimiter(rows[headerIndex]);
+  const header = splitCsvLine(rows[headerIndex], delimiter).map(h => h.toLowerCase());
+  const dateCol = header.findIndex(h => ['date', 'tanggal', 'tanggal transaksi', 'posting date', 'transaction date'].includes(h));
+  const descCols = header.flatMap((h, i) => (/description|keterangan|remark|reference/.test(h) ? [i] : []));
+  const debitCol = header.findIndex(h => h === 'debit');
+  const creditCol = header.findIndex(h => h === 'credit' || h === 'kredit');
+  requireColumns('Mandiri', { 'Date/Tanggal Transaksi': dateCol, Debit: debitCol, Credit: creditCol });
+
+  const lines: ParsedStatementLine[] = [];
+  const errors: string[] = [];
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const rowNumber = headerIndex + i + 2;
+    const fields = splitCsvLine(row, delimiter);
+    if (!fields[dateCol]) return;
+    const bankDate = parseStatementDate(fields[dateCol], new Date().getFullYear());
+    const credit = parseStatementAmount(fields[creditCol] || '') || 0;
+    const debit = parseStatementAmount(fields[debitCol] || '') || 0;
+    if (!bankDate) {
+      errors.push(`Baris ${rowNumber}: format tanggal "${fields[dateCol]}" tidak dikenali.`);
+      return;
+    }
+    if (credit === 0 && debit === 0) {
+      errors.push(`Baris ${rowNumber}: format tidak dikenali.`);
+      return;
+    }
+    const description = descCols.map(c => fields[c]).filter(Boolean).join(' ');
+    lines.push({ row: rowNumber, bankDate, description, amount: credit || debit, direction: credit ? 'CR' : 'DB' });
+  });
+  return { lines, errors };
+};
+
+export const parseBankStatement = (format: BankStatementFormat, csv: string): ParsedStatement => {
+  // Baris kosong tidak dibuang supaya nomor baris di pesan error sesuai file
+  const rows = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+  return format === BankStatementFormat.BCA ? parseBca(rows) : parseMandiri(rows);
+};
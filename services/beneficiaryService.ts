@@ -0,0 +1,119 @@
+import { Beneficiary, BeneficiaryResult, BeneficiaryType, KycStatus, NewBeneficiaryInput } from '../types';
+import { BANK_OPTIONS, E_WALLET_OPTIONS } from '../constants';
+import { repository } from './repositories';
+import * as authService from './authService';
+import * as twoFactorService from './twoFactorService';
+import { normalizePhoneNumber } from './identifier';
+
+const PROVIDERS: Record<BeneficiaryType, string[]> = {
+  [BeneficiaryType.BANK]: BANK_OPTIONS,
+  [BeneficiaryType.E_WALLET]: E_WALLET_OPTIONS,
+};
+
+// Gelar dan sapaan yang sering ada di nama rekening tetapi tidak di KTP/profil
+const IGNORED_NAME_TOKENS = new Set(['BPK', 'BAPAK', 'IBU', 'SDR', 'SDRI', 'TN', 'NY', 'NN', 'IR', 'DR', 'DRS', 'DRA', 'HJ', 'H', 'SH', 'SE', 'ST', 'SKOM', 'MM']);
+
+const nameTokens = (name: string): string[] =>
+  name.toUpperCase().replace(/[^A-Z\s]/g, ' ').split(/\s+/).filter(t => t && !IGNORED_NAME_TOKENS.has(t));
+
+/**
+ * Nama pemilik rekening cocok bila setiap katanya ada di nama terdaftar, dengan
+ * urutan yang sama. Bank sering menyingkat nama, jadi satu huruf boleh mewakili
+ * kata yang diawali huruf itu ("M RIZKY" cocok dengan "MUHAMMAD RIZKY").
+ */
+export const namesMatch = (holderName: string, registeredName: string): boolean => {
+  const holder = nameTokens(holderName);
+  const registered = nameTokens(registeredName);
+  if (holder.length === 0) return false;
+  let position = 0;
+  for (const token of holder) {
+    while (position < registered.length && !(registered[position] === token || (token.length === 1 && registered[position].startsWith(token)))) {
+      position++;
+    }
+    if (position === registered.length) return false;
+    position++;
+  }
+  // Nama terdaftar lebih dari satu kata tidak boleh diwakili satu kata saja
+  return holder.length > 1 || registered.length === 1;
+};
+
+// Nama dari KYC yang disetujui lebih dipercaya daripada nama profil.
+const getRegisteredName = async (userId: string): Promise<string> => {
+  const kycCase = await repository.kyc.getLatestByUser(userId);
+  if (kycCase?.status === KycStatus.APPROVED && kycCase.identity.fullName.trim()) return kycCase.identity.fullName;
+  const profile = await repository.users.getById(userId);
+  return profile?.fullName || '';
+};
+
+const normalizeAccountNumber = (type: BeneficiaryType, accountNumber: string): string | null => {
+  if (type === BeneficiaryType.E_WALLET) return normalizePhoneNumber(accountNumber);
+  const digits = accountNumber.replace(/[\s-]/g, '');
+  return /^\d{6,20}$/.test(digits) ? digits : null;
+};
+
+export const isBeneficiaryActive = (beneficiary: Beneficiary, now: Date = new Date()): boolean =>
+  new Date(beneficiary.activeAt).getTime() <= now.getTime();
+
+export const listBeneficiaries = async (userId: string): Promise<Beneficiary[]> => {
+  return repository.beneficiaries.listByUser(userId);
+};
+
+/**
+ * Menyimpan rekening penarikan baru. Pemiliknya harus atas nama user sendiri,
+ * dan rekening baru bisa menerima dana setelah masa tunggu supaya
+ * pengambilalihan akun tidak langsung bisa menguras saldo. Masa tunggu
+ * dihitung backend; dengan Supabase nama juga dicek ulang oleh trigger
+ * (0025_beneficiary_server_checks.sql).
+ */
+export const addBeneficiary = async (userId: string, input: NewBeneficiaryInput, twoFactorCode?: string): Promise<BeneficiaryResult> => {
+  if (!PROVIDERS[input.type]?.includes(input.providerName)) {
+    return { success: false, message: `Select a ${input.type === BeneficiaryType.BANK ? 'bank' : 'e-wallet'} from the list.` };
+  }
+  const accountNumber = normalizeAccountNumber(input.type, input.accountNumber);
+  if (!accountNumber) {
+    return {
+      success: false,
+      message: input.type === BeneficiaryType.BANK ? 'Account number must be 6-20 digits.' : 'Enter a valid Indonesian phone number.',
+    };
+  }
+  const registeredName = await getRegisteredName(userId);
+  if (!namesMatch(input.accountHolderName, registeredName)) {
+    return { success: false, message: `The account holder name must match your registered name (${registeredName}).` };
+  }
+
+  const twoFactorError = await twoFactorService.requireFreshCode(userId, twoFactorCode);
+  if (twoFactorError) return { success: false, message: twoFactorError };
+
+  const beneficiary = await repository.beneficiaries.create({
+    userId,
+    type: input.type,
+    providerName: input.providerName,
+    accountNumber,
+    accountHolderName: input.accountHolderName.trim().toUpperCase(),
+    nickname: input.nickname?.trim() || undefined,
+  });
+  if (!beneficiary) return { success: false, message: 'This account is already saved.' };
+
+  const activeAt = new Date(beneficiary.activeAt);
+  await authService.addUserNotification(
+    userId,
+    isBeneficiaryActive(beneficiary, new Date(beneficiary.createdAt))
+      ? `Rekening penarikan baru ditambahkan: ${beneficiary.providerName} ${beneficiary.accountNumber}. Jika ini bukan Anda, segera ganti password.`
+      : `Rekening penarikan baru ditambahkan: ${beneficiary.providerName} ${beneficiary.accountNumber}. Rekening ini dapat menerima penarikan mulai ${activeAt.toLocaleString('id-ID')}. Jika ini bukan Anda, segera ganti password.`,
+  );
+  return { success: true, message: 'Beneficiary saved.', beneficiary };
+};
+
+export const removeBeneficiary = async (userId: string, beneficiaryId: string): Promise<boolean> => {
+  return repository.beneficiaries.remove(beneficiaryId, userId);
+};
+
+// Dipakai withdraw: rekening harus milik user dan sudah melewati masa tunggu.
+export const getPayableBeneficiary = async (userId: string, beneficiaryId: string): Promise<{ beneficiary?: Beneficiary; error?: string }> => {
+  const beneficiary = await repository.beneficiaries.getById(beneficiaryId);
+  if (!beneficiary || beneficiary.userId !== userId) return { error: 'Select a saved withdrawal account.' };
+  if (!isBeneficiaryActive(beneficiary)) {
+    return { error: `This account can receive withdrawals from ${new Date(beneficiary.activeAt).toLocaleString('id-ID')}.` };
+  }
+  return { beneficiary };
+};
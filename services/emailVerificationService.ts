@@ -0,0 +1,46 @@
+import { EmailVerificationResult } from '../types';
+import { repository } from './repositories';
+import * as authService from './authService';
+
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * Mengirim ulang kode verifikasi. Pesan sukses sama untuk email yang tidak
+ * terdaftar atau sudah terverifikasi.
+ */
+export const sendVerificationEmail = async (email: string): Promise<EmailVerificationResult> => {
+  if (!/\S+@\S+\.\S+/.test(email.trim())) return { success: false, message: 'Format email tidak valid.' };
+  try {
+    const { error, retryAfterSeconds } = await repository.auth.sendEmailVerification(email.trim().toLowerCase());
+    if (error) {
+      const wait = retryAfterSeconds || RESEND_COOLDOWN_SECONDS;
+      return { success: false, message: `Terlalu banyak permintaan. Coba lagi dalam ${wait} detik.`, retryAfterSeconds: wait };
+    }
+    return { success: true, message: 'Jika email terdaftar dan belum diverifikasi, kode verifikasi baru telah dikirim.' };
+  } catch (e: any) {
+    return { success: false, message: e.message || 'Gagal mengirim kode verifikasi.' };
+  }
+};
+
+export const confirmEmail = async (email: string, code: string): Promise<EmailVerificationResult> => {
+  if (!email.trim() || !code.trim()) return { success: false, message: 'Email dan kode verifikasi wajib diisi.' };
+  try {
+    const { userId, error } = await repository.auth.confirmEmail(email.trim().toLowerCase(), code);
+    if (error || !userId) return { success: false, message: 'Kode verifikasi tidak valid atau sudah kedaluwarsa.' };
+    await authService.addUserNotification(userId, 'Email Anda telah terverifikasi. Fitur deposit, penarikan, transfer dan trading kini aktif.');
+    return { success: true, message: 'Email berhasil diverifikasi.' };
+  } catch (e: any) {
+    return { success: false, message: e.message || 'Gagal memverifikasi email.' };
+  }
+};
+
+/**
+ * Dipanggil sebelum fitur transaksi. Mengembalikan pesan error, atau null
+ * bila email user sudah dikonfirmasi.
+ */
+export const requireVerifiedEmail = async (userId: string): Promise<string | null> => {
+  const profile = await repository.users.getById(userId);
+  if (!profile) return 'User tidak ditemukan.';
+  if (!profile.emailVerified) return 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.';
+  return null;
+};
@@ -0,0 +1,29 @@
+import { Permission, TransactionStatus, TransactionType } from '../types';
+
+// Dilempar service saat user yang menjalankan aksi admin tidak punya izinnya.
+export class AccessDeniedError extends Error {
+  constructor(public readonly permission: Permission) {
+    super('Akses ditolak: Anda tidak memiliki izin untuk aksi ini.');
+    this.name = 'AccessDeniedError';
+  }
+}
+
+// Dilempar saat perubahan status transaksi tidak diizinkan oleh state machine (lihat transactionStateMachine.ts).
+export class IllegalTransitionError extends Error {
+  constructor(
+    public readonly transactionType: TransactionType,
+    public readonly from: TransactionStatus,
+    public readonly to: TransactionStatus,
+  ) {
+    super(`Status ${transactionType} tidak dapat diubah dari ${from} ke ${to}.`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+// Dilempar parser rekening koran bila header atau kolom wajib tidak ditemukan (lihat bankStatementParser.ts).
+export class StatementFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementFormatError';
+  }
+}
@@ -0,0 +1,140 @@
+import {
+  AuditAction,
+  BeneficiaryType,
+  FeeChannel,
+  FeeQuote,
+  FeeSchedule,
+  FeeType,
+  Permission,
+} from '../types';
+import { repository } from './repositories';
+import { requirePermission } from './permissions';
+import { recordAdminAction, requireReason } from './auditService';
+
+export const FEE_CHANNELS: FeeChannel[] = [FeeChannel.WITHDRAWAL_BANK, FeeChannel.WITHDRAWAL_E_WALLET, FeeChannel.TRANSFER];
+
+export const FEE_CHANNEL_LABELS: Record<FeeChannel, string> = {
+  [FeeChannel.WITHDRAWAL_BANK]: 'Withdrawal to bank account',
+  [FeeChannel.WITHDRAWAL_E_WALLET]: 'Withdrawal to e-wallet',
+  [FeeChannel.TRANSFER]: 'Internal transfer',
+};
+
+// Saluran tanpa jadwal tersimpan tidak dikenai biaya.
+export const defaultFeeSchedule = (channel: FeeChannel): FeeSchedule => ({
+  channel,
+  type: FeeType.FLAT,
+  flatFee: 0,
+  percentage: 0,
+  minFee: 0,
+  maxFee: 0,
+  tiers: [],
+});
+
+export const getWithdrawalFeeChannel = (beneficiaryType: BeneficiaryType): FeeChannel =>
+  beneficiaryType === BeneficiaryType.BANK ? FeeChannel.WITHDRAWAL_BANK : FeeChannel.WITHDRAWAL_E_WALLET;
+
+// Persentase dihitung dalam basis poin supaya pembulatan tidak meleset karena floating point.
+const percentOf = (amount: number, percentage: number): number => (amount * Math.round(percentage * 100)) / 10000;
+
+/**
+ * Biaya untuk `amount` dalam rupiah utuh. Harus sama persis dengan
+ * public.calculate_fee (0020_fee_schedules.sql) karena transfer diperiksa ulang di sana.
+ */
+export const calculateFee = (schedule: FeeSchedule, amount: number): number => {
+  if (!(amount > 0)) return 0;
+  let fee = 0;
+  if (schedule.type === FeeType.FLAT) {
+    fee = schedule.flatFee;
+  } else if (schedule.type === FeeType.PERCENTAGE) {
+    fee = percentOf(amount, schedule.percentage);
+  } else {
+    const tier = [...schedule.tiers].sort((a, b) => b.minAmount - a.minAmount).find(t => t.minAmount <= amount);
+    if (tier) fee = tier.flatFee + percentOf(amount, tier.percentage);
+  }
+  fee = Math.max(Math.round(fee), schedule.minFee);
+  return schedule.maxFee > 0 ? Math.min(fee, schedule.maxFee) : fee;
+};
+
+export const findFeeSchedule = (schedules: FeeSchedule[], channel: FeeChannel): FeeSchedule =>
+  schedules.find(s => s.channel === channel) || defaultFeeSchedule(channel);
+
+// Dipakai form untuk preview dari jadwal yang sudah dimuat di context.
+export const quoteFee = (schedules: FeeSchedule[], channel: FeeChannel, amount: number): FeeQuote => {
+  const fee = calculateFee(findFeeSchedule(schedules, channel), amount);
+  return { channel, amount, fee, total: amount + fee };
+};
+
+const rupiah = (amount: number): string => `Rp ${amount.toLocaleString('id-ID')}`;
+
+const describeCaps = (schedule: FeeSchedule): string => {
+  const caps = [
+    schedule.minFee > 0 ? `min ${rupiah(schedule.minFee)}` : '',
+    schedule.maxFee > 0 ? `max ${rupiah(schedule.maxFee)}` : '',
+  ].filter(Boolean);
+  return caps.length > 0 ? ` (${caps.join(', ')})` : '';
+};
+
+// Ringkasan singkat untuk ditampilkan ke member, mis. "0,5% (min Rp 2.500)".
+export const describeFeeSchedule = (schedule: FeeSchedule): string => {
+  if (schedule.type === FeeType.FLAT) return schedule.flatFee > 0 ? rupiah(schedule.flatFee) : 'Free';
+  if (schedule.type === FeeType.PERCENTAGE) return `${schedule.percentage.toLocaleString('id-ID')}%${describeCaps(schedule)}`;
+  return `Tiered by amount${describeCaps(schedule)}`;
+};
+
+export const getFeeSchedules = async (): Promise<FeeSchedule[]> => {
+  const stored = await repository.feeSchedules.list();
+  return FEE_CHANNELS.map(channel => findFeeSchedule(stored, channel));
+};
+
+export const getFee = async (channel: FeeChannel, amount: number): Promise<number> => {
+  return quoteFee(await getFeeSchedules(), channel, amount).fee;
+};
+
+const isFeeAmount = (value: number): boolean => Number.isInteger(value) && value >= 0;
+// Maksimal dua angka desimal (basis poin)
+const isPercentage = (value: number): boolean =>
+  Number.isFinite(value) && value >= 0 && value <= 100 && Math.abs(value * 100 - Math.round(value * 100)) < 1e-9;
+
+const validateSchedule = (schedule: FeeSchedule): string | null => {
+  const label = FEE_CHANNEL_LABELS[schedule.channel];
+  if (!label) return 'Unknown fee channel.';
+  if (!Object.values(FeeType).includes(schedule.type)) return `${label}: unknown fee type.`;
+  if (![schedule.flatFee, schedule.minFee, schedule.maxFee].every(isFeeAmount)) return `${label}: fees must be whole rupiah amounts of zero or more.`;
+  if (!isPercentage(schedule.percentage)) return `${label}: percentage must be between 0 and 100 with at most two decimals.`;
+  if (schedule.maxFee > 0 && schedule.maxFee < schedule.minFee) return `${label}: maximum fee cannot be below the minimum fee.`;
+  if (schedule.type === FeeType.TIERED) {
+    if (schedule.tiers.length === 0) return `${label}: add at least one tier.`;
+    const minAmounts = schedule.tiers.map(t => t.minAmount);
+    if (!minAmounts.includes(0)) return `${label}: one tier must start at Rp 0.`;
+    if (new Set(minAmounts).size !== minAmounts.length) return `${label}: tiers must start at different amounts.`;
+    for (const tier of schedule.tiers) {
+      if (!isFeeAmount(tier.minAmount) || !isFeeAmount(tier.flatFee)) return `${label}: tier amounts must be whole rupiah amounts of zero or more.`;
+      if (!isPercentage(tier.percentage)) return `${label}: tier percentage must be between 0 and 100 with at most two decimals.`;
+    }
+  }
+  return null;
+};
+
+export const setFeeSchedules = async (actorId: string, schedules: FeeSchedule[], reason: string): Promise<void> => {
+  await requirePermission(actorId, Permission.SETTINGS_MANAGE);
+  const auditReason = requireReason(reason);
+  for (const schedule of schedules) {
+    const error = validateSchedule(schedule);
+    if (error) throw new Error(error);
+  }
+
+  // Tier disimpan urut supaya tampilan admin dan audit log mudah dibaca
+  const cleaned = schedules.map(s => ({
+    ...s,
+    tiers: s.type === FeeType.TIERED ? [...s.tiers].sort((a, b) => a.minAmount - b.minAmount) : [],
+  }));
+  const before = await getFeeSchedules();
+  await repository.feeSchedules.upsert(cleaned, actorId);
+  await recordAdminAction({
+    actorId,
+    action: AuditAction.FEE_SCHEDULE_UPDATE,
+    before: { schedules: before },
+    after: { schedules: cleaned },
+    reason: auditReason,
+  });
+};
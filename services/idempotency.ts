@@ -0,0 +1,18 @@
+/**
+ * Deduplikasi permintaan di sisi client. Permintaan dengan kunci yang sama
+ * yang masih berjalan (mis. double-click) berbagi satu Promise; replay
+ * setelah selesai ditangani oleh service dengan mencari kunci di database.
+ */
+const inFlight = new Map<string, Promise<unknown>>();
+
+export const createIdempotencyKey = (): string => crypto.randomUUID();
+
+export const withIdempotency = <T>(scope: string, key: string, run: () => Promise<T>): Promise<T> => {
+  const mapKey = `${scope}:${key}`;
+  const pending = inFlight.get(mapKey);
+  if (pending) return pending as Promise<T>;
+
+  const promise = run().finally(() => inFlight.delete(mapKey));
+  inFlight.set(mapKey, promise);
+  return promise;
+};
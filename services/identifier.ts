@@ -0,0 +1,36 @@
+import { LoginIdentifier } from '../types';
+
+/**
+ * Normalisasi identifier login: email, nomor HP Indonesia (disimpan dalam
+ * format +62) atau username.
+ */
+
+/**
+ * 0812..., 62812..., +62 812-..., atau 812... menjadi +62812....
+ * Mengembalikan null bila bukan nomor HP Indonesia yang valid.
+ */
+export const normalizePhoneNumber = (input: string): string | null => {
+  const compact = input.trim().replace(/[\s\-().]/g, '');
+  if (!/^\+?\d+$/.test(compact)) return null;
+
+  let local = compact.replace(/^\+/, '');
+  if (local.startsWith('62')) local = local.slice(2);
+  else if (local.startsWith('0')) local = local.slice(1);
+  else if (compact.startsWith('+')) return null;
+
+  return /^8\d{7,11}$/.test(local) ? `+62${local}` : null;
+};
+
+const looksLikePhoneNumber = (input: string) => /^\+?[\d\s\-().]+$/.test(input.trim());
+
+// null bila identifier jelas tidak valid (mis. nomor HP dengan format salah).
+export const parseLoginIdentifier = (input: string): LoginIdentifier | null => {
+  const value = input.trim();
+  if (!value) return null;
+  if (value.includes('@')) return { kind: 'email', value: value.toLowerCase() };
+  if (looksLikePhoneNumber(value)) {
+    const phone = normalizePhoneNumber(value);
+    return phone ? { kind: 'phone', value: phone } : null;
+  }
+  return { kind: 'username', value: value.toLowerCase() };
+};
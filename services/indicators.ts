@@ -0,0 +1,75 @@
+/**
+ * Indikator teknikal untuk chart. Setiap fungsi mengembalikan array sepanjang
+ * input; posisi yang belum punya cukup data bernilai null.
+ */
+
+export interface BollingerPoint {
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+export const sma = (values: number[], period: number): (number | null)[] => {
+  const result: (number | null)[] = [];
+  let sum = 0;
+  values.forEach((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  });
+  return result;
+};
+
+// EMA diinisialisasi dengan SMA dari `period` nilai pertama.
+export const ema = (values: number[], period: number): (number | null)[] => {
+  const k = 2 / (period + 1);
+  const result: (number | null)[] = [];
+  let previous: number | null = null;
+  values.forEach((value, i) => {
+    if (i < period - 1) {
+      result.push(null);
+      return;
+    }
+    previous = previous === null
+      ? values.slice(0, period).reduce((t, v) => t + v, 0) / period
+      : value * k + previous * (1 - k);
+    result.push(previous);
+  });
+  return result;
+};
+
+export const bollingerBands = (values: number[], period = 20, multiplier = 2): (BollingerPoint | null)[] => {
+  const middle = sma(values, period);
+  return middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((t, v) => t + (v - mean) ** 2, 0) / period;
+    const deviation = Math.sqrt(variance) * multiplier;
+    return { middle: mean, upper: mean + deviation, lower: mean - deviation };
+  });
+};
+
+// RSI dengan smoothing Wilder.
+export const rsi = (values: number[], period = 14): (number | null)[] => {
+  const result: (number | null)[] = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) gain += change; else loss -= change;
+  }
+  let avgGain = gain / period;
+  let avgLoss = loss / period;
+  const toRsi = () => (avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss));
+  result[period] = toRsi();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRsi();
+  }
+  return result;
+};
@@ -0,0 +1,58 @@
+import { InvestmentContract, InvestmentResult, Permission, AuditAction } from '../types';
+import { INVESTMENT_PLANS } from '../constants';
+import { repository } from './repositories';
+import { requirePermission } from './permissions';
+import { recordAdminAction, requireReason } from './auditService';
+
+export const getUserInvestments = async (userId: string): Promise<InvestmentContract[]> => {
+  return repository.investments.listByUser(userId);
+};
+
+export const getAllInvestments = async (actorId: string): Promise<InvestmentContract[]> => {
+  await requirePermission(actorId, Permission.INVESTMENTS_VIEW);
+  return repository.investments.listAll();
+};
+
+/**
+ * Membeli satu tier paket investasi. Harga tier, cek saldo, jurnal modal dan
+ * penyimpanan kontrak dikerjakan backend dalam satu langkah
+ * (purchase_investment di Supabase).
+ */
+export const purchaseInvestment = async (userId: string, planId: string, tierIndex: number): Promise<InvestmentResult> => {
+  const plan = INVESTMENT_PLANS.find(p => p.id === planId);
+  if (!plan || !plan.tiers[tierIndex]) {
+    return { success: false, message: 'Paket investasi tidak ditemukan.' };
+  }
+
+  try {
+    return await repository.investments.purchase({ userId, planId, tierIndex });
+  } catch (e: any) {
+    console.error("Purchase investment error", e);
+    return { success: false, message: e?.message || 'Gagal membeli paket investasi.' };
+  }
+};
+
+/**
+ * Membayar periode kontrak Active milik user (atau semua user bila `userId`
+ * kosong) yang sudah lewat. Penandaan periode, jurnal profit/modal dan
+ * notifikasi ditulis bersamaan oleh backend; di Supabase pg_cron juga
+ * menjalankannya tiap jam. Mengembalikan jumlah kontrak yang dibayar.
+ */
+export const processDuePayouts = async (userId?: string): Promise<number> => {
+  return repository.investments.processDuePayouts(userId);
+};
+
+// Payout untuk semua user sekaligus, hanya untuk staf dengan izin payout.
+export const runAllDuePayouts = async (actorId: string, reason: string): Promise<number> => {
+  await requirePermission(actorId, Permission.INVESTMENTS_PAYOUT);
+  requireReason(reason);
+  const paidCount = await processDuePayouts();
+  await recordAdminAction({
+    actorId,
+    action: AuditAction.INVESTMENT_PAYOUTS,
+    before: null,
+    after: { paidCount },
+    reason,
+  });
+  return paidCount;
+};
@@ -0,0 +1,234 @@
+import { KycCase, KycDocument, KycDocumentResult, KycDocumentType, KycIdentity, KycResult, KycStatus, Permission, AuditAction } from '../types';
+import { repository } from './repositories';
+import * as authService from './authService';
+import { requirePermission } from './permissions';
+import { recordAdminAction, requireReason } from './auditService';
+
+export const KYC_DOCUMENT_TYPES: KycDocumentType[] = [
+  KycDocumentType.ID_CARD,
+  KycDocumentType.SELFIE,
+  KycDocumentType.PROOF_OF_ADDRESS,
+];
+
+export const EMPTY_KYC_IDENTITY: KycIdentity = {
+  fullName: '',
+  idNumber: '',
+  placeOfBirth: '',
+  dateOfBirth: '',
+  address: '',
+  city: '',
+  postalCode: '',
+};
+
+export const KYC_DOCUMENT_MAX_MB = 2;
+
+export const KYC_DOCUMENT_ACCEPT: Record<KycDocumentType, string[]> = {
+  [KycDocumentType.ID_CARD]: ['image/jpeg', 'image/png'],
+  [KycDocumentType.SELFIE]: ['image/jpeg', 'image/png'],
+  [KycDocumentType.PROOF_OF_ADDRESS]: ['image/jpeg', 'image/png', 'application/pdf'],
+};
+
+const now = () => new Date().toISOString();
+
+// Dipakai form sebelum upload dan service saat menerima file.
+export const validateDocument = (type: KycDocumentType, file: { type: string; size: number }): string | null => {
+  if (!KYC_DOCUMENT_ACCEPT[type].includes(file.type)) return 'Invalid file format.';
+  if (file.size > KYC_DOCUMENT_MAX_MB * 1024 * 1024) return `File size should be less than ${KYC_DOCUMENT_MAX_MB}MB.`;
+  return null;
+};
+
+const isEditable = (kycCase: KycCase | null): boolean =>
+  !kycCase || kycCase.status === KycStatus.DRAFT || kycCase.status === KycStatus.REJECTED;
+
+// Sama seperti decide_approval: reviewer tidak boleh memutuskan pengajuannya sendiri.
+const requireOtherReviewer = async (caseId: string, reviewerId: string): Promise<void> => {
+  const kycCase = await repository.kyc.getById(caseId);
+  if (kycCase?.userId === reviewerId) throw new Error('You cannot review your own KYC submission.');
+};
+
+// Mengembalikan daftar pesan error; kosong berarti identitas lengkap dan valid.
+export const validateIdentity = (identity: KycIdentity): string[] => {
+  const errors: string[] = [];
+  if (!identity.fullName.trim()) errors.push('Full name is required.');
+  if (!/^\d{16}$/.test(identity.idNumber.trim())) errors.push('NIK must be 16 digits.');
+  if (!identity.placeOfBirth.trim()) errors.push('Place of birth is required.');
+  if (!identity.dateOfBirth || Number.isNaN(Date.parse(identity.dateOfBirth))) {
+    errors.push('Date of birth is required.');
+  } else {
+    const age = (Date.now() - Date.parse(identity.dateOfBirth)) / (365.25 * 24 * 60 * 60 * 1000);
+    if (age < 17) errors.push('You must be at least 17 years old.');
+  }
+  if (!identity.address.trim()) errors.push('Address is required.');
+  if (!identity.city.trim()) errors.push('City is required.');
+  if (!/^\d{5}$/.test(identity.postalCode.trim())) errors.push('Postal code must be 5 digits.');
+  return errors;
+};
+
+export const getLatestCase = async (userId: string): Promise<KycCase | null> => {
+  return repository.kyc.getLatestByUser(userId);
+};
+
+/**
+ * Menyimpan draft KYC. Draft yang ada diperbarui; bila belum ada pengajuan
+ * atau pengajuan terakhir ditolak, draft baru dibuat. Pengajuan yang sedang
+ * diproses atau sudah disetujui tidak bisa diubah.
+ */
+export const saveDraft = async (
+  userId: string,
+  identity: KycIdentity,
+  documents: Partial<Record<KycDocumentType, KycDocument>>,
+): Promise<KycResult> => {
+  // Dokumen harus sudah diunggah lewat uploadDocument ke folder milik user ini
+  if (Object.values(documents).some(doc => !doc?.path?.startsWith(`${userId}/`))) {
+    return { success: false, message: 'Please upload your documents again.' };
+  }
+  try {
+    const latest = await repository.kyc.getLatestByUser(userId);
+    if (latest && latest.status === KycStatus.DRAFT) {
+      const updated = await repository.kyc.update(latest.id, [KycStatus.DRAFT], { identity, documents });
+      if (!updated) return { success: false, message: 'KYC submission can no longer be edited.' };
+      return { success: true, message: 'Draft saved.', kycCase: updated };
+    }
+    if (!isEditable(latest)) {
+      return { success: false, message: 'Your KYC submission is already being processed.' };
+    }
+
+    const createdAt = now();
+    const created = await repository.kyc.create({
+      id: crypto.randomUUID(),
+      userId,
+      status: KycStatus.DRAFT,
+      identity,
+      documents,
+      createdAt,
+      updatedAt: createdAt,
+    });
+    return { success: true, message: 'Draft saved.', kycCase: created };
+  } catch (e: any) {
+    console.error("Save KYC draft error", e);
+    return { success: false, message: e?.message || 'Failed to save KYC draft.' };
+  }
+};
+
+/**
+ * Mengunggah satu dokumen ke storage private. Dokumen baru tercatat di
+ * pengajuan setelah saveDraft dipanggil dengan hasilnya.
+ */
+export const uploadDocument = async (userId: string, type: KycDocumentType, file: File): Promise<KycDocumentResult> => {
+  const validationError = validateDocument(type, file);
+  if (validationError) return { success: false, message: validationError };
+  try {
+    if (!isEditable(await repository.kyc.getLatestByUser(userId))) {
+      return { success: false, message: 'Your KYC submission is already being processed.' };
+    }
+    const extension = file.type === 'application/pdf' ? 'pdf' : file.type === 'image/png' ? 'png' : 'jpg';
+    // Folder pertama = user id, dipakai policy storage di Supabase
+    const path = `${userId}/${type.toLowerCase()}-${crypto.randomUUID()}.${extension}`;
+    await repository.storage.upload('kyc-documents', path, file);
+    return {
+      success: true,
+      message: 'Document uploaded.',
+      document: { fileName: file.name, mimeType: file.type, path, uploadedAt: now() },
+    };
+  } catch (e: any) {
+    console.error("KYC document upload error", e);
+    return { success: false, message: e?.message || 'Failed to upload document.' };
+  }
+};
+
+// Pemilik dokumen atau reviewer KYC.
+export const getDocumentUrl = async (actorId: string, document: KycDocument): Promise<string | null> => {
+  if (!document.path) return document.dataUrl || null;
+  if (!document.path.startsWith(`${actorId}/`)) await requirePermission(actorId, Permission.KYC_REVIEW);
+  return repository.storage.getViewUrl('kyc-documents', document.path);
+};
+
+export const submitCase = async (userId: string): Promise<KycResult> => {
+  try {
+    const latest = await repository.kyc.getLatestByUser(userId);
+    if (!latest || latest.status !== KycStatus.DRAFT) {
+      return { success: false, message: 'There is no KYC draft to submit.' };
+    }
+    const identityErrors = validateIdentity(latest.identity);
+    if (identityErrors.length > 0) return { success: false, message: identityErrors[0] };
+    const missing = KYC_DOCUMENT_TYPES.filter(type => !latest.documents[type]);
+    if (missing.length > 0) return { success: false, message: 'Please upload all required documents.' };
+
+    const submitted = await repository.kyc.update(latest.id, [KycStatus.DRAFT], {
+      status: KycStatus.SUBMITTED,
+      submittedAt: now(),
+    });
+    if (!submitted) return { success: false, message: 'KYC submission can no longer be edited.' };
+    await authService.addUserNotification(userId, 'KYC Terkirim: Dokumen verifikasi Anda sudah kami terima dan akan segera direview.');
+    return { success: true, message: 'KYC submitted for review.', kycCase: submitted };
+  } catch (e: any) {
+    console.error("Submit KYC error", e);
+    return { success: false, message: e?.message || 'Failed to submit KYC.' };
+  }
+};
+
+// --- Admin review ---
+
+export const getReviewQueue = async (actorId: string): Promise<KycCase[]> => {
+  await requirePermission(actorId, Permission.KYC_REVIEW);
+  return repository.kyc.listByStatus([KycStatus.SUBMITTED, KycStatus.IN_REVIEW]);
+};
+
+export const startReview = async (caseId: string, reviewerId: string): Promise<KycResult> => {
+  await requirePermission(reviewerId, Permission.KYC_REVIEW);
+  await requireOtherReviewer(caseId, reviewerId);
+  const updated = await repository.kyc.update(caseId, [KycStatus.SUBMITTED], {
+    status: KycStatus.IN_REVIEW,
+    reviewStartedAt: now(),
+    reviewerId,
+  });
+  if (!updated) return { success: false, message: 'This case is no longer waiting for review.' };
+  return { success: true, message: 'Review started.', kycCase: updated };
+};
+
+/**
+ * Satu-satunya jalur yang mengaktifkan isVerified. Status pengajuan,
+ * isVerified, audit log dan notifikasi ditulis repository dalam satu langkah
+ * (di Supabase lewat `approve_kyc_case`).
+ */
+export const approveCase = async (caseId: string, reviewerId: string, reason: string): Promise<KycResult> => {
+  await requirePermission(reviewerId, Permission.KYC_REVIEW);
+  await requireOtherReviewer(caseId, reviewerId);
+  const approvalReason = requireReason(reason);
+  try {
+    return await repository.kyc.approve({ caseId, reviewerId, reason: approvalReason });
+  } catch (e: any) {
+    console.error("Approve KYC error", e);
+    return { success: false, message: e?.message || 'Failed to approve KYC.' };
+  }
+};
+
+export const rejectCase = async (caseId: string, reviewerId: string, reason: string): Promise<KycResult> => {
+  await requirePermission(reviewerId, Permission.KYC_REVIEW);
+  await requireOtherReviewer(caseId, reviewerId);
+  const rejectionReason = requireReason(reason);
+  try {
+    const updated = await repository.kyc.update(caseId, [KycStatus.IN_REVIEW], {
+      status: KycStatus.REJECTED,
+      reviewedAt: now(),
+      reviewerId,
+      rejectionReason,
+    });
+    if (!updated) return { success: false, message: 'Only cases in review can be rejected.' };
+    await recordAdminAction({
+      actorId: reviewerId,
+      action: AuditAction.KYC_REJECT,
+      targetUserId: updated.userId,
+      targetId: caseId,
+      before: { status: KycStatus.IN_REVIEW },
+      after: { status: KycStatus.REJECTED },
+      reason: rejectionReason,
+    });
+
+    await authService.addUserNotification(updated.userId, `KYC Ditolak: "${rejectionReason}". Silakan perbaiki data Anda dan kirim ulang.`);
+    return { success: true, message: 'KYC rejected.', kycCase: updated };
+  } catch (e: any) {
+    console.error("Reject KYC error", e);
+    return { success: false, message: e?.message || 'Failed to reject KYC.' };
+  }
+};
@@ -0,0 +1,61 @@
+import { LedgerDirection, LedgerEntry, BalanceReconciliation } from '../types';
+import { repository } from './repositories';
+
+/**
+ * Akun lawan (contra account) milik sistem. Setiap perubahan saldo user selalu
+ * diposting berpasangan dengan salah satu akun ini, sehingga total debit dan
+ * kredit di buku besar selalu seimbang.
+ */
+export const SYSTEM_ACCOUNTS = {
+  OPENING_BALANCE: 'system:opening_balance',
+  BANK_DEPOSITS: 'system:bank_deposits',
+  WITHDRAWALS_PAYABLE: 'system:withdrawals_payable',
+  ADJUSTMENTS: 'system:adjustments',
+  // Stake posisi trading yang masih terbuka
+  TRADE_ESCROW: 'system:trade_escrow',
+  // Hasil trading perusahaan: menerima stake posisi kalah, membayar profit posisi menang
+  TRADE_PNL: 'system:trade_pnl',
+  // Modal kontrak investasi yang masih berjalan
+  INVESTMENT_PRINCIPAL: 'system:investment_principal',
+  // Sumber pembayaran profit kontrak investasi
+  INVESTMENT_PROFIT: 'system:investment_profit',
+  // Pendapatan biaya withdrawal & transfer
+  FEE_INCOME: 'system:fee_income',
+} as const;
+
+export const isSystemAccount = (accountId: string): boolean => accountId.startsWith('system:');
+
+const sumEntries = (entries: LedgerEntry[]): number =>
+  entries.reduce((total, e) => total + (e.direction === LedgerDirection.CREDIT ? e.amount : -e.amount), 0);
+
+export const getAccountEntries = async (accountId: string): Promise<LedgerEntry[]> => {
+  return repository.ledger.listByAccount(accountId);
+};
+
+export const getAccountBalance = async (accountId: string): Promise<number> => {
+  const entries = await getAccountEntries(accountId);
+  return sumEntries(entries);
+};
+
+// Tanpa entri sama sekali, saldo tersimpan akan menjadi saldo awal pada posting pertama.
+export const getUserBalance = async (userId: string): Promise<number> => {
+  const entries = await getAccountEntries(userId);
+  if (entries.length > 0) return sumEntries(entries);
+  const profile = await repository.users.getById(userId);
+  return Number(profile?.balance || 0);
+};
+
+export const reconcileBalance = async (userId: string): Promise<BalanceReconciliation> => {
+  const profile = await repository.users.getById(userId);
+  const storedBalance = Number(profile?.balance || 0);
+  const entries = await getAccountEntries(userId);
+  // Tanpa entri sama sekali, saldo tersimpan akan menjadi saldo awal pada posting pertama.
+  const ledgerBalance = entries.length > 0 ? sumEntries(entries) : storedBalance;
+
+  return {
+    accountId: userId,
+    storedBalance,
+    ledgerBalance,
+    difference: storedBalance - ledgerBalance,
+  };
+};
@@ -0,0 +1,195 @@
+import {
+  AdminActionResult,
+  AuditAction,
+  LimitAllowance,
+  LimitedTransactionType,
+  LimitUsage,
+  Permission,
+  TransactionLimits,
+  TransactionStatus,
+  TransactionType,
+  TransferDirection,
+  UserLimitOverride,
+  VerificationLevel,
+} from '../types';
+import { repository } from './repositories';
+import { requirePermission } from './permissions';
+import { recordAdminAction, requireReason } from './auditService';
+import { config } from '../config';
+
+// Limit global per level verifikasi. Admin bisa menimpa per user lewat setUserLimitOverride.
+export const DEFAULT_LIMITS: Record<VerificationLevel, Record<LimitedTransactionType, TransactionLimits>> = {
+  [VerificationLevel.BASIC]: {
+    [TransactionType.WITHDRAWAL]: {
+      minPerTransaction: config.limits.minWithdrawal,
+      maxPerTransaction: 5000000,
+      dailyAmount: 10000000,
+      monthlyAmount: 50000000,
+      dailyCount: 3,
+    },
+    [TransactionType.TRANSFER]: {
+      minPerTransaction: 10000,
+      maxPerTransaction: 5000000,
+      dailyAmount: 10000000,
+      monthlyAmount: 50000000,
+      dailyCount: 10,
+    },
+  },
+  [VerificationLevel.VERIFIED]: {
+    [TransactionType.WITHDRAWAL]: {
+      minPerTransaction: config.limits.minWithdrawal,
+      maxPerTransaction: 100000000,
+      dailyAmount: 200000000,
+      monthlyAmount: 1000000000,
+      dailyCount: 10,
+    },
+    [TransactionType.TRANSFER]: {
+      minPerTransaction: 10000,
+      maxPerTransaction: 50000000,
+      dailyAmount: 100000000,
+      monthlyAmount: 500000000,
+      dailyCount: 20,
+    },
+  },
+};
+
+export const LIMIT_FIELDS: (keyof TransactionLimits)[] = ['minPerTransaction', 'maxPerTransaction', 'dailyAmount', 'monthlyAmount', 'dailyCount'];
+
+const LIMITED_TYPES: LimitedTransactionType[] = [TransactionType.WITHDRAWAL, TransactionType.TRANSFER];
+
+const TYPE_LABELS: Record<LimitedTransactionType, string> = {
+  [TransactionType.WITHDRAWAL]: 'withdrawal',
+  [TransactionType.TRANSFER]: 'transfer',
+};
+
+// Hari dan bulan dihitung dalam WIB (UTC+7), bukan zona waktu browser.
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+const periodStarts = (now: Date): { day: number; month: number } => {
+  const wib = new Date(now.getTime() + WIB_OFFSET_MS);
+  return {
+    day: Date.UTC(wib.getUTCFullYear(), wib.getUTCMonth(), wib.getUTCDate()) - WIB_OFFSET_MS,
+    month: Date.UTC(wib.getUTCFullYear(), wib.getUTCMonth(), 1) - WIB_OFFSET_MS,
+  };
+};
+
+const formatRupiah = (amount: number): string => `Rp ${amount.toLocaleString('id-ID')}`;
+
+const getVerificationLevel = async (userId: string): Promise<VerificationLevel> => {
+  const profile = await repository.users.getById(userId);
+  return profile?.isVerified ? VerificationLevel.VERIFIED : VerificationLevel.BASIC;
+};
+
+// Withdrawal yang masih PENDING ikut dihitung karena dananya sudah di-hold.
+const getUsage = async (userId: string, type: LimitedTransactionType, now: Date): Promise<LimitUsage> => {
+  const { day, month } = periodStarts(now);
+  const usage: LimitUsage = { dailyAmount: 0, monthlyAmount: 0, dailyCount: 0 };
+  for (const t of await repository.transactions.listByUser(userId, type)) {
+    const counted = type === TransactionType.WITHDRAWAL
+      ? t.status === TransactionStatus.PENDING || t.status === TransactionStatus.SUCCESS
+      : t.status === TransactionStatus.SUCCESS && (t.direction || TransferDirection.OUT) === TransferDirection.OUT;
+    const time = new Date(t.date).getTime();
+    if (!counted || time < month) continue;
+    usage.monthlyAmount += t.amount;
+    if (time >= day) {
+      usage.dailyAmount += t.amount;
+      usage.dailyCount += 1;
+    }
+  }
+  return usage;
+};
+
+export const getLimitAllowance = async (userId: string, type: LimitedTransactionType, now: Date = new Date()): Promise<LimitAllowance> => {
+  const [level, overrides, usage] = await Promise.all([
+    getVerificationLevel(userId),
+    repository.limitOverrides.listByUser(userId),
+    getUsage(userId, type, now),
+  ]);
+  const override = overrides.find(o => o.type === type);
+  const limits: TransactionLimits = { ...DEFAULT_LIMITS[level][type], ...override?.limits };
+  const remainingDailyAmount = Math.max(0, limits.dailyAmount - usage.dailyAmount);
+  const remainingMonthlyAmount = Math.max(0, limits.monthlyAmount - usage.monthlyAmount);
+  const remainingDailyCount = Math.max(0, limits.dailyCount - usage.dailyCount);
+  return {
+    type,
+    level,
+    limits,
+    usage,
+    remainingDailyAmount,
+    remainingMonthlyAmount,
+    remainingDailyCount,
+    maxAmount: remainingDailyCount > 0 ? Math.min(limits.maxPerTransaction, remainingDailyAmount, remainingMonthlyAmount) : 0,
+    hasOverride: !!override,
+  };
+};
+
+/**
+ * Pesan error pertama yang dilanggar `amount`, atau null bila masih dalam
+ * limit. Dipanggil withdraw dan transfer sebelum transaksi dibuat.
+ */
+export const checkLimits = async (userId: string, type: LimitedTransactionType, amount: number): Promise<string | null> => {
+  const allowance = await getLimitAllowance(userId, type);
+  const { limits } = allowance;
+  const label = TYPE_LABELS[type];
+  if (amount < limits.minPerTransaction) return `Minimum ${label} amount is ${formatRupiah(limits.minPerTransaction)}.`;
+  if (amount > limits.maxPerTransaction) return `Maximum ${label} amount is ${formatRupiah(limits.maxPerTransaction)} per transaction.`;
+  if (allowance.remainingDailyCount === 0) return `Daily ${label} limit of ${limits.dailyCount} transactions reached. Try again tomorrow.`;
+  if (amount > allowance.remainingDailyAmount) return `Amount exceeds your remaining daily ${label} limit (${formatRupiah(allowance.remainingDailyAmount)}).`;
+  if (amount > allowance.remainingMonthlyAmount) return `Amount exceeds your remaining monthly ${label} limit (${formatRupiah(allowance.remainingMonthlyAmount)}).`;
+  return null;
+};
+
+export const getUserLimitOverrides = async (actorId: string, userId: string): Promise<UserLimitOverride[]> => {
+  await requirePermission(actorId, Permission.USERS_VIEW);
+  return repository.limitOverrides.listByUser(userId);
+};
+
+const validateOverride = (limits: Partial<TransactionLimits>): string | null => {
+  for (const field of LIMIT_FIELDS) {
+    const value = limits[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) return 'Limits must be whole numbers of zero or more.';
+  }
+  if (limits.minPerTransaction !== undefined && limits.maxPerTransaction !== undefined && limits.minPerTransaction > limits.maxPerTransaction) {
+    return 'Minimum per transaction cannot exceed the maximum.';
+  }
+  return null;
+};
+
+// `limits` null menghapus limit khusus sehingga user kembali memakai limit global levelnya.
+export const setUserLimitOverride = async (
+  actorId: string,
+  userId: string,
+  type: LimitedTransactionType,
+  limits: Partial<TransactionLimits> | null,
+  reason: string,
+): Promise<AdminActionResult> => {
+  await requirePermission(actorId, Permission.LIMITS_MANAGE);
+  const auditReason = requireReason(reason);
+  if (!LIMITED_TYPES.includes(type)) return { success: false, message: 'Unsupported transaction type.' };
+
+  const cleaned: Partial<TransactionLimits> = {};
+  for (const field of LIMIT_FIELDS) {
+    if (limits?.[field] !== undefined) cleaned[field] = limits[field];
+  }
+  const validationError = validateOverride(cleaned);
+  if (validationError) return { success: false, message: validationError };
+
+  const before = (await repository.limitOverrides.listByUser(userId)).find(o => o.type === type);
+  const hasLimits = Object.keys(cleaned).length > 0;
+  if (hasLimits) {
+    await repository.limitOverrides.upsert({ userId, type, limits: cleaned, updatedBy: actorId, updatedAt: new Date().toISOString() });
+  } else {
+    await repository.limitOverrides.remove(userId, type);
+  }
+
+  await recordAdminAction({
+    actorId,
+    action: AuditAction.LIMITS_UPDATE,
+    targetUserId: userId,
+    targetId: type,
+    before: { limits: before?.limits ?? null },
+    after: { limits: hasLimits ? cleaned : null },
+    reason: auditReason,
+  });
+  return { success: true, message: hasLimits ? 'Limits updated.' : 'Limits reset to default.' };
+};
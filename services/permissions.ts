@@ -0,0 +1,40 @@
+import { AdminRole, Permission, User } from '../types';
+import { repository } from './repositories';
+import { AccessDeniedError } from './errors';
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  [AdminRole.SUPPORT]: 'Support',
+  [AdminRole.FINANCE]: 'Finance',
+  [AdminRole.COMPLIANCE]: 'Compliance',
+  [AdminRole.SUPER_ADMIN]: 'Super Admin',
+};
+
+const READ_ONLY: Permission[] = [Permission.USERS_VIEW, Permission.TRANSACTIONS_VIEW, Permission.LEDGER_VIEW];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  [AdminRole.SUPPORT]: [...READ_ONLY, Permission.INVESTMENTS_VIEW],
+  [AdminRole.FINANCE]: [
+    ...READ_ONLY,
+    Permission.TRANSACTIONS_MANAGE,
+    Permission.BALANCE_ADJUST,
+    Permission.INVESTMENTS_VIEW,
+    Permission.INVESTMENTS_PAYOUT,
+    Permission.SETTINGS_MANAGE,
+    Permission.APPROVALS_DECIDE,
+    Permission.LIMITS_MANAGE,
+  ],
+  [AdminRole.COMPLIANCE]: [...READ_ONLY, Permission.KYC_REVIEW, Permission.AUDIT_VIEW],
+  [AdminRole.SUPER_ADMIN]: Object.values(Permission),
+};
+
+export const hasPermission = (user: Pick<User, 'roles'> | null | undefined, permission: Permission): boolean =>
+  !!user && user.roles.some(role => ROLE_PERMISSIONS[role]?.includes(permission));
+
+/**
+ * Dipanggil di awal setiap fungsi service khusus admin. Role dibaca ulang dari
+ * repository, bukan dari state UI, sehingga role yang dicabut langsung berlaku.
+ */
+export const requirePermission = async (actorId: string, permission: Permission): Promise<void> => {
+  const actor = await repository.users.getById(actorId);
+  if (!hasPermission(actor, permission)) throw new AccessDeniedError(permission);
+};
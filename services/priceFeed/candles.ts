@@ -0,0 +1,61 @@
+import { OhlcCandle, PriceFeed, PriceTick } from './types';
+
+export type Timeframe = '1m' | '5m' | '1h' | '1d';
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '1h': 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+};
+
+const bucketStart = (time: number, timeframeMs: number) => Math.floor(time / timeframeMs) * timeframeMs;
+
+/**
+ * Menggabungkan tick ke candle `timeframeMs`. Tick pada candle terakhir
+ * diperbarui di tempat; tick dengan bucket baru membuka candle baru.
+ * Tick yang lebih lama dari candle terakhir diabaikan.
+ */
+export const applyTick = (candles: OhlcCandle[], tick: PriceTick, timeframeMs: number): OhlcCandle[] => {
+  const time = bucketStart(tick.time, timeframeMs);
+  const last = candles[candles.length - 1];
+  if (last && time < last.time) return candles;
+  if (last && time === last.time) {
+    const updated = { ...last, high: Math.max(last.high, tick.price), low: Math.min(last.low, tick.price), close: tick.price };
+    return [...candles.slice(0, -1), updated];
+  }
+  return [...candles, { time, open: tick.price, high: tick.price, low: tick.price, close: tick.price }];
+};
+
+export const aggregateTicks = (ticks: PriceTick[], timeframeMs: number): OhlcCandle[] => {
+  let candles: OhlcCandle[] = [];
+  for (const tick of [...ticks].sort((a, b) => a.time - b.time)) {
+    candles = applyTick(candles, tick, timeframeMs);
+  }
+  return candles;
+};
+
+/**
+ * Membangun `count` candle terakhir sampai waktu `end`. Untuk timeframe
+ * panjang harga diambil sampelnya (`samplesPerCandle` per candle) agar tidak
+ * perlu membaca setiap tick sehari penuh.
+ */
+export const buildCandles = (
+  feed: PriceFeed,
+  symbol: string,
+  timeframeMs: number,
+  count: number,
+  end: number = Date.now(),
+  samplesPerCandle = 60,
+): OhlcCandle[] => {
+  const step = Math.max(feed.tickIntervalMs, Math.floor(timeframeMs / samplesPerCandle));
+  const from = bucketStart(end, timeframeMs) - (count - 1) * timeframeMs;
+  const ticks: PriceTick[] = [];
+  for (let time = from; time <= end; time += step) {
+    const price = feed.priceAt(symbol, time);
+    if (price !== null) ticks.push({ symbol, price, time });
+  }
+  const last = feed.priceAt(symbol, end);
+  if (last !== null) ticks.push({ symbol, price: last, time: end });
+  return aggregateTicks(ticks, timeframeMs);
+};
@@ -0,0 +1,78 @@
+import { PriceFeed, PriceListener, PriceTick } from './types';
+
+const DEFAULT_MAX_TICKS = 5000;
+
+interface FeedSource {
+  symbols: string[];
+  tickIntervalMs: number;
+  ready: () => Promise<void>;
+  priceAt: (symbol: string, time: number) => number | null;
+}
+
+/**
+ * Bagian bersama semua provider: provider cukup mendefinisikan `priceAt`,
+ * snapshot/history/subscribe dibangun di atasnya. Satu timer dipakai
+ * bersama oleh semua listener dan berhenti saat tidak ada listener.
+ */
+export const createFeed = (source: FeedSource): PriceFeed => {
+  const listeners = new Map<string, Set<PriceListener>>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const alignedNow = () => Math.floor(Date.now() / source.tickIntervalMs) * source.tickIntervalMs;
+
+  const tickAt = (symbol: string, time: number): PriceTick | null => {
+    const price = source.priceAt(symbol, time);
+    return price === null ? null : { symbol, price, time };
+  };
+
+  const emit = () => {
+    const time = alignedNow();
+    listeners.forEach((set, symbol) => {
+      const tick = tickAt(symbol, time);
+      if (tick) set.forEach(listener => listener(tick));
+    });
+  };
+
+  const stopIfIdle = () => {
+    if (timer && listeners.size === 0) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+
+  return {
+    symbols: source.symbols,
+    tickIntervalMs: source.tickIntervalMs,
+    ready: source.ready,
+    priceAt: source.priceAt,
+
+    snapshot(symbol) {
+      return tickAt(symbol, alignedNow());
+    },
+
+    history(symbol, from, to, maxTicks = DEFAULT_MAX_TICKS) {
+      const interval = source.tickIntervalMs;
+      const end = Math.floor(to / interval) * interval;
+      const start = Math.max(Math.ceil(from / interval) * interval, end - (maxTicks - 1) * interval);
+      const ticks: PriceTick[] = [];
+      for (let time = start; time <= end; time += interval) {
+        const tick = tickAt(symbol, time);
+        if (tick) ticks.push(tick);
+      }
+      return ticks;
+    },
+
+    subscribe(symbol, listener) {
+      if (!listeners.has(symbol)) listeners.set(symbol, new Set());
+      listeners.get(symbol)!.add(listener);
+      if (!timer) timer = setInterval(emit, source.tickIntervalMs);
+
+      return () => {
+        const set = listeners.get(symbol);
+        set?.delete(listener);
+        if (set && set.size === 0) listeners.delete(symbol);
+        stopIfIdle();
+      };
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import { config } from '../../config';
+import { SIMULATED_PRICE_SYMBOLS } from '../../constants';
+import { createReplayFeed } from './replayFeed';
+import { createServerFeed } from './serverFeed';
+import { createSimulatedFeed } from './simulatedFeed';
+import { PriceFeed } from './types';
+
+export * from './types';
+export * from './candles';
+
+// VITE_PRICE_FEED memilih provider; lihat config.ts.
+export const priceFeed: PriceFeed =
+  config.priceFeed.provider === 'server'
+    ? createServerFeed({ symbols: SIMULATED_PRICE_SYMBOLS.map(s => s.symbol) })
+    : config.priceFeed.provider === 'replay'
+    ? createReplayFeed({
+        files: config.priceFeed.replayFiles,
+        candleIntervalMs: config.priceFeed.replayCandleIntervalMs,
+        speed: config.priceFeed.replaySpeed,
+      })
+    : createSimulatedFeed({ seed: config.priceFeed.seed, symbols: SIMULATED_PRICE_SYMBOLS });
@@ -0,0 +1,118 @@
+import { createFeed } from './createFeed';
+import { OhlcCandle, PriceFeed } from './types';
+
+export interface ReplayFeedOptions {
+  // URL file CSV per symbol, mis. { 'ETH/BTC': '/price-data/ETHBTC-1m.csv' }
+  files: Record<string, string>;
+  // Durasi satu candle di file sumber.
+  candleIntervalMs?: number;
+  // 1 = real-time, 10 = sepuluh kali lebih cepat.
+  speed?: number;
+}
+
+// Tiap candle diputar sebagai empat tick: open, ekstrem pertama, ekstrem kedua, close.
+const TICKS_PER_CANDLE = 4;
+
+const TIME_COLUMNS = ['time', 'timestamp', 'date', 'datetime', 'open time', 'open_time'];
+
+const parseTime = (value: string): number => {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const n = Number(trimmed);
+    // Angka kecil dianggap epoch detik, selain itu epoch milidetik
+    return n < 1e12 ? n * 1000 : n;
+  }
+  return Date.parse(trimmed);
+};
+
+/**
+ * Parser CSV OHLC sederhana. Baris pertama harus header yang memuat kolom
+ * waktu (time/timestamp/date) serta open, high, low, close; volume opsional.
+ * Baris yang tidak valid dilewati.
+ */
+export const parseOhlcCsv = (text: string): OhlcCandle[] => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) throw new Error('CSV has no data rows.');
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const header = lines[0].split(delimiter).map(h => h.trim().replace(/^"|"$/g, '').toLowerCase());
+  const col = (names: string[]) => header.findIndex(h => names.includes(h));
+  const timeCol = col(TIME_COLUMNS);
+  const openCol = col(['open']);
+  const highCol = col(['high']);
+  const lowCol = col(['low']);
+  const closeCol = col(['close']);
+  const volumeCol = col(['volume']);
+
+  if ([timeCol, openCol, highCol, lowCol, closeCol].some(i => i < 0)) {
+    throw new Error('CSV header must contain time, open, high, low and close columns.');
+  }
+
+  const candles: OhlcCandle[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(delimiter).map(c => c.trim().replace(/^"|"$/g, ''));
+    const candle: OhlcCandle = {
+      time: parseTime(cells[timeCol] || ''),
+      open: Number(cells[openCol]),
+      high: Number(cells[highCol]),
+      low: Number(cells[lowCol]),
+      close: Number(cells[closeCol]),
+      volume: volumeCol >= 0 ? Number(cells[volumeCol]) : undefined,
+    };
+    const values = [candle.time, candle.open, candle.high, candle.low, candle.close];
+    if (values.every(Number.isFinite) && candle.high >= candle.low) candles.push(candle);
+  }
+
+  if (candles.length === 0) throw new Error('CSV has no valid OHLC rows.');
+  return candles.sort((a, b) => a.time - b.time);
+};
+
+const candlePath = (c: OhlcCandle): number[] =>
+  c.close >= c.open ? [c.open, c.low, c.high, c.close] : [c.open, c.high, c.low, c.close];
+
+/**
+ * Memutar ulang data OHLC dari file CSV secara berulang (loop). Posisi replay
+ * dihitung dari epoch, jadi harga pada waktu tertentu selalu sama untuk data
+ * dan kecepatan yang sama.
+ */
+export const createReplayFeed = ({ files, candleIntervalMs = 60_000, speed = 1 }: ReplayFeedOptions): PriceFeed => {
+  const wallCandleMs = candleIntervalMs / speed;
+  const tickIntervalMs = Math.max(Math.floor(wallCandleMs / TICKS_PER_CANDLE), 50);
+  const series = new Map<string, OhlcCandle[]>();
+  let loading: Promise<void> | null = null;
+
+  const load = async () => {
+    await Promise.all(Object.entries(files).map(async ([symbol, url]) => {
+      const res = await fetch(url);
+      if (!res.ok) throw new Error(`Failed to load price data for ${symbol} from ${url}.`);
+      series.set(symbol, parseOhlcCsv(await res.text()));
+    }));
+  };
+
+  const ready = () => {
+    if (!loading) {
+      loading = load().catch(e => {
+        loading = null;
+        throw e;
+      });
+    }
+    return loading;
+  };
+
+  const priceAt = (symbol: string, time: number): number | null => {
+    const candles = series.get(symbol);
+    if (!candles || !Number.isFinite(time)) return null;
+    const total = candles.length * wallCandleMs;
+    const position = ((time % total) + total) % total;
+    const index = Math.floor(position / wallCandleMs);
+    const phase = Math.min(Math.floor((position - index * wallCandleMs) / (wallCandleMs / TICKS_PER_CANDLE)), TICKS_PER_CANDLE - 1);
+    return candlePath(candles[index])[phase];
+  };
+
+  return createFeed({
+    symbols: Object.keys(files),
+    tickIntervalMs,
+    ready,
+    priceAt,
+  });
+};
@@ -0,0 +1,92 @@
+import { getSupabaseClient } from '../supabaseClient';
+import { createFeed } from './createFeed';
+import { PriceFeed, PriceTick } from './types';
+
+export interface ServerFeedOptions {
+  symbols: string[];
+  // Jarak polling; samakan dengan jadwal penulis market_prices di database.
+  tickIntervalMs?: number;
+  // Rentang riwayat yang dimuat saat ready().
+  historyMs?: number;
+}
+
+const PAGE_SIZE = 1000;
+// Sama dengan market_price_at (0023_server_side_trades.sql): tick yang lebih tua dianggap tidak ada.
+const MAX_TICK_AGE_MS = 60_000;
+
+const fetchTicks = async (symbol: string, since: number): Promise<PriceTick[]> => {
+  const ticks: PriceTick[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await getSupabaseClient()
+      .from('market_prices')
+      .select('time, price')
+      .eq('symbol', symbol)
+      .gt('time', new Date(since).toISOString())
+      .order('time', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    ticks.push(...(data || []).map(row => ({ symbol, price: Number(row.price), time: new Date(row.time).getTime() })));
+    if (!data || data.length < PAGE_SIZE) return ticks;
+  }
+};
+
+/**
+ * Harga dari tabel market_prices, sumber yang sama dengan open_trade dan
+ * settle_due_trades. Tabel diisi proses server (feed eksternal atau
+ * simulate_market_prices), jadi harga mendatang tidak bisa dihitung dari bundle.
+ */
+export const createServerFeed = ({ symbols, tickIntervalMs = 5_000, historyMs = 6 * 60 * 60 * 1000 }: ServerFeedOptions): PriceFeed => {
+  const series = new Map<string, PriceTick[]>();
+  let loading: Promise<void> | null = null;
+  let poller: ReturnType<typeof setInterval> | null = null;
+
+  const poll = async (symbol: string) => {
+    const known = series.get(symbol) || [];
+    const since = known.length > 0 ? known[known.length - 1].time : Date.now() - historyMs;
+    const fresh = await fetchTicks(symbol, since);
+    if (fresh.length === 0) return;
+    const cutoff = Date.now() - historyMs;
+    series.set(symbol, [...known, ...fresh].filter(t => t.time >= cutoff));
+  };
+
+  const load = async () => {
+    await Promise.all(symbols.map(poll));
+    if (!poller) {
+      poller = setInterval(() => {
+        symbols.forEach(symbol => poll(symbol).catch(e => console.error('Price poll error', e)));
+      }, tickIntervalMs);
+    }
+  };
+
+  const ready = () => {
+    if (!loading) {
+      loading = load().catch(e => {
+        loading = null;
+        throw e;
+      });
+    }
+    return loading;
+  };
+
+  const priceAt = (symbol: string, time: number): number | null => {
+    const ticks = series.get(symbol);
+    if (!ticks || ticks.length === 0 || !Number.isFinite(time)) return null;
+    // Tick terakhir pada atau sebelum `time`
+    let low = 0;
+    let high = ticks.length - 1;
+    if (ticks[0].time > time) return null;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (ticks[mid].time <= time) low = mid;
+      else high = mid - 1;
+    }
+    return time - ticks[low].time > MAX_TICK_AGE_MS ? null : ticks[low].price;
+  };
+
+  return createFeed({
+    symbols,
+    tickIntervalMs,
+    ready,
+    priceAt,
+  });
+};
@@ -0,0 +1,107 @@
+import { createFeed } from './createFeed';
+import { PriceFeed } from './types';
+
+export interface SimulatedSymbol {
+  symbol: string;
+  initialPrice: number;
+  // Standar deviasi log-return per tick, mis. 0.0002 = 0.02%.
+  volatility: number;
+  decimals: number;
+}
+
+export interface SimulatedFeedOptions {
+  seed: number;
+  symbols: SimulatedSymbol[];
+  tickIntervalMs?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHED_DAYS = 8;
+
+// PRNG 32-bit kecil dan cepat; urutan angkanya sepenuhnya ditentukan oleh seed.
+export const mulberry32 = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a: turunkan seed per symbol/hari dari seed utama.
+const hashSeed = (...parts: (string | number)[]): number => {
+  let hash = 0x811c9dc5;
+  for (const ch of parts.join(':')) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const gaussian = (rng: () => number): number => {
+  const u = Math.max(rng(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
+
+/**
+ * Random walk (log-price) per symbol yang bisa direproduksi dari seed. Jalur
+ * tiap hari UTC dibangkitkan sebagai Brownian bridge di antara dua harga
+ * jangkar harian, sehingga harga di waktu mana pun bisa dihitung tanpa
+ * mengulang walk dari awal dan tetap kontinu melewati tengah malam.
+ */
+export const createSimulatedFeed = ({ seed, symbols, tickIntervalMs = 1000 }: SimulatedFeedOptions): PriceFeed => {
+  const bySymbol = new Map(symbols.map(s => [s.symbol, s]));
+  const stepsPerDay = Math.floor(DAY_MS / tickIntervalMs);
+  const pathCache = new Map<string, Float64Array>();
+
+  const dailyAnchor = (s: SimulatedSymbol, day: number): number => {
+    const rng = mulberry32(hashSeed(seed, s.symbol, 'anchor', day));
+    // Jangkar berkisar di sekitar harga awal agar harga tidak melantur tanpa batas.
+    const dailySigma = s.volatility * Math.sqrt(stepsPerDay) * 0.5;
+    return Math.log(s.initialPrice) + dailySigma * gaussian(rng);
+  };
+
+  const dayPath = (s: SimulatedSymbol, day: number): Float64Array => {
+    const key = `${s.symbol}:${day}`;
+    const cached = pathCache.get(key);
+    if (cached) return cached;
+
+    const rng = mulberry32(hashSeed(seed, s.symbol, 'walk', day));
+    const walk = new Float64Array(stepsPerDay + 1);
+    for (let i = 1; i <= stepsPerDay; i++) {
+      walk[i] = walk[i - 1] + s.volatility * gaussian(rng);
+    }
+
+    const start = dailyAnchor(s, day);
+    const end = dailyAnchor(s, day + 1);
+    const drift = walk[stepsPerDay];
+    for (let i = 0; i <= stepsPerDay; i++) {
+      const t = i / stepsPerDay;
+      walk[i] = start + walk[i] - t * drift + t * (end - start);
+    }
+
+    if (pathCache.size >= MAX_CACHED_DAYS) {
+      pathCache.delete(pathCache.keys().next().value as string);
+    }
+    pathCache.set(key, walk);
+    return walk;
+  };
+
+  const priceAt = (symbol: string, time: number): number | null => {
+    const s = bySymbol.get(symbol);
+    if (!s || !Number.isFinite(time)) return null;
+    const day = Math.floor(time / DAY_MS);
+    const step = Math.min(Math.floor((time - day * DAY_MS) / tickIntervalMs), stepsPerDay);
+    const price = Math.exp(dayPath(s, day)[step]);
+    return Number(price.toFixed(s.decimals));
+  };
+
+  return createFeed({
+    symbols: symbols.map(s => s.symbol),
+    tickIntervalMs,
+    ready: () => Promise.resolve(),
+    priceAt,
+  });
+};
@@ -0,0 +1,37 @@
+export interface PriceTick {
+  symbol: string;
+  price: number;
+  // Epoch milliseconds
+  time: number;
+}
+
+export interface OhlcCandle {
+  // Epoch milliseconds saat candle dibuka
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export type PriceListener = (tick: PriceTick) => void;
+
+/**
+ * Sumber harga pasar untuk chart dan settlement trading. Harga adalah fungsi
+ * murni dari waktu, sehingga `priceAt` untuk waktu lampau selalu memberi
+ * hasil yang sama (settlement tetap konsisten setelah reload).
+ */
+export interface PriceFeed {
+  readonly symbols: string[];
+  readonly tickIntervalMs: number;
+  // Resolve setelah data provider siap (mis. file CSV sudah dimuat).
+  ready(): Promise<void>;
+  // Null bila symbol tidak dikenal atau data belum siap.
+  priceAt(symbol: string, time: number): number | null;
+  snapshot(symbol: string): PriceTick | null;
+  // Tick per `tickIntervalMs` dalam rentang [from, to], paling banyak `maxTicks` terakhir.
+  history(symbol: string, from: number, to: number, maxTicks?: number): PriceTick[];
+  // Listener dipanggil setiap tick baru; kembalian fungsi untuk berhenti berlangganan.
+  subscribe(symbol: string, listener: PriceListener): () => void;
+}
@@ -0,0 +1,10 @@
+import { config } from '../../config';
+import { DataRepository } from './types';
+import { createSupabaseRepository } from './supabaseRepository';
+import { createLocalRepository } from './localRepository';
+
+export * from './types';
+
+// VITE_DATA_BACKEND=local menjalankan aplikasi sepenuhnya di browser tanpa Supabase.
+export const repository: DataRepository =
+  config.dataBackend === 'local' ? createLocalRepository() : createSupabaseRepository();
@@ -0,0 +1,1638 @@
+import {
+  AdminActionResult,
+  AdminRole,
+  ApprovalRequest,
+  ApprovalStatus,
+  ApprovalType,
+  AuditAction,
+  AuditLogEntry,
+  AuditLogFilter,
+  BankStatementLine,
+  Beneficiary,
+  BeneficiaryType,
+  CompanyBankInfo,
+  FeeSchedule,
+  InvestmentContract,
+  KycCase,
+  KycStatus,
+  LedgerDirection,
+  LedgerEntry,
+  LoginActivity,
+  LoginEventType,
+  LoginIdentifier,
+  NotificationItem,
+  UserLimitOverride,
+  TradeDirection,
+  TradeHistoryItem,
+  TransactionStatus,
+  TransactionType,
+  TransferDirection,
+  TransferErrorCode,
+  UserSession,
+} from '../../types';
+import { BalanceAdjustmentRequest, DataRepository, StorageBucket, TransactionRecord, UserRecord } from './types';
+import { config } from '../../config';
+import { INVESTMENT_PLANS, TRADE_PACKAGES } from '../../constants';
+import { priceFeed } from '../priceFeed';
+import { verifyTotp } from '../totp';
+import { BalanceEffect, getTransitionRule } from '../transactionStateMachine';
+
+/**
+ * Backend lokal untuk development dan demo tanpa proyek Supabase. Seluruh data
+ * disimpan di localStorage (atau hanya di memori bila localStorage tidak
+ * tersedia) dan diinisialisasi dengan akun demo berikut:
+ *
+ *   admin@foreximf.local / admin123  (administrator)
+ *   demo@foreximf.local  / demo123   (member, saldo Rp 5.000.000)
+ */
+
+const STORAGE_KEY = 'foreximf.local-db.v1';
+
+interface LocalAccount {
+  userId: string;
+  email: string;
+  passwordHash: string;
+}
+
+interface LocalPasswordReset {
+  email: string;
+  codeHash: string;
+  expiresAt: string;
+  attempts: number;
+}
+
+const PASSWORD_RESET_TTL_MS = 15 * 60 * 1000;
+const PASSWORD_RESET_MAX_ATTEMPTS = 5;
+
+// Sama dengan resolve_login_email di 0030_login_identifier_lockout.sql.
+const LOGIN_LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_LOCKOUT_MAX_FAILURES = 10;
+
+interface LocalEmailVerification {
+  email: string;
+  codeHash: string;
+  expiresAt: string;
+  // Waktu pengiriman dalam satu jam terakhir, untuk rate limit kirim ulang.
+  sentAt: string[];
+  // Kode salah untuk kode ini; kosong pada data lama.
+  attempts?: number;
+}
+
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+const EMAIL_VERIFICATION_COOLDOWN_MS = 60 * 1000;
+const EMAIL_VERIFICATION_MAX_PER_HOUR = 5;
+// Sama dengan reset password: setelah 5 kode salah user harus minta kode baru.
+const EMAIL_VERIFICATION_MAX_ATTEMPTS = 5;
+
+type LocalProfile = UserRecord & { createdAt: string };
+
+// Padanan tabel user_two_factor; hanya dibaca oleh repository ini.
+interface LocalTwoFactorRecord {
+  userId: string;
+  // Secret TOTP (base32). `enabled` false berarti pendaftaran belum dikonfirmasi.
+  secret: string;
+  enabled: boolean;
+  recoveryCodeHashes: string[];
+  // Time step TOTP terakhir yang diterima; kode dengan step <= ini ditolak.
+  lastUsedStep: number | null;
+  createdAt: string;
+  enabledAt?: string;
+}
+
+// File disimpan sebagai data URL di database lokal, jadi ukurannya ikut memakan kuota localStorage.
+interface LocalStoredFile {
+  bucket: StorageBucket;
+  path: string;
+  dataUrl: string;
+}
+
+const blobToDataUrl = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error('Could not read the file.'));
+  reader.readAsDataURL(file);
+});
+
+interface LocalDatabase {
+  accounts: LocalAccount[];
+  profiles: LocalProfile[];
+  transactions: TransactionRecord[];
+  notifications: NotificationItem[];
+  companyBankInfo: CompanyBankInfo[];
+  ledgerEntries: LedgerEntry[];
+  trades: TradeHistoryItem[];
+  investments: InvestmentContract[];
+  kycCases: KycCase[];
+  twoFactor: LocalTwoFactorRecord[];
+  loginActivity: LoginActivity[];
+  sessions: UserSession[];
+  passwordResets: LocalPasswordReset[];
+  emailVerifications: LocalEmailVerification[];
+  auditLog: AuditLogEntry[];
+  approvals: ApprovalRequest[];
+  files: LocalStoredFile[];
+  bankStatementLines: BankStatementLine[];
+  beneficiaries: Beneficiary[];
+  limitOverrides: UserLimitOverride[];
+  feeSchedules: (FeeSchedule & { updatedBy: string; updatedAt: string })[];
+  sessionUserId: string | null;
+  // User yang sudah melewati langkah kedua login pada sesi saat ini.
+  twoFactorVerifiedUserId: string | null;
+}
+
+const now = () => new Date().toISOString();
+const newId = () => crypto.randomUUID();
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const hashPassword = async (userId: string, password: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(`${userId}:${password}`);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hashRecoveryCode = (userId: string, code: string): Promise<string> => hashPassword(userId, normalizeRecoveryCode(code));
+
+// Padanan two_factor_consume_code: time step sekali pakai, atau recovery code bila diizinkan.
+const consumeTwoFactorCode = async (record: LocalTwoFactorRecord, code: string, allowRecovery: boolean): Promise<boolean> => {
+  if (/^\d{6}$/.test(code.replace(/\s/g, ''))) {
+    const step = await verifyTotp(record.secret, code);
+    if (step === null || (record.lastUsedStep !== null && step <= record.lastUsedStep)) return false;
+    record.lastUsedStep = step;
+    return true;
+  }
+  if (!allowRecovery || !record.enabled || !normalizeRecoveryCode(code)) return false;
+  const hash = await hashRecoveryCode(record.userId, code);
+  if (!record.recoveryCodeHashes.includes(hash)) return false;
+  record.recoveryCodeHashes = record.recoveryCodeHashes.filter(h => h !== hash);
+  return true;
+};
+
+// Padanan two_factor_fresh_code_error; null bila boleh lanjut.
+const freshTwoFactorCodeError = async (d: LocalDatabase, userId: string, code?: string): Promise<string | null> => {
+  const record = d.twoFactor.find(r => r.userId === userId && r.enabled);
+  if (!record) return null;
+  if (!code?.trim()) return 'Enter the code from your authenticator app to continue.';
+  if (!(await consumeTwoFactorCode(record, code, false))) return 'Invalid or already used authenticator code.';
+  return null;
+};
+
+// Koleksi yang ditambahkan setelah database tersimpan diisi kosong saat dimuat.
+const emptyCollections = (): Omit<LocalDatabase, 'accounts' | 'profiles' | 'companyBankInfo' | 'sessionUserId' | 'twoFactorVerifiedUserId'> => ({
+  transactions: [],
+  notifications: [],
+  ledgerEntries: [],
+  trades: [],
+  investments: [],
+  kycCases: [],
+  twoFactor: [],
+  loginActivity: [],
+  sessions: [],
+  passwordResets: [],
+  emailVerifications: [],
+  auditLog: [],
+  approvals: [],
+  files: [],
+  bankStatementLines: [],
+  beneficiaries: [],
+  limitOverrides: [],
+  feeSchedules: [],
+});
+
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MAX_UNIQUE_CODE = 999;
+
+const randomReference = () =>
+  'DP' + Array.from(crypto.getRandomValues(new Uint8Array(6)), b => REFERENCE_ALPHABET[b % REFERENCE_ALPHABET.length]).join('');
+
+// Sama dengan trigger transactions_assign_deposit_codes di 0016_deposit_reconciliation.sql.
+const assignDepositCodes = (d: LocalDatabase, amount: number): { uniqueCode: number; referenceCode: string } => {
+  const usedAmounts = new Set(d.transactions
+    .filter(t => t.type === TransactionType.DEPOSIT && t.status === TransactionStatus.PENDING)
+    .map(t => t.amount + (t.uniqueCode || 0)));
+  const freeCodes = Array.from({ length: MAX_UNIQUE_CODE }, (_, i) => i + 1).filter(code => !usedAmounts.has(amount + code));
+  if (freeCodes.length === 0) throw new Error('Terlalu banyak deposit tertunda dengan nominal ini. Coba nominal lain.');
+  const uniqueCode = freeCodes[Math.floor(Math.random() * freeCodes.length)];
+
+  const usedReferences = new Set(d.transactions.map(t => t.referenceCode));
+  let referenceCode = randomReference();
+  while (usedReferences.has(referenceCode)) referenceCode = randomReference();
+  return { uniqueCode, referenceCode };
+};
+
+const matchesAuditFilter = (e: AuditLogEntry, filter: AuditLogFilter): boolean => {
+  if (filter.actorId && e.actorId !== filter.actorId) return false;
+  if (filter.targetUserId && e.targetUserId !== filter.targetUserId) return false;
+  if (filter.action && e.action !== filter.action) return false;
+  if (filter.from && e.timestamp < filter.from) return false;
+  if (filter.to && e.timestamp > filter.to) return false;
+  if (filter.search) {
+    const q = filter.search.toLowerCase();
+    if (!e.reason.toLowerCase().includes(q) && !(e.targetId || '').toLowerCase().includes(q)) return false;
+  }
+  return true;
+};
+
+const readStorage = (): LocalDatabase | null => {
+  try {
+    const raw = globalThis.localStorage?.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const d: LocalDatabase = { ...emptyCollections(), ...JSON.parse(raw) };
+    // Akun yang dibuat sebelum ada verifikasi email dianggap sudah terverifikasi
+    d.profiles = d.profiles.map(p => ({ ...p, emailVerified: p.emailVerified ?? true }));
+    // Admin dari sebelum ada role menjadi super-admin
+    d.profiles = d.profiles.map(p => ({ ...p, roles: p.roles ?? (p.isAdmin ? [AdminRole.SUPER_ADMIN] : []) }));
+    return d;
+  } catch {
+    return null;
+  }
+};
+
+const ledgerBalance = (d: LocalDatabase, accountId: string): number =>
+  d.ledgerEntries
+    .filter(e => e.accountId === accountId)
+    .reduce((total, e) => total + (e.direction === LedgerDirection.CREDIT ? e.amount : -e.amount), 0);
+
+const appendJournal = (
+  d: LocalDatabase,
+  memo: string,
+  debitAccount: string,
+  creditAccount: string,
+  amount: number,
+  transactionIds: { debit?: string; credit?: string } = {},
+  reference?: string,
+) => {
+  const journalId = newId();
+  const createdAt = now();
+  d.ledgerEntries.push(
+    { id: newId(), journalId, accountId: debitAccount, direction: LedgerDirection.DEBIT, amount, transactionId: transactionIds.debit, reference, memo, createdAt },
+    { id: newId(), journalId, accountId: creditAccount, direction: LedgerDirection.CREDIT, amount, transactionId: transactionIds.credit, reference, memo, createdAt },
+  );
+};
+
+// Padanan ledger_ensure_opening_balance di SQL.
+const ensureOpeningBalance = (d: LocalDatabase, userId: string) => {
+  if (d.ledgerEntries.some(e => e.accountId === userId)) return;
+  const profile = d.profiles.find(p => p.id === userId);
+  const balance = profile?.balance || 0;
+  if (balance > 0) appendJournal(d, 'Saldo awal (migrasi ke ledger)', 'system:opening_balance', userId, balance);
+  if (balance < 0) appendJournal(d, 'Saldo awal (migrasi ke ledger)', userId, 'system:opening_balance', -balance);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Sama dengan settlementGraceSeconds di 0034_trade_settlement_fallback.sql.
+const TRADE_SETTLEMENT_GRACE_MS = 5 * 60 * 1000;
+
+const formatRupiah = (amount: number) => `Rp ${amount.toLocaleString('id-ID')}`;
+
+// Jumlah periode kontrak yang sudah lewat; periode terakhir berakhir tepat di maturityDate.
+const elapsedPeriods = (contract: InvestmentContract, nowMs: number): number => {
+  if (nowMs >= new Date(contract.maturityDate).getTime()) return contract.totalPeriods;
+  const elapsed = Math.floor((nowMs - new Date(contract.startDate).getTime()) / contract.payoutIntervalMs);
+  return Math.max(0, Math.min(elapsed, contract.totalPeriods - 1));
+};
+
+// Tanpa server email: kode dicetak ke console browser.
+const issueEmailVerification = async (d: LocalDatabase, email: string) => {
+  const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0');
+  const existing = d.emailVerifications.find(v => v.email === email);
+  const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const verification: LocalEmailVerification = {
+    email,
+    codeHash: await hashPassword(email, code),
+    expiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_MS).toISOString(),
+    sentAt: [...(existing?.sentAt || []).filter(t => t > hourAgo), now()],
+    attempts: 0,
+  };
+  d.emailVerifications = d.emailVerifications.filter(v => v.email !== email);
+  d.emailVerifications.push(verification);
+  console.info(`[local backend] Kode verifikasi email untuk ${email}: ${code}`);
+};
+
+const findProfileByIdentifier = (d: LocalDatabase, { kind, value }: LoginIdentifier): LocalProfile | undefined => {
+  const needle = value.trim().toLowerCase();
+  if (kind === 'phone') return d.profiles.find(p => p.phoneNumber === value);
+  if (kind === 'username') return d.profiles.find(p => p.username.toLowerCase() === needle);
+  return d.profiles.find(p => p.email.toLowerCase() === needle);
+};
+
+// Padanan trigger profiles_unique_username (0035_unique_usernames.sql): akhiran angka bila sudah dipakai.
+const uniqueUsername = (d: LocalDatabase, base: string): string => {
+  const taken = (username: string) => d.profiles.some(p => p.username.toLowerCase() === username.toLowerCase());
+  let username = base;
+  for (let suffix = 2; taken(username); suffix++) username = `${base}${suffix}`;
+  return username;
+};
+
+const createSeedDatabase = async (): Promise<LocalDatabase> => {
+  const createdAt = now();
+  const d: LocalDatabase = {
+    ...emptyCollections(),
+    accounts: [],
+    profiles: [],
+    companyBankInfo: [
+      { id: newId(), bankName: 'Bank Central Asia (BCA)', accountNumber: '1234567890', accountHolderName: 'PT FOREXIMF DEMO' },
+    ],
+    sessionUserId: null,
+    twoFactorVerifiedUserId: null,
+  };
+
+  const seedUsers = [
+    { id: 'local-admin', email: 'admin@foreximf.local', password: 'admin123', fullName: 'Local Administrator', roles: [AdminRole.SUPER_ADMIN], balance: 0 },
+    { id: 'local-demo', email: 'demo@foreximf.local', password: 'demo123', fullName: 'Demo Member', roles: [] as AdminRole[], balance: 5000000 },
+  ];
+
+  for (const u of seedUsers) {
+    d.accounts.push({ userId: u.id, email: u.email, passwordHash: await hashPassword(u.id, u.password) });
+    d.profiles.push({
+      id: u.id,
+      email: u.email,
+      fullName: u.fullName,
+      username: u.email.split('@')[0],
+      phoneNumber: '',
+      isAdmin: u.roles.length > 0,
+      roles: u.roles,
+      isVerified: true,
+      emailVerified: true,
+      balance: u.balance,
+      createdAt,
+    });
+    ensureOpeningBalance(d, u.id);
+  }
+  return d;
+};
+
+export const createLocalRepository = (): DataRepository => {
+  let database: LocalDatabase | null = null;
+  let loading: Promise<LocalDatabase> | null = null;
+
+  const db = async (): Promise<LocalDatabase> => {
+    if (database) return database;
+    if (!loading) {
+      loading = (async () => {
+        database = readStorage() || await createSeedDatabase();
+        persist();
+        return database;
+      })();
+    }
+    return loading;
+  };
+
+  const persist = () => {
+    if (!database) return;
+    try {
+      globalThis.localStorage?.setItem(STORAGE_KEY, JSON.stringify(database));
+    } catch {
+      // Kuota penuh atau localStorage tidak tersedia: tetap jalan dari memori.
+    }
+  };
+
+  const toUserRecord = ({ createdAt, ...profile }: LocalProfile): UserRecord => clone(profile);
+
+  const addNotification = (d: LocalDatabase, userId: string, message: string) => {
+    d.notifications.push({ id: newId(), userId, message, date: now(), read: false });
+  };
+
+  const appendAudit = (d: LocalDatabase, entry: Omit<AuditLogEntry, 'id' | 'timestamp'>) => {
+    d.auditLog.push({ ...clone(entry), id: newId(), timestamp: now() });
+  };
+
+  // Padanan has_admin_role(array['finance', 'super_admin']); mengembalikan id staf yang login.
+  const requireFinanceStaff = (d: LocalDatabase, message: string): string => {
+    const caller = d.profiles.find(p => p.id === d.sessionUserId);
+    if (!caller?.roles.some(r => r === AdminRole.FINANCE || r === AdminRole.SUPER_ADMIN)) throw new Error(message);
+    return caller.id;
+  };
+
+  // Padanan create_approval_request (0036_admin_balance_functions.sql).
+  const addApprovalRequest = (d: LocalDatabase, request: ApprovalRequest): ApprovalRequest => {
+    d.approvals.push(request);
+    appendAudit(d, {
+      actorId: request.makerId,
+      action: AuditAction.APPROVAL_REQUEST,
+      targetUserId: request.targetUserId,
+      targetId: request.targetId || request.id,
+      before: null,
+      after: { approvalId: request.id, type: request.type, amount: request.amount, ...request.payload },
+      reason: request.reason,
+    });
+    return clone(request);
+  };
+
+  // Padanan apply_transaction_status: transisi dari transactionStateMachine beserta jurnal, audit dan notifikasinya.
+  const applyTransactionStatus = (d: LocalDatabase, actorId: string, t: TransactionRecord, status: TransactionStatus, reason: string, approvalId?: string) => {
+    const rule = getTransitionRule(t.type, t.status, status);
+    const before = t.status;
+    const fee = t.fee || 0;
+    const ids = { debit: t.id, credit: t.id };
+    ensureOpeningBalance(d, t.userId);
+    t.status = status;
+    switch (rule.balanceEffect) {
+      case BalanceEffect.CREDIT_DEPOSIT:
+        appendJournal(d, 'Deposit disetujui', 'system:bank_deposits', t.userId, t.amount + (t.uniqueCode || 0), ids);
+        break;
+      case BalanceEffect.RELEASE_WITHDRAWAL_HOLD:
+        appendJournal(d, `Refund penarikan (${status})`, 'system:withdrawals_payable', t.userId, t.amount, ids);
+        if (fee > 0) appendJournal(d, `Refund biaya penarikan (${status})`, 'system:withdrawals_payable', t.userId, fee, ids);
+        break;
+      case BalanceEffect.COLLECT_WITHDRAWAL_FEE:
+        if (fee > 0) appendJournal(d, 'Biaya penarikan', 'system:withdrawals_payable', 'system:fee_income', fee, ids);
+        break;
+    }
+    const profile = d.profiles.find(p => p.id === t.userId);
+    if (profile) profile.balance = ledgerBalance(d, t.userId);
+
+    appendAudit(d, {
+      actorId,
+      action: t.type === TransactionType.DEPOSIT ? AuditAction.DEPOSIT_STATUS : AuditAction.WITHDRAWAL_STATUS,
+      targetUserId: t.userId,
+      targetId: t.id,
+      before: { status: before },
+      after: approvalId ? { status, approvalId } : { status },
+      reason,
+    });
+    // Refund withdrawal mengembalikan biaya juga, jadi notifikasinya menyebut totalnya
+    const amount = t.type === TransactionType.DEPOSIT
+      ? t.amount + (t.uniqueCode || 0)
+      : rule.balanceEffect === BalanceEffect.RELEASE_WITHDRAWAL_HOLD ? t.amount + fee : t.amount;
+    addNotification(d, t.userId, rule.notification(amount, t.id));
+  };
+
+  // Padanan apply_balance_adjustment: semua pemeriksaan terjadi sebelum ada yang ditulis.
+  const applyBalanceAdjustment = (
+    d: LocalDatabase,
+    actorId: string,
+    { userId, operation, amount, reason, memo }: Omit<BalanceAdjustmentRequest, 'actorId'>,
+    approval?: { id: string; balanceAtRequest: number },
+  ): AdminActionResult => {
+    const profile = d.profiles.find(p => p.id === userId);
+    if (!profile) return { success: false, message: 'User tidak ditemukan.' };
+    ensureOpeningBalance(d, userId);
+    const balance = ledgerBalance(d, userId);
+    if (approval && operation === 'set' && balance !== approval.balanceAtRequest) {
+      return {
+        success: false,
+        message: `Saldo user sudah berubah sejak permintaan dibuat (${formatRupiah(approval.balanceAtRequest)} menjadi ${formatRupiah(balance)}). Tolak permintaan ini dan ajukan penyesuaian baru.`,
+      };
+    }
+    const delta = operation === 'set' ? amount - balance : amount;
+    if (delta === 0) return { success: true, message: 'Saldo tidak berubah.' };
+    if (balance + delta < 0) return { success: false, message: 'Saldo user tidak boleh menjadi negatif.' };
+
+    const journalMemo = memo || (operation === 'set'
+      ? `Penyesuaian admin: set saldo ke ${formatRupiah(amount)}`
+      : `Penyesuaian admin: ${delta > 0 ? 'tambah' : 'kurangi'} saldo`);
+    if (delta > 0) appendJournal(d, journalMemo, 'system:adjustments', userId, delta);
+    else appendJournal(d, journalMemo, userId, 'system:adjustments', -delta);
+    profile.balance = ledgerBalance(d, userId);
+
+    appendAudit(d, {
+      actorId,
+      action: AuditAction.BALANCE_ADJUST,
+      targetUserId: userId,
+      before: { balance },
+      after: { balance: balance + delta, operation, amount, ...(approval ? { approvalId: approval.id } : {}) },
+      reason,
+    });
+    return { success: true, message: 'Saldo diperbarui.' };
+  };
+
+  return {
+    auth: {
+      async signUp(email, password, fullName, phoneNumber) {
+        const d = await db();
+        const normalizedEmail = email.trim().toLowerCase();
+        if (d.accounts.some(a => a.email === normalizedEmail)) {
+          return { userId: null, error: 'User already registered' };
+        }
+        if (phoneNumber && d.profiles.some(p => p.phoneNumber === phoneNumber)) {
+          return { userId: null, error: 'Phone number already registered' };
+        }
+        const userId = newId();
+        d.accounts.push({ userId, email: normalizedEmail, passwordHash: await hashPassword(userId, password) });
+        d.profiles.push({
+          id: userId,
+          email: normalizedEmail,
+          fullName,
+          username: uniqueUsername(d, normalizedEmail.split('@')[0]),
+          phoneNumber: phoneNumber || '',
+          isAdmin: false,
+          roles: [],
+          isVerified: false,
+          emailVerified: false,
+          balance: 0,
+          createdAt: now(),
+        });
+        // Seperti Supabase dengan konfirmasi email: belum ada sesi sampai email dikonfirmasi.
+        await issueEmailVerification(d, normalizedEmail);
+        persist();
+        return { userId, error: null };
+      },
+
+      async signIn(email, password) {
+        const d = await db();
+        const account = d.accounts.find(a => a.email === email.trim().toLowerCase());
+        if (!account || account.passwordHash !== await hashPassword(account.userId, password)) {
+          return { userId: null, error: 'Invalid login credentials' };
+        }
+        if (!d.profiles.find(p => p.id === account.userId)?.emailVerified) {
+          return { userId: null, error: 'Email not confirmed', emailNotConfirmed: true };
+        }
+        d.sessionUserId = account.userId;
+        d.twoFactorVerifiedUserId = null;
+        persist();
+        return { userId: account.userId, error: null };
+      },
+
+      async resolveLoginEmail(identifier, password, activity) {
+        const d = await db();
+        const profile = findProfileByIdentifier(d, identifier);
+        const account = profile && d.accounts.find(a => a.userId === profile.id);
+        if (!profile || !account) return null;
+
+        const since = new Date(Date.now() - LOGIN_LOCKOUT_WINDOW_MS).toISOString();
+        const failures = d.loginActivity.filter(a => a.userId === profile.id && a.event === LoginEventType.LOGIN_FAILED && a.timestamp > since);
+        if (failures.length >= LOGIN_LOCKOUT_MAX_FAILURES) return null;
+
+        if (account.passwordHash !== await hashPassword(account.userId, password)) {
+          d.loginActivity.push({ ...clone(activity), id: newId(), userId: profile.id, event: LoginEventType.LOGIN_FAILED });
+          persist();
+          return null;
+        }
+        return account.email;
+      },
+
+      // Tanpa server email: kode dicetak ke console browser.
+      async requestPasswordReset(email) {
+        const d = await db();
+        const normalizedEmail = email.trim().toLowerCase();
+        d.passwordResets = d.passwordResets.filter(r => r.email !== normalizedEmail);
+        if (!d.accounts.some(a => a.email === normalizedEmail)) {
+          persist();
+          return;
+        }
+        const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0');
+        d.passwordResets.push({
+          email: normalizedEmail,
+          codeHash: await hashPassword(normalizedEmail, code),
+          expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS).toISOString(),
+          attempts: 0,
+        });
+        persist();
+        console.info(`[local backend] Kode reset password untuk ${normalizedEmail}: ${code}`);
+      },
+
+      async resetPassword(email, code, newPassword) {
+        const d = await db();
+        const normalizedEmail = email.trim().toLowerCase();
+        const reset = d.passwordResets.find(r => r.email === normalizedEmail);
+        const account = d.accounts.find(a => a.email === normalizedEmail);
+        if (!reset || !account || reset.expiresAt < now() || reset.attempts >= PASSWORD_RESET_MAX_ATTEMPTS) {
+          return { userId: null, error: 'Token has expired or is invalid' };
+        }
+        if (reset.codeHash !== await hashPassword(normalizedEmail, code.trim())) {
+          reset.attempts += 1;
+          persist();
+          return { userId: null, error: 'Token has expired or is invalid' };
+        }
+        account.passwordHash = await hashPassword(account.userId, newPassword);
+        d.passwordResets = d.passwordResets.filter(r => r !== reset);
+        persist();
+        return { userId: account.userId, error: null };
+      },
+
+      async verifyPassword(email, password) {
+        const d = await db();
+        const account = d.accounts.find(a => a.email === email.trim().toLowerCase());
+        return !!account && account.passwordHash === await hashPassword(account.userId, password);
+      },
+
+      async sendEmailVerification(email) {
+        const d = await db();
+        const normalizedEmail = email.trim().toLowerCase();
+        const profile = d.profiles.find(p => p.email === normalizedEmail);
+        // Email tidak terdaftar atau sudah terverifikasi: diam saja
+        if (!profile || profile.emailVerified) return { error: null };
+
+        const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+        const sentAt = (d.emailVerifications.find(v => v.email === normalizedEmail)?.sentAt || []).filter(t => t > hourAgo).sort();
+        const last = sentAt[sentAt.length - 1];
+        if (last && Date.now() - new Date(last).getTime() < EMAIL_VERIFICATION_COOLDOWN_MS) {
+          return { error: 'Too many requests', retryAfterSeconds: Math.ceil((new Date(last).getTime() + EMAIL_VERIFICATION_COOLDOWN_MS - Date.now()) / 1000) };
+        }
+        if (sentAt.length >= EMAIL_VERIFICATION_MAX_PER_HOUR) {
+          return { error: 'Too many requests', retryAfterSeconds: Math.ceil((new Date(sentAt[0]).getTime() + 60 * 60 * 1000 - Date.now()) / 1000) };
+        }
+        await issueEmailVerification(d, normalizedEmail);
+        persist();
+        return { error: null };
+      },
+
+      async confirmEmail(email, code) {
+        const d = await db();
+        const normalizedEmail = email.trim().toLowerCase();
+        const verification = d.emailVerifications.find(v => v.email === normalizedEmail);
+        const profile = d.profiles.find(p => p.email === normalizedEmail);
+        if (!verification || !profile || verification.expiresAt < now()
+          || (verification.attempts || 0) >= EMAIL_VERIFICATION_MAX_ATTEMPTS) {
+          return { userId: null, error: 'Token has expired or is invalid' };
+        }
+        if (verification.codeHash !== await hashPassword(normalizedEmail, code.trim())) {
+          verification.attempts = (verification.attempts || 0) + 1;
+          persist();
+          return { userId: null, error: 'Token has expired or is invalid' };
+        }
+        profile.emailVerified = true;
+        d.emailVerifications = d.emailVerifications.filter(v => v !== verification);
+        persist();
+        return { userId: profile.id, error: null };
+      },
+
+      async updatePassword(userId, newPassword) {
+        const d = await db();
+        const account = d.accounts.find(a => a.userId === userId);
+        if (!account) throw new Error('Account not found');
+        account.passwordHash = await hashPassword(userId, newPassword);
+        persist();
+      },
+
+      async signOut() {
+        const d = await db();
+        d.sessionUserId = null;
+        d.twoFactorVerifiedUserId = null;
+        persist();
+      },
+
+      // Tidak ada sesi backend di mode lokal; pencabutan cukup lewat koleksi `sessions`.
+      async signOutOthers() {},
+
+      async getSessionUserId() {
+        const d = await db();
+        return d.sessionUserId;
+      },
+    },
+
+    users: {
+      async getById(id) {
+        const d = await db();
+        const profile = d.profiles.find(p => p.id === id);
+        return profile ? toUserRecord(profile) : null;
+      },
+
+      async getByEmail(email) {
+        const d = await db();
+        const profile = d.profiles.find(p => p.email.toLowerCase() === email.trim().toLowerCase());
+        return profile ? toUserRecord(profile) : null;
+      },
+
+      async list() {
+        const d = await db();
+        return [...d.profiles]
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .map(toUserRecord);
+      },
+
+      async update(id, patch) {
+        const d = await db();
+        const profile = d.profiles.find(p => p.id === id);
+        if (!profile) return null;
+        if (patch.phoneNumber && d.profiles.some(p => p.id !== id && p.phoneNumber === patch.phoneNumber)) {
+          throw new Error('Phone number already registered');
+        }
+        const username = patch.username?.toLowerCase();
+        if (username && d.profiles.some(p => p.id !== id && p.username.toLowerCase() === username)) {
+          throw new Error('Username already taken');
+        }
+        Object.assign(profile, clone(patch));
+        profile.isAdmin = profile.roles.length > 0;
+        persist();
+        return toUserRecord(profile);
+      },
+    },
+
+    transactions: {
+      async create(record) {
+        const d = await db();
+        if (record.idempotencyKey) {
+          const existing = d.transactions.find(t => t.userId === record.userId && t.idempotencyKey === record.idempotencyKey);
+          if (existing) return { record: clone(existing), created: false };
+        }
+        const created: TransactionRecord = { ...clone(record), id: newId() };
+        if (created.type === TransactionType.DEPOSIT) Object.assign(created, assignDepositCodes(d, created.amount));
+        d.transactions.push(created);
+        persist();
+        return { record: clone(created), created: true };
+      },
+
+      async getById(id) {
+        const d = await db();
+        const t = d.transactions.find(t => t.id === id);
+        return t ? clone(t) : null;
+      },
+
+      async findByIdempotencyKey(userId, idempotencyKey) {
+        const d = await db();
+        const t = d.transactions.find(t => t.userId === userId && t.idempotencyKey === idempotencyKey);
+        return t ? clone(t) : null;
+      },
+
+      async listByUser(userId, type) {
+        const d = await db();
+        return d.transactions
+          .filter(t => t.userId === userId && (!type || t.type === type))
+          .sort((a, b) => b.date.localeCompare(a.date))
+          .map(clone);
+      },
+
+      async listAll() {
+        const d = await db();
+        return [...d.transactions].sort((a, b) => b.date.localeCompare(a.date)).map(clone);
+      },
+
+      async expireStale() {
+        const d = await db();
+        const nowMs = Date.now();
+        let expiredCount = 0;
+        for (const t of d.transactions) {
+          if (t.status !== TransactionStatus.PENDING) continue;
+          const windowMs = t.type === TransactionType.DEPOSIT ? config.expiry.depositMs
+            : t.type === TransactionType.WITHDRAWAL ? config.expiry.withdrawalMs : 0;
+          if (!windowMs || new Date(t.date).getTime() >= nowMs - windowMs) continue;
+          if (d.approvals.some(a => a.targetId === t.id && a.status === ApprovalStatus.PENDING)) continue;
+
+          t.status = TransactionStatus.CANCELLED;
+          if (t.type === TransactionType.DEPOSIT) {
+            addNotification(d, t.userId, `Deposit Kedaluwarsa: Permintaan deposit ${formatRupiah(t.amount + (t.uniqueCode || 0))} dibatalkan karena melewati batas waktu. Jangan transfer untuk permintaan ini; buat deposit baru bila masih diperlukan.`);
+          } else {
+            const fee = t.fee || 0;
+            ensureOpeningBalance(d, t.userId);
+            appendJournal(d, 'Refund penarikan (CANCELLED)', 'system:withdrawals_payable', t.userId, t.amount, { debit: t.id, credit: t.id });
+            if (fee > 0) appendJournal(d, 'Refund biaya penarikan (CANCELLED)', 'system:withdrawals_payable', t.userId, fee, { debit: t.id, credit: t.id });
+            const profile = d.profiles.find(p => p.id === t.userId);
+            if (profile) profile.balance = ledgerBalance(d, t.userId);
+            addNotification(d, t.userId, `Penarikan Kedaluwarsa: Penarikan #${t.id.substring(0, 8)}... tidak diproses sebelum batas waktu. Dana ${formatRupiah(t.amount + fee)} telah dikembalikan ke saldo akun Anda.`);
+          }
+          expiredCount++;
+        }
+        if (expiredCount > 0) persist();
+        return expiredCount;
+      },
+
+      // Padanan admin_update_transaction_status (0036_admin_balance_functions.sql).
+      async changeStatus({ transactionId, status, reason }) {
+        const d = await db();
+        const actorId = requireFinanceStaff(d, 'Not allowed to manage transactions.');
+        const t = d.transactions.find(t => t.id === transactionId && (t.type === TransactionType.DEPOSIT || t.type === TransactionType.WITHDRAWAL));
+        if (!t) return { success: false, message: 'Transaksi tidak ditemukan.' };
+        if (t.status === status) return { success: true, message: 'Status tidak berubah.' };
+        // Transisi ilegal dilempar sebagai IllegalTransitionError
+        getTransitionRule(t.type, t.status, status);
+
+        if (t.type === TransactionType.WITHDRAWAL) {
+          if (d.approvals.some(a => a.targetId === t.id && a.status === ApprovalStatus.PENDING)) {
+            return { success: false, message: 'Penarikan ini sedang menunggu persetujuan admin lain.' };
+          }
+          if (status === TransactionStatus.SUCCESS && t.amount > config.approvals.withdrawalThreshold) {
+            const pendingApproval = addApprovalRequest(d, {
+              id: newId(), type: ApprovalType.WITHDRAWAL_STATUS, status: ApprovalStatus.PENDING, makerId: actorId,
+              targetUserId: t.userId, targetId: t.id, amount: t.amount, payload: { fromStatus: t.status, toStatus: status },
+              reason, createdAt: now(),
+            });
+            persist();
+            return { success: true, message: 'Penarikan melebihi batas dan menunggu persetujuan admin lain.', pendingApproval };
+          }
+        }
+
+        applyTransactionStatus(d, actorId, t, status, reason);
+        persist();
+        return { success: true, message: t.type === TransactionType.DEPOSIT ? 'Status deposit diperbarui.' : 'Status penarikan diperbarui.' };
+      },
+
+      async attachProof(id, userId, proof) {
+        const d = await db();
+        const t = d.transactions.find(t => t.id === id);
+        if (!t || t.userId !== userId || t.type !== TransactionType.DEPOSIT || t.status !== TransactionStatus.PENDING) return false;
+        t.proof = clone(proof);
+        persist();
+        return true;
+      },
+
+      // Setelah `await db()` semua langkah berjalan sinkron, sehingga tidak ada
+      // permintaan lain yang bisa menyela di tengah transfer.
+      async transfer({ senderId, recipientEmail, amount, fee, idempotencyKey, twoFactorCode }) {
+        const d = await db();
+
+        if (d.sessionUserId !== senderId) {
+          return { success: false, message: 'Not allowed to transfer from this account.', errorCode: TransferErrorCode.UNAUTHORIZED };
+        }
+
+        const existing = d.transactions.find(t => t.userId === senderId && t.idempotencyKey === idempotencyKey);
+        if (existing) {
+          if (existing.amount !== amount || existing.counterpartyEmail?.toLowerCase() !== recipientEmail.trim().toLowerCase()) {
+            return { success: false, message: 'Idempotency key was already used for a different request.', errorCode: TransferErrorCode.FAILED };
+          }
+          const success = existing.status === TransactionStatus.SUCCESS;
+          return { success, message: 'Transfer successful.', transactionId: existing.id, replayed: true, errorCode: success ? undefined : TransferErrorCode.FAILED };
+        }
+
+        if (!(amount > 0)) {
+          return { success: false, message: 'Invalid amount.', errorCode: TransferErrorCode.INVALID_AMOUNT };
+        }
+
+        const sender = d.profiles.find(p => p.id === senderId);
+        const recipient = d.profiles.find(p => p.email.toLowerCase() === recipientEmail.trim().toLowerCase());
+        if (!sender) {
+          return { success: false, message: 'Not allowed to transfer from this account.', errorCode: TransferErrorCode.UNAUTHORIZED };
+        }
+        if (!recipient) {
+          return { success: false, message: 'Recipient email not found.', errorCode: TransferErrorCode.RECIPIENT_NOT_FOUND };
+        }
+        if (recipient.id === sender.id) {
+          return { success: false, message: 'Cannot transfer to your own account.', errorCode: TransferErrorCode.SELF_TRANSFER };
+        }
+
+        ensureOpeningBalance(d, sender.id);
+        ensureOpeningBalance(d, recipient.id);
+        if (ledgerBalance(d, sender.id) < amount + fee) {
+          return { success: false, message: 'Insufficient balance.', errorCode: TransferErrorCode.INSUFFICIENT_BALANCE };
+        }
+        const twoFactorError = await freshTwoFactorCodeError(d, sender.id, twoFactorCode);
+        if (twoFactorError) return { success: false, message: twoFactorError, errorCode: TransferErrorCode.TWO_FACTOR_REQUIRED };
+
+        const date = now();
+        const senderTx: TransactionRecord = {
+          id: newId(), userId: sender.id, type: TransactionType.TRANSFER, amount, method: 'Internal Transfer',
+          status: TransactionStatus.SUCCESS, date, direction: TransferDirection.OUT,
+          counterpartyId: recipient.id, counterpartyEmail: recipient.email, bankOrEwalletName: recipient.email, idempotencyKey, fee,
+        };
+        const recipientTx: TransactionRecord = {
+          id: newId(), userId: recipient.id, type: TransactionType.TRANSFER, amount, method: 'Internal Transfer',
+          status: TransactionStatus.SUCCESS, date, direction: TransferDirection.IN,
+          counterpartyId: sender.id, counterpartyEmail: sender.email, bankOrEwalletName: sender.email,
+        };
+        d.transactions.push(senderTx, recipientTx);
+        appendJournal(d, `Transfer internal ${sender.email} -> ${recipient.email}`, sender.id, recipient.id, amount, { debit: senderTx.id, credit: recipientTx.id });
+        if (fee > 0) appendJournal(d, `Biaya transfer internal ke ${recipient.email}`, sender.id, 'system:fee_income', fee, { debit: senderTx.id });
+        sender.balance = ledgerBalance(d, sender.id);
+        recipient.balance = ledgerBalance(d, recipient.id);
+
+        addNotification(d, sender.id, `Transfer Berhasil: Mengirim Rp ${amount.toLocaleString('id-ID')} ke ${recipient.email}${fee > 0 ? ` (biaya Rp ${fee.toLocaleString('id-ID')})` : ''}.`);
+        addNotification(d, recipient.id, `Dana Masuk: Menerima Rp ${amount.toLocaleString('id-ID')} dari ${sender.email}.`);
+        persist();
+
+        return { success: true, message: 'Transfer successful.', transactionId: senderTx.id, replayed: false };
+      },
+
+      // Limit diperiksa transactionService sebelum memanggil ini; di mode lokal seluruh data memang ada di browser.
+      async withdraw({ userId, amount, beneficiaryId, fee, idempotencyKey, twoFactorCode }) {
+        const d = await db();
+        if (d.sessionUserId !== userId) return { success: false, message: 'You must be logged in.' };
+
+        const existing = d.transactions.find(t => t.userId === userId && t.idempotencyKey === idempotencyKey);
+        if (existing) {
+          if (existing.amount !== amount) {
+            return { success: false, message: 'Idempotency key was already used for a different request.', transactionId: existing.id, replayed: true };
+          }
+          const success = existing.status !== TransactionStatus.FAILED;
+          return { success, message: success ? 'Withdrawal submitted.' : 'Request failed.', transactionId: existing.id, replayed: true };
+        }
+
+        if (!(amount > 0)) return { success: false, message: 'Invalid amount.' };
+        const profile = d.profiles.find(p => p.id === userId);
+        if (!profile?.emailVerified) return { success: false, message: 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.' };
+
+        const beneficiary = d.beneficiaries.find(b => b.id === beneficiaryId && b.userId === userId);
+        if (!beneficiary) return { success: false, message: 'Select a saved withdrawal account.' };
+        if (new Date(beneficiary.activeAt).getTime() > Date.now()) {
+          return { success: false, message: `This account can receive withdrawals from ${new Date(beneficiary.activeAt).toLocaleString('id-ID')}.` };
+        }
+
+        ensureOpeningBalance(d, userId);
+        if (ledgerBalance(d, userId) < amount + fee) {
+          return { success: false, message: fee > 0 ? `Insufficient balance for the amount plus the ${formatRupiah(fee)} fee.` : 'Insufficient balance.' };
+        }
+        const twoFactorError = await freshTwoFactorCodeError(d, userId, twoFactorCode);
+        if (twoFactorError) return { success: false, message: twoFactorError };
+
+        const t: TransactionRecord = {
+          id: newId(), userId, type: TransactionType.WITHDRAWAL, amount,
+          method: beneficiary.type === BeneficiaryType.BANK ? `Bank Transfer (${beneficiary.providerName})` : `E-Wallet (${beneficiary.providerName})`,
+          bankOrEwalletName: beneficiary.providerName, accountNumber: beneficiary.accountNumber, accountHolderName: beneficiary.accountHolderName,
+          fee, status: TransactionStatus.PENDING, date: now(), idempotencyKey,
+        };
+        d.transactions.push(t);
+        // Hold dana ke hutang penarikan; biaya di-hold sebagai jurnal terpisah.
+        appendJournal(d, `Penarikan ke ${beneficiary.providerName}`, userId, 'system:withdrawals_payable', amount, { debit: t.id, credit: t.id });
+        if (fee > 0) appendJournal(d, `Biaya penarikan ke ${beneficiary.providerName}`, userId, 'system:withdrawals_payable', fee, { debit: t.id, credit: t.id });
+        profile.balance = ledgerBalance(d, userId);
+
+        addNotification(d, userId, `Permintaan Penarikan (Withdrawal) sebesar ${formatRupiah(amount)}${fee > 0 ? ` + biaya ${formatRupiah(fee)}` : ''} sedang diproses. Saldo telah dikurangi sementara.`);
+        persist();
+        return { success: true, message: 'Withdrawal submitted.', transactionId: t.id, replayed: false };
+      },
+    },
+
+    notifications: {
+      async listByUser(userId) {
+        const d = await db();
+        return d.notifications
+          .filter(n => n.userId === userId)
+          .sort((a, b) => b.date.localeCompare(a.date))
+          .map(clone);
+      },
+
+      async add(userId, message) {
+        const d = await db();
+        addNotification(d, userId, message);
+        persist();
+      },
+
+      async setRead(userId, notificationId, read) {
+        const d = await db();
+        const n = d.notifications.find(n => n.id === notificationId && n.userId === userId);
+        if (n) n.read = read;
+        persist();
+      },
+    },
+
+    companyBankInfo: {
+      async list() {
+        const d = await db();
+        return clone(d.companyBankInfo);
+      },
+
+      async replaceAll(infoList) {
+        const d = await db();
+        d.companyBankInfo = infoList.map(i => ({ ...clone(i), id: i.id || newId() }));
+        persist();
+      },
+    },
+
+    ledger: {
+      async listByAccount(accountId) {
+        const d = await db();
+        return d.ledgerEntries
+          .filter(e => e.accountId === accountId)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .map(clone);
+      },
+
+      // Padanan admin_adjust_balance (0036_admin_balance_functions.sql).
+      async adjustBalance(adjustment) {
+        const d = await db();
+        const actorId = requireFinanceStaff(d, 'Not allowed to adjust balances.');
+        const { userId, operation, amount, reason, memo } = adjustment;
+        if (!d.profiles.some(p => p.id === userId)) return { success: false, message: 'User tidak ditemukan.' };
+        ensureOpeningBalance(d, userId);
+        const balance = ledgerBalance(d, userId);
+        const delta = operation === 'set' ? amount - balance : amount;
+
+        if (Math.abs(delta) > config.approvals.balanceAdjustmentThreshold) {
+          const pendingApproval = addApprovalRequest(d, {
+            id: newId(), type: ApprovalType.BALANCE_ADJUSTMENT, status: ApprovalStatus.PENDING, makerId: actorId,
+            targetUserId: userId, amount: Math.abs(delta),
+            payload: { operation, amount, balanceAtRequest: balance, ...(memo ? { memo } : {}) },
+            reason, createdAt: now(),
+          });
+          persist();
+          return { success: true, message: 'Penyesuaian melebihi batas dan menunggu persetujuan admin lain.', pendingApproval };
+        }
+
+        const result = applyBalanceAdjustment(d, actorId, adjustment);
+        persist();
+        return result;
+      },
+    },
+
+    // Padanan open_trade dan settle_due_trades (0023_server_side_trades.sql). Backend
+    // lokal memakai price feed aplikasi; seluruh datanya memang hanya ada di browser.
+    trades: {
+      async listByUser(userId) {
+        const d = await db();
+        return d.trades
+          .filter(t => t.userId === userId)
+          .sort((a, b) => b.date.localeCompare(a.date))
+          .map(clone);
+      },
+
+      async open({ userId, market, direction, packageLabel, amount }) {
+        await priceFeed.ready();
+        const d = await db();
+
+        const profile = d.profiles.find(p => p.id === userId);
+        if (d.sessionUserId !== userId || !profile) return { success: false, message: 'You must be logged in to trade.' };
+        const tradePackage = TRADE_PACKAGES.find(p => p.label === packageLabel);
+        if (!tradePackage) return { success: false, message: 'Unknown trade package.' };
+        if (!(amount > 0)) return { success: false, message: 'Invalid stake amount.' };
+        if (amount < config.trading.minStake) {
+          return { success: false, message: `Minimum stake is Rp ${config.trading.minStake.toLocaleString('id-ID')}.` };
+        }
+        if (!profile.emailVerified) return { success: false, message: 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.' };
+        const rateStake = priceFeed.priceAt(market, Date.now());
+        if (rateStake === null) return { success: false, message: `Price unavailable for ${market}.` };
+
+        ensureOpeningBalance(d, userId);
+        if (ledgerBalance(d, userId) < amount) return { success: false, message: 'Insufficient balance.' };
+
+        const openedAt = new Date();
+        const trade: TradeHistoryItem = {
+          id: newId(),
+          userId,
+          date: openedAt.toISOString(),
+          market,
+          trx: direction,
+          package: tradePackage.label,
+          amount,
+          rateStake,
+          rateEnd: null,
+          status: 'Pending',
+          payoutRatio: config.trading.payoutRatio,
+          expiresAt: new Date(openedAt.getTime() + tradePackage.durationSeconds * 1000).toISOString(),
+        };
+        d.trades.push(trade);
+        appendJournal(d, `Open ${direction} ${market} (${tradePackage.label})`, userId, 'system:trade_escrow', amount, {}, `trade:${trade.id}`);
+        profile.balance = ledgerBalance(d, userId);
+        persist();
+        return { success: true, message: 'Trade opened.', trade: clone(trade) };
+      },
+
+      // Harga akhir yang sama dengan harga pembukaan dihitung kalah.
+      async settleDue(userId) {
+        // Tick pertama setelah expiry dalam masa tenggang, padanan market_price_after.
+        const firstPriceAfter = (market: string, expiresAt: number): number | null => {
+          const until = Math.min(expiresAt + TRADE_SETTLEMENT_GRACE_MS, Date.now());
+          for (let time = expiresAt + priceFeed.tickIntervalMs; time <= until; time += priceFeed.tickIntervalMs) {
+            const price = priceFeed.priceAt(market, time);
+            if (price !== null) return price;
+          }
+          return null;
+        };
+
+        await priceFeed.ready();
+        const d = await db();
+        if (d.sessionUserId !== userId) return 0;
+
+        const cutoff = now();
+        let settled = 0;
+        for (const trade of d.trades.filter(t => t.userId === userId && t.status === 'Pending' && t.expiresAt <= cutoff)) {
+          const expiresAt = new Date(trade.expiresAt).getTime();
+          const rateEnd = priceFeed.priceAt(trade.market, expiresAt) ?? firstPriceAfter(trade.market, expiresAt);
+          const reference = `trade:${trade.id}`;
+          const label = `Rp ${trade.amount.toLocaleString('id-ID')}`;
+          if (rateEnd === null) {
+            // Harga belum tersedia: dicoba lagi sampai masa tenggang lewat, lalu stake dikembalikan
+            if (expiresAt + TRADE_SETTLEMENT_GRACE_MS > Date.now()) continue;
+            Object.assign(trade, { status: 'Refunded', settledAt: now(), payout: trade.amount });
+            ensureOpeningBalance(d, userId);
+            appendJournal(d, `Trade REFUND ${trade.trx} ${trade.market}`, 'system:trade_escrow', userId, trade.amount, {}, reference);
+            addNotification(d, userId, `Trade Dikembalikan: Harga ${trade.market} saat expiry tidak tersedia. Stake ${label} posisi ${trade.trx} dikembalikan ke saldo Anda.`);
+            settled++;
+            continue;
+          }
+          const won = trade.trx === TradeDirection.BUY ? rateEnd > trade.rateStake : rateEnd < trade.rateStake;
+          const profit = won ? Math.round(trade.amount * trade.payoutRatio * 100) / 100 : 0;
+
+          Object.assign(trade, { status: won ? 'Win' : 'Loss', rateEnd, settledAt: now(), payout: won ? trade.amount + profit : 0 });
+          if (won) {
+            ensureOpeningBalance(d, userId);
+            appendJournal(d, `Trade WIN ${trade.trx} ${trade.market}`, 'system:trade_escrow', userId, trade.amount, {}, reference);
+            if (profit > 0) appendJournal(d, `Trade WIN ${trade.trx} ${trade.market}`, 'system:trade_pnl', userId, profit, {}, reference);
+            addNotification(d, userId, `Trade Menang: Posisi ${trade.trx} ${trade.market} senilai ${label} menghasilkan profit Rp ${profit.toLocaleString('id-ID')}.`);
+          } else {
+            appendJournal(d, `Trade LOSS ${trade.trx} ${trade.market}`, 'system:trade_escrow', 'system:trade_pnl', trade.amount, {}, reference);
+            addNotification(d, userId, `Trade Kalah: Posisi ${trade.trx} ${trade.market} senilai ${label} ditutup rugi.`);
+          }
+          settled++;
+        }
+
+        if (settled > 0) {
+          const profile = d.profiles.find(p => p.id === userId);
+          if (profile) profile.balance = ledgerBalance(d, userId);
+          persist();
+        }
+        return settled;
+      },
+    },
+
+    // Padanan purchase_investment dan process_investment_payouts (0024_server_side_investments.sql).
+    investments: {
+      async listByUser(userId) {
+        const d = await db();
+        return d.investments
+          .filter(c => c.userId === userId)
+          .sort((a, b) => b.startDate.localeCompare(a.startDate))
+          .map(clone);
+      },
+
+      async listAll() {
+        const d = await db();
+        return [...d.investments]
+          .sort((a, b) => b.startDate.localeCompare(a.startDate))
+          .map(clone);
+      },
+
+      async purchase({ userId, planId, tierIndex }) {
+        const d = await db();
+        const profile = d.profiles.find(p => p.id === userId);
+        if (d.sessionUserId !== userId || !profile) return { success: false, message: 'Silakan login terlebih dahulu.' };
+        const plan = INVESTMENT_PLANS.find(p => p.id === planId);
+        const tier = plan?.tiers[tierIndex];
+        if (!plan || !tier) return { success: false, message: 'Paket investasi tidak ditemukan.' };
+        if (!profile.emailVerified) return { success: false, message: 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.' };
+
+        ensureOpeningBalance(d, userId);
+        if (ledgerBalance(d, userId) < tier.principal) return { success: false, message: 'Saldo tidak mencukupi untuk paket ini.' };
+
+        const startDate = new Date();
+        const termMs = plan.termDays * DAY_MS;
+        const payoutIntervalMs = Math.min(config.investment.payoutIntervalMs, termMs);
+        const contract: InvestmentContract = {
+          id: newId(),
+          userId,
+          planId: plan.id,
+          planName: plan.name,
+          principal: tier.principal,
+          projectedProfit: tier.projectedProfit,
+          termDays: plan.termDays,
+          startDate: startDate.toISOString(),
+          maturityDate: new Date(startDate.getTime() + termMs).toISOString(),
+          payoutIntervalMs,
+          totalPeriods: Math.ceil(termMs / payoutIntervalMs),
+          paidPeriods: 0,
+          paidProfit: 0,
+          status: 'Active',
+        };
+        d.investments.push(contract);
+        appendJournal(d, `Pembelian ${plan.name} ${formatRupiah(tier.principal)}`, userId, 'system:investment_principal', tier.principal, {}, `investment:${contract.id}`);
+        profile.balance = ledgerBalance(d, userId);
+        addNotification(d, userId, `Investasi Aktif: ${plan.name} dengan modal ${formatRupiah(tier.principal)} berjalan selama ${plan.termDays} hari.`);
+        persist();
+        return { success: true, message: 'Paket investasi berhasil diaktifkan.', contract: clone(contract) };
+      },
+
+      async processDuePayouts(userId) {
+        const d = await db();
+        const caller = d.profiles.find(p => p.id === d.sessionUserId);
+        if (!caller || (userId ? caller.id !== userId : !caller.roles.some(r => r === AdminRole.FINANCE || r === AdminRole.SUPER_ADMIN))) {
+          throw new Error('Not allowed to run payouts for these contracts.');
+        }
+
+        const nowMs = Date.now();
+        let paid = 0;
+        for (const contract of d.investments.filter(c => c.status === 'Active' && (!userId || c.userId === userId))) {
+          const periods = elapsedPeriods(contract, nowMs);
+          if (periods <= contract.paidPeriods) continue;
+
+          const matured = periods === contract.totalPeriods;
+          const accruedProfit = matured
+            ? contract.projectedProfit
+            : Math.round(contract.projectedProfit * periods / contract.totalPeriods * 100) / 100;
+          const profit = Math.round((accruedProfit - contract.paidProfit) * 100) / 100;
+          const reference = `investment:${contract.id}`;
+          const memo = matured
+            ? `Jatuh tempo ${contract.planName}: profit dan pengembalian modal`
+            : `Profit ${contract.planName} periode ${periods}/${contract.totalPeriods}`;
+
+          Object.assign(contract, { paidPeriods: periods, paidProfit: accruedProfit, status: matured ? 'Matured' : 'Active', lastPayoutAt: now() });
+          ensureOpeningBalance(d, contract.userId);
+          if (profit > 0) appendJournal(d, memo, 'system:investment_profit', contract.userId, profit, {}, reference);
+          if (matured) appendJournal(d, memo, 'system:investment_principal', contract.userId, contract.principal, {}, reference);
+          const owner = d.profiles.find(p => p.id === contract.userId);
+          if (owner) owner.balance = ledgerBalance(d, contract.userId);
+
+          if (matured) {
+            addNotification(d, contract.userId, `Investasi Selesai: ${contract.planName} telah jatuh tempo. Modal ${formatRupiah(contract.principal)} dan total profit ${formatRupiah(contract.projectedProfit)} telah dikreditkan ke wallet Anda.`);
+          } else if (profit > 0) {
+            addNotification(d, contract.userId, `Profit Investasi: ${formatRupiah(profit)} dari ${contract.planName} telah dikreditkan ke wallet Anda.`);
+          }
+          paid++;
+        }
+
+        if (paid > 0) persist();
+        return paid;
+      },
+    },
+
+    kyc: {
+      async create(kycCase) {
+        const d = await db();
+        d.kycCases.push(clone(kycCase));
+        persist();
+        return clone(kycCase);
+      },
+
+      async getById(id) {
+        const d = await db();
+        const kycCase = d.kycCases.find(c => c.id === id);
+        return kycCase ? clone(kycCase) : null;
+      },
+
+      async getLatestByUser(userId) {
+        const d = await db();
+        const latest = d.kycCases
+          .filter(c => c.userId === userId)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+        return latest ? clone(latest) : null;
+      },
+
+      async listByStatus(statuses) {
+        const d = await db();
+        return d.kycCases
+          .filter(c => statuses.includes(c.status))
+          .sort((a, b) => (a.submittedAt || a.createdAt).localeCompare(b.submittedAt || b.createdAt))
+          .map(clone);
+      },
+
+      async update(id, expected, patch) {
+        const d = await db();
+        const kycCase = d.kycCases.find(c => c.id === id);
+        if (!kycCase || !expected.includes(kycCase.status)) return null;
+        Object.assign(kycCase, clone(patch), { updatedAt: now() });
+        persist();
+        return clone(kycCase);
+      },
+
+      // Padanan approve_kyc_case (0038_kyc_approve_case.sql).
+      async approve({ caseId, reason }) {
+        const d = await db();
+        const reviewer = d.profiles.find(p => p.id === d.sessionUserId);
+        if (!reviewer?.roles.some(r => r === AdminRole.COMPLIANCE || r === AdminRole.SUPER_ADMIN)) {
+          throw new Error('Not allowed to review KYC.');
+        }
+        const kycCase = d.kycCases.find(c => c.id === caseId);
+        if (!kycCase || kycCase.status !== KycStatus.IN_REVIEW) return { success: false, message: 'Only cases in review can be approved.' };
+        if (kycCase.userId === reviewer.id) return { success: false, message: 'You cannot review your own KYC submission.' };
+        const profile = d.profiles.find(p => p.id === kycCase.userId);
+        if (!profile) return { success: false, message: 'User not found.' };
+
+        const reviewedAt = now();
+        Object.assign(kycCase, { status: KycStatus.APPROVED, reviewedAt, reviewerId: reviewer.id, updatedAt: reviewedAt });
+        const wasVerified = profile.isVerified;
+        profile.isVerified = true;
+        appendAudit(d, {
+          actorId: reviewer.id,
+          action: AuditAction.KYC_APPROVE,
+          targetUserId: kycCase.userId,
+          targetId: kycCase.id,
+          before: { status: KycStatus.IN_REVIEW, isVerified: wasVerified },
+          after: { status: KycStatus.APPROVED, isVerified: true },
+          reason,
+        });
+        addNotification(d, kycCase.userId, 'KYC Disetujui: Akun Anda telah terverifikasi.');
+        persist();
+        return { success: true, message: 'KYC approved.', kycCase: clone(kycCase) };
+      },
+    },
+
+    twoFactor: {
+      async getStatus(userId) {
+        const d = await db();
+        const record = d.twoFactor.find(r => r.userId === userId && r.enabled);
+        if (!record) return { enabled: false, recoveryCodesRemaining: 0, sessionVerified: true };
+        return {
+          enabled: true,
+          enabledAt: record.enabledAt,
+          recoveryCodesRemaining: record.recoveryCodeHashes.length,
+          sessionVerified: d.sessionUserId === userId && d.twoFactorVerifiedUserId === userId,
+        };
+      },
+
+      async beginEnrollment(userId, secret) {
+        const d = await db();
+        if (d.sessionUserId !== userId) throw new Error('You must be logged in.');
+        if (d.twoFactor.some(r => r.userId === userId && r.enabled)) throw new Error('Two-factor authentication is already enabled.');
+        d.twoFactor = d.twoFactor.filter(r => r.userId !== userId);
+        d.twoFactor.push({ userId, secret, enabled: false, recoveryCodeHashes: [], lastUsedStep: null, createdAt: now() });
+        persist();
+      },
+
+      async confirmEnrollment(userId, code, recoveryCodes) {
+        const d = await db();
+        const record = d.twoFactor.find(r => r.userId === userId && !r.enabled);
+        if (d.sessionUserId !== userId || !record || !(await consumeTwoFactorCode(record, code, false))) return false;
+        record.enabled = true;
+        record.enabledAt = now();
+        record.recoveryCodeHashes = await Promise.all(recoveryCodes.map(c => hashRecoveryCode(userId, c)));
+        d.twoFactorVerifiedUserId = userId;
+        persist();
+        return true;
+      },
+
+      async verify(userId, code, allowRecovery) {
+        const d = await db();
+        const record = d.twoFactor.find(r => r.userId === userId && r.enabled);
+        if (d.sessionUserId !== userId || !record || !(await consumeTwoFactorCode(record, code, allowRecovery))) return false;
+        d.twoFactorVerifiedUserId = userId;
+        persist();
+        return true;
+      },
+
+      async replaceRecoveryCodes(userId, code, recoveryCodes) {
+        const d = await db();
+        const record = d.twoFactor.find(r => r.userId === userId && r.enabled);
+        if (d.sessionUserId !== userId || !record || !(await consumeTwoFactorCode(record, code, false))) return false;
+        record.recoveryCodeHashes = await Promise.all(recoveryCodes.map(c => hashRecoveryCode(userId, c)));
+        persist();
+        return true;
+      },
+
+      async disable(userId, code) {
+        const d = await db();
+        const record = d.twoFactor.find(r => r.userId === userId && r.enabled);
+        if (d.sessionUserId !== userId || !record || !(await consumeTwoFactorCode(record, code, true))) return false;
+        d.twoFactor = d.twoFactor.filter(r => r.userId !== userId);
+        d.twoFactorVerifiedUserId = null;
+        persist();
+        return true;
+      },
+    },
+
+    loginActivity: {
+      async add(activity) {
+        const d = await db();
+        d.loginActivity.push(clone(activity));
+        persist();
+      },
+
+      async listByUser(userId, limit) {
+        const d = await db();
+        return d.loginActivity
+          .filter(a => a.userId === userId)
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+          .slice(0, limit)
+          .map(clone);
+      },
+
+      async hasDevice(userId, deviceId) {
+        const d = await db();
+        return d.loginActivity.some(a => a.userId === userId && a.deviceId === deviceId && a.event === LoginEventType.LOGIN);
+      },
+    },
+
+    sessions: {
+      async create(session) {
+        const d = await db();
+        d.sessions.push(clone(session));
+        persist();
+      },
+
+      async getById(id) {
+        const d = await db();
+        const session = d.sessions.find(s => s.id === id);
+        return session ? clone(session) : null;
+      },
+
+      async listActive(userId) {
+        const d = await db();
+        return d.sessions
+          .filter(s => s.userId === userId && !s.revokedAt)
+          .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+          .map(clone);
+      },
+
+      async touch(id, lastSeenAt) {
+        const d = await db();
+        const session = d.sessions.find(s => s.id === id);
+        if (!session) return;
+        session.lastSeenAt = lastSeenAt;
+        persist();
+      },
+
+      async revoke(id) {
+        const d = await db();
+        const session = d.sessions.find(s => s.id === id);
+        if (!session || session.revokedAt) return;
+        session.revokedAt = now();
+        persist();
+      },
+
+      async revokeOthers(userId, keepId) {
+        const d = await db();
+        const revokedAt = now();
+        d.sessions
+          .filter(s => s.userId === userId && s.id !== keepId && !s.revokedAt)
+          .forEach(s => { s.revokedAt = revokedAt; });
+        persist();
+      },
+    },
+
+    auditLog: {
+      async append(entry) {
+        const d = await db();
+        const record: AuditLogEntry = { ...clone(entry), id: newId(), timestamp: now() };
+        d.auditLog.push(record);
+        persist();
+        return clone(record);
+      },
+
+      async list(filter, limit) {
+        const d = await db();
+        return d.auditLog
+          .filter(e => matchesAuditFilter(e, filter))
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+          .slice(0, limit)
+          .map(clone);
+      },
+    },
+
+    approvals: {
+      async getById(id) {
+        const d = await db();
+        const request = d.approvals.find(a => a.id === id);
+        return request ? clone(request) : null;
+      },
+
+      async listByStatus(statuses) {
+        const d = await db();
+        return d.approvals
+          .filter(a => statuses.includes(a.status))
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+          .map(clone);
+      },
+
+      async findPendingByTarget(targetId) {
+        const d = await db();
+        const request = d.approvals.find(a => a.targetId === targetId && a.status === ApprovalStatus.PENDING);
+        return request ? clone(request) : null;
+      },
+
+      // Padanan decide_approval (0036_admin_balance_functions.sql). Setelah `await db()`
+      // semuanya sinkron, jadi klaim dan aksinya tidak bisa disela permintaan lain.
+      async decide({ requestId, decision, reason }) {
+        const d = await db();
+        const checkerId = requireFinanceStaff(d, 'Not allowed to decide approval requests.');
+        const request = d.approvals.find(a => a.id === requestId);
+        if (!request) return { success: false, message: 'Permintaan persetujuan tidak ditemukan.' };
+        if (request.status !== ApprovalStatus.PENDING) return { success: false, message: 'Permintaan sudah diputuskan oleh admin lain.' };
+        if (request.makerId === checkerId) return { success: false, message: 'Permintaan harus diputuskan oleh admin lain.' };
+        if (request.targetUserId === checkerId) return { success: false, message: 'Anda tidak dapat memutuskan permintaan untuk akun Anda sendiri.' };
+
+        if (decision === ApprovalStatus.APPROVED) {
+          const auditReason = `${request.reason} (disetujui: ${reason})`;
+          if (request.type === ApprovalType.BALANCE_ADJUSTMENT) {
+            const { operation, amount, balanceAtRequest, memo } = request.payload;
+            const result = applyBalanceAdjustment(
+              d, checkerId, { userId: request.targetUserId, operation, amount, reason: auditReason, memo }, { id: request.id, balanceAtRequest },
+            );
+            if (!result.success) return result;
+          } else {
+            const t = d.transactions.find(t => t.id === request.targetId);
+            if (!t || t.status !== request.payload.fromStatus) {
+              return { success: false, message: 'Status penarikan sudah berubah sejak permintaan dibuat.' };
+            }
+            applyTransactionStatus(d, checkerId, t, request.payload.toStatus, auditReason, request.id);
+          }
+        } else {
+          appendAudit(d, {
+            actorId: checkerId,
+            action: AuditAction.APPROVAL_REJECT,
+            targetUserId: request.targetUserId,
+            targetId: request.targetId || request.id,
+            before: { approvalId: request.id, status: ApprovalStatus.PENDING },
+            after: { approvalId: request.id, status: ApprovalStatus.REJECTED },
+            reason,
+          });
+        }
+
+        Object.assign(request, { status: decision, checkerId, decisionReason: reason, decidedAt: now() });
+        addNotification(d, request.makerId, decision === ApprovalStatus.APPROVED
+          ? `Permintaan persetujuan #${request.id.substring(0, 8)}... telah disetujui.`
+          : `Permintaan persetujuan #${request.id.substring(0, 8)}... ditolak: ${reason}`);
+        persist();
+        return { success: true, message: decision === ApprovalStatus.APPROVED ? 'Permintaan disetujui dan dijalankan.' : 'Permintaan ditolak.' };
+      },
+    },
+
+    storage: {
+      async upload(bucket, path, file) {
+        const dataUrl = await blobToDataUrl(file);
+        const d = await db();
+        if (d.files.some(f => f.bucket === bucket && f.path === path)) throw new Error('File already exists.');
+        d.files.push({ bucket, path, dataUrl });
+        persist();
+      },
+
+      async getViewUrl(bucket, path) {
+        const d = await db();
+        return d.files.find(f => f.bucket === bucket && f.path === path)?.dataUrl || null;
+      },
+    },
+
+    bankStatements: {
+      async addLines(lines) {
+        const d = await db();
+        const known = new Set(d.bankStatementLines.map(l => l.fingerprint));
+        const added: BankStatementLine[] = [];
+        for (const line of lines) {
+          if (known.has(line.fingerprint)) continue;
+          known.add(line.fingerprint);
+          added.push(line);
+        }
+        d.bankStatementLines.push(...clone(added));
+        persist();
+        return clone(added);
+      },
+
+      async listByStatus(statuses) {
+        const d = await db();
+        return d.bankStatementLines
+          .filter(l => statuses.includes(l.status))
+          .sort((a, b) => b.bankDate.localeCompare(a.bankDate) || b.importedAt.localeCompare(a.importedAt))
+          .map(clone);
+      },
+
+      async update(id, expected, patch) {
+        const d = await db();
+        const line = d.bankStatementLines.find(l => l.id === id);
+        if (!line || !expected.includes(line.status)) return null;
+        Object.assign(line, clone(patch));
+        persist();
+        return clone(line);
+      },
+    },
+
+    beneficiaries: {
+      async listByUser(userId) {
+        const d = await db();
+        return d.beneficiaries
+          .filter(b => b.userId === userId)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .map(clone);
+      },
+
+      async getById(id) {
+        const d = await db();
+        const beneficiary = d.beneficiaries.find(b => b.id === id);
+        return beneficiary ? clone(beneficiary) : null;
+      },
+
+      async create(beneficiary) {
+        const d = await db();
+        const duplicate = d.beneficiaries.some(b =>
+          b.userId === beneficiary.userId
+          && b.type === beneficiary.type
+          && b.providerName === beneficiary.providerName
+          && b.accountNumber === beneficiary.accountNumber);
+        if (duplicate) return null;
+        const createdAt = new Date();
+        const created: Beneficiary = {
+          ...clone(beneficiary),
+          id: newId(),
+          createdAt: createdAt.toISOString(),
+          activeAt: new Date(createdAt.getTime() + config.beneficiaries.coolingOffMs).toISOString(),
+        };
+        d.beneficiaries.push(created);
+        persist();
+        return clone(created);
+      },
+
+      async remove(id, userId) {
+        const d = await db();
+        const index = d.beneficiaries.findIndex(b => b.id === id && b.userId === userId);
+        if (index < 0) return false;
+        d.beneficiaries.splice(index, 1);
+        persist();
+        return true;
+      },
+    },
+
+    limitOverrides: {
+      async listByUser(userId) {
+        const d = await db();
+        return d.limitOverrides.filter(o => o.userId === userId).map(clone);
+      },
+
+      async upsert(override) {
+        const d = await db();
+        const index = d.limitOverrides.findIndex(o => o.userId === override.userId && o.type === override.type);
+        if (index >= 0) d.limitOverrides[index] = clone(override);
+        else d.limitOverrides.push(clone(override));
+        persist();
+      },
+
+      async remove(userId, type) {
+        const d = await db();
+        d.limitOverrides = d.limitOverrides.filter(o => !(o.userId === userId && o.type === type));
+        persist();
+      },
+    },
+
+    feeSchedules: {
+      async list() {
+        const d = await db();
+        return d.feeSchedules.map(({ updatedBy, updatedAt, ...schedule }) => clone(schedule));
+      },
+
+      async upsert(schedules, updatedBy) {
+        const d = await db();
+        const updatedAt = now();
+        for (const schedule of schedules) {
+          d.feeSchedules = d.feeSchedules.filter(s => s.channel !== schedule.channel);
+          d.feeSchedules.push({ ...clone(schedule), updatedBy, updatedAt });
+        }
+        persist();
+      },
+    },
+  };
+};
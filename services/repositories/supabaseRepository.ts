@@ -0,0 +1,1142 @@
+import { AdminActionResult, ApprovalRequest, AuditLogEntry, BankStatementLine, Beneficiary, CompanyBankInfo, DepositProof, FeeSchedule, InvestmentContract, KycCase, LedgerEntry, LoginActivity, NotificationItem, TradeHistoryItem, TransactionStatus, TransferErrorCode, UserLimitOverride, UserSession } from '../../types';
+import { getSupabaseClient } from '../supabaseClient';
+import {
+  DataRepository,
+  KycCaseUpdate,
+  NewTransactionRecord,
+  TransactionRecord,
+  UserRecord,
+  UserRecordUpdate,
+} from './types';
+
+// Kode error Postgres untuk pelanggaran unique constraint
+const UNIQUE_VIOLATION = '23505';
+
+// Masa berlaku URL file private yang diminta untuk ditampilkan
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+const mapProfileRow = (profile: any): UserRecord => ({
+  id: profile.id,
+  email: profile.email || '',
+  fullName: profile.full_name || '',
+  username: profile.username || '',
+  phoneNumber: profile.phone_number || '',
+  isAdmin: (profile.roles || []).length > 0,
+  roles: profile.roles || [],
+  isVerified: profile.is_verified || false,
+  emailVerified: !!profile.email_verified_at,
+  balance: Number(profile.balance || 0),
+  profilePictureUrl: profile.profile_picture_url,
+});
+
+const mapUserUpdate = (patch: UserRecordUpdate) => {
+  const updates: any = {};
+  if (patch.fullName !== undefined) updates.full_name = patch.fullName;
+  if (patch.username !== undefined) updates.username = patch.username;
+  if (patch.phoneNumber !== undefined) updates.phone_number = patch.phoneNumber;
+  if (patch.profilePictureUrl !== undefined) updates.profile_picture_url = patch.profilePictureUrl;
+  if (patch.roles !== undefined) updates.roles = patch.roles;
+  return updates;
+};
+
+const mapLegacyProof = (t: any): DepositProof | undefined => {
+  if (!t.proof_image_url) return undefined;
+  const fileName = decodeURIComponent(t.proof_image_url.split('?')[0].split('/').pop() || 'proof');
+  return {
+    path: '',
+    fileName,
+    contentType: /\.pdf$/i.test(fileName) ? 'application/pdf' : 'image/jpeg',
+    uploadedAt: t.date,
+    legacyUrl: t.proof_image_url,
+  };
+};
+
+const mapTransactionRow = (t: any): TransactionRecord => ({
+  id: t.id,
+  userId: t.user_id,
+  type: t.type,
+  amount: Number(t.amount),
+  method: t.method,
+  status: t.status,
+  date: t.date,
+  bankOrEwalletName: t.bank_or_ewallet_name || undefined,
+  accountNumber: t.account_number || undefined,
+  accountHolderName: t.account_holder_name || undefined,
+  uniqueCode: t.unique_code ?? undefined,
+  referenceCode: t.reference_code || undefined,
+  proof: t.proof_path
+    ? { path: t.proof_path, fileName: t.proof_file_name, contentType: t.proof_content_type, uploadedAt: t.proof_uploaded_at }
+    : mapLegacyProof(t),
+  direction: t.direction || undefined,
+  counterpartyId: t.counterparty_id || undefined,
+  counterpartyEmail: t.counterparty_email || undefined,
+  idempotencyKey: t.idempotency_key || undefined,
+  fee: t.fee != null ? Number(t.fee) : undefined,
+});
+
+const mapTransactionRecord = (t: Partial<NewTransactionRecord>) => {
+  const row: any = {};
+  if (t.userId !== undefined) row.user_id = t.userId;
+  if (t.type !== undefined) row.type = t.type;
+  if (t.amount !== undefined) row.amount = t.amount;
+  if (t.method !== undefined) row.method = t.method;
+  if (t.status !== undefined) row.status = t.status;
+  if (t.date !== undefined) row.date = t.date;
+  if (t.bankOrEwalletName !== undefined) row.bank_or_ewallet_name = t.bankOrEwalletName;
+  if (t.accountNumber !== undefined) row.account_number = t.accountNumber;
+  if (t.accountHolderName !== undefined) row.account_holder_name = t.accountHolderName;
+  if (t.proof !== undefined) {
+    row.proof_path = t.proof.path;
+    row.proof_file_name = t.proof.fileName;
+    row.proof_content_type = t.proof.contentType;
+    row.proof_uploaded_at = t.proof.uploadedAt;
+  }
+  if (t.direction !== undefined) row.direction = t.direction;
+  if (t.counterpartyId !== undefined) row.counterparty_id = t.counterpartyId;
+  if (t.counterpartyEmail !== undefined) row.counterparty_email = t.counterpartyEmail;
+  if (t.idempotencyKey !== undefined) row.idempotency_key = t.idempotencyKey;
+  if (t.fee !== undefined) row.fee = t.fee;
+  return row;
+};
+
+const mapNotificationRow = (n: any): NotificationItem => ({
+  id: n.id,
+  userId: n.user_id,
+  message: n.message,
+  date: n.date,
+  read: n.read,
+});
+
+const mapLedgerRow = (row: any): LedgerEntry => ({
+  id: row.id,
+  journalId: row.journal_id,
+  accountId: row.account_id,
+  direction: row.direction,
+  amount: Number(row.amount),
+  transactionId: row.transaction_id || undefined,
+  reference: row.reference || undefined,
+  memo: row.memo || '',
+  createdAt: row.created_at,
+});
+
+const mapTradeRow = (t: any): TradeHistoryItem => ({
+  id: t.id,
+  userId: t.user_id,
+  date: t.opened_at,
+  market: t.market,
+  trx: t.direction,
+  package: t.package,
+  amount: Number(t.amount),
+  rateStake: Number(t.rate_stake),
+  rateEnd: t.rate_end === null || t.rate_end === undefined ? null : Number(t.rate_end),
+  status: t.status,
+  payoutRatio: Number(t.payout_ratio),
+  expiresAt: t.expires_at,
+  settledAt: t.settled_at || undefined,
+  payout: t.payout === null || t.payout === undefined ? undefined : Number(t.payout),
+});
+
+const mapInvestmentRow = (c: any): InvestmentContract => ({
+  id: c.id,
+  userId: c.user_id,
+  planId: c.plan_id,
+  planName: c.plan_name,
+  principal: Number(c.principal),
+  projectedProfit: Number(c.projected_profit),
+  termDays: c.term_days,
+  startDate: c.start_date,
+  maturityDate: c.maturity_date,
+  payoutIntervalMs: Number(c.payout_interval_ms),
+  totalPeriods: c.total_periods,
+  paidPeriods: c.paid_periods,
+  paidProfit: Number(c.paid_profit),
+  status: c.status,
+  lastPayoutAt: c.last_payout_at || undefined,
+});
+
+const mapKycRow = (k: any): KycCase => ({
+  id: k.id,
+  userId: k.user_id,
+  status: k.status,
+  identity: k.identity || {},
+  documents: k.documents || {},
+  createdAt: k.created_at,
+  updatedAt: k.updated_at,
+  submittedAt: k.submitted_at || undefined,
+  reviewStartedAt: k.review_started_at || undefined,
+  reviewedAt: k.reviewed_at || undefined,
+  reviewerId: k.reviewer_id || undefined,
+  rejectionReason: k.rejection_reason || undefined,
+});
+
+const mapKycUpdate = (patch: KycCaseUpdate) => {
+  const updates: any = { updated_at: new Date().toISOString() };
+  if (patch.status !== undefined) updates.status = patch.status;
+  if (patch.identity !== undefined) updates.identity = patch.identity;
+  if (patch.documents !== undefined) updates.documents = patch.documents;
+  if (patch.submittedAt !== undefined) updates.submitted_at = patch.submittedAt;
+  if (patch.reviewStartedAt !== undefined) updates.review_started_at = patch.reviewStartedAt;
+  if (patch.reviewedAt !== undefined) updates.reviewed_at = patch.reviewedAt;
+  if (patch.reviewerId !== undefined) updates.reviewer_id = patch.reviewerId;
+  if (patch.rejectionReason !== undefined) updates.rejection_reason = patch.rejectionReason;
+  return updates;
+};
+
+const mapLoginActivityRow = (r: any): LoginActivity => ({
+  id: r.id,
+  userId: r.user_id,
+  event: r.event,
+  timestamp: r.created_at,
+  userAgent: r.user_agent || '',
+  device: r.device,
+  deviceId: r.device_id,
+  sessionId: r.session_id || undefined,
+});
+
+const mapSessionRow = (r: any): UserSession => ({
+  id: r.id,
+  userId: r.user_id,
+  deviceId: r.device_id,
+  userAgent: r.user_agent || '',
+  device: r.device,
+  createdAt: r.created_at,
+  lastSeenAt: r.last_seen_at,
+  revokedAt: r.revoked_at || undefined,
+});
+
+const mapAuditLogRow = (r: any): AuditLogEntry => ({
+  id: r.id,
+  actorId: r.actor_id,
+  action: r.action,
+  targetUserId: r.target_user_id || undefined,
+  targetId: r.target_id || undefined,
+  before: r.before_value,
+  after: r.after_value,
+  reason: r.reason,
+  timestamp: r.created_at,
+});
+
+const mapStatementLineRow = (r: any): BankStatementLine => ({
+  id: r.id,
+  format: r.format,
+  bankDate: r.bank_date,
+  description: r.description,
+  amount: Number(r.amount),
+  fingerprint: r.fingerprint,
+  status: r.status,
+  matchedTransactionId: r.matched_transaction_id || undefined,
+  importedBy: r.imported_by,
+  importedAt: r.imported_at,
+  resolvedBy: r.resolved_by || undefined,
+  resolvedAt: r.resolved_at || undefined,
+});
+
+const mapBeneficiaryRow = (r: any): Beneficiary => ({
+  id: r.id,
+  userId: r.user_id,
+  type: r.type,
+  providerName: r.provider_name,
+  accountNumber: r.account_number,
+  accountHolderName: r.account_holder_name,
+  nickname: r.nickname || undefined,
+  createdAt: r.created_at,
+  activeAt: r.active_at,
+});
+
+const mapLimitOverrideRow = (r: any): UserLimitOverride => ({
+  userId: r.user_id,
+  type: r.type,
+  limits: r.limits || {},
+  updatedBy: r.updated_by,
+  updatedAt: r.updated_at,
+});
+
+const mapFeeScheduleRow = (r: any): FeeSchedule => ({
+  channel: r.channel,
+  type: r.fee_type,
+  flatFee: Number(r.flat_fee),
+  percentage: Number(r.percentage),
+  minFee: Number(r.min_fee),
+  maxFee: Number(r.max_fee),
+  tiers: r.tiers || [],
+});
+
+const mapApprovalRow = (r: any): ApprovalRequest => ({
+  id: r.id,
+  type: r.type,
+  status: r.status,
+  makerId: r.maker_id,
+  checkerId: r.checker_id || undefined,
+  targetUserId: r.target_user_id,
+  targetId: r.target_id || undefined,
+  amount: Number(r.amount),
+  payload: r.payload,
+  reason: r.reason,
+  decisionReason: r.decision_reason || undefined,
+  createdAt: r.created_at,
+  decidedAt: r.decided_at || undefined,
+});
+
+// Hasil fungsi staf di 0036_admin_balance_functions.sql: {success, code, message, approval?}.
+const mapAdminActionResult = (data: any, fallback: string): AdminActionResult => ({
+  success: !!data?.success,
+  message: data?.message || fallback,
+  pendingApproval: data?.approval ? mapApprovalRow(data.approval) : undefined,
+});
+
+export const createSupabaseRepository = (): DataRepository => {
+  const supabase = getSupabaseClient;
+
+  return {
+    auth: {
+      async signUp(email, password, fullName, phoneNumber) {
+        const { data, error } = await supabase().auth.signUp({
+          email,
+          password,
+          // phone_number disalin ke profiles oleh trigger, lihat 0009_login_identifiers.sql
+          options: { data: { full_name: fullName, phone_number: phoneNumber || null } },
+        });
+        if (error) return { userId: null, error: error.message };
+        if (!data.user) return { userId: null, error: 'Gagal membuat akun.' };
+
+        // Tunggu sejenak agar trigger SQL selesai membuat record di tabel profiles
+        await new Promise(r => setTimeout(r, 1000));
+        return { userId: data.user.id, error: null };
+      },
+
+      async signIn(email, password) {
+        const { data, error } = await supabase().auth.signInWithPassword({ email, password });
+        if (error) return { userId: null, error: error.message, emailNotConfirmed: error.message === 'Email not confirmed' };
+        if (!data.user) return { userId: null, error: 'User tidak ditemukan.' };
+        return { userId: data.user.id, error: null };
+      },
+
+      // Dijalankan tanpa sesi login; lockout dan pencatatan kegagalan ada di fungsi SQL.
+      async resolveLoginEmail(identifier, password, activity) {
+        const { data, error } = await supabase().rpc('resolve_login_email', {
+          p_kind: identifier.kind,
+          p_value: identifier.value,
+          p_password: password,
+          p_user_agent: activity.userAgent,
+          p_device: activity.device,
+          p_device_id: activity.deviceId,
+        });
+        if (error) throw error;
+        return data || null;
+      },
+
+      // Template email "Reset Password" di Supabase harus memuat {{ .Token }}; masa berlaku mengikuti OTP expiry proyek.
+      async requestPasswordReset(email) {
+        const { error } = await supabase().auth.resetPasswordForEmail(email.trim());
+        // Rate limit dan email tidak terdaftar tidak diteruskan ke user
+        if (error) console.error('Password reset request failed', error.message);
+      },
+
+      async resetPassword(email, code, newPassword) {
+        const { data, error } = await supabase().auth.verifyOtp({ email: email.trim(), token: code.trim(), type: 'recovery' });
+        if (error || !data.user) return { userId: null, error: error?.message || 'Token has expired or is invalid' };
+        const { error: updateError } = await supabase().auth.updateUser({ password: newPassword });
+        if (updateError) return { userId: null, error: updateError.message };
+        return { userId: data.user.id, error: null };
+      },
+
+      // Login ulang dengan password lama; sesi yang sedang berjalan tetap milik user yang sama.
+      async verifyPassword(email, password) {
+        const { error } = await supabase().auth.signInWithPassword({ email, password });
+        return !error;
+      },
+
+      // Kode berasal dari template email "Confirm signup" ({{ .Token }}).
+      async sendEmailVerification(email) {
+        const { error } = await supabase().auth.resend({ type: 'signup', email: email.trim() });
+        if (!error) return { error: null };
+        if (error.status === 429) return { error: error.message, retryAfterSeconds: 60 };
+        // Email tidak terdaftar/sudah terverifikasi tidak diteruskan ke user
+        console.error('Email verification resend failed', error.message);
+        return { error: null };
+      },
+
+      async confirmEmail(email, code) {
+        const { data, error } = await supabase().auth.verifyOtp({ email: email.trim(), token: code.trim(), type: 'email' });
+        if (error || !data.user) return { userId: null, error: error?.message || 'Token has expired or is invalid' };
+        return { userId: data.user.id, error: null };
+      },
+
+      async updatePassword(_userId, newPassword) {
+        const { error } = await supabase().auth.updateUser({ password: newPassword });
+        if (error) throw error;
+      },
+
+      async signOut() {
+        await supabase().auth.signOut();
+      },
+
+      async signOutOthers() {
+        const { error } = await supabase().auth.signOut({ scope: 'others' });
+        if (error) throw error;
+      },
+
+      async getSessionUserId() {
+        const { data: { session }, error } = await supabase().auth.getSession();
+        if (error || !session?.user) return null;
+        return session.user.id;
+      },
+    },
+
+    users: {
+      async getById(id) {
+        const { data } = await supabase().from('profiles').select('*').eq('id', id).single();
+        return data ? mapProfileRow(data) : null;
+      },
+
+      async getByEmail(email) {
+        const { data } = await supabase().from('profiles').select('*').ilike('email', email.trim()).maybeSingle();
+        return data ? mapProfileRow(data) : null;
+      },
+
+      async list() {
+        const { data, error } = await supabase()
+          .from('profiles')
+          .select('*')
+          .order('created_at', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapProfileRow);
+      },
+
+      async update(id, patch) {
+        const { data, error } = await supabase()
+          .from('profiles')
+          .update(mapUserUpdate(patch))
+          .eq('id', id)
+          .select()
+          .single();
+        if (error) throw error;
+        return data ? mapProfileRow(data) : null;
+      },
+    },
+
+    transactions: {
+      async create(record) {
+        const { data, error } = await supabase()
+          .from('transactions')
+          .insert([mapTransactionRecord(record)])
+          .select()
+          .single();
+
+        if (error?.code === UNIQUE_VIOLATION && record.idempotencyKey) {
+          const existing = await this.findByIdempotencyKey(record.userId, record.idempotencyKey);
+          if (existing) return { record: existing, created: false };
+        }
+        if (error || !data) throw error || new Error('Failed to create transaction.');
+        return { record: mapTransactionRow(data), created: true };
+      },
+
+      async getById(id) {
+        const { data } = await supabase().from('transactions').select('*').eq('id', id).single();
+        return data ? mapTransactionRow(data) : null;
+      },
+
+      async findByIdempotencyKey(userId, idempotencyKey) {
+        const { data } = await supabase()
+          .from('transactions')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('idempotency_key', idempotencyKey)
+          .maybeSingle();
+        return data ? mapTransactionRow(data) : null;
+      },
+
+      async listByUser(userId, type) {
+        let query = supabase().from('transactions').select('*').eq('user_id', userId);
+        if (type) query = query.eq('type', type);
+        const { data, error } = await query.order('date', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapTransactionRow);
+      },
+
+      async listAll() {
+        const { data, error } = await supabase()
+          .from('transactions')
+          .select('*')
+          .order('date', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapTransactionRow);
+      },
+
+      // Lihat supabase/migrations/0028_server_side_transaction_expiry.sql; pg_cron juga menjalankannya tiap menit.
+      async expireStale() {
+        const { data, error } = await supabase().rpc('expire_stale_transactions');
+        if (error) throw error;
+        return Number(data || 0);
+      },
+
+      // Lihat supabase/migrations/0036_admin_balance_functions.sql; staf diambil dari auth.uid().
+      async changeStatus({ transactionId, status, reason }) {
+        const { data, error } = await supabase().rpc('admin_update_transaction_status', {
+          p_transaction_id: transactionId,
+          p_status: status,
+          p_reason: reason,
+        });
+        if (error) throw error;
+        return mapAdminActionResult(data, 'Gagal memperbarui status transaksi.');
+      },
+
+      // Lewat RPC karena member tidak punya izin update langsung ke tabel transactions.
+      async attachProof(id, userId, proof) {
+        const { data, error } = await supabase().rpc('attach_deposit_proof', {
+          p_transaction_id: id,
+          p_path: proof.path,
+          p_file_name: proof.fileName,
+          p_content_type: proof.contentType,
+        });
+        if (error) throw error;
+        return data === true;
+      },
+
+      // Lihat supabase/migrations/0003_idempotency_keys.sql untuk fungsi transfer_funds.
+      // Lihat supabase/migrations/0027_server_side_transaction_limits.sql
+      async transfer({ senderId, recipientEmail, amount, fee, idempotencyKey, twoFactorCode }) {
+        const { data, error } = await supabase().rpc('transfer_funds', {
+          p_sender_id: senderId,
+          p_recipient_email: recipientEmail,
+          p_amount: amount,
+          p_fee: fee,
+          p_idempotency_key: idempotencyKey,
+          p_two_factor_code: twoFactorCode ?? null,
+        });
+
+        if (error) throw error;
+
+        return {
+          success: !!data?.success,
+          message: data?.message || (data?.success ? 'Transfer successful.' : 'Transfer failed.'),
+          errorCode: data?.success ? undefined : (data?.code as TransferErrorCode) || TransferErrorCode.FAILED,
+          transactionId: data?.transaction_id || undefined,
+          replayed: !!data?.replayed,
+        };
+      },
+
+      // Lihat supabase/migrations/0027_server_side_transaction_limits.sql
+      async withdraw({ amount, beneficiaryId, fee, idempotencyKey, twoFactorCode }) {
+        const { data, error } = await supabase().rpc('request_withdrawal', {
+          p_amount: amount,
+          p_beneficiary_id: beneficiaryId,
+          p_fee: fee,
+          p_idempotency_key: idempotencyKey,
+          p_two_factor_code: twoFactorCode ?? null,
+        });
+        if (error) throw error;
+        return {
+          success: !!data?.success,
+          message: data?.message || (data?.success ? 'Withdrawal submitted.' : 'Withdrawal failed.'),
+          transactionId: data?.transaction_id || undefined,
+          replayed: !!data?.replayed,
+        };
+      },
+    },
+
+    notifications: {
+      async listByUser(userId) {
+        const { data } = await supabase()
+          .from('notifications')
+          .select('*')
+          .eq('user_id', userId)
+          .order('date', { ascending: false });
+        return (data || []).map(mapNotificationRow);
+      },
+
+      async add(userId, message) {
+        await supabase().from('notifications').insert([{ user_id: userId, message, date: new Date().toISOString(), read: false }]);
+      },
+
+      async setRead(userId, notificationId, read) {
+        await supabase().from('notifications').update({ read }).eq('id', notificationId).eq('user_id', userId);
+      },
+    },
+
+    companyBankInfo: {
+      async list() {
+        const { data, error } = await supabase().from('company_bank_info').select('*');
+        if (error || !data) return [];
+        return data.map((item: any): CompanyBankInfo => ({
+          id: item.id,
+          bankName: item.bank_name,
+          accountNumber: item.account_number,
+          accountHolderName: item.account_holder_name,
+        }));
+      },
+
+      async replaceAll(infoList) {
+        await supabase().from('company_bank_info').delete().neq('id', '00000000-0000-0000-0000-000000000000');
+        await supabase().from('company_bank_info').insert(infoList.map(i => ({
+          bank_name: i.bankName,
+          account_number: i.accountNumber,
+          account_holder_name: i.accountHolderName,
+        })));
+      },
+    },
+
+    ledger: {
+      async listByAccount(accountId) {
+        const { data, error } = await supabase()
+          .from('ledger_entries')
+          .select('*')
+          .eq('account_id', accountId)
+          .order('created_at', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapLedgerRow);
+      },
+
+      // Lihat supabase/migrations/0036_admin_balance_functions.sql
+      async adjustBalance({ userId, operation, amount, reason, memo }) {
+        const { data, error } = await supabase().rpc('admin_adjust_balance', {
+          p_user_id: userId,
+          p_operation: operation,
+          p_amount: amount,
+          p_reason: reason,
+          p_memo: memo ?? null,
+        });
+        if (error) throw error;
+        return mapAdminActionResult(data, 'Gagal memperbarui saldo.');
+      },
+    },
+
+    // Lihat supabase/migrations/0023_server_side_trades.sql
+    trades: {
+      async listByUser(userId) {
+        const { data, error } = await supabase()
+          .from('trades')
+          .select('*')
+          .eq('user_id', userId)
+          .order('opened_at', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapTradeRow);
+      },
+
+      // Pemilik posisi diambil dari auth.uid() di open_trade.
+      async open({ market, direction, packageLabel, amount }) {
+        const { data, error } = await supabase().rpc('open_trade', {
+          p_market: market,
+          p_direction: direction,
+          p_package: packageLabel,
+          p_amount: amount,
+        });
+        if (error) throw error;
+        return {
+          success: !!data?.success,
+          message: data?.message || (data?.success ? 'Trade opened.' : 'Failed to open trade.'),
+          trade: data?.trade ? mapTradeRow(data.trade) : undefined,
+        };
+      },
+
+      // settle_due_trades hanya memproses posisi milik auth.uid().
+      async settleDue() {
+        const { data, error } = await supabase().rpc('settle_due_trades');
+        if (error) throw error;
+        return Number(data) || 0;
+      },
+    },
+
+    // Lihat supabase/migrations/0024_server_side_investments.sql
+    investments: {
+      async listByUser(userId) {
+        const { data, error } = await supabase()
+          .from('investment_contracts')
+          .select('*')
+          .eq('user_id', userId)
+          .order('start_date', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapInvestmentRow);
+      },
+
+      async listAll() {
+        const { data, error } = await supabase()
+          .from('investment_contracts')
+          .select('*')
+          .order('start_date', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapInvestmentRow);
+      },
+
+      // Pemilik kontrak diambil dari auth.uid() di purchase_investment.
+      async purchase({ planId, tierIndex }) {
+        const { data, error } = await supabase().rpc('purchase_investment', {
+          p_plan_id: planId,
+          p_tier_index: tierIndex,
+        });
+        if (error) throw error;
+        return {
+          success: !!data?.success,
+          message: data?.message || (data?.success ? 'Paket investasi berhasil diaktifkan.' : 'Gagal membeli paket investasi.'),
+          contract: data?.contract ? mapInvestmentRow(data.contract) : undefined,
+        };
+      },
+
+      async processDuePayouts(userId) {
+        const { data, error } = await supabase().rpc('process_investment_payouts', { p_all: !userId });
+        if (error) throw error;
+        return Number(data) || 0;
+      },
+    },
+
+    kyc: {
+      async create(kycCase) {
+        const { data, error } = await supabase()
+          .from('kyc_cases')
+          .insert([{
+            id: kycCase.id,
+            user_id: kycCase.userId,
+            status: kycCase.status,
+            identity: kycCase.identity,
+            documents: kycCase.documents,
+            created_at: kycCase.createdAt,
+            updated_at: kycCase.updatedAt,
+          }])
+          .select()
+          .single();
+        if (error || !data) throw error || new Error('Failed to create KYC case.');
+        return mapKycRow(data);
+      },
+
+      async getById(id) {
+        const { data, error } = await supabase().from('kyc_cases').select('*').eq('id', id).maybeSingle();
+        if (error || !data) return null;
+        return mapKycRow(data);
+      },
+
+      async getLatestByUser(userId) {
+        const { data, error } = await supabase()
+          .from('kyc_cases')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (error || !data) return null;
+        return mapKycRow(data);
+      },
+
+      async listByStatus(statuses) {
+        const { data, error } = await supabase()
+          .from('kyc_cases')
+          .select('*')
+          .in('status', statuses)
+          .order('submitted_at', { ascending: true });
+        if (error || !data) return [];
+        return data.map(mapKycRow);
+      },
+
+      async update(id, expected, patch) {
+        const { data, error } = await supabase()
+          .from('kyc_cases')
+          .update(mapKycUpdate(patch))
+          .eq('id', id)
+          .in('status', expected)
+          .select();
+        if (error) throw error;
+        return data && data.length > 0 ? mapKycRow(data[0]) : null;
+      },
+
+      // Lihat supabase/migrations/0038_kyc_approve_case.sql; reviewer diambil dari auth.uid().
+      async approve({ caseId, reason }) {
+        const { data, error } = await supabase().rpc('approve_kyc_case', { p_case_id: caseId, p_reason: reason });
+        if (error) throw error;
+        return {
+          success: !!data?.success,
+          message: data?.message || (data?.success ? 'KYC approved.' : 'Failed to approve KYC.'),
+          kycCase: data?.case ? mapKycRow(data.case) : undefined,
+        };
+      },
+    },
+
+    // Lihat supabase/migrations/0026_server_side_two_factor.sql
+    twoFactor: {
+      async getStatus() {
+        const { data, error } = await supabase().rpc('two_factor_status');
+        if (error) throw error;
+        return {
+          enabled: !!data?.enabled,
+          enabledAt: data?.enabled_at || undefined,
+          recoveryCodesRemaining: Number(data?.recovery_codes_remaining ?? 0),
+          sessionVerified: !!data?.session_verified,
+        };
+      },
+
+      async beginEnrollment(_userId, secret) {
+        const { error } = await supabase().rpc('two_factor_begin_enrollment', { p_secret: secret });
+        if (error) throw error;
+      },
+
+      async confirmEnrollment(_userId, code, recoveryCodes) {
+        const { data, error } = await supabase().rpc('two_factor_confirm_enrollment', {
+          p_code: code,
+          p_recovery_codes: recoveryCodes,
+        });
+        if (error) throw error;
+        return !!data;
+      },
+
+      async verify(_userId, code, allowRecovery) {
+        const { data, error } = await supabase().rpc('two_factor_verify', {
+          p_code: code,
+          p_allow_recovery: allowRecovery,
+        });
+        if (error) throw error;
+        return !!data;
+      },
+
+      async replaceRecoveryCodes(_userId, code, recoveryCodes) {
+        const { data, error } = await supabase().rpc('two_factor_replace_recovery_codes', {
+          p_code: code,
+          p_recovery_codes: recoveryCodes,
+        });
+        if (error) throw error;
+        return !!data;
+      },
+
+      async disable(_userId, code) {
+        const { data, error } = await supabase().rpc('two_factor_disable', { p_code: code });
+        if (error) throw error;
+        return !!data;
+      },
+    },
+
+    // Lihat supabase/migrations/0008_login_activity.sql
+    loginActivity: {
+      async add(activity) {
+        const { error } = await supabase().from('login_activity').insert({
+          id: activity.id,
+          user_id: activity.userId,
+          event: activity.event,
+          created_at: activity.timestamp,
+          user_agent: activity.userAgent,
+          device: activity.device,
+          device_id: activity.deviceId,
+          session_id: activity.sessionId ?? null,
+        });
+        if (error) throw error;
+      },
+
+      async listByUser(userId, limit) {
+        const { data, error } = await supabase()
+          .from('login_activity')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+        if (error || !data) return [];
+        return data.map(mapLoginActivityRow);
+      },
+
+      async hasDevice(userId, deviceId) {
+        const { count, error } = await supabase()
+          .from('login_activity')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('device_id', deviceId)
+          .eq('event', 'Login');
+        if (error) throw error;
+        return (count || 0) > 0;
+      },
+    },
+
+    sessions: {
+      async create(session) {
+        const { error } = await supabase().from('user_sessions').insert({
+          id: session.id,
+          user_id: session.userId,
+          device_id: session.deviceId,
+          user_agent: session.userAgent,
+          device: session.device,
+          created_at: session.createdAt,
+          last_seen_at: session.lastSeenAt,
+        });
+        if (error) throw error;
+      },
+
+      async getById(id) {
+        const { data, error } = await supabase().from('user_sessions').select('*').eq('id', id).maybeSingle();
+        if (error || !data) return null;
+        return mapSessionRow(data);
+      },
+
+      async listActive(userId) {
+        const { data, error } = await supabase()
+          .from('user_sessions')
+          .select('*')
+          .eq('user_id', userId)
+          .is('revoked_at', null)
+          .order('last_seen_at', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapSessionRow);
+      },
+
+      async touch(id, lastSeenAt) {
+        const { error } = await supabase().from('user_sessions').update({ last_seen_at: lastSeenAt }).eq('id', id);
+        if (error) throw error;
+      },
+
+      async revoke(id) {
+        const { error } = await supabase()
+          .from('user_sessions')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('id', id)
+          .is('revoked_at', null);
+        if (error) throw error;
+      },
+
+      async revokeOthers(userId, keepId) {
+        const { error } = await supabase()
+          .from('user_sessions')
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('user_id', userId)
+          .neq('id', keepId)
+          .is('revoked_at', null);
+        if (error) throw error;
+      },
+    },
+
+    auditLog: {
+      async append(entry) {
+        const { data, error } = await supabase()
+          .from('admin_audit_log')
+          .insert({
+            actor_id: entry.actorId,
+            action: entry.action,
+            target_user_id: entry.targetUserId || null,
+            target_id: entry.targetId || null,
+            before_value: entry.before,
+            after_value: entry.after,
+            reason: entry.reason,
+          })
+          .select()
+          .single();
+        if (error) throw error;
+        return mapAuditLogRow(data);
+      },
+
+      async list(filter, limit) {
+        let query = supabase().from('admin_audit_log').select('*');
+        if (filter.actorId) query = query.eq('actor_id', filter.actorId);
+        if (filter.targetUserId) query = query.eq('target_user_id', filter.targetUserId);
+        if (filter.action) query = query.eq('action', filter.action);
+        if (filter.from) query = query.gte('created_at', filter.from);
+        if (filter.to) query = query.lte('created_at', filter.to);
+        if (filter.search) {
+          // Karakter pemisah filter PostgREST dibuang agar tidak merusak ekspresi `or`
+          const q = filter.search.replace(/[,()*%]/g, ' ').trim();
+          if (q) query = query.or(`reason.ilike.*${q}*,target_id.ilike.*${q}*`);
+        }
+        const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+        if (error || !data) return [];
+        return data.map(mapAuditLogRow);
+      },
+    },
+
+    // Lihat supabase/migrations/0013_approval_requests.sql
+    approvals: {
+      async getById(id) {
+        const { data, error } = await supabase().from('approval_requests').select('*').eq('id', id).maybeSingle();
+        if (error || !data) return null;
+        return mapApprovalRow(data);
+      },
+
+      async listByStatus(statuses) {
+        const { data, error } = await supabase()
+          .from('approval_requests')
+          .select('*')
+          .in('status', statuses)
+          .order('created_at', { ascending: true });
+        if (error || !data) return [];
+        return data.map(mapApprovalRow);
+      },
+
+      async findPendingByTarget(targetId) {
+        const { data, error } = await supabase()
+          .from('approval_requests')
+          .select('*')
+          .eq('target_id', targetId)
+          .eq('status', 'PENDING')
+          .maybeSingle();
+        if (error || !data) return null;
+        return mapApprovalRow(data);
+      },
+
+      // Lihat supabase/migrations/0036_admin_balance_functions.sql
+      async decide({ requestId, decision, reason }) {
+        const { data, error } = await supabase().rpc('decide_approval', {
+          p_request_id: requestId,
+          p_decision: decision,
+          p_reason: reason,
+        });
+        if (error) throw error;
+        return mapAdminActionResult(data, 'Gagal memutuskan permintaan.');
+      },
+    },
+
+    // Bucket private; lihat supabase/migrations/0015_deposit_proofs.sql dan 0022_kyc_document_storage.sql
+    storage: {
+      async upload(bucket, path, file) {
+        const { error } = await supabase().storage.from(bucket).upload(path, file, { contentType: file.type, upsert: false });
+        if (error) throw error;
+      },
+
+      async getViewUrl(bucket, path) {
+        const { data, error } = await supabase().storage.from(bucket).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+        if (error || !data) return null;
+        return data.signedUrl;
+      },
+    },
+
+    // Lihat supabase/migrations/0016_deposit_reconciliation.sql
+    bankStatements: {
+      async addLines(lines) {
+        if (lines.length === 0) return [];
+        const { data, error } = await supabase()
+          .from('bank_statement_lines')
+          .upsert(lines.map(l => ({
+            id: l.id,
+            format: l.format,
+            bank_date: l.bankDate,
+            description: l.description,
+            amount: l.amount,
+            fingerprint: l.fingerprint,
+            status: l.status,
+            imported_by: l.importedBy,
+            imported_at: l.importedAt,
+          })), { onConflict: 'fingerprint', ignoreDuplicates: true })
+          .select();
+        if (error) throw error;
+        return (data || []).map(mapStatementLineRow);
+      },
+
+      async listByStatus(statuses) {
+        const { data, error } = await supabase()
+          .from('bank_statement_lines')
+          .select('*')
+          .in('status', statuses)
+          .order('bank_date', { ascending: false })
+          .order('imported_at', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapStatementLineRow);
+      },
+
+      async update(id, expected, patch) {
+        const updates: any = {};
+        if (patch.status !== undefined) updates.status = patch.status;
+        if (patch.matchedTransactionId !== undefined) updates.matched_transaction_id = patch.matchedTransactionId;
+        if (patch.resolvedBy !== undefined) updates.resolved_by = patch.resolvedBy;
+        if (patch.resolvedAt !== undefined) updates.resolved_at = patch.resolvedAt;
+        const { data, error } = await supabase()
+          .from('bank_statement_lines')
+          .update(updates)
+          .eq('id', id)
+          .in('status', expected)
+          .select();
+        if (error) throw error;
+        return data && data.length > 0 ? mapStatementLineRow(data[0]) : null;
+      },
+    },
+
+    // Lihat supabase/migrations/0018_withdrawal_beneficiaries.sql
+    beneficiaries: {
+      async listByUser(userId) {
+        const { data, error } = await supabase()
+          .from('withdrawal_beneficiaries')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false });
+        if (error || !data) return [];
+        return data.map(mapBeneficiaryRow);
+      },
+
+      async getById(id) {
+        const { data, error } = await supabase().from('withdrawal_beneficiaries').select('*').eq('id', id).maybeSingle();
+        if (error || !data) return null;
+        return mapBeneficiaryRow(data);
+      },
+
+      async create(beneficiary) {
+        const { data, error } = await supabase()
+          .from('withdrawal_beneficiaries')
+          .insert([{
+            user_id: beneficiary.userId,
+            type: beneficiary.type,
+            provider_name: beneficiary.providerName,
+            account_number: beneficiary.accountNumber,
+            account_holder_name: beneficiary.accountHolderName,
+            nickname: beneficiary.nickname || null,
+          }])
+          .select()
+          .single();
+        if (error?.code === UNIQUE_VIOLATION) return null;
+        if (error) throw error;
+        return mapBeneficiaryRow(data);
+      },
+
+      async remove(id, userId) {
+        const { data, error } = await supabase()
+          .from('withdrawal_beneficiaries')
+          .delete()
+          .eq('id', id)
+          .eq('user_id', userId)
+          .select();
+        if (error) throw error;
+        return !!data && data.length > 0;
+      },
+    },
+
+    // Lihat supabase/migrations/0019_user_limit_overrides.sql
+    limitOverrides: {
+      async listByUser(userId) {
+        const { data, error } = await supabase().from('user_limit_overrides').select('*').eq('user_id', userId);
+        if (error || !data) return [];
+        return data.map(mapLimitOverrideRow);
+      },
+
+      async upsert(override) {
+        const { error } = await supabase()
+          .from('user_limit_overrides')
+          .upsert({
+            user_id: override.userId,
+            type: override.type,
+            limits: override.limits,
+            updated_by: override.updatedBy,
+            updated_at: override.updatedAt,
+          }, { onConflict: 'user_id,type' });
+        if (error) throw error;
+      },
+
+      async remove(userId, type) {
+        const { error } = await supabase().from('user_limit_overrides').delete().eq('user_id', userId).eq('type', type);
+        if (error) throw error;
+      },
+    },
+
+    feeSchedules: {
+      async list() {
+        const { data, error } = await supabase().from('fee_schedules').select('*');
+        if (error || !data) return [];
+        return data.map(mapFeeScheduleRow);
+      },
+
+      async upsert(schedules, updatedBy) {
+        const updatedAt = new Date().toISOString();
+        const { error } = await supabase()
+          .from('fee_schedules')
+          .upsert(schedules.map(s => ({
+            channel: s.channel,
+            fee_type: s.type,
+            flat_fee: s.flatFee,
+            percentage: s.percentage,
+            min_fee: s.minFee,
+            max_fee: s.maxFee,
+            tiers: s.tiers,
+            updated_by: updatedBy,
+            updated_at: updatedAt,
+          })), { onConflict: 'channel' });
+        if (error) throw error;
+      },
+    },
+  };
+};
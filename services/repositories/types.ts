@@ -0,0 +1,428 @@
+import {
+  AdminActionResult,
+  ApprovalRequest,
+  ApprovalStatus,
+  AuditLogEntry,
+  AuditLogFilter,
+  BankStatementLine,
+  Beneficiary,
+  CompanyBankInfo,
+  FeeSchedule,
+  DepositProof,
+  InvestmentContract,
+  InvestmentResult,
+  KycCase,
+  KycResult,
+  KycStatus,
+  LedgerEntry,
+  LimitedTransactionType,
+  LoginActivity,
+  LoginIdentifier,
+  NotificationItem,
+  OpenTradeResult,
+  StatementLineStatus,
+  TradeDirection,
+  TradeHistoryItem,
+  TransactionResult,
+  TransactionStatus,
+  TransactionType,
+  TransferDirection,
+  TransferResult,
+  TwoFactorStatus,
+  User,
+  UserLimitOverride,
+  UserSession,
+} from '../../types';
+
+// Profil user tanpa notifikasi (notifikasi diambil terpisah dari NotificationRepository).
+export type UserRecord = Omit<User, 'notifications'>;
+
+// emailVerified hanya diubah lewat konfirmasi email (AuthRepository.confirmEmail),
+// isVerified lewat persetujuan KYC (KycRepository.approve); isAdmin diturunkan dari roles.
+export type UserRecordUpdate = Partial<Omit<UserRecord, 'id' | 'email' | 'balance' | 'emailVerified' | 'isVerified' | 'isAdmin'>>;
+
+// Satu baris tabel transaksi, apa pun jenisnya. Service memetakannya ke union `Transaction`.
+export interface TransactionRecord {
+  id: string;
+  userId: string;
+  type: TransactionType;
+  amount: number;
+  method: string;
+  status: TransactionStatus;
+  date: string;
+  bankOrEwalletName?: string;
+  accountNumber?: string;
+  accountHolderName?: string;
+  proof?: DepositProof;
+  // Deposit: diisi backend saat dibuat (lihat TransactionRepository.create)
+  uniqueCode?: number;
+  referenceCode?: string;
+  direction?: TransferDirection;
+  counterpartyId?: string;
+  counterpartyEmail?: string;
+  idempotencyKey?: string;
+  // Withdrawal & transfer keluar: biaya yang diposting sebagai jurnal terpisah
+  fee?: number;
+}
+
+export type NewTransactionRecord = Omit<TransactionRecord, 'id'>;
+
+// Keputusan staf atas deposit/withdrawal PENDING.
+export interface TransactionStatusChange {
+  actorId: string;
+  transactionId: string;
+  status: TransactionStatus;
+  reason: string;
+}
+
+export interface BalanceAdjustmentRequest {
+  actorId: string;
+  userId: string;
+  // 'set' diposting sebagai selisih terhadap saldo ledger saat ini.
+  operation: 'set' | 'add';
+  amount: number;
+  reason: string;
+  // Memo jurnal; bila kosong dibentuk dari operasinya.
+  memo?: string;
+}
+
+export interface ApprovalDecision {
+  checkerId: string;
+  requestId: string;
+  decision: ApprovalStatus.APPROVED | ApprovalStatus.REJECTED;
+  reason: string;
+}
+
+export interface TransferRequest {
+  senderId: string;
+  recipientEmail: string;
+  amount: number;
+  // Dihitung transactionService dari jadwal biaya; backend Supabase memeriksanya ulang.
+  fee: number;
+  idempotencyKey: string;
+  // Kode authenticator baru; diperiksa backend bila user memakai 2FA (tidak untuk replay).
+  twoFactorCode?: string;
+}
+
+export interface WithdrawalRequest {
+  userId: string;
+  amount: number;
+  beneficiaryId: string;
+  // Dihitung transactionService dari jadwal biaya; backend memeriksanya ulang.
+  fee: number;
+  idempotencyKey: string;
+  twoFactorCode?: string;
+}
+
+export interface AuthResult {
+  userId: string | null;
+  error: string | null;
+  // Password benar tetapi email belum dikonfirmasi (backend menolak login).
+  emailNotConfirmed?: boolean;
+}
+
+// Perangkat yang mencoba login; disimpan bila percobaan gagal.
+export type LoginAttempt = Omit<LoginActivity, 'id' | 'userId' | 'event'>;
+
+export interface AuthRepository {
+  // `phoneNumber` sudah dinormalisasi ke format +62.
+  signUp(email: string, password: string, fullName: string, phoneNumber?: string): Promise<AuthResult>;
+  signIn(email: string, password: string): Promise<AuthResult>;
+  /**
+   * Mencari email akun untuk login dengan email, nomor HP atau username. Email
+   * hanya dikembalikan bila password cocok, sehingga tidak bisa dipakai untuk
+   * mengecek keberadaan akun. Password salah dicatat sebagai LOGIN_FAILED dengan
+   * `activity`; setelah 10 kegagalan dalam 15 menit akun selalu menghasilkan null.
+   */
+  resolveLoginEmail(identifier: LoginIdentifier, password: string, activity: LoginAttempt): Promise<string | null>;
+  /**
+   * Mengirim kode reset password sekali pakai yang berlaku terbatas ke email
+   * tersebut. Tidak memberi tahu apakah email terdaftar.
+   */
+  requestPasswordReset(email: string): Promise<void>;
+  // Memverifikasi kode reset lalu mengganti password. `userId` diisi bila berhasil.
+  resetPassword(email: string, code: string, newPassword: string): Promise<AuthResult>;
+  verifyPassword(email: string, password: string): Promise<boolean>;
+  /**
+   * Mengirim ulang kode verifikasi email; kode lama tidak berlaku lagi.
+   * Backend menolak permintaan yang terlalu sering (`retryAfterSeconds`).
+   */
+  sendEmailVerification(email: string): Promise<{ error: string | null; retryAfterSeconds?: number }>;
+  // Mengonfirmasi email dengan kode; `userId` diisi bila berhasil.
+  confirmEmail(email: string, code: string): Promise<AuthResult>;
+  // Mengganti password user yang sedang login.
+  updatePassword(userId: string, newPassword: string): Promise<void>;
+  signOut(): Promise<void>;
+  // Mencabut sesi auth backend di perangkat lain (refresh token).
+  signOutOthers(): Promise<void>;
+  getSessionUserId(): Promise<string | null>;
+}
+
+export interface UserRepository {
+  getById(id: string): Promise<UserRecord | null>;
+  getByEmail(email: string): Promise<UserRecord | null>;
+  list(): Promise<UserRecord[]>;
+  update(id: string, patch: UserRecordUpdate): Promise<UserRecord | null>;
+}
+
+export interface TransactionRepository {
+  /**
+   * Menyimpan transaksi baru. Bila `idempotencyKey` sudah dipakai user yang
+   * sama, baris lama dikembalikan dengan `created: false`. Deposit baru diberi
+   * `uniqueCode` yang membuat nominal transfernya unik di antara deposit PENDING,
+   * serta `referenceCode` acak.
+   */
+  create(record: NewTransactionRecord): Promise<{ record: TransactionRecord; created: boolean }>;
+  getById(id: string): Promise<TransactionRecord | null>;
+  findByIdempotencyKey(userId: string, idempotencyKey: string): Promise<TransactionRecord | null>;
+  listByUser(userId: string, type?: TransactionType): Promise<TransactionRecord[]>;
+  listAll(): Promise<TransactionRecord[]>;
+  /**
+   * Membatalkan deposit & withdrawal PENDING semua user yang melewati batas
+   * waktu, me-refund withdrawal dan memberi notifikasi, per transaksi secara
+   * atomik. Withdrawal yang menunggu persetujuan admin kedua dilewati.
+   * Mengembalikan jumlah transaksi yang dibatalkan.
+   */
+  expireStale(): Promise<number>;
+  /**
+   * Status baru, jurnal efek saldo (transactionStateMachine), audit log dan
+   * notifikasi member ditulis dalam satu langkah. Withdrawal SUCCESS di atas
+   * threshold disimpan sebagai permintaan persetujuan (`pendingApproval`).
+   * Hanya untuk staf keuangan.
+   */
+  changeStatus(change: TransactionStatusChange): Promise<AdminActionResult>;
+  // Hanya untuk deposit PENDING milik `userId`; false bila syarat itu tidak terpenuhi.
+  attachProof(id: string, userId: string, proof: DepositProof): Promise<boolean>;
+  // Transfer internal atomik: cek saldo, dua baris transaksi, jurnal ledger dan notifikasi sekaligus.
+  transfer(request: TransferRequest): Promise<TransferResult>;
+  /**
+   * Withdrawal atomik ke rekening tersimpan: cek email, masa tunggu rekening,
+   * limit, saldo, biaya dan kode 2FA, lalu baris PENDING, jurnal hold dan
+   * notifikasi sekaligus.
+   */
+  withdraw(request: WithdrawalRequest): Promise<TransactionResult>;
+}
+
+export interface NotificationRepository {
+  listByUser(userId: string): Promise<NotificationItem[]>;
+  add(userId: string, message: string): Promise<void>;
+  setRead(userId: string, notificationId: string, read: boolean): Promise<void>;
+}
+
+export interface CompanyBankInfoRepository {
+  list(): Promise<CompanyBankInfo[]>;
+  replaceAll(infoList: CompanyBankInfo[]): Promise<void>;
+}
+
+// Append-only: tidak ada update/delete untuk entri ledger.
+export interface LedgerRepository {
+  listByAccount(accountId: string): Promise<LedgerEntry[]>;
+  /**
+   * Penyesuaian saldo oleh staf keuangan: jurnal lawan system:adjustments,
+   * profiles.balance dan audit log sekaligus. Selisih di atas threshold
+   * disimpan sebagai permintaan persetujuan; saldo tidak boleh menjadi negatif.
+   */
+  adjustBalance(request: BalanceAdjustmentRequest): Promise<AdminActionResult>;
+}
+
+export interface OpenTradeRequest {
+  userId: string;
+  market: string;
+  direction: TradeDirection;
+  packageLabel: string;
+  amount: number;
+}
+
+/**
+ * Open dan settle berjalan atomik di sisi backend (open_trade dan
+ * settle_due_trades di Supabase): harga, saldo, posisi, jurnal escrow/PnL
+ * dan notifikasi tidak pernah ditulis langsung oleh klien.
+ */
+export interface TradeRepository {
+  listByUser(userId: string): Promise<TradeHistoryItem[]>;
+  // Stake minimum, paket dan harga pembukaan ditentukan backend.
+  open(request: OpenTradeRequest): Promise<OpenTradeResult>;
+  // Menyelesaikan posisi Pending milik user yang sudah expired (termasuk refund
+  // bila harga tidak tersedia sampai masa tenggang lewat); mengembalikan jumlahnya.
+  settleDue(userId: string): Promise<number>;
+}
+
+export interface PurchaseInvestmentRequest {
+  userId: string;
+  planId: string;
+  tierIndex: number;
+}
+
+// Seperti TradeRepository: pembelian dan payout berjalan atomik di backend
+// (purchase_investment dan process_investment_payouts di Supabase).
+export interface InvestmentRepository {
+  listByUser(userId: string): Promise<InvestmentContract[]>;
+  listAll(): Promise<InvestmentContract[]>;
+  // Modal, profit dan jadwal diambil dari plan di backend, bukan dari klien.
+  purchase(request: PurchaseInvestmentRequest): Promise<InvestmentResult>;
+  /**
+   * Membayar periode yang sudah lewat untuk kontrak Active milik `userId`,
+   * atau milik semua user bila `userId` tidak diisi (hanya staf dengan izin
+   * payout). Mengembalikan jumlah kontrak yang dibayar.
+   */
+  processDuePayouts(userId?: string): Promise<number>;
+}
+
+export type KycCaseUpdate = Partial<Omit<KycCase, 'id' | 'userId' | 'createdAt'>>;
+
+export interface KycApproval {
+  caseId: string;
+  reviewerId: string;
+  reason: string;
+}
+
+export interface KycRepository {
+  create(kycCase: KycCase): Promise<KycCase>;
+  getById(id: string): Promise<KycCase | null>;
+  // Pengajuan terbaru milik user (apa pun statusnya).
+  getLatestByUser(userId: string): Promise<KycCase | null>;
+  listByStatus(statuses: KycStatus[]): Promise<KycCase[]>;
+  /**
+   * Mengubah pengajuan hanya bila statusnya saat ini termasuk `expected`.
+   * Mengembalikan null bila status sudah berubah (mis. diambil admin lain).
+   */
+  update(id: string, expected: KycStatus[], patch: KycCaseUpdate): Promise<KycCase | null>;
+  /**
+   * Menyetujui pengajuan IN_REVIEW: status APPROVED, isVerified pemiliknya,
+   * audit log dan notifikasi ditulis dalam satu langkah. Hanya reviewer KYC
+   * selain pemilik pengajuan.
+   */
+  approve(approval: KycApproval): Promise<KycResult>;
+}
+
+export interface TwoFactorState extends TwoFactorStatus {
+  // true bila 2FA tidak aktif atau sesi login saat ini sudah memasukkan kode.
+  sessionVerified: boolean;
+}
+
+/**
+ * Secret TOTP dan hash recovery code tidak pernah dikirim balik ke klien;
+ * semua kode diperiksa oleh backend (lihat supabase/migrations/0026_server_side_two_factor.sql).
+ * Semua method bekerja atas user yang sedang login.
+ */
+export interface TwoFactorRepository {
+  getStatus(userId: string): Promise<TwoFactorState>;
+  // Menyimpan secret pendaftaran baru (belum aktif); gagal bila 2FA sudah aktif.
+  beginEnrollment(userId: string, secret: string): Promise<void>;
+  // Mengaktifkan 2FA bila `code` cocok dengan secret pendaftaran, lalu menandai sesi terverifikasi.
+  confirmEnrollment(userId: string, code: string, recoveryCodes: string[]): Promise<boolean>;
+  /**
+   * Memeriksa kode authenticator (time step sekali pakai) atau, bila
+   * `allowRecovery`, recovery code. Bila cocok sesi ditandai terverifikasi.
+   */
+  verify(userId: string, code: string, allowRecovery: boolean): Promise<boolean>;
+  // Mengganti seluruh recovery code; `code` harus kode authenticator yang valid.
+  replaceRecoveryCodes(userId: string, code: string, recoveryCodes: string[]): Promise<boolean>;
+  // Menonaktifkan 2FA; `code` boleh kode authenticator atau recovery code.
+  disable(userId: string, code: string): Promise<boolean>;
+}
+
+export interface LoginActivityRepository {
+  add(activity: LoginActivity): Promise<void>;
+  // Terbaru lebih dulu.
+  listByUser(userId: string, limit: number): Promise<LoginActivity[]>;
+  hasDevice(userId: string, deviceId: string): Promise<boolean>;
+}
+
+export interface SessionRepository {
+  create(session: UserSession): Promise<void>;
+  getById(id: string): Promise<UserSession | null>;
+  listActive(userId: string): Promise<UserSession[]>;
+  touch(id: string, lastSeenAt: string): Promise<void>;
+  revoke(id: string): Promise<void>;
+  // Mencabut semua sesi aktif milik user kecuali `keepId`.
+  revokeOthers(userId: string, keepId: string): Promise<void>;
+}
+
+export interface AuditLogRepository {
+  append(entry: Omit<AuditLogEntry, 'id' | 'timestamp'>): Promise<AuditLogEntry>;
+  // Terbaru lebih dulu.
+  list(filter: AuditLogFilter, limit: number): Promise<AuditLogEntry[]>;
+}
+
+// Permintaan dibuat oleh TransactionRepository.changeStatus dan LedgerRepository.adjustBalance.
+export interface ApprovalRepository {
+  getById(id: string): Promise<ApprovalRequest | null>;
+  // Terlama lebih dulu.
+  listByStatus(statuses: ApprovalStatus[]): Promise<ApprovalRequest[]>;
+  findPendingByTarget(targetId: string): Promise<ApprovalRequest | null>;
+  /**
+   * Memutuskan permintaan PENDING; pemeriksa harus berbeda dari pembuat dan
+   * dari user yang terdampak. Permintaan yang disetujui langsung dijalankan
+   * atas nama pemeriksa dalam langkah yang sama; bila gagal, tetap PENDING.
+   */
+  decide(decision: ApprovalDecision): Promise<AdminActionResult>;
+}
+
+export type BankStatementLineUpdate = Partial<Pick<BankStatementLine, 'status' | 'matchedTransactionId' | 'resolvedBy' | 'resolvedAt'>>;
+
+export interface BankStatementRepository {
+  // Menyimpan baris baru; baris dengan fingerprint yang sudah ada dilewati. Mengembalikan yang tersimpan.
+  addLines(lines: BankStatementLine[]): Promise<BankStatementLine[]>;
+  // Terbaru dulu
+  listByStatus(statuses: StatementLineStatus[]): Promise<BankStatementLine[]>;
+  // Perubahan kondisional: null bila status baris sudah berubah.
+  update(id: string, expected: StatementLineStatus[], patch: BankStatementLineUpdate): Promise<BankStatementLine | null>;
+}
+
+export interface BeneficiaryRepository {
+  // Terbaru dulu
+  listByUser(userId: string): Promise<Beneficiary[]>;
+  getById(id: string): Promise<Beneficiary | null>;
+  /**
+   * Null bila user sudah menyimpan rekening dengan tipe, provider dan nomor yang
+   * sama. createdAt/activeAt ditentukan backend dari pengaturan masa tunggunya
+   * (app_settings di Supabase), dan nama pemilik dicek ulang di sana.
+   */
+  create(beneficiary: Omit<Beneficiary, 'id' | 'createdAt' | 'activeAt'>): Promise<Beneficiary | null>;
+  remove(id: string, userId: string): Promise<boolean>;
+}
+
+export interface FeeScheduleRepository {
+  list(): Promise<FeeSchedule[]>;
+  // Menyimpan jadwal per saluran; saluran yang tidak disertakan tidak berubah.
+  upsert(schedules: FeeSchedule[], updatedBy: string): Promise<void>;
+}
+
+export interface LimitOverrideRepository {
+  listByUser(userId: string): Promise<UserLimitOverride[]>;
+  // Menyimpan (atau mengganti) limit khusus untuk satu tipe transaksi.
+  upsert(override: UserLimitOverride): Promise<void>;
+  remove(userId: string, type: LimitedTransactionType): Promise<void>;
+}
+
+// Bucket file private. Di Supabase dibuat oleh migration yang memakainya.
+export type StorageBucket = 'deposit-proofs' | 'kyc-documents';
+
+export interface FileStorageRepository {
+  upload(bucket: StorageBucket, path: string, file: Blob): Promise<void>;
+  // URL sementara untuk menampilkan/mengunduh file; null bila file tidak ada.
+  getViewUrl(bucket: StorageBucket, path: string): Promise<string | null>;
+}
+
+export interface DataRepository {
+  auth: AuthRepository;
+  users: UserRepository;
+  transactions: TransactionRepository;
+  notifications: NotificationRepository;
+  companyBankInfo: CompanyBankInfoRepository;
+  ledger: LedgerRepository;
+  trades: TradeRepository;
+  investments: InvestmentRepository;
+  kyc: KycRepository;
+  twoFactor: TwoFactorRepository;
+  loginActivity: LoginActivityRepository;
+  sessions: SessionRepository;
+  auditLog: AuditLogRepository;
+  approvals: ApprovalRepository;
+  storage: FileStorageRepository;
+  bankStatements: BankStatementRepository;
+  beneficiaries: BeneficiaryRepository;
+  limitOverrides: LimitOverrideRepository;
+  feeSchedules: FeeScheduleRepository;
+}
@@ -0,0 +1,35 @@
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * Menjalankan job secara berkala selama aplikasi terbuka: sekali segera, lalu
+ * setiap `intervalMs`. Putaran baru dilewati bila putaran sebelumnya belum
+ * selesai, dan error dicatat tanpa menghentikan jadwal. Mengembalikan fungsi
+ * untuk membatalkan job.
+ */
+export const scheduleJob = ({ name, intervalMs, run }: ScheduledJob): (() => void) => {
+  let running = false;
+  let cancelled = false;
+
+  const tick = async () => {
+    if (running || cancelled) return;
+    running = true;
+    try {
+      await run();
+    } catch (e) {
+      console.error(`Scheduled job "${name}" failed`, e);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  return () => {
+    cancelled = true;
+    clearInterval(timer);
+  };
+};
@@ -0,0 +1,190 @@
+import { DeviceInfo, LoginActivity, LoginEventType, UserSession } from '../types';
+import { LoginAttempt, repository } from './repositories';
+
+// ID perangkat bertahan lintas login; ID sesi dibuat ulang setiap login.
+const DEVICE_KEY = 'foreximf.device-id';
+const SESSION_KEY = 'foreximf.session-id';
+
+// lastSeenAt cukup diperbarui sesekali, bukan setiap refresh.
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+const ACTIVITY_LIMIT = 20;
+
+const readKey = (key: string): string | null => {
+  try {
+    return globalThis.localStorage?.getItem(key) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const writeKey = (key: string, value: string | null) => {
+  try {
+    if (value === null) globalThis.localStorage?.removeItem(key);
+    else globalThis.localStorage?.setItem(key, value);
+  } catch {
+    // localStorage tidak tersedia: sesi hanya hidup selama tab terbuka
+  }
+};
+
+const getDeviceId = (): string => {
+  let deviceId = readKey(DEVICE_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    writeKey(DEVICE_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+export const getCurrentSessionId = (): string | null => readKey(SESSION_KEY);
+
+const currentUserAgent = (): string => globalThis.navigator?.userAgent || 'Unknown';
+
+export const describeDevice = (userAgent: string): DeviceInfo => {
+  const ua = userAgent.toLowerCase();
+
+  let browser = 'Unknown browser';
+  if (ua.includes('edg/')) browser = 'Edge';
+  else if (ua.includes('opr/') || ua.includes('opera')) browser = 'Opera';
+  else if (ua.includes('samsungbrowser')) browser = 'Samsung Internet';
+  else if (ua.includes('firefox/') || ua.includes('fxios')) browser = 'Firefox';
+  else if (ua.includes('chrome/') || ua.includes('crios')) browser = 'Chrome';
+  else if (ua.includes('safari/')) browser = 'Safari';
+
+  let os = 'Unknown OS';
+  if (ua.includes('windows')) os = 'Windows';
+  else if (ua.includes('android')) os = 'Android';
+  else if (ua.includes('iphone') || ua.includes('ipad') || ua.includes('ipod')) os = 'iOS';
+  else if (ua.includes('mac os') || ua.includes('macintosh')) os = 'macOS';
+  else if (ua.includes('cros')) os = 'ChromeOS';
+  else if (ua.includes('linux')) os = 'Linux';
+
+  let deviceType: DeviceInfo['deviceType'] = 'Desktop';
+  if (ua.includes('ipad') || (ua.includes('android') && !ua.includes('mobile')) || ua.includes('tablet')) deviceType = 'Tablet';
+  else if (ua.includes('mobi') || ua.includes('iphone')) deviceType = 'Mobile';
+
+  return { browser, os, deviceType };
+};
+
+export const formatDevice = (device: DeviceInfo): string => `${device.browser} on ${device.os} (${device.deviceType})`;
+
+const buildActivity = (userId: string, event: LoginEventType, sessionId?: string): LoginActivity => {
+  const userAgent = currentUserAgent();
+  return {
+    id: crypto.randomUUID(),
+    userId,
+    event,
+    timestamp: new Date().toISOString(),
+    userAgent,
+    device: describeDevice(userAgent),
+    deviceId: getDeviceId(),
+    sessionId,
+  };
+};
+
+const createSession = async (userId: string): Promise<UserSession> => {
+  const userAgent = currentUserAgent();
+  const createdAt = new Date().toISOString();
+  const session: UserSession = {
+    id: crypto.randomUUID(),
+    userId,
+    deviceId: getDeviceId(),
+    userAgent,
+    device: describeDevice(userAgent),
+    createdAt,
+    lastSeenAt: createdAt,
+  };
+  await repository.sessions.create(session);
+  writeKey(SESSION_KEY, session.id);
+  return session;
+};
+
+/**
+ * Dipanggil setelah password terverifikasi: membuat sesi baru, mencatat login
+ * dan mengirim notifikasi bila perangkat ini belum pernah dipakai login.
+ * Kegagalan pencatatan tidak membatalkan login.
+ */
+export const startSession = async (userId: string): Promise<void> => {
+  try {
+    const deviceId = getDeviceId();
+    const knownDevice = await repository.loginActivity.hasDevice(userId, deviceId);
+    const hasPreviousLogin = (await repository.loginActivity.listByUser(userId, 1)).length > 0;
+
+    const session = await createSession(userId);
+    await repository.loginActivity.add(buildActivity(userId, LoginEventType.LOGIN, session.id));
+
+    if (!knownDevice && hasPreviousLogin) {
+      await repository.notifications.add(
+        userId,
+        `Keamanan: Login baru dari perangkat yang belum dikenal (${formatDevice(session.device)}) pada ${new Date(session.createdAt).toLocaleString('id-ID')}. Jika ini bukan Anda, segera ganti password dan keluarkan sesi lain dari halaman Security.`,
+      );
+    }
+  } catch (e) {
+    console.error('Failed to record login', e);
+  }
+};
+
+// Perangkat saat ini untuk resolveLoginEmail, yang mencatat percobaan gagal.
+export const currentLoginAttempt = (): LoginAttempt => {
+  const { timestamp, userAgent, device, deviceId } = buildActivity('', LoginEventType.LOGIN_FAILED);
+  return { timestamp, userAgent, device, deviceId };
+};
+
+export const endSession = async (userId: string): Promise<void> => {
+  const sessionId = getCurrentSessionId();
+  writeKey(SESSION_KEY, null);
+  try {
+    await repository.loginActivity.add(buildActivity(userId, LoginEventType.LOGOUT, sessionId || undefined));
+    if (sessionId) await repository.sessions.revoke(sessionId);
+  } catch (e) {
+    console.error('Failed to record logout', e);
+  }
+};
+
+/**
+ * Mengecek sesi browser ini masih aktif (belum dikeluarkan dari perangkat
+ * lain). Login lama yang belum punya sesi tercatat dibuatkan sesi baru.
+ */
+export const validateSession = async (userId: string): Promise<boolean> => {
+  try {
+    const sessionId = getCurrentSessionId();
+    const session = sessionId ? await repository.sessions.getById(sessionId) : null;
+    if (!session || session.userId !== userId) {
+      await createSession(userId);
+      return true;
+    }
+    if (session.revokedAt) {
+      writeKey(SESSION_KEY, null);
+      return false;
+    }
+    const now = new Date();
+    if (now.getTime() - new Date(session.lastSeenAt).getTime() > TOUCH_INTERVAL_MS) {
+      await repository.sessions.touch(session.id, now.toISOString());
+    }
+    return true;
+  } catch (e) {
+    // Tabel sesi belum tersedia/tidak terjangkau: jangan mengunci user keluar
+    console.error('Failed to validate session', e);
+    return true;
+  }
+};
+
+export const getLoginActivity = async (userId: string): Promise<LoginActivity[]> =>
+  repository.loginActivity.listByUser(userId, ACTIVITY_LIMIT);
+
+export const getActiveSessions = async (userId: string): Promise<UserSession[]> =>
+  repository.sessions.listActive(userId);
+
+export const signOutOtherSessions = async (userId: string, notify = true): Promise<void> => {
+  const sessionId = getCurrentSessionId() || (await createSession(userId)).id;
+  await repository.auth.signOutOthers();
+  await repository.sessions.revokeOthers(userId, sessionId);
+  if (notify) await repository.notifications.add(userId, 'Keamanan: Semua sesi di perangkat lain telah dikeluarkan.');
+};
+
+// Setelah reset password: semua sesi, termasuk yang di browser ini, berakhir.
+export const revokeAllSessions = async (userId: string): Promise<void> => {
+  const sessions = await repository.sessions.listActive(userId);
+  await Promise.all(sessions.map(s => repository.sessions.revoke(s.id)));
+  writeKey(SESSION_KEY, null);
+};
@@ -0,0 +1,82 @@
+/**
+ * TOTP (RFC 6238) dengan HMAC-SHA1, 6 digit dan periode 30 detik: parameter
+ * default yang didukung Google Authenticator, Authy, 1Password, dll.
+ * Seluruh perhitungan memakai WebCrypto.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+export const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+export const base32Decode = (input: string): Uint8Array => {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+  for (const ch of clean) {
+    const index = BASE32_ALPHABET.indexOf(ch);
+    if (index < 0) throw new Error('Invalid base32 secret.');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(output);
+};
+
+// Secret 160-bit sesuai rekomendasi RFC 4226.
+export const generateSecret = (): string => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+const hotp = async (secret: string, counter: number): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+};
+
+export const timeStep = (at: number = Date.now()): number => Math.floor(at / 1000 / TOTP_PERIOD_SECONDS);
+
+export const generateTotp = (secret: string, at: number = Date.now()): Promise<string> => hotp(secret, timeStep(at));
+
+/**
+ * Mencocokkan kode dengan toleransi `window` periode sebelum/sesudah untuk
+ * selisih jam perangkat. Mengembalikan time step yang cocok (untuk mencegah
+ * kode yang sama dipakai ulang) atau null.
+ */
+export const verifyTotp = async (secret: string, code: string, at: number = Date.now(), window = 1): Promise<number | null> => {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const current = timeStep(at);
+  for (let offset = -window; offset <= window; offset++) {
+    if (await hotp(secret, current + offset) === normalized) return current + offset;
+  }
+  return null;
+};
+
+export const buildOtpAuthUri = (issuer: string, accountName: string, secret: string): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(TOTP_PERIOD_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
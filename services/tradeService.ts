@@ -0,0 +1,48 @@
+import { OpenTradeResult, TradeDirection, TradeHistoryItem, TradePackage } from '../types';
+import { repository } from './repositories';
+import { config } from '../config';
+
+export const getTradeHistory = async (userId: string): Promise<TradeHistoryItem[]> => {
+  return repository.trades.listByUser(userId);
+};
+
+/**
+ * Membuka posisi. Harga pembukaan, cek saldo, jurnal escrow dan penyimpanan
+ * posisi dikerjakan backend dalam satu langkah (open_trade di Supabase);
+ * pemeriksaan di sini hanya agar pesan error cepat muncul.
+ */
+export const openTrade = async (
+  userId: string,
+  market: string,
+  direction: TradeDirection,
+  amount: number,
+  tradePackage: TradePackage,
+): Promise<OpenTradeResult> => {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { success: false, message: 'Invalid stake amount.' };
+  }
+  if (amount < config.trading.minStake) {
+    return { success: false, message: `Minimum stake is Rp ${config.trading.minStake.toLocaleString('id-ID')}.` };
+  }
+
+  try {
+    return await repository.trades.open({ userId, market, direction, packageLabel: tradePackage.label, amount });
+  } catch (e: any) {
+    console.error("Open trade error", e);
+    return { success: false, message: e?.message || 'Failed to open trade.' };
+  }
+};
+
+/**
+ * Menyelesaikan semua posisi user yang sudah expired dengan harga saat expiry.
+ * Di Supabase pg_cron juga menjalankannya, jadi posisi tetap selesai walau
+ * user tidak membuka aplikasi. Mengembalikan jumlah posisi yang diselesaikan.
+ */
+export const settleDueTrades = async (userId: string): Promise<number> => {
+  try {
+    return await repository.trades.settleDue(userId);
+  } catch (e) {
+    console.error("Settle trade error", e);
+    return 0;
+  }
+};
@@ -5,329 +5,403 @@ import {
   TransferTransaction,
   TransactionType,
   TransactionStatus,
+  TransferDirection,
+  TransferErrorCode,
+  TransferResult,
+  TransactionResult,
   CompanyBankInfo,
+  Permission,
+  AuditAction,
+  LedgerEntry,
+  BalanceReconciliation,
+  AdminActionResult,
+  ApprovalStatus,
+  FeeChannel,
 } from '../types';
-import { supabase } from './supabaseClient';
+import { repository, TransactionRecord } from './repositories';
 import * as authService from './authService';
+import * as ledgerService from './ledgerService';
+import * as twoFactorService from './twoFactorService';
+import { requireVerifiedEmail } from './emailVerificationService';
+import { withIdempotency } from './idempotency';
+import { requirePermission } from './permissions';
+import { recordAdminAction, requireReason } from './auditService';
+import { getTransitionRule } from './transactionStateMachine';
+import { getPayableBeneficiary } from './beneficiaryService';
+import { checkLimits } from './limitsService';
+import { getFee, getWithdrawalFeeChannel } from './feeService';
+import { decideApproval } from './approvalService';
+import { config } from '../config';
 
 export const getCompanyBankInfoList = async (): Promise<CompanyBankInfo[]> => {
-  const { data, error } = await supabase
-    .from('company_bank_info')
-    .select('*');
-  
-  if (error || !data) return [];
-  
-  return data.map((item: any) => ({
-    id: item.id,
-    bankName: item.bank_name,
-    accountNumber: item.account_number,
-    accountHolderName: item.account_holder_name
-  }));
+  return repository.companyBankInfo.list();
 };
 
-export const setCompanyBankInfoList = async (infoList: CompanyBankInfo[]): Promise<void> => {
-  await supabase.from('company_bank_info').delete().neq('id', '00000000-0000-0000-0000-000000000000'); 
-  
-  const dbItems = infoList.map(i => ({
-    bank_name: i.bankName,
-    account_number: i.accountNumber,
-    account_holder_name: i.accountHolderName
-  }));
+export const setCompanyBankInfoList = async (actorId: string, infoList: CompanyBankInfo[], reason: string): Promise<void> => {
+  await requirePermission(actorId, Permission.SETTINGS_MANAGE);
+  requireReason(reason);
+  const before = await repository.companyBankInfo.list();
+  await repository.companyBankInfo.replaceAll(infoList);
+  await recordAdminAction({
+    actorId,
+    action: AuditAction.COMPANY_BANK_INFO,
+    before: { banks: before },
+    after: { banks: infoList },
+    reason,
+  });
+};
 
-  await supabase.from('company_bank_info').insert(dbItems);
+// Bangun ulang hasil asli dari baris transaksi yang sudah tersimpan.
+const replayResult = (t: TransactionRecord, amount: number, successMessage: string): TransactionResult => {
+  if (t.amount !== amount) {
+    return { success: false, message: 'Idempotency key was already used for a different request.', transactionId: t.id, replayed: true };
+  }
+  const success = t.status !== TransactionStatus.FAILED;
+  return { success, message: success ? successMessage : 'Request failed.', transactionId: t.id, replayed: true };
 };
 
-export const deposit = async (userId: string, amount: number): Promise<boolean> => {
-  try {
-    const { error } = await supabase
-      .from('transactions')
-      .insert([{
-        user_id: userId,
+export const deposit = (userId: string, amount: number, idempotencyKey: string): Promise<TransactionResult> =>
+  withIdempotency(`deposit:${userId}`, idempotencyKey, async () => {
+    const successMessage = 'Deposit request created.';
+    try {
+      const existing = await repository.transactions.findByIdempotencyKey(userId, idempotencyKey);
+      if (existing) return replayResult(existing, amount, successMessage);
+
+      const emailError = await requireVerifiedEmail(userId);
+      if (emailError) return { success: false, message: emailError };
+
+      if (amount < config.limits.minDeposit) {
+        return { success: false, message: `Minimum deposit amount is Rp ${config.limits.minDeposit.toLocaleString('id-ID')}.` };
+      }
+
+      const { record: t, created } = await repository.transactions.create({
+        userId,
         type: TransactionType.DEPOSIT,
         amount: amount,
         method: 'Bank Transfer',
         status: TransactionStatus.PENDING,
         date: new Date().toISOString(),
-      }]);
-
-    if (error) throw error;
-
-    // Notifikasi awal saat user request
-    await authService.addUserNotification(userId, `Permintaan Deposit sebesar Rp ${amount.toLocaleString('id-ID')} telah dibuat. Menunggu konfirmasi Admin.`);
-    return true;
-  } catch (e) {
-    console.error("Deposit error", e);
-    return false;
-  }
-};
+        idempotencyKey,
+      });
+      if (!created) return replayResult(t, amount, successMessage);
+
+      // Notifikasi awal saat user request
+      await authService.addUserNotification(
+        userId,
+        `Permintaan Deposit telah dibuat. Transfer tepat Rp ${depositTransferAmount(t).toLocaleString('id-ID')}${t.referenceCode ? ` dengan berita ${t.referenceCode}` : ''} agar dapat dicocokkan otomatis.`,
+      );
+      return { success: true, message: successMessage, transactionId: t.id, replayed: false };
+    } catch (e: any) {
+      console.error("Deposit error", e);
+      return { success: false, message: e?.message || 'Deposit failed.' };
+    }
+  });
 
-export const withdraw = async (
+/**
+ * Penarikan hanya ke rekening tersimpan yang sudah melewati masa tunggu (lihat
+ * beneficiaryService). Baris PENDING, hold dana dan biaya serta notifikasi
+ * dibuat repository dalam satu langkah (di Supabase lewat `request_withdrawal`,
+ * yang juga memeriksa ulang limit, saldo dan kode 2FA). Pemeriksaan di sini
+ * hanya agar pesan error cepat muncul.
+ */
+export const withdraw = (
   userId: string,
   amount: number,
-  method: string,
-  bankOrEwalletName: string,
-  accountNumber: string,
-  accountHolderName: string,
-): Promise<boolean> => {
-  try {
-    const user = await authService.getCurrentUser();
-    if (!user || user.balance < amount) return false;
-
-    // 1. Deduct balance (Optimistic)
-    const newBalance = user.balance - amount;
-    await authService.updateUserBalance(userId, newBalance);
-
-    // 2. Create Transaction
-    const { error } = await supabase
-      .from('transactions')
-      .insert([{
-        user_id: userId,
-        type: TransactionType.WITHDRAWAL,
-        amount: amount,
-        method: method,
-        bank_or_ewallet_name: bankOrEwalletName,
-        account_number: accountNumber,
-        account_holder_name: accountHolderName,
-        status: TransactionStatus.PENDING,
-        date: new Date().toISOString(),
-      }]);
-
-    if (error) {
-      // Rollback balance if transaction fails
-      await authService.updateUserBalance(userId, user.balance);
-      throw error;
+  beneficiaryId: string,
+  idempotencyKey: string,
+  twoFactorCode?: string,
+): Promise<TransactionResult> =>
+  withIdempotency(`withdraw:${userId}`, idempotencyKey, async () => {
+    const successMessage = 'Withdrawal submitted.';
+    try {
+      const existing = await repository.transactions.findByIdempotencyKey(userId, idempotencyKey);
+      if (existing) return replayResult(existing, amount, successMessage);
+
+      const emailError = await requireVerifiedEmail(userId);
+      if (emailError) return { success: false, message: emailError };
+
+      const { beneficiary, error: beneficiaryError } = await getPayableBeneficiary(userId, beneficiaryId);
+      if (!beneficiary) return { success: false, message: beneficiaryError || 'Select a saved withdrawal account.' };
+
+      if (!twoFactorCode && (await twoFactorService.isEnabled(userId))) {
+        return { success: false, message: 'Enter the code from your authenticator app to continue.' };
+      }
+
+      const limitError = await checkLimits(userId, TransactionType.WITHDRAWAL, amount);
+      if (limitError) return { success: false, message: limitError };
+
+      const fee = await getFee(getWithdrawalFeeChannel(beneficiary.type), amount);
+      const balance = await ledgerService.getUserBalance(userId);
+      if (balance < amount + fee) {
+        return { success: false, message: fee > 0 ? `Insufficient balance for the amount plus the Rp ${fee.toLocaleString('id-ID')} fee.` : 'Insufficient balance.' };
+      }
+
+      return await repository.transactions.withdraw({ userId, amount, beneficiaryId, fee, idempotencyKey, twoFactorCode });
+    } catch (e: any) {
+      console.error("Withdrawal error", e);
+      return { success: false, message: e?.message || 'Withdrawal failed.' };
     }
+  });
 
-    // Notifikasi awal saat user request
-    await authService.addUserNotification(userId, `Permintaan Penarikan (Withdrawal) sebesar Rp ${amount.toLocaleString('id-ID')} sedang diproses. Saldo telah dikurangi sementara.`);
-    return true;
-  } catch (e) {
-    console.error("Withdrawal error", e);
-    return false;
+/**
+ * Transfer dijalankan sebagai satu operasi atomik oleh repository (di Supabase
+ * lewat fungsi `transfer_funds`, lihat supabase/migrations/0027_server_side_transaction_limits.sql):
+ * saldo dicek saat commit, baris transaksi pengirim & penerima serta jurnal
+ * ledger dibuat bersamaan, sehingga tidak ada kondisi setengah jadi.
+ */
+export const transfer = (userId: string, recipientEmail: string, amount: number, idempotencyKey: string, twoFactorCode?: string): Promise<TransferResult> => {
+  if (!amount || amount <= 0) {
+    return Promise.resolve({ success: false, message: 'Invalid amount.', errorCode: TransferErrorCode.INVALID_AMOUNT });
   }
-};
 
-export const transfer = async (userId: string, recipientEmail: string, amount: number): Promise<{ success: boolean; message: string }> => {
-  try {
-    const sender = await authService.getCurrentUser();
-    if (!sender || sender.balance < amount) {
-        return { success: false, message: 'Insufficient balance.' };
+  return withIdempotency(`transfer:${userId}`, idempotencyKey, async () => {
+    try {
+      const fee = await getFee(FeeChannel.TRANSFER, amount);
+      // Replay dengan key yang sama tidak meminta kode baru; hasilnya diambil dari transfer sebelumnya
+      const existing = await repository.transactions.findByIdempotencyKey(userId, idempotencyKey);
+      if (!existing) {
+        const emailError = await requireVerifiedEmail(userId);
+        if (emailError) return { success: false, message: emailError, errorCode: TransferErrorCode.EMAIL_NOT_VERIFIED };
+        // Kodenya sendiri diperiksa repository (transfer_funds) supaya tidak terpakai dua kali
+        if (!twoFactorCode && (await twoFactorService.isEnabled(userId))) {
+          return { success: false, message: 'Enter the code from your authenticator app to continue.', errorCode: TransferErrorCode.TWO_FACTOR_REQUIRED };
+        }
+        const limitError = await checkLimits(userId, TransactionType.TRANSFER, amount);
+        if (limitError) return { success: false, message: limitError, errorCode: TransferErrorCode.LIMIT_EXCEEDED };
+      }
+
+      return await repository.transactions.transfer({
+        senderId: userId,
+        recipientEmail: recipientEmail.trim(),
+        amount,
+        fee,
+        idempotencyKey,
+        twoFactorCode,
+      });
+    } catch (e: any) {
+      console.error("Transfer error", e);
+      return { success: false, message: e.message || 'Transfer failed.', errorCode: TransferErrorCode.FAILED };
     }
+  });
+};
 
-    // Find Recipient
-    const { data: recipientData, error: recipientError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('email', recipientEmail)
-        .single();
-    
-    if (recipientError || !recipientData) {
-        return { success: false, message: 'Recipient email not found.' };
-    }
+const mapTransferRow = (t: TransactionRecord): TransferTransaction => ({
+  id: t.id,
+  userId: t.userId,
+  type: TransactionType.TRANSFER,
+  amount: t.amount,
+  // Baris lama (sebelum kolom direction ada) selalu sisi pengirim
+  direction: t.direction || TransferDirection.OUT,
+  counterpartyEmail: t.counterpartyEmail || t.bankOrEwalletName || '',
+  fee: t.fee || 0,
+  status: t.status,
+  date: t.date,
+  method: 'Internal Transfer',
+});
+
+const EXPIRY_WINDOW_MS: Partial<Record<TransactionType, number>> = {
+  [TransactionType.DEPOSIT]: config.expiry.depositMs,
+  [TransactionType.WITHDRAWAL]: config.expiry.withdrawalMs,
+};
 
-    // Deduct from Sender
-    await authService.updateUserBalance(sender.id, sender.balance - amount);
-    
-    // Add to Recipient
-    await authService.updateUserBalance(recipientData.id, recipientData.balance + amount);
+// Batas waktu transaksi PENDING; undefined bila sudah final atau kedaluwarsa dimatikan.
+const getExpiresAt = (t: TransactionRecord): string | undefined => {
+  const windowMs = EXPIRY_WINDOW_MS[t.type];
+  if (!windowMs || t.status !== TransactionStatus.PENDING) return undefined;
+  return new Date(new Date(t.date).getTime() + windowMs).toISOString();
+};
 
-    // Record Transaction (Sender Side)
-    await supabase.from('transactions').insert([{
-        user_id: userId,
-        type: TransactionType.TRANSFER,
-        amount: amount,
-        method: 'Internal Transfer',
-        status: TransactionStatus.SUCCESS,
-        date: new Date().toISOString(),
-        bank_or_ewallet_name: recipientEmail // Storing recipient in this field for simplicity
-    }]);
+// Nominal yang ditransfer member dan dikreditkan saat deposit disetujui, termasuk kode unik.
+export const depositTransferAmount = (t: { amount: number; uniqueCode?: number }): number => t.amount + (t.uniqueCode || 0);
+
+const mapDepositRow = (t: TransactionRecord): DepositTransaction => ({
+  id: t.id,
+  userId: t.userId,
+  type: TransactionType.DEPOSIT,
+  amount: t.amount,
+  method: t.method,
+  status: t.status,
+  date: t.date,
+  uniqueCode: t.uniqueCode,
+  referenceCode: t.referenceCode,
+  transferAmount: depositTransferAmount(t),
+  proof: t.proof,
+  expiresAt: getExpiresAt(t),
+});
+
+const mapWithdrawalRow = (t: TransactionRecord): WithdrawalTransaction => ({
+  id: t.id,
+  userId: t.userId,
+  type: TransactionType.WITHDRAWAL,
+  amount: t.amount,
+  method: t.method,
+  bankOrEwalletName: t.bankOrEwalletName || '',
+  accountNumber: t.accountNumber || '',
+  accountHolderName: t.accountHolderName || '',
+  fee: t.fee || 0,
+  status: t.status,
+  date: t.date,
+  expiresAt: getExpiresAt(t),
+});
+
+export const getTransferHistory = async (userId: string): Promise<TransferTransaction[]> => {
+  const rows = await repository.transactions.listByUser(userId, TransactionType.TRANSFER);
+  return rows.map(mapTransferRow);
+};
+
+export const getDepositHistory = async (userId: string): Promise<DepositTransaction[]> => {
+  const rows = await repository.transactions.listByUser(userId, TransactionType.DEPOSIT);
+  return rows.map(t => ({ ...mapDepositRow(t), companyBankInfoList: [] }));
+};
 
-    await authService.addUserNotification(sender.id, `Transfer Berhasil: Mengirim Rp ${amount.toLocaleString('id-ID')} ke ${recipientEmail}.`);
-    await authService.addUserNotification(recipientData.id, `Dana Masuk: Menerima Rp ${amount.toLocaleString('id-ID')} dari ${sender.email}.`);
+export const getWithdrawalHistory = async (userId: string): Promise<WithdrawalTransaction[]> => {
+  const rows = await repository.transactions.listByUser(userId, TransactionType.WITHDRAWAL);
+  return rows.map(mapWithdrawalRow);
+};
 
-    return { success: true, message: 'Transfer successful.' };
+export const DEPOSIT_PROOF_MAX_MB = 2;
+export const DEPOSIT_PROOF_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
 
-  } catch (e: any) {
-    console.error("Transfer error", e);
-    return { success: false, message: e.message || 'Transfer failed.' };
-  }
+// Dipakai form sebelum upload dan service saat menerima file.
+export const validateDepositProof = (file: { type: string; size: number }): string | null => {
+  if (!DEPOSIT_PROOF_TYPES.includes(file.type)) return 'Invalid format. Please use JPG, PNG, or PDF.';
+  if (file.size > DEPOSIT_PROOF_MAX_MB * 1024 * 1024) return `File size should be less than ${DEPOSIT_PROOF_MAX_MB}MB.`;
+  return null;
 };
 
-export const getDepositHistory = async (userId: string): Promise<DepositTransaction[]> => {
-  const { data, error } = await supabase
-    .from('transactions')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('type', TransactionType.DEPOSIT)
-    .order('date', { ascending: false });
-
-  if (error) return [];
-
-  return data.map((t: any) => ({
-    id: t.id,
-    userId: t.user_id,
-    type: TransactionType.DEPOSIT,
-    amount: t.amount,
-    method: t.method,
-    status: t.status,
-    date: t.date,
-    companyBankInfoList: [] 
-  }));
+/**
+ * Melampirkan bukti transfer ke deposit milik user. Bisa diganti selama
+ * deposit masih PENDING; setelah diputuskan admin, bukti dikunci.
+ */
+export const attachDepositProof = async (userId: string, depositId: string, file: File): Promise<TransactionResult> => {
+  const validationError = validateDepositProof(file);
+  if (validationError) return { success: false, message: validationError };
+
+  const t = await repository.transactions.getById(depositId);
+  if (!t || t.type !== TransactionType.DEPOSIT || t.userId !== userId) {
+    return { success: false, message: 'Deposit not found.' };
+  }
+  if (t.status !== TransactionStatus.PENDING) {
+    return { success: false, message: 'Proof can only be attached while the deposit is pending.' };
+  }
+
+  try {
+    const extension = file.type === 'application/pdf' ? 'pdf' : file.type === 'image/png' ? 'png' : 'jpg';
+    // Folder pertama = user id, dipakai policy storage di Supabase
+    const path = `${userId}/${depositId}/${crypto.randomUUID()}.${extension}`;
+    await repository.storage.upload('deposit-proofs', path, file);
+    const attached = await repository.transactions.attachProof(depositId, userId, {
+      path,
+      fileName: file.name,
+      contentType: file.type,
+      uploadedAt: new Date().toISOString(),
+    });
+    if (!attached) return { success: false, message: 'Proof can only be attached while the deposit is pending.' };
+    return { success: true, message: 'Proof of transfer uploaded.', transactionId: depositId };
+  } catch (e: any) {
+    console.error('Deposit proof upload error', e);
+    return { success: false, message: e?.message || 'Failed to upload proof of transfer.' };
+  }
 };
 
-export const getWithdrawalHistory = async (userId: string): Promise<WithdrawalTransaction[]> => {
-  const { data, error } = await supabase
-    .from('transactions')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('type', TransactionType.WITHDRAWAL)
-    .order('date', { ascending: false });
-
-  if (error) return [];
-
-  return data.map((t: any) => ({
-    id: t.id,
-    userId: t.user_id,
-    type: TransactionType.WITHDRAWAL,
-    amount: t.amount,
-    method: t.method,
-    bankOrEwalletName: t.bank_or_ewallet_name,
-    accountNumber: t.account_number,
-    accountHolderName: t.account_holder_name,
-    status: t.status,
-    date: t.date,
-  }));
+// Pemilik deposit atau staf yang boleh melihat transaksi.
+export const getDepositProofUrl = async (actorId: string, depositId: string): Promise<string | null> => {
+  const t = await repository.transactions.getById(depositId);
+  if (!t || t.type !== TransactionType.DEPOSIT || !t.proof) return null;
+  if (t.userId !== actorId) await requirePermission(actorId, Permission.TRANSACTIONS_VIEW);
+  if (t.proof.legacyUrl) return t.proof.legacyUrl;
+  return repository.storage.getViewUrl('deposit-proofs', t.proof.path);
 };
 
-export const getAllTransactions = async (): Promise<Transaction[]> => {
-  const { data, error } = await supabase
-    .from('transactions')
-    .select('*')
-    .order('date', { ascending: false });
-
-  if (error) return [];
-
-  return data.map((t: any) => {
-    const base = {
-      id: t.id,
-      userId: t.user_id,
-      amount: t.amount,
-      status: t.status,
-      date: t.date,
-      method: t.method,
-    };
-    if (t.type === TransactionType.DEPOSIT) {
-      return { ...base, type: TransactionType.DEPOSIT } as DepositTransaction;
-    } else if (t.type === TransactionType.TRANSFER) {
-      return { ...base, type: TransactionType.TRANSFER, recipientEmail: t.bank_or_ewallet_name } as TransferTransaction;
-    } else {
-      return {
-        ...base,
-        type: TransactionType.WITHDRAWAL,
-        bankOrEwalletName: t.bank_or_ewallet_name,
-        accountNumber: t.account_number,
-        accountHolderName: t.account_holder_name
-      } as WithdrawalTransaction;
-    }
+export const getAllTransactions = async (actorId: string): Promise<Transaction[]> => {
+  await requirePermission(actorId, Permission.TRANSACTIONS_VIEW);
+  const rows = await repository.transactions.listAll();
+  return rows.map((t): Transaction => {
+    if (t.type === TransactionType.DEPOSIT) return mapDepositRow(t);
+    if (t.type === TransactionType.TRANSFER) return mapTransferRow(t);
+    return mapWithdrawalRow(t);
   });
 };
 
-export const updateDepositStatus = async (depositId: string, status: TransactionStatus): Promise<boolean> => {
-  try {
-    const { data: t } = await supabase.from('transactions').select('*').eq('id', depositId).single();
-    if (!t) return false;
-
-    // Do not update if status is same
-    if (t.status === status) return true;
-
-    const { error } = await supabase
-      .from('transactions')
-      .update({ status: status })
-      .eq('id', depositId);
-    
-    if (error) throw error;
-
-    // LOGIKA UPDATE SALDO DAN NOTIFIKASI MEMBER
-    if (t.status !== TransactionStatus.SUCCESS && status === TransactionStatus.SUCCESS) {
-        // Status berubah jadi SUCCESS (Done)
-        const { data: profile } = await supabase.from('profiles').select('balance').eq('id', t.user_id).single();
-        if (profile) {
-            await authService.updateUserBalance(t.user_id, profile.balance + t.amount);
-            // Notifikasi Spesifik
-            await authService.addUserNotification(t.user_id, `Deposit Berhasil (DONE): Saldo sebesar Rp ${t.amount.toLocaleString('id-ID')} telah ditambahkan ke akun Anda.`);
-        }
-    } else if (t.status === TransactionStatus.SUCCESS && status !== TransactionStatus.SUCCESS) {
-        // Status dibatalkan dari Success (Revert)
-        const { data: profile } = await supabase.from('profiles').select('balance').eq('id', t.user_id).single();
-        if (profile) {
-            await authService.updateUserBalance(t.user_id, profile.balance - t.amount);
-            await authService.addUserNotification(t.user_id, `Koreksi Deposit: Status deposit Rp ${t.amount.toLocaleString('id-ID')} diubah menjadi ${status}. Saldo disesuaikan.`);
-        }
-    } else if (status === TransactionStatus.REJECTED) {
-         await authService.addUserNotification(t.user_id, `Deposit Ditolak: Permintaan deposit Rp ${t.amount.toLocaleString('id-ID')} tidak disetujui.`);
-    } else {
-         await authService.addUserNotification(t.user_id, `Status deposit #${depositId.substring(0,8)}... diperbarui menjadi ${status}.`);
-    }
+export const updateDepositStatus = async (actorId: string, depositId: string, status: TransactionStatus, reason: string): Promise<boolean> => {
+  await requirePermission(actorId, Permission.TRANSACTIONS_MANAGE);
+  const trimmedReason = requireReason(reason);
+  const t = await repository.transactions.getById(depositId);
+  if (!t || t.type !== TransactionType.DEPOSIT) return false;
+  if (t.status === status) return true;
 
-    return true;
+  // Transisi ilegal dilempar sebagai IllegalTransitionError, bukan sekadar false
+  getTransitionRule(t.type, t.status, status);
+  try {
+    const result = await repository.transactions.changeStatus({ actorId, transactionId: depositId, status, reason: trimmedReason });
+    if (!result.success) console.error(result.message);
+    return result.success;
   } catch (e) {
     console.error(e);
     return false;
   }
 };
 
-export const updateWithdrawalStatus = async (withdrawalId: string, status: TransactionStatus): Promise<boolean> => {
+/**
+ * Status, jurnal, audit log dan notifikasi ditulis repository dalam satu
+ * langkah (di Supabase lewat `admin_update_transaction_status`, yang juga
+ * menahan SUCCESS di atas threshold sebagai permintaan persetujuan dan
+ * mengunci penarikan selama permintaan itu menunggu).
+ */
+export const updateWithdrawalStatus = async (actorId: string, withdrawalId: string, status: TransactionStatus, reason: string): Promise<AdminActionResult> => {
+  await requirePermission(actorId, Permission.TRANSACTIONS_MANAGE);
+  const trimmedReason = requireReason(reason);
+  const t = await repository.transactions.getById(withdrawalId);
+  if (!t || t.type !== TransactionType.WITHDRAWAL) return { success: false, message: 'Penarikan tidak ditemukan.' };
+  if (t.status === status) return { success: true, message: 'Status tidak berubah.' };
+
+  getTransitionRule(t.type, t.status, status);
   try {
-    const { data: t } = await supabase.from('transactions').select('*').eq('id', withdrawalId).single();
-    if (!t) return false;
-
-    // Do not update if status is same
-    if (t.status === status) return true;
-
-    // Identify Refund Statuses
-    const isRefundedStatus = (s: TransactionStatus) => 
-        [TransactionStatus.REJECTED, TransactionStatus.CANCELLED, TransactionStatus.FAILED].includes(s);
-
-    const currentlyRefunded = isRefundedStatus(t.status);
-    const willBeRefunded = isRefundedStatus(status);
-
-    // If changing from Refunded to Not Refunded (e.g. Rejected -> Pending/Success) -> DEDUCT balance again
-    // If changing from Not Refunded to Refunded (e.g. Pending/Success -> Rejected) -> REFUND balance
-    
-    const { data: profile } = await supabase.from('profiles').select('balance').eq('id', t.user_id).single();
-    
-    if (profile) {
-        let newBalance = profile.balance;
-        if (currentlyRefunded && !willBeRefunded) {
-            newBalance -= t.amount;
-        } else if (!currentlyRefunded && willBeRefunded) {
-            newBalance += t.amount;
-        }
+    return await repository.transactions.changeStatus({ actorId, transactionId: withdrawalId, status, reason: trimmedReason });
+  } catch (e: any) {
+    console.error(e);
+    return { success: false, message: e?.message || 'Gagal memperbarui status penarikan.' };
+  }
+};
 
-        if (newBalance !== profile.balance) {
-            await authService.updateUserBalance(t.user_id, newBalance);
-        }
-    }
+/**
+ * Membatalkan deposit & withdrawal PENDING semua user yang melewati batas
+ * waktu (withdrawal di-refund seperti pembatalan admin). Hanya staf keuangan;
+ * di Supabase pg_cron juga menjalankannya. Mengembalikan jumlah transaksi yang
+ * dibatalkan.
+ */
+export const expireStaleTransactions = async (actorId: string): Promise<number> => {
+  await requirePermission(actorId, Permission.TRANSACTIONS_MANAGE);
+  return repository.transactions.expireStale();
+};
 
-    const { error } = await supabase
-      .from('transactions')
-      .update({ status: status })
-      .eq('id', withdrawalId);
+/**
+ * 'set' diposting sebagai selisih terhadap saldo ledger saat ini. Threshold
+ * persetujuan diperiksa repository (di Supabase `admin_adjust_balance`).
+ */
+export const adjustUserBalance = async (actorId: string, userId: string, amount: number, type: 'set' | 'add', reason: string): Promise<AdminActionResult> => {
+  await requirePermission(actorId, Permission.BALANCE_ADJUST);
+  const trimmedReason = requireReason(reason);
+  try {
+    return await repository.ledger.adjustBalance({ actorId, userId, operation: type, amount, reason: trimmedReason });
+  } catch (e: any) {
+    console.error(e);
+    return { success: false, message: e?.message || 'Gagal memperbarui saldo.' };
+  }
+};
 
-    if (error) throw error;
+// Aksi yang disetujui dijalankan atas nama pemeriksa; bila gagal, permintaan tetap PENDING.
+export const approveRequest = (checkerId: string, requestId: string, reason: string): Promise<AdminActionResult> =>
+  decideApproval(checkerId, requestId, ApprovalStatus.APPROVED, reason);
 
-    // LOGIKA NOTIFIKASI MEMBER UNTUK WITHDRAWAL
-    if (status === TransactionStatus.SUCCESS) {
-        await authService.addUserNotification(t.user_id, `Penarikan Berhasil (DONE): Dana sebesar Rp ${t.amount.toLocaleString('id-ID')} telah dikirim ke rekening tujuan.`);
-    } else if (status === TransactionStatus.REJECTED || status === TransactionStatus.CANCELLED) {
-        await authService.addUserNotification(t.user_id, `Penarikan Ditolak/Batal: Dana Rp ${t.amount.toLocaleString('id-ID')} telah dikembalikan ke saldo akun Anda.`);
-    } else {
-        await authService.addUserNotification(t.user_id, `Status penarikan #${withdrawalId.substring(0,8)}... diperbarui menjadi ${status}.`);
-    }
+export const rejectRequest = (checkerId: string, requestId: string, reason: string): Promise<AdminActionResult> =>
+  decideApproval(checkerId, requestId, ApprovalStatus.REJECTED, reason);
 
-    return true;
-  } catch (e) {
-    console.error(e);
-    return false;
-  }
-};
\ No newline at end of file
+export const getUserLedger = async (actorId: string, userId: string): Promise<{ entries: LedgerEntry[]; reconciliation: BalanceReconciliation }> => {
+  await requirePermission(actorId, Permission.LEDGER_VIEW);
+  const [entries, reconciliation] = await Promise.all([
+    ledgerService.getAccountEntries(userId),
+    ledgerService.reconcileBalance(userId),
+  ]);
+  return { entries, reconciliation };
+};
@@ -0,0 +1,93 @@
+import { TransactionStatus, TransactionType } from '../types';
+import { IllegalTransitionError } from './errors';
+
+/**
+ * State machine status deposit & withdrawal. Semua transaksi dimulai PENDING;
+ * status lain bersifat final. Koreksi setelah status final dilakukan lewat
+ * penyesuaian saldo admin, bukan dengan membuka kembali transaksi.
+ */
+
+// Efek saldo yang dijalankan repository saat transisi terjadi (apply_transaction_status di Supabase)
+export enum BalanceEffect {
+  NONE = 'NONE',
+  // Deposit masuk: BANK_DEPOSITS -> wallet user
+  CREDIT_DEPOSIT = 'CREDIT_DEPOSIT',
+  // Dana & biaya withdrawal yang di-hold dikembalikan: WITHDRAWALS_PAYABLE -> wallet user
+  RELEASE_WITHDRAWAL_HOLD = 'RELEASE_WITHDRAWAL_HOLD',
+  // Withdrawal terkirim, biayanya diakui: WITHDRAWALS_PAYABLE -> FEE_INCOME
+  COLLECT_WITHDRAWAL_FEE = 'COLLECT_WITHDRAWAL_FEE',
+}
+
+export interface TransitionRule {
+  to: TransactionStatus;
+  balanceEffect: BalanceEffect;
+  notification: (amount: number, transactionId: string) => string;
+}
+
+export type ManagedTransactionType = TransactionType.DEPOSIT | TransactionType.WITHDRAWAL;
+
+const rupiah = (amount: number) => `Rp ${amount.toLocaleString('id-ID')}`;
+
+const TRANSITIONS: Record<ManagedTransactionType, Partial<Record<TransactionStatus, TransitionRule[]>>> = {
+  [TransactionType.DEPOSIT]: {
+    [TransactionStatus.PENDING]: [
+      {
+        to: TransactionStatus.SUCCESS,
+        balanceEffect: BalanceEffect.CREDIT_DEPOSIT,
+        notification: (amount) => `Deposit Berhasil (DONE): Saldo sebesar ${rupiah(amount)} telah ditambahkan ke akun Anda.`,
+      },
+      {
+        to: TransactionStatus.REJECTED,
+        balanceEffect: BalanceEffect.NONE,
+        notification: (amount) => `Deposit Ditolak: Permintaan deposit ${rupiah(amount)} tidak disetujui.`,
+      },
+      {
+        to: TransactionStatus.CANCELLED,
+        balanceEffect: BalanceEffect.NONE,
+        notification: (amount) => `Deposit Dibatalkan: Permintaan deposit ${rupiah(amount)} telah dibatalkan.`,
+      },
+    ],
+  },
+  [TransactionType.WITHDRAWAL]: {
+    [TransactionStatus.PENDING]: [
+      {
+        to: TransactionStatus.SUCCESS,
+        balanceEffect: BalanceEffect.COLLECT_WITHDRAWAL_FEE,
+        notification: (amount) => `Penarikan Berhasil (DONE): Dana sebesar ${rupiah(amount)} telah dikirim ke rekening tujuan.`,
+      },
+      {
+        to: TransactionStatus.REJECTED,
+        balanceEffect: BalanceEffect.RELEASE_WITHDRAWAL_HOLD,
+        notification: (amount) => `Penarikan Ditolak: Dana ${rupiah(amount)} telah dikembalikan ke saldo akun Anda.`,
+      },
+      {
+        to: TransactionStatus.CANCELLED,
+        balanceEffect: BalanceEffect.RELEASE_WITHDRAWAL_HOLD,
+        notification: (amount) => `Penarikan Dibatalkan: Dana ${rupiah(amount)} telah dikembalikan ke saldo akun Anda.`,
+      },
+      {
+        to: TransactionStatus.FAILED,
+        balanceEffect: BalanceEffect.RELEASE_WITHDRAWAL_HOLD,
+        notification: (amount, id) => `Penarikan #${id.substring(0, 8)}... gagal diproses. Dana ${rupiah(amount)} telah dikembalikan ke saldo akun Anda.`,
+      },
+    ],
+  },
+};
+
+const isManagedType = (type: TransactionType): type is ManagedTransactionType =>
+  type === TransactionType.DEPOSIT || type === TransactionType.WITHDRAWAL;
+
+const rulesFrom = (type: TransactionType, from: TransactionStatus): TransitionRule[] =>
+  isManagedType(type) ? TRANSITIONS[type][from] || [] : [];
+
+export const getAllowedTransitions = (type: TransactionType, from: TransactionStatus): TransactionStatus[] =>
+  rulesFrom(type, from).map(rule => rule.to);
+
+export const isTerminalStatus = (type: TransactionType, status: TransactionStatus): boolean =>
+  rulesFrom(type, status).length === 0;
+
+export const getTransitionRule = (type: TransactionType, from: TransactionStatus, to: TransactionStatus): TransitionRule => {
+  const rule = rulesFrom(type, from).find(r => r.to === to);
+  if (!rule) throw new IllegalTransitionError(type, from, to);
+  return rule;
+};
@@ -0,0 +1,76 @@
+import { TwoFactorEnrollment, TwoFactorResult, TwoFactorStatus } from '../types';
+import { repository } from './repositories';
+import { base32Encode, buildOtpAuthUri, generateSecret } from './totp';
+import { config } from '../config';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Format xxxxx-xxxxx agar mudah dicatat.
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+export const getStatus = async (userId: string): Promise<TwoFactorStatus> => {
+  const { enabled, enabledAt, recoveryCodesRemaining } = await repository.twoFactor.getStatus(userId);
+  return { enabled, enabledAt, recoveryCodesRemaining };
+};
+
+export const isEnabled = async (userId: string): Promise<boolean> => (await repository.twoFactor.getStatus(userId)).enabled;
+
+/**
+ * Apakah sesi login saat ini sudah melewati langkah kedua. Dicatat oleh
+ * backend per sesi, jadi tidak bisa dilewati dengan mengubah storage browser.
+ */
+export const isSessionVerified = async (userId: string): Promise<boolean> =>
+  (await repository.twoFactor.getStatus(userId)).sessionVerified;
+
+// Langkah kedua login: kode authenticator atau salah satu recovery code (sekali pakai).
+export const verifyCode = (userId: string, code: string): Promise<boolean> =>
+  repository.twoFactor.verify(userId, code, true);
+
+/**
+ * Memastikan kode authenticator yang baru dimasukkan user sebelum aksi
+ * sensitif (withdrawal, transfer). Mengembalikan pesan error, atau null bila
+ * boleh lanjut. User tanpa 2FA aktif selalu lolos.
+ */
+export const requireFreshCode = async (userId: string, code?: string): Promise<string | null> => {
+  if (!(await isEnabled(userId))) return null;
+  if (!code) return 'Enter the code from your authenticator app to continue.';
+  if (!(await repository.twoFactor.verify(userId, code, false))) return 'Invalid or already used authenticator code.';
+  return null;
+};
+
+export const beginEnrollment = async (userId: string, accountName: string): Promise<TwoFactorEnrollment> => {
+  const secret = generateSecret();
+  await repository.twoFactor.beginEnrollment(userId, secret);
+  return { secret, otpauthUri: buildOtpAuthUri(config.branding.appName, accountName, secret) };
+};
+
+export const confirmEnrollment = async (userId: string, code: string): Promise<TwoFactorResult> => {
+  const codes = generateRecoveryCodes();
+  if (!(await repository.twoFactor.confirmEnrollment(userId, code, codes))) {
+    return { success: false, message: 'Invalid code. Check the time on your device and try again, or start the setup again.' };
+  }
+  await repository.notifications.add(userId, 'Keamanan: Autentikasi dua faktor (2FA) telah diaktifkan pada akun Anda.');
+  return { success: true, message: 'Two-factor authentication enabled.', recoveryCodes: codes };
+};
+
+export const regenerateRecoveryCodes = async (userId: string, code: string): Promise<TwoFactorResult> => {
+  if (!(await isEnabled(userId))) return { success: false, message: 'Two-factor authentication is not enabled.' };
+
+  const codes = generateRecoveryCodes();
+  if (!(await repository.twoFactor.replaceRecoveryCodes(userId, code, codes))) {
+    return { success: false, message: 'Invalid or already used authenticator code.' };
+  }
+  return { success: true, message: 'New recovery codes generated. Old codes no longer work.', recoveryCodes: codes };
+};
+
+export const disable = async (userId: string, code: string): Promise<TwoFactorResult> => {
+  if (!(await isEnabled(userId))) return { success: false, message: 'Two-factor authentication is not enabled.' };
+  if (!(await repository.twoFactor.disable(userId, code))) return { success: false, message: 'Invalid code.' };
+
+  await repository.notifications.add(userId, 'Keamanan: Autentikasi dua faktor (2FA) telah dinonaktifkan pada akun Anda.');
+  return { success: true, message: 'Two-factor authentication disabled.' };
+};
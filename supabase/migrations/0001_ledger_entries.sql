@@ -0,0 +1,48 @@
+-- Buku besar double-entry. Setiap perubahan saldo diposting sebagai jurnal
+-- seimbang (total DEBIT = total CREDIT per journal_id). profiles.balance
+-- hanyalah cache yang dihitung ulang dari entri-entri ini.
+
+create table if not exists public.ledger_entries (
+  id uuid primary key default gen_random_uuid(),
+  journal_id uuid not null,
+  account_id text not null,
+  direction text not null check (direction in ('DEBIT', 'CREDIT')),
+  amount numeric(18, 2) not null check (amount > 0),
+  transaction_id uuid references public.transactions (id),
+  memo text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ledger_entries_account_idx on public.ledger_entries (account_id, created_at desc);
+create index if not exists ledger_entries_journal_idx on public.ledger_entries (journal_id);
+create index if not exists ledger_entries_transaction_idx on public.ledger_entries (transaction_id);
+
+-- Entri bersifat immutable: koreksi dilakukan dengan jurnal pembalik, bukan UPDATE/DELETE.
+create or replace function public.ledger_entries_immutable()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'ledger_entries is append-only';
+end;
+$$;
+
+drop trigger if exists ledger_entries_no_update on public.ledger_entries;
+create trigger ledger_entries_no_update
+  before update or delete on public.ledger_entries
+  for each row execute function public.ledger_entries_immutable();
+
+alter table public.ledger_entries enable row level security;
+
+drop policy if exists "ledger_entries_select_own" on public.ledger_entries;
+create policy "ledger_entries_select_own" on public.ledger_entries
+  for select to authenticated
+  using (
+    account_id = auth.uid()::text
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin)
+  );
+
+drop policy if exists "ledger_entries_insert" on public.ledger_entries;
+create policy "ledger_entries_insert" on public.ledger_entries
+  for insert to authenticated
+  with check (true);
@@ -0,0 +1,121 @@
+-- Transfer internal yang atomik. Seluruh langkah (cek saldo, dua baris
+-- transaksi, jurnal ledger, update saldo, notifikasi) berjalan dalam satu
+-- transaksi database; kegagalan di langkah mana pun membatalkan semuanya.
+
+alter table public.transactions add column if not exists direction text check (direction in ('IN', 'OUT'));
+alter table public.transactions add column if not exists counterparty_id uuid references public.profiles (id);
+alter table public.transactions add column if not exists counterparty_email text;
+
+-- Catat profiles.balance lama sebagai saldo awal bila akun belum punya entri ledger.
+create or replace function public.ledger_ensure_opening_balance(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_balance numeric;
+  v_journal uuid := gen_random_uuid();
+begin
+  if exists (select 1 from ledger_entries where account_id = p_user_id::text) then
+    return;
+  end if;
+
+  select balance into v_balance from profiles where id = p_user_id;
+  if coalesce(v_balance, 0) = 0 then
+    return;
+  end if;
+
+  insert into ledger_entries (journal_id, account_id, direction, amount, memo)
+  values
+    (v_journal, 'system:opening_balance', case when v_balance > 0 then 'DEBIT' else 'CREDIT' end, abs(v_balance), 'Saldo awal (migrasi ke ledger)'),
+    (v_journal, p_user_id::text, case when v_balance > 0 then 'CREDIT' else 'DEBIT' end, abs(v_balance), 'Saldo awal (migrasi ke ledger)');
+end;
+$$;
+
+create or replace function public.transfer_funds(
+  p_sender_id uuid,
+  p_recipient_email text,
+  p_amount numeric
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sender profiles%rowtype;
+  v_recipient profiles%rowtype;
+  v_recipient_id uuid;
+  v_sender_tx uuid;
+  v_recipient_tx uuid;
+  v_journal uuid := gen_random_uuid();
+  v_now timestamptz := now();
+  v_amount_label text;
+begin
+  if auth.uid() is distinct from p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED', 'message', 'Not allowed to transfer from this account.');
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'message', 'Invalid amount.');
+  end if;
+
+  select id into v_recipient_id from profiles where lower(email) = lower(trim(p_recipient_email));
+  if v_recipient_id is null then
+    return jsonb_build_object('success', false, 'code', 'RECIPIENT_NOT_FOUND', 'message', 'Recipient email not found.');
+  end if;
+
+  if v_recipient_id = p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'SELF_TRANSFER', 'message', 'Cannot transfer to your own account.');
+  end if;
+
+  -- Kunci kedua profil dalam urutan id yang tetap agar dua transfer berlawanan arah tidak deadlock.
+  perform 1 from profiles where id in (p_sender_id, v_recipient_id) order by id for update;
+  select * into v_sender from profiles where id = p_sender_id;
+  select * into v_recipient from profiles where id = v_recipient_id;
+
+  perform ledger_ensure_opening_balance(p_sender_id);
+  perform ledger_ensure_opening_balance(v_recipient_id);
+
+  if v_sender.balance < p_amount then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE', 'message', 'Insufficient balance.');
+  end if;
+
+  insert into transactions (user_id, type, amount, method, status, date, direction, counterparty_id, counterparty_email, bank_or_ewallet_name)
+  values (p_sender_id, 'TRANSFER', p_amount, 'Internal Transfer', 'SUCCESS', v_now, 'OUT', v_recipient_id, v_recipient.email, v_recipient.email)
+  returning id into v_sender_tx;
+
+  insert into transactions (user_id, type, amount, method, status, date, direction, counterparty_id, counterparty_email, bank_or_ewallet_name)
+  values (v_recipient_id, 'TRANSFER', p_amount, 'Internal Transfer', 'SUCCESS', v_now, 'IN', p_sender_id, v_sender.email, v_sender.email)
+  returning id into v_recipient_tx;
+
+  insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, memo, created_at)
+  values
+    (v_journal, p_sender_id::text, 'DEBIT', p_amount, v_sender_tx, 'Transfer internal ' || v_sender.email || ' -> ' || v_recipient.email, v_now),
+    (v_journal, v_recipient_id::text, 'CREDIT', p_amount, v_recipient_tx, 'Transfer internal ' || v_sender.email || ' -> ' || v_recipient.email, v_now);
+
+  update profiles set balance = balance - p_amount where id = p_sender_id;
+  update profiles set balance = balance + p_amount where id = v_recipient_id;
+
+  -- Cek ulang saat commit: saldo tidak boleh negatif apa pun yang terjadi di antaranya.
+  if (select balance from profiles where id = p_sender_id) < 0 then
+    raise exception 'Insufficient balance at commit time';
+  end if;
+
+  v_amount_label := 'Rp ' || replace(to_char(p_amount, 'FM999G999G999G999'), ',', '.');
+  insert into notifications (user_id, message, date, read)
+  values
+    (p_sender_id, 'Transfer Berhasil: Mengirim ' || v_amount_label || ' ke ' || v_recipient.email || '.', v_now, false),
+    (v_recipient_id, 'Dana Masuk: Menerima ' || v_amount_label || ' dari ' || v_sender.email || '.', v_now, false);
+
+  return jsonb_build_object(
+    'success', true,
+    'code', null,
+    'message', 'Transfer successful.',
+    'transaction_id', v_sender_tx
+  );
+end;
+$$;
+
+grant execute on function public.transfer_funds(uuid, text, numeric) to authenticated;
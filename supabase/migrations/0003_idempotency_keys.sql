@@ -0,0 +1,126 @@
+-- Kunci idempotensi dari client. Satu kunci hanya boleh menghasilkan satu
+-- baris transaksi per user; permintaan ulang dengan kunci yang sama
+-- mengembalikan hasil transaksi aslinya.
+
+alter table public.transactions add column if not exists idempotency_key text;
+
+create unique index if not exists transactions_user_idempotency_key_idx
+  on public.transactions (user_id, idempotency_key)
+  where idempotency_key is not null;
+
+-- transfer_funds versi baru menerima p_idempotency_key.
+drop function if exists public.transfer_funds(uuid, text, numeric);
+
+create or replace function public.transfer_funds(
+  p_sender_id uuid,
+  p_recipient_email text,
+  p_amount numeric,
+  p_idempotency_key text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sender profiles%rowtype;
+  v_recipient profiles%rowtype;
+  v_recipient_id uuid;
+  v_existing transactions%rowtype;
+  v_sender_tx uuid;
+  v_recipient_tx uuid;
+  v_journal uuid := gen_random_uuid();
+  v_now timestamptz := now();
+  v_amount_label text;
+begin
+  if auth.uid() is distinct from p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED', 'message', 'Not allowed to transfer from this account.');
+  end if;
+
+  if p_idempotency_key is null or length(p_idempotency_key) = 0 then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Missing idempotency key.');
+  end if;
+
+  -- Replay: kunci sudah pernah dipakai, kembalikan hasil aslinya.
+  select * into v_existing from transactions
+    where user_id = p_sender_id and idempotency_key = p_idempotency_key;
+  if found then
+    if v_existing.amount <> p_amount or lower(v_existing.counterparty_email) <> lower(trim(p_recipient_email)) then
+      return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Idempotency key was already used for a different request.');
+    end if;
+    return jsonb_build_object(
+      'success', v_existing.status = 'SUCCESS',
+      'code', case when v_existing.status = 'SUCCESS' then null else 'FAILED' end,
+      'message', 'Transfer successful.',
+      'transaction_id', v_existing.id,
+      'replayed', true
+    );
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'message', 'Invalid amount.');
+  end if;
+
+  select id into v_recipient_id from profiles where lower(email) = lower(trim(p_recipient_email));
+  if v_recipient_id is null then
+    return jsonb_build_object('success', false, 'code', 'RECIPIENT_NOT_FOUND', 'message', 'Recipient email not found.');
+  end if;
+
+  if v_recipient_id = p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'SELF_TRANSFER', 'message', 'Cannot transfer to your own account.');
+  end if;
+
+  perform 1 from profiles where id in (p_sender_id, v_recipient_id) order by id for update;
+  select * into v_sender from profiles where id = p_sender_id;
+  select * into v_recipient from profiles where id = v_recipient_id;
+
+  perform ledger_ensure_opening_balance(p_sender_id);
+  perform ledger_ensure_opening_balance(v_recipient_id);
+
+  if v_sender.balance < p_amount then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE', 'message', 'Insufficient balance.');
+  end if;
+
+  begin
+    insert into transactions (user_id, type, amount, method, status, date, direction, counterparty_id, counterparty_email, bank_or_ewallet_name, idempotency_key)
+    values (p_sender_id, 'TRANSFER', p_amount, 'Internal Transfer', 'SUCCESS', v_now, 'OUT', v_recipient_id, v_recipient.email, v_recipient.email, p_idempotency_key)
+    returning id into v_sender_tx;
+  exception when unique_violation then
+    -- Permintaan kembar yang berjalan bersamaan; yang pertama menang.
+    select id into v_sender_tx from transactions where user_id = p_sender_id and idempotency_key = p_idempotency_key;
+    return jsonb_build_object('success', true, 'code', null, 'message', 'Transfer successful.', 'transaction_id', v_sender_tx, 'replayed', true);
+  end;
+
+  insert into transactions (user_id, type, amount, method, status, date, direction, counterparty_id, counterparty_email, bank_or_ewallet_name)
+  values (v_recipient_id, 'TRANSFER', p_amount, 'Internal Transfer', 'SUCCESS', v_now, 'IN', p_sender_id, v_sender.email, v_sender.email)
+  returning id into v_recipient_tx;
+
+  insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, memo, created_at)
+  values
+    (v_journal, p_sender_id::text, 'DEBIT', p_amount, v_sender_tx, 'Transfer internal ' || v_sender.email || ' -> ' || v_recipient.email, v_now),
+    (v_journal, v_recipient_id::text, 'CREDIT', p_amount, v_recipient_tx, 'Transfer internal ' || v_sender.email || ' -> ' || v_recipient.email, v_now);
+
+  update profiles set balance = balance - p_amount where id = p_sender_id;
+  update profiles set balance = balance + p_amount where id = v_recipient_id;
+
+  if (select balance from profiles where id = p_sender_id) < 0 then
+    raise exception 'Insufficient balance at commit time';
+  end if;
+
+  v_amount_label := 'Rp ' || replace(to_char(p_amount, 'FM999G999G999G999'), ',', '.');
+  insert into notifications (user_id, message, date, read)
+  values
+    (p_sender_id, 'Transfer Berhasil: Mengirim ' || v_amount_label || ' ke ' || v_recipient.email || '.', v_now, false),
+    (v_recipient_id, 'Dana Masuk: Menerima ' || v_amount_label || ' dari ' || v_sender.email || '.', v_now, false);
+
+  return jsonb_build_object(
+    'success', true,
+    'code', null,
+    'message', 'Transfer successful.',
+    'transaction_id', v_sender_tx,
+    'replayed', false
+  );
+end;
+$$;
+
+grant execute on function public.transfer_funds(uuid, text, numeric, text) to authenticated;
@@ -0,0 +1,48 @@
+-- Posisi binary option dari Trade page. Stake dikunci di akun ledger
+-- system:trade_escrow saat posisi dibuka dan diselesaikan saat expiry.
+
+create table if not exists public.trades (
+  id uuid primary key,
+  user_id uuid not null references public.profiles (id),
+  market text not null,
+  direction text not null check (direction in ('BUY', 'SELL')),
+  package text not null,
+  amount numeric(18, 2) not null check (amount > 0),
+  rate_stake numeric(24, 10) not null,
+  rate_end numeric(24, 10),
+  status text not null default 'Pending' check (status in ('Pending', 'Win', 'Loss')),
+  payout_ratio numeric(8, 4) not null,
+  payout numeric(18, 2),
+  opened_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  settled_at timestamptz
+);
+
+create index if not exists trades_user_idx on public.trades (user_id, opened_at desc);
+create index if not exists trades_pending_idx on public.trades (user_id, expires_at) where status = 'Pending';
+
+alter table public.trades enable row level security;
+
+drop policy if exists "trades_select_own" on public.trades;
+create policy "trades_select_own" on public.trades
+  for select to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin)
+  );
+
+drop policy if exists "trades_insert_own" on public.trades;
+create policy "trades_insert_own" on public.trades
+  for insert to authenticated
+  with check (user_id = auth.uid() and status = 'Pending');
+
+-- Hanya posisi Pending yang boleh diselesaikan (Pending -> Win/Loss sekali saja).
+drop policy if exists "trades_settle_own" on public.trades;
+create policy "trades_settle_own" on public.trades
+  for update to authenticated
+  using (user_id = auth.uid() and status = 'Pending')
+  with check (user_id = auth.uid() and status in ('Win', 'Loss'));
+
+-- Referensi entri ledger ke objek non-transaksi, mis. 'trade:<uuid>'.
+alter table public.ledger_entries add column if not exists reference text;
+create index if not exists ledger_entries_reference_idx on public.ledger_entries (reference);
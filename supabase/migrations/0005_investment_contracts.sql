@@ -0,0 +1,52 @@
+-- Kontrak investasi dari Investment page. Modal dipindahkan ke akun ledger
+-- system:investment_principal saat pembelian; profit dibayar bertahap dari
+-- system:investment_profit dan modal dikembalikan saat jatuh tempo.
+
+create table if not exists public.investment_contracts (
+  id uuid primary key,
+  user_id uuid not null references public.profiles (id),
+  plan_id text not null,
+  plan_name text not null,
+  principal numeric(18, 2) not null check (principal > 0),
+  projected_profit numeric(18, 2) not null check (projected_profit >= 0),
+  term_days integer not null check (term_days > 0),
+  start_date timestamptz not null default now(),
+  maturity_date timestamptz not null,
+  payout_interval_ms bigint not null check (payout_interval_ms > 0),
+  total_periods integer not null check (total_periods > 0),
+  paid_periods integer not null default 0 check (paid_periods >= 0 and paid_periods <= total_periods),
+  paid_profit numeric(18, 2) not null default 0,
+  status text not null default 'Active' check (status in ('Active', 'Matured')),
+  last_payout_at timestamptz
+);
+
+create index if not exists investment_contracts_user_idx on public.investment_contracts (user_id, start_date desc);
+create index if not exists investment_contracts_active_idx on public.investment_contracts (status) where status = 'Active';
+
+alter table public.investment_contracts enable row level security;
+
+drop policy if exists "investment_contracts_select_own" on public.investment_contracts;
+create policy "investment_contracts_select_own" on public.investment_contracts
+  for select to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin)
+  );
+
+drop policy if exists "investment_contracts_insert_own" on public.investment_contracts;
+create policy "investment_contracts_insert_own" on public.investment_contracts
+  for insert to authenticated
+  with check (user_id = auth.uid() and status = 'Active' and paid_periods = 0 and paid_profit = 0);
+
+-- Pembayaran hanya untuk kontrak Active; admin boleh menjalankan payout untuk semua user.
+drop policy if exists "investment_contracts_payout" on public.investment_contracts;
+create policy "investment_contracts_payout" on public.investment_contracts
+  for update to authenticated
+  using (
+    status = 'Active'
+    and (
+      user_id = auth.uid()
+      or exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin)
+    )
+  )
+  with check (status in ('Active', 'Matured'));
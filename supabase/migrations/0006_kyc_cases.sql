@@ -0,0 +1,79 @@
+-- Pengajuan KYC dari KYC page. User mengisi draft lalu mengirimnya; admin
+-- mereview dan hanya persetujuan (APPROVED) yang mengaktifkan
+-- profiles.is_verified.
+
+create table if not exists public.kyc_cases (
+  id uuid primary key,
+  user_id uuid not null references public.profiles (id),
+  status text not null default 'DRAFT'
+    check (status in ('DRAFT', 'SUBMITTED', 'IN_REVIEW', 'APPROVED', 'REJECTED')),
+  identity jsonb not null default '{}'::jsonb,
+  -- { "ID_CARD": {fileName, mimeType, dataUrl, uploadedAt}, "SELFIE": ..., "PROOF_OF_ADDRESS": ... }
+  documents jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  submitted_at timestamptz,
+  review_started_at timestamptz,
+  reviewed_at timestamptz,
+  reviewer_id uuid references public.profiles (id),
+  rejection_reason text,
+  check (status <> 'REJECTED' or coalesce(rejection_reason, '') <> '')
+);
+
+create index if not exists kyc_cases_user_idx on public.kyc_cases (user_id, created_at desc);
+create index if not exists kyc_cases_queue_idx on public.kyc_cases (status, submitted_at)
+  where status in ('SUBMITTED', 'IN_REVIEW');
+
+-- Paling banyak satu pengajuan terbuka per user.
+create unique index if not exists kyc_cases_one_open_per_user
+  on public.kyc_cases (user_id) where status in ('DRAFT', 'SUBMITTED', 'IN_REVIEW');
+
+alter table public.kyc_cases enable row level security;
+
+drop policy if exists "kyc_cases_select_own" on public.kyc_cases;
+create policy "kyc_cases_select_own" on public.kyc_cases
+  for select to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin)
+  );
+
+drop policy if exists "kyc_cases_insert_own" on public.kyc_cases;
+create policy "kyc_cases_insert_own" on public.kyc_cases
+  for insert to authenticated
+  with check (user_id = auth.uid() and status = 'DRAFT');
+
+-- User hanya boleh mengubah draft miliknya dan mengirimnya (DRAFT -> SUBMITTED).
+drop policy if exists "kyc_cases_update_own_draft" on public.kyc_cases;
+create policy "kyc_cases_update_own_draft" on public.kyc_cases
+  for update to authenticated
+  using (user_id = auth.uid() and status = 'DRAFT')
+  with check (user_id = auth.uid() and status in ('DRAFT', 'SUBMITTED'));
+
+drop policy if exists "kyc_cases_review_admin" on public.kyc_cases;
+create policy "kyc_cases_review_admin" on public.kyc_cases
+  for update to authenticated
+  using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin))
+  with check (status in ('SUBMITTED', 'IN_REVIEW', 'APPROVED', 'REJECTED'));
+
+-- is_verified hanya boleh diubah oleh admin (lewat approval KYC), bukan oleh user sendiri.
+create or replace function public.profiles_guard_is_verified()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_verified is distinct from old.is_verified
+     and auth.uid() is not null
+     and not exists (select 1 from profiles p where p.id = auth.uid() and p.is_admin) then
+    raise exception 'Only administrators can change verification status.';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_is_verified on public.profiles;
+create trigger profiles_guard_is_verified
+  before update of is_verified on public.profiles
+  for each row execute function public.profiles_guard_is_verified();
@@ -0,0 +1,42 @@
+-- Two-factor authentication (TOTP) per user. Secret dan hash recovery code
+-- hanya bisa dibaca/diubah oleh pemiliknya.
+
+create table if not exists public.user_two_factor (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  secret text not null,
+  enabled boolean not null default false,
+  -- SHA-256 hex dari recovery code yang belum dipakai
+  recovery_code_hashes text[] not null default '{}',
+  -- Time step TOTP terakhir yang diterima, untuk menolak kode yang dipakai ulang
+  last_used_step bigint,
+  created_at timestamptz not null default now(),
+  enabled_at timestamptz
+);
+
+alter table public.user_two_factor enable row level security;
+
+drop policy if exists "user_two_factor_own" on public.user_two_factor;
+create policy "user_two_factor_own" on public.user_two_factor
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Menghapus satu recovery code secara atomik; true bila kode ditemukan.
+create or replace function public.consume_two_factor_recovery_code(p_user_id uuid, p_code_hash text)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_found boolean;
+begin
+  update user_two_factor
+     set recovery_code_hashes = array_remove(recovery_code_hashes, p_code_hash)
+   where user_id = p_user_id
+     and p_code_hash = any (recovery_code_hashes)
+  returning true into v_found;
+
+  return coalesce(v_found, false);
+end;
+$$;
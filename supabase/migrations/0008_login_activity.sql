@@ -0,0 +1,78 @@
+-- Riwayat login/logout/percobaan gagal dan daftar sesi aktif per perangkat,
+-- ditampilkan di halaman Security.
+
+create table if not exists public.login_activity (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  event text not null check (event in ('Login', 'Logout', 'Login Failed')),
+  created_at timestamptz not null default now(),
+  user_agent text not null default '',
+  -- { "browser": "Chrome", "os": "Windows", "deviceType": "Desktop" }
+  device jsonb not null default '{}'::jsonb,
+  device_id text not null,
+  session_id uuid
+);
+
+create index if not exists login_activity_user_idx on public.login_activity (user_id, created_at desc);
+create index if not exists login_activity_device_idx on public.login_activity (user_id, device_id);
+
+create table if not exists public.user_sessions (
+  id uuid primary key,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  device_id text not null,
+  user_agent text not null default '',
+  device jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists user_sessions_active_idx on public.user_sessions (user_id) where revoked_at is null;
+
+alter table public.login_activity enable row level security;
+alter table public.user_sessions enable row level security;
+
+drop policy if exists "login_activity_select_own" on public.login_activity;
+create policy "login_activity_select_own" on public.login_activity
+  for select to authenticated
+  using (user_id = auth.uid());
+
+-- Login dan logout dicatat oleh user sendiri; percobaan gagal lewat record_failed_login.
+drop policy if exists "login_activity_insert_own" on public.login_activity;
+create policy "login_activity_insert_own" on public.login_activity
+  for insert to authenticated
+  with check (user_id = auth.uid() and event in ('Login', 'Logout'));
+
+drop policy if exists "user_sessions_own" on public.user_sessions;
+create policy "user_sessions_own" on public.user_sessions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Dipanggil sebelum login berhasil (tanpa sesi). Tidak mengembalikan apa pun,
+-- sehingga tidak bisa dipakai untuk mengecek apakah sebuah email terdaftar.
+create or replace function public.record_failed_login(
+  p_email text,
+  p_user_agent text,
+  p_device jsonb,
+  p_device_id text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+begin
+  select id into v_user_id from profiles where lower(email) = lower(trim(p_email));
+  if v_user_id is null then
+    return;
+  end if;
+
+  insert into login_activity (user_id, event, user_agent, device, device_id)
+  values (v_user_id, 'Login Failed', left(coalesce(p_user_agent, ''), 512), coalesce(p_device, '{}'::jsonb), left(p_device_id, 64));
+end;
+$$;
+
+grant execute on function public.record_failed_login(text, text, jsonb, text) to anon, authenticated;
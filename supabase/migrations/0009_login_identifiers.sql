@@ -0,0 +1,150 @@
+-- Login dengan nomor HP atau username selain email. Nomor HP disimpan dalam
+-- format +62 (lihat services/identifier.ts) agar bisa dicocokkan persis.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- Padanan normalizePhoneNumber di services/identifier.ts; null bila tidak valid.
+create or replace function public.normalize_phone_number(p_phone text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  v_compact text := regexp_replace(coalesce(p_phone, ''), '[\s\-().]', '', 'g');
+  v_local text;
+begin
+  if v_compact !~ '^\+?\d+$' then
+    return null;
+  end if;
+
+  v_local := ltrim(v_compact, '+');
+  if v_local like '62%' then
+    v_local := substr(v_local, 3);
+  elsif v_local like '0%' then
+    v_local := substr(v_local, 2);
+  elsif v_compact like '+%' then
+    return null;
+  end if;
+
+  if v_local ~ '^8\d{7,11}$' then
+    return '+62' || v_local;
+  end if;
+  return null;
+end;
+$$;
+
+-- Nomor dari metadata signUp diisi saat profil dibuat, dan setiap nomor
+-- dinormalisasi. Nomor yang tidak valid tetap disimpan apa adanya.
+create or replace function public.profiles_normalize_phone_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' and coalesce(new.phone_number, '') = '' then
+    select raw_user_meta_data ->> 'phone_number' into new.phone_number
+      from auth.users where id = new.id;
+  end if;
+  new.phone_number := coalesce(normalize_phone_number(new.phone_number), new.phone_number);
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_normalize_phone_number on public.profiles;
+create trigger profiles_normalize_phone_number
+  before insert or update of phone_number on public.profiles
+  for each row execute function public.profiles_normalize_phone_number();
+
+update public.profiles
+   set phone_number = normalize_phone_number(phone_number)
+ where normalize_phone_number(phone_number) is not null
+   and phone_number <> normalize_phone_number(phone_number);
+
+create index if not exists profiles_phone_number_idx on public.profiles (phone_number);
+create index if not exists profiles_username_lower_idx on public.profiles (lower(username));
+
+-- Mencari akun berdasarkan identifier yang sudah dinormalisasi aplikasi.
+create or replace function public.find_profile_id_by_identifier(p_kind text, p_value text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from profiles
+   where case p_kind
+           when 'phone' then phone_number = normalize_phone_number(p_value)
+           when 'username' then lower(username) = lower(trim(p_value))
+           else lower(email) = lower(trim(p_value))
+         end
+   limit 1;
+$$;
+
+revoke execute on function public.find_profile_id_by_identifier(text, text) from public, anon, authenticated;
+
+-- Mengembalikan email akun untuk login dengan nomor HP/username, hanya bila
+-- password cocok: akun yang tidak ada dan password salah sama-sama
+-- menghasilkan null. Setelah 10 kegagalan dalam 15 menit akun tidak bisa
+-- di-resolve sementara.
+create or replace function public.resolve_login_email(p_kind text, p_value text, p_password text)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := find_profile_id_by_identifier(p_kind, p_value);
+  v_email text;
+  v_hash text;
+begin
+  if v_user_id is null or p_kind not in ('phone', 'username') then
+    return null;
+  end if;
+
+  if (select count(*) from login_activity
+       where user_id = v_user_id
+         and event = 'Login Failed'
+         and created_at > now() - interval '15 minutes') >= 10 then
+    return null;
+  end if;
+
+  select email, encrypted_password into v_email, v_hash from auth.users where id = v_user_id;
+  if v_hash is null or crypt(p_password, v_hash) <> v_hash then
+    return null;
+  end if;
+
+  return v_email;
+end;
+$$;
+
+grant execute on function public.resolve_login_email(text, text, text) to anon, authenticated;
+
+-- Versi 0008 hanya menerima email.
+drop function if exists public.record_failed_login(text, text, jsonb, text);
+
+create or replace function public.record_failed_login(
+  p_kind text,
+  p_value text,
+  p_user_agent text,
+  p_device jsonb,
+  p_device_id text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := find_profile_id_by_identifier(p_kind, p_value);
+begin
+  if v_user_id is null then
+    return;
+  end if;
+
+  insert into login_activity (user_id, event, user_agent, device, device_id)
+  values (v_user_id, 'Login Failed', left(coalesce(p_user_agent, ''), 512), coalesce(p_device, '{}'::jsonb), left(p_device_id, 64));
+end;
+$$;
+
+grant execute on function public.record_failed_login(text, text, text, jsonb, text) to anon, authenticated;
@@ -0,0 +1,51 @@
+-- Status verifikasi email di profiles, disalin dari auth.users.email_confirmed_at.
+-- Fitur transaksi (deposit, withdrawal, transfer, trading, investasi) hanya
+-- terbuka setelah email dikonfirmasi.
+
+alter table public.profiles add column if not exists email_verified_at timestamptz;
+
+update public.profiles p
+   set email_verified_at = u.email_confirmed_at
+  from auth.users u
+ where u.id = p.id
+   and p.email_verified_at is distinct from u.email_confirmed_at;
+
+create or replace function public.auth_users_sync_email_verified()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update profiles set email_verified_at = new.email_confirmed_at where id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists auth_users_sync_email_verified on auth.users;
+create trigger auth_users_sync_email_verified
+  after update of email_confirmed_at on auth.users
+  for each row execute function public.auth_users_sync_email_verified();
+
+-- Profil baru mengambil status dari auth.users; perubahan langsung lewat API
+-- diabaikan, hanya trigger di atas yang boleh mengubahnya.
+create or replace function public.profiles_guard_email_verified()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    select email_confirmed_at into new.email_verified_at from auth.users where id = new.id;
+  elsif pg_trigger_depth() = 1 then
+    new.email_verified_at := old.email_verified_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_email_verified on public.profiles;
+create trigger profiles_guard_email_verified
+  before insert or update of email_verified_at on public.profiles
+  for each row execute function public.profiles_guard_email_verified();
@@ -0,0 +1,67 @@
+-- Role staf admin (support, finance, compliance, super_admin) menggantikan flag
+-- is_admin. is_admin tetap ada dan diisi otomatis (punya minimal satu role),
+-- sehingga policy lama yang memberi akses baca ke staf tetap berlaku. Izin per
+-- aksi dicek di service layer (services/permissions.ts).
+
+alter table public.profiles
+  add column if not exists roles text[] not null default '{}';
+
+alter table public.profiles drop constraint if exists profiles_roles_valid;
+alter table public.profiles
+  add constraint profiles_roles_valid
+  check (roles <@ array['support', 'finance', 'compliance', 'super_admin']::text[]);
+
+-- Admin yang sudah ada menjadi super-admin
+update public.profiles set roles = array['super_admin'] where is_admin and roles = '{}';
+
+create or replace function public.has_admin_role(p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from profiles where id = auth.uid() and roles && p_roles);
+$$;
+
+-- Hanya super-admin yang boleh mengubah role (termasuk role miliknya sendiri).
+create or replace function public.profiles_guard_roles()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.roles := '{}';
+  elsif new.roles is distinct from old.roles
+     and auth.uid() is not null
+     and not public.has_admin_role(array['super_admin']) then
+    raise exception 'Only super-admins can change roles.';
+  end if;
+  new.is_admin := cardinality(new.roles) > 0;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_roles on public.profiles;
+create trigger profiles_guard_roles
+  before insert or update of roles, is_admin on public.profiles
+  for each row execute function public.profiles_guard_roles();
+
+-- Persetujuan KYC kini khusus compliance dan super-admin.
+create or replace function public.profiles_guard_is_verified()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_verified is distinct from old.is_verified
+     and auth.uid() is not null
+     and not public.has_admin_role(array['compliance', 'super_admin']) then
+    raise exception 'Only compliance staff can change verification status.';
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,49 @@
+-- Audit log append-only untuk setiap aksi admin: siapa, aksi apa, terhadap
+-- siapa/apa, nilai sebelum & sesudah, dan alasan yang wajib diisi.
+
+create table if not exists public.admin_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid not null references public.profiles(id),
+  action text not null,
+  target_user_id uuid references public.profiles(id),
+  target_id text,
+  before_value jsonb,
+  after_value jsonb,
+  reason text not null check (char_length(btrim(reason)) >= 5),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists admin_audit_log_created_at_idx on public.admin_audit_log (created_at desc);
+create index if not exists admin_audit_log_actor_idx on public.admin_audit_log (actor_id, created_at desc);
+create index if not exists admin_audit_log_target_user_idx on public.admin_audit_log (target_user_id, created_at desc);
+
+alter table public.admin_audit_log enable row level security;
+
+-- Staf hanya boleh mencatat atas namanya sendiri
+drop policy if exists admin_audit_log_insert on public.admin_audit_log;
+create policy admin_audit_log_insert on public.admin_audit_log
+  for insert
+  with check (
+    actor_id = auth.uid()
+    and exists (select 1 from public.profiles p where p.id = auth.uid() and p.is_admin)
+  );
+
+drop policy if exists admin_audit_log_select on public.admin_audit_log;
+create policy admin_audit_log_select on public.admin_audit_log
+  for select
+  using (public.has_admin_role(array['compliance', 'super_admin']));
+
+-- Tidak ada policy update/delete; trigger ini juga menolak perubahan dari service role.
+create or replace function public.admin_audit_log_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'admin_audit_log is append-only.';
+end;
+$$;
+
+drop trigger if exists admin_audit_log_append_only on public.admin_audit_log;
+create trigger admin_audit_log_append_only
+  before update or delete on public.admin_audit_log
+  for each row execute function public.admin_audit_log_append_only();
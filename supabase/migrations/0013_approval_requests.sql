@@ -0,0 +1,55 @@
+-- Maker-checker: penyesuaian saldo dan withdrawal di atas threshold disimpan
+-- sebagai permintaan dan baru dijalankan setelah disetujui admin lain.
+-- Threshold diatur lewat VITE_APPROVAL_* (lihat config.ts).
+
+create table if not exists public.approval_requests (
+  id uuid primary key default gen_random_uuid(),
+  type text not null check (type in ('BALANCE_ADJUSTMENT', 'WITHDRAWAL_STATUS')),
+  status text not null default 'PENDING' check (status in ('PENDING', 'APPROVED', 'REJECTED')),
+  maker_id uuid not null references public.profiles(id),
+  checker_id uuid references public.profiles(id),
+  target_user_id uuid not null references public.profiles(id),
+  target_id text,
+  amount numeric not null check (amount > 0),
+  payload jsonb not null,
+  reason text not null check (char_length(btrim(reason)) >= 5),
+  decision_reason text,
+  created_at timestamptz not null default now(),
+  decided_at timestamptz,
+  constraint approval_requests_four_eyes check (checker_id is null or checker_id <> maker_id)
+);
+
+create index if not exists approval_requests_status_idx on public.approval_requests (status, created_at);
+
+-- Satu permintaan aktif per transaksi
+create unique index if not exists approval_requests_pending_target_idx
+  on public.approval_requests (target_id)
+  where status = 'PENDING' and target_id is not null;
+
+alter table public.approval_requests enable row level security;
+
+drop policy if exists approval_requests_select on public.approval_requests;
+create policy approval_requests_select on public.approval_requests
+  for select
+  using (maker_id = auth.uid() or public.has_admin_role(array['finance', 'super_admin']));
+
+drop policy if exists approval_requests_insert on public.approval_requests;
+create policy approval_requests_insert on public.approval_requests
+  for insert
+  with check (
+    maker_id = auth.uid()
+    and status = 'PENDING'
+    and checker_id is null
+    and public.has_admin_role(array['finance', 'super_admin'])
+  );
+
+-- Hanya admin selain pembuat (dan selain user yang terdampak) yang boleh memutuskan
+drop policy if exists approval_requests_decide on public.approval_requests;
+create policy approval_requests_decide on public.approval_requests
+  for update
+  using (
+    public.has_admin_role(array['finance', 'super_admin'])
+    and maker_id <> auth.uid()
+    and target_user_id <> auth.uid()
+  )
+  with check (checker_id = auth.uid());
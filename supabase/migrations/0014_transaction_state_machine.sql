@@ -0,0 +1,30 @@
+-- State machine status transaksi, sama dengan services/transactionStateMachine.ts:
+--   DEPOSIT    PENDING -> SUCCESS | REJECTED
+--   WITHDRAWAL PENDING -> SUCCESS | REJECTED | CANCELLED | FAILED
+-- Status selain PENDING bersifat final. Transfer dibuat langsung SUCCESS dan tidak pernah berubah.
+
+create or replace function public.transactions_guard_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if old.status = 'PENDING' and (
+    (old.type = 'DEPOSIT' and new.status in ('SUCCESS', 'REJECTED'))
+    or (old.type = 'WITHDRAWAL' and new.status in ('SUCCESS', 'REJECTED', 'CANCELLED', 'FAILED'))
+  ) then
+    return new;
+  end if;
+
+  raise exception 'Illegal % status transition: % -> %', old.type, old.status, new.status
+    using errcode = 'check_violation';
+end;
+$$;
+
+drop trigger if exists transactions_guard_status on public.transactions;
+create trigger transactions_guard_status
+  before update of status on public.transactions
+  for each row execute function public.transactions_guard_status();
@@ -0,0 +1,75 @@
+-- Bukti transfer deposit. File disimpan di bucket private `deposit-proofs`
+-- dengan path `<user_id>/<transaction_id>/<file>`; metadata-nya di kolom
+-- proof_* pada transactions. Kolom proof_image_url lama tidak pernah diisi.
+
+alter table public.transactions drop column if exists proof_image_url;
+alter table public.transactions add column if not exists proof_path text;
+alter table public.transactions add column if not exists proof_file_name text;
+alter table public.transactions add column if not exists proof_content_type text;
+alter table public.transactions add column if not exists proof_uploaded_at timestamptz;
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('deposit-proofs', 'deposit-proofs', false, 2097152, array['image/jpeg', 'image/png', 'application/pdf'])
+on conflict (id) do update
+  set public = false,
+      file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+-- Member hanya mengunggah ke foldernya sendiri; file tidak bisa ditimpa atau dihapus.
+drop policy if exists deposit_proofs_insert on storage.objects;
+create policy deposit_proofs_insert on storage.objects
+  for insert
+  with check (
+    bucket_id = 'deposit-proofs'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists deposit_proofs_select on storage.objects;
+create policy deposit_proofs_select on storage.objects
+  for select
+  using (
+    bucket_id = 'deposit-proofs'
+    and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or public.has_admin_role(array['support', 'finance', 'compliance', 'super_admin'])
+    )
+  );
+
+-- Melampirkan bukti ke deposit PENDING milik pemanggil. Path harus berada di
+-- folder deposit tersebut supaya tidak bisa menunjuk file milik user lain.
+create or replace function public.attach_deposit_proof(
+  p_transaction_id uuid,
+  p_path text,
+  p_file_name text,
+  p_content_type text
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_updated int;
+begin
+  if p_content_type not in ('image/jpeg', 'image/png', 'application/pdf') then
+    raise exception 'Unsupported proof content type: %', p_content_type;
+  end if;
+  if p_path not like auth.uid()::text || '/' || p_transaction_id::text || '/%' then
+    raise exception 'Proof path does not belong to this deposit.';
+  end if;
+
+  update transactions
+     set proof_path = p_path,
+         proof_file_name = p_file_name,
+         proof_content_type = p_content_type,
+         proof_uploaded_at = now()
+   where id = p_transaction_id
+     and user_id = auth.uid()
+     and type = 'DEPOSIT'
+     and status = 'PENDING';
+  get diagnostics v_updated = row_count;
+  return v_updated > 0;
+end;
+$$;
+
+grant execute on function public.attach_deposit_proof(uuid, text, text, text) to authenticated;
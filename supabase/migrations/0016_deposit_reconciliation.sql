@@ -0,0 +1,106 @@
+-- Rekonsiliasi deposit: setiap deposit mendapat kode unik 1-999 yang
+-- ditambahkan ke nominal transfer, dan referensi `DP` + 6 karakter untuk
+-- berita transfer. Mutasi rekening koran (CSV BCA/Mandiri) disimpan di
+-- bank_statement_lines dan dicocokkan ke deposit PENDING.
+
+alter table public.transactions add column if not exists unique_code int check (unique_code between 1 and 999);
+alter table public.transactions add column if not exists reference_code text unique;
+
+-- Nominal transfer tidak boleh kembar di antara deposit yang masih PENDING
+create unique index if not exists transactions_pending_transfer_amount_idx
+  on public.transactions ((amount + unique_code))
+  where type = 'DEPOSIT' and status = 'PENDING';
+
+-- Sama dengan assignDepositCodes di services/repositories/localRepository.ts.
+create or replace function public.transactions_assign_deposit_codes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_reference text;
+begin
+  if new.type <> 'DEPOSIT' then
+    return new;
+  end if;
+
+  -- Deposit dengan nominal yang sama dibuat berurutan supaya kodenya tidak bentrok
+  perform pg_advisory_xact_lock(hashtext('deposit_unique_code:' || new.amount::text));
+
+  select code into new.unique_code
+    from generate_series(1, 999) as code
+   where not exists (
+     select 1 from transactions t
+      where t.type = 'DEPOSIT'
+        and t.status = 'PENDING'
+        and t.amount + t.unique_code = new.amount + code
+   )
+   order by random()
+   limit 1;
+  if new.unique_code is null then
+    raise exception 'Terlalu banyak deposit tertunda dengan nominal ini. Coba nominal lain.';
+  end if;
+
+  loop
+    v_reference := 'DP';
+    for i in 1..6 loop
+      v_reference := v_reference || substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::int, 1);
+    end loop;
+    exit when not exists (select 1 from transactions where reference_code = v_reference);
+  end loop;
+  new.reference_code := v_reference;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_assign_deposit_codes on public.transactions;
+create trigger transactions_assign_deposit_codes
+  before insert on public.transactions
+  for each row execute function public.transactions_assign_deposit_codes();
+
+create table if not exists public.bank_statement_lines (
+  id uuid primary key default gen_random_uuid(),
+  format text not null check (format in ('BCA', 'MANDIRI')),
+  bank_date date not null,
+  description text not null,
+  amount numeric not null check (amount > 0),
+  -- Hash isi baris; file yang sama bisa diimpor ulang tanpa menggandakan mutasi
+  fingerprint text not null unique,
+  status text not null default 'UNMATCHED' check (status in ('UNMATCHED', 'MATCHED', 'IGNORED')),
+  matched_transaction_id uuid references public.transactions(id),
+  imported_by uuid not null references public.profiles(id),
+  imported_at timestamptz not null default now(),
+  resolved_by uuid references public.profiles(id),
+  resolved_at timestamptz
+);
+
+create index if not exists bank_statement_lines_status_idx on public.bank_statement_lines (status, bank_date desc);
+
+-- Satu deposit hanya boleh dicocokkan dengan satu mutasi
+create unique index if not exists bank_statement_lines_matched_idx
+  on public.bank_statement_lines (matched_transaction_id)
+  where status = 'MATCHED';
+
+alter table public.bank_statement_lines enable row level security;
+
+drop policy if exists bank_statement_lines_select on public.bank_statement_lines;
+create policy bank_statement_lines_select on public.bank_statement_lines
+  for select
+  using (public.has_admin_role(array['finance', 'super_admin']));
+
+drop policy if exists bank_statement_lines_insert on public.bank_statement_lines;
+create policy bank_statement_lines_insert on public.bank_statement_lines
+  for insert
+  with check (
+    imported_by = auth.uid()
+    and status = 'UNMATCHED'
+    and public.has_admin_role(array['finance', 'super_admin'])
+  );
+
+drop policy if exists bank_statement_lines_update on public.bank_statement_lines;
+create policy bank_statement_lines_update on public.bank_statement_lines
+  for update
+  using (public.has_admin_role(array['finance', 'super_admin']))
+  with check (public.has_admin_role(array['finance', 'super_admin']));
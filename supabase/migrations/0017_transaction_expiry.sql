@@ -0,0 +1,31 @@
+-- Deposit PENDING yang melewati VITE_DEPOSIT_EXPIRY_HOURS dibatalkan otomatis,
+-- jadi state machine deposit mendapat transisi PENDING -> CANCELLED
+-- (lihat services/transactionStateMachine.ts):
+--   DEPOSIT    PENDING -> SUCCESS | REJECTED | CANCELLED
+--   WITHDRAWAL PENDING -> SUCCESS | REJECTED | CANCELLED | FAILED
+
+create or replace function public.transactions_guard_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if old.status = 'PENDING' and (
+    (old.type = 'DEPOSIT' and new.status in ('SUCCESS', 'REJECTED', 'CANCELLED'))
+    or (old.type = 'WITHDRAWAL' and new.status in ('SUCCESS', 'REJECTED', 'CANCELLED', 'FAILED'))
+  ) then
+    return new;
+  end if;
+
+  raise exception 'Illegal % status transition: % -> %', old.type, old.status, new.status
+    using errcode = 'check_violation';
+end;
+$$;
+
+-- Sweeper mencari transaksi PENDING tertua per tipe
+create index if not exists transactions_pending_date_idx
+  on public.transactions (type, date)
+  where status = 'PENDING';
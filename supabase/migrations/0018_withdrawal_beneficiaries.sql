@@ -0,0 +1,59 @@
+-- Buku rekening penarikan per user. Penarikan hanya bisa dibuat ke rekening
+-- tersimpan yang sudah melewati masa tunggu (active_at, dihitung dari
+-- VITE_BENEFICIARY_COOLING_OFF_HOURS). Nama pemilik dicocokkan dengan nama
+-- KYC/profil oleh services/beneficiaryService.ts.
+
+create table if not exists public.withdrawal_beneficiaries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  type text not null check (type in ('BANK', 'E_WALLET')),
+  provider_name text not null,
+  account_number text not null,
+  account_holder_name text not null,
+  nickname text,
+  created_at timestamptz not null default now(),
+  active_at timestamptz not null,
+  constraint withdrawal_beneficiaries_unique unique (user_id, type, provider_name, account_number),
+  constraint withdrawal_beneficiaries_cooling_off check (active_at >= created_at)
+);
+
+create index if not exists withdrawal_beneficiaries_user_idx on public.withdrawal_beneficiaries (user_id, created_at desc);
+
+-- Waktu simpan diambil dari server supaya masa tunggu tidak bisa dimundurkan
+create or replace function public.withdrawal_beneficiaries_set_created_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.active_at := now() + greatest(new.active_at - new.created_at, interval '0');
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists withdrawal_beneficiaries_set_created_at on public.withdrawal_beneficiaries;
+create trigger withdrawal_beneficiaries_set_created_at
+  before insert on public.withdrawal_beneficiaries
+  for each row execute function public.withdrawal_beneficiaries_set_created_at();
+
+alter table public.withdrawal_beneficiaries enable row level security;
+
+drop policy if exists withdrawal_beneficiaries_select on public.withdrawal_beneficiaries;
+create policy withdrawal_beneficiaries_select on public.withdrawal_beneficiaries
+  for select
+  using (
+    user_id = auth.uid()
+    or public.has_admin_role(array['support', 'finance', 'compliance', 'super_admin'])
+  );
+
+drop policy if exists withdrawal_beneficiaries_insert on public.withdrawal_beneficiaries;
+create policy withdrawal_beneficiaries_insert on public.withdrawal_beneficiaries
+  for insert
+  with check (user_id = auth.uid());
+
+-- Tidak ada policy update: mengganti rekening berarti menghapus dan menambah
+-- lagi, sehingga masa tunggu berlaku ulang.
+drop policy if exists withdrawal_beneficiaries_delete on public.withdrawal_beneficiaries;
+create policy withdrawal_beneficiaries_delete on public.withdrawal_beneficiaries
+  for delete
+  using (user_id = auth.uid());
@@ -0,0 +1,45 @@
+-- Limit khusus per user untuk withdrawal dan transfer. Limit global per level
+-- verifikasi ada di services/limitsService.ts; baris di sini hanya menimpa
+-- field yang diisi (mis. {"dailyAmount": 500000000}).
+
+create table if not exists public.user_limit_overrides (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  type text not null check (type in ('WITHDRAWAL', 'TRANSFER')),
+  limits jsonb not null default '{}'::jsonb check (jsonb_typeof(limits) = 'object'),
+  updated_by uuid not null references public.profiles(id),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, type)
+);
+
+alter table public.user_limit_overrides enable row level security;
+
+-- User boleh melihat limitnya sendiri supaya sisa kuota bisa ditampilkan
+drop policy if exists user_limit_overrides_select on public.user_limit_overrides;
+create policy user_limit_overrides_select on public.user_limit_overrides
+  for select
+  using (
+    user_id = auth.uid()
+    or public.has_admin_role(array['support', 'finance', 'compliance', 'super_admin'])
+  );
+
+drop policy if exists user_limit_overrides_insert on public.user_limit_overrides;
+create policy user_limit_overrides_insert on public.user_limit_overrides
+  for insert
+  with check (
+    updated_by = auth.uid()
+    and public.has_admin_role(array['finance', 'super_admin'])
+  );
+
+drop policy if exists user_limit_overrides_update on public.user_limit_overrides;
+create policy user_limit_overrides_update on public.user_limit_overrides
+  for update
+  using (public.has_admin_role(array['finance', 'super_admin']))
+  with check (
+    updated_by = auth.uid()
+    and public.has_admin_role(array['finance', 'super_admin'])
+  );
+
+drop policy if exists user_limit_overrides_delete on public.user_limit_overrides;
+create policy user_limit_overrides_delete on public.user_limit_overrides
+  for delete
+  using (public.has_admin_role(array['finance', 'super_admin']));
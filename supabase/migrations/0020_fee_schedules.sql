@@ -0,0 +1,226 @@
+-- Jadwal biaya withdrawal & transfer (diatur di Company Settings) dan kolom
+-- fee di transaksi. Biaya diposting sebagai jurnal terpisah ke akun
+-- system:fee_income; `amount` tetap nominal yang diterima tujuan.
+
+alter table public.transactions add column if not exists fee numeric not null default 0 check (fee >= 0);
+
+create table if not exists public.fee_schedules (
+  channel text primary key check (channel in ('WITHDRAWAL_BANK', 'WITHDRAWAL_E_WALLET', 'TRANSFER')),
+  fee_type text not null check (fee_type in ('FLAT', 'PERCENTAGE', 'TIERED')),
+  flat_fee numeric not null default 0 check (flat_fee >= 0),
+  percentage numeric not null default 0 check (percentage between 0 and 100),
+  min_fee numeric not null default 0 check (min_fee >= 0),
+  -- 0 = tanpa batas atas
+  max_fee numeric not null default 0 check (max_fee >= 0),
+  -- [{"minAmount": 0, "flatFee": 2500, "percentage": 0.5}, ...]
+  tiers jsonb not null default '[]'::jsonb check (jsonb_typeof(tiers) = 'array'),
+  updated_by uuid not null references public.profiles(id),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.fee_schedules enable row level security;
+
+-- Semua user login perlu jadwal biaya untuk preview di form
+drop policy if exists fee_schedules_select on public.fee_schedules;
+create policy fee_schedules_select on public.fee_schedules
+  for select
+  using (auth.uid() is not null);
+
+drop policy if exists fee_schedules_insert on public.fee_schedules;
+create policy fee_schedules_insert on public.fee_schedules
+  for insert
+  with check (
+    updated_by = auth.uid()
+    and public.has_admin_role(array['finance', 'super_admin'])
+  );
+
+drop policy if exists fee_schedules_update on public.fee_schedules;
+create policy fee_schedules_update on public.fee_schedules
+  for update
+  using (public.has_admin_role(array['finance', 'super_admin']))
+  with check (
+    updated_by = auth.uid()
+    and public.has_admin_role(array['finance', 'super_admin'])
+  );
+
+-- Padanan calculateFee di services/feeService.ts; hasil keduanya harus sama.
+create or replace function public.calculate_fee(p_channel text, p_amount numeric)
+returns numeric
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_schedule fee_schedules%rowtype;
+  v_tier jsonb;
+  v_fee numeric := 0;
+begin
+  if p_amount is null or p_amount <= 0 then
+    return 0;
+  end if;
+
+  select * into v_schedule from fee_schedules where channel = p_channel;
+  if not found then
+    return 0;
+  end if;
+
+  if v_schedule.fee_type = 'FLAT' then
+    v_fee := v_schedule.flat_fee;
+  elsif v_schedule.fee_type = 'PERCENTAGE' then
+    v_fee := p_amount * round(v_schedule.percentage * 100) / 10000;
+  else
+    select t into v_tier
+      from jsonb_array_elements(v_schedule.tiers) as t
+      where (t->>'minAmount')::numeric <= p_amount
+      order by (t->>'minAmount')::numeric desc
+      limit 1;
+    if v_tier is not null then
+      v_fee := (v_tier->>'flatFee')::numeric + p_amount * round((v_tier->>'percentage')::numeric * 100) / 10000;
+    end if;
+  end if;
+
+  v_fee := greatest(round(v_fee), v_schedule.min_fee);
+  if v_schedule.max_fee > 0 then
+    v_fee := least(v_fee, v_schedule.max_fee);
+  end if;
+  return v_fee;
+end;
+$$;
+
+grant execute on function public.calculate_fee(text, numeric) to authenticated;
+
+-- transfer_funds versi baru menerima p_fee (biaya yang dilihat user di preview).
+-- Biaya dihitung ulang di sini; bila jadwal berubah, transfer ditolak dengan FEE_CHANGED.
+drop function if exists public.transfer_funds(uuid, text, numeric, text);
+
+create or replace function public.transfer_funds(
+  p_sender_id uuid,
+  p_recipient_email text,
+  p_amount numeric,
+  p_fee numeric,
+  p_idempotency_key text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sender profiles%rowtype;
+  v_recipient profiles%rowtype;
+  v_recipient_id uuid;
+  v_existing transactions%rowtype;
+  v_sender_tx uuid;
+  v_recipient_tx uuid;
+  v_journal uuid := gen_random_uuid();
+  v_fee_journal uuid := gen_random_uuid();
+  v_now timestamptz := now();
+  v_fee numeric;
+  v_amount_label text;
+  v_fee_label text := '';
+begin
+  if auth.uid() is distinct from p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED', 'message', 'Not allowed to transfer from this account.');
+  end if;
+
+  if p_idempotency_key is null or length(p_idempotency_key) = 0 then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Missing idempotency key.');
+  end if;
+
+  -- Replay: kunci sudah pernah dipakai, kembalikan hasil aslinya.
+  select * into v_existing from transactions
+    where user_id = p_sender_id and idempotency_key = p_idempotency_key;
+  if found then
+    if v_existing.amount <> p_amount or lower(v_existing.counterparty_email) <> lower(trim(p_recipient_email)) then
+      return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Idempotency key was already used for a different request.');
+    end if;
+    return jsonb_build_object(
+      'success', v_existing.status = 'SUCCESS',
+      'code', case when v_existing.status = 'SUCCESS' then null else 'FAILED' end,
+      'message', 'Transfer successful.',
+      'transaction_id', v_existing.id,
+      'replayed', true
+    );
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'message', 'Invalid amount.');
+  end if;
+
+  v_fee := calculate_fee('TRANSFER', p_amount);
+  if p_fee is distinct from v_fee then
+    return jsonb_build_object('success', false, 'code', 'FEE_CHANGED', 'message', 'The transfer fee has changed. Please review the new fee and try again.');
+  end if;
+
+  select id into v_recipient_id from profiles where lower(email) = lower(trim(p_recipient_email));
+  if v_recipient_id is null then
+    return jsonb_build_object('success', false, 'code', 'RECIPIENT_NOT_FOUND', 'message', 'Recipient email not found.');
+  end if;
+
+  if v_recipient_id = p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'SELF_TRANSFER', 'message', 'Cannot transfer to your own account.');
+  end if;
+
+  perform 1 from profiles where id in (p_sender_id, v_recipient_id) order by id for update;
+  select * into v_sender from profiles where id = p_sender_id;
+  select * into v_recipient from profiles where id = v_recipient_id;
+
+  perform ledger_ensure_opening_balance(p_sender_id);
+  perform ledger_ensure_opening_balance(v_recipient_id);
+
+  if v_sender.balance < p_amount + v_fee then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE', 'message', 'Insufficient balance.');
+  end if;
+
+  begin
+    insert into transactions (user_id, type, amount, fee, method, status, date, direction, counterparty_id, counterparty_email, bank_or_ewallet_name, idempotency_key)
+    values (p_sender_id, 'TRANSFER', p_amount, v_fee, 'Internal Transfer', 'SUCCESS', v_now, 'OUT', v_recipient_id, v_recipient.email, v_recipient.email, p_idempotency_key)
+    returning id into v_sender_tx;
+  exception when unique_violation then
+    -- Permintaan kembar yang berjalan bersamaan; yang pertama menang.
+    select id into v_sender_tx from transactions where user_id = p_sender_id and idempotency_key = p_idempotency_key;
+    return jsonb_build_object('success', true, 'code', null, 'message', 'Transfer successful.', 'transaction_id', v_sender_tx, 'replayed', true);
+  end;
+
+  insert into transactions (user_id, type, amount, method, status, date, direction, counterparty_id, counterparty_email, bank_or_ewallet_name)
+  values (v_recipient_id, 'TRANSFER', p_amount, 'Internal Transfer', 'SUCCESS', v_now, 'IN', p_sender_id, v_sender.email, v_sender.email)
+  returning id into v_recipient_tx;
+
+  insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, memo, created_at)
+  values
+    (v_journal, p_sender_id::text, 'DEBIT', p_amount, v_sender_tx, 'Transfer internal ' || v_sender.email || ' -> ' || v_recipient.email, v_now),
+    (v_journal, v_recipient_id::text, 'CREDIT', p_amount, v_recipient_tx, 'Transfer internal ' || v_sender.email || ' -> ' || v_recipient.email, v_now);
+
+  if v_fee > 0 then
+    insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, memo, created_at)
+    values
+      (v_fee_journal, p_sender_id::text, 'DEBIT', v_fee, v_sender_tx, 'Biaya transfer internal ke ' || v_recipient.email, v_now),
+      (v_fee_journal, 'system:fee_income', 'CREDIT', v_fee, null, 'Biaya transfer internal ke ' || v_recipient.email, v_now);
+    v_fee_label := ' (biaya Rp ' || replace(to_char(v_fee, 'FM999G999G999G999'), ',', '.') || ')';
+  end if;
+
+  update profiles set balance = balance - p_amount - v_fee where id = p_sender_id;
+  update profiles set balance = balance + p_amount where id = v_recipient_id;
+
+  if (select balance from profiles where id = p_sender_id) < 0 then
+    raise exception 'Insufficient balance at commit time';
+  end if;
+
+  v_amount_label := 'Rp ' || replace(to_char(p_amount, 'FM999G999G999G999'), ',', '.');
+  insert into notifications (user_id, message, date, read)
+  values
+    (p_sender_id, 'Transfer Berhasil: Mengirim ' || v_amount_label || ' ke ' || v_recipient.email || v_fee_label || '.', v_now, false),
+    (v_recipient_id, 'Dana Masuk: Menerima ' || v_amount_label || ' dari ' || v_sender.email || '.', v_now, false);
+
+  return jsonb_build_object(
+    'success', true,
+    'code', null,
+    'message', 'Transfer successful.',
+    'transaction_id', v_sender_tx,
+    'replayed', false
+  );
+end;
+$$;
+
+grant execute on function public.transfer_funds(uuid, text, numeric, numeric, text) to authenticated;
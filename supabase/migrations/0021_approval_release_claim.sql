@@ -0,0 +1,16 @@
+-- Klaim yang gagal dijalankan dikembalikan ke PENDING dengan checker_id,
+-- decision_reason dan decided_at dikosongkan. Policy lama mewajibkan
+-- checker_id = auth.uid() sehingga pengosongan itu ditolak.
+
+drop policy if exists approval_requests_decide on public.approval_requests;
+create policy approval_requests_decide on public.approval_requests
+  for update
+  using (
+    public.has_admin_role(array['finance', 'super_admin'])
+    and maker_id <> auth.uid()
+    and target_user_id <> auth.uid()
+  )
+  with check (
+    checker_id = auth.uid()
+    or (status = 'PENDING' and checker_id is null and decision_reason is null and decided_at is null)
+  );
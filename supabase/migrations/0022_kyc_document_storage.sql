@@ -0,0 +1,96 @@
+-- Dokumen KYC dipindah dari data URL di kyc_cases.documents ke bucket private
+-- `kyc-documents` dengan path `<user_id>/<file>`. Kolom documents kini hanya
+-- menyimpan metadata { fileName, mimeType, path, uploadedAt }. Pengajuan lama
+-- yang masih berisi dataUrl tetap bisa ditampilkan, tetapi draft yang disimpan
+-- ulang wajib memakai file di storage.
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('kyc-documents', 'kyc-documents', false, 2097152, array['image/jpeg', 'image/png', 'application/pdf'])
+on conflict (id) do update
+  set public = false,
+      file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+-- Member hanya mengunggah ke foldernya sendiri; file tidak bisa ditimpa atau dihapus.
+drop policy if exists kyc_documents_insert on storage.objects;
+create policy kyc_documents_insert on storage.objects
+  for insert
+  with check (
+    bucket_id = 'kyc-documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists kyc_documents_select on storage.objects;
+create policy kyc_documents_select on storage.objects
+  for select
+  using (
+    bucket_id = 'kyc-documents'
+    and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or public.has_admin_role(array['compliance', 'super_admin'])
+    )
+  );
+
+-- Setiap dokumen harus menunjuk file di folder pemilik pengajuan dan tidak lagi membawa isi file.
+create or replace function public.kyc_documents_owned(p_documents jsonb, p_user_id uuid)
+returns boolean
+language sql
+immutable
+as $$
+  select not exists (
+    select 1 from jsonb_each(p_documents) as d(type, doc)
+    where coalesce(d.doc->>'path', '') not like p_user_id::text || '/%'
+       or d.doc ? 'dataUrl'
+  );
+$$;
+
+drop policy if exists "kyc_cases_insert_own" on public.kyc_cases;
+create policy "kyc_cases_insert_own" on public.kyc_cases
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and status = 'DRAFT'
+    and public.kyc_documents_owned(documents, user_id)
+  );
+
+drop policy if exists "kyc_cases_update_own_draft" on public.kyc_cases;
+create policy "kyc_cases_update_own_draft" on public.kyc_cases
+  for update to authenticated
+  using (user_id = auth.uid() and status = 'DRAFT')
+  with check (
+    user_id = auth.uid()
+    and status in ('DRAFT', 'SUBMITTED')
+    and public.kyc_documents_owned(documents, user_id)
+  );
+
+-- Reviewer tidak boleh memproses pengajuan KYC miliknya sendiri.
+drop policy if exists "kyc_cases_review_admin" on public.kyc_cases;
+create policy "kyc_cases_review_admin" on public.kyc_cases
+  for update to authenticated
+  using (
+    public.has_admin_role(array['compliance', 'super_admin'])
+    and user_id <> auth.uid()
+  )
+  with check (
+    status in ('SUBMITTED', 'IN_REVIEW', 'APPROVED', 'REJECTED')
+    and user_id <> auth.uid()
+  );
+
+create or replace function public.profiles_guard_is_verified()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_verified is distinct from old.is_verified and auth.uid() is not null then
+    if not public.has_admin_role(array['compliance', 'super_admin']) then
+      raise exception 'Only compliance staff can change verification status.';
+    end if;
+    if new.id = auth.uid() then
+      raise exception 'Staff cannot change their own verification status.';
+    end if;
+  end if;
+  return new;
+end;
+$$;
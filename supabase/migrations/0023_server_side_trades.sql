@@ -0,0 +1,304 @@
+-- Posisi trading dibuka dan diselesaikan di database. Sebelumnya harga diambil
+-- dari price feed di browser (seed-nya ikut di bundle, jadi harga saat expiry
+-- bisa dihitung lebih dulu) dan klien sendiri yang mengubah status posisi
+-- lewat policy trades_settle_own. Sekarang:
+--   * harga berasal dari market_prices, yang hanya ditulis proses server
+--     (feed eksternal dengan service role, atau simulate_market_prices());
+--   * open_trade dan settle_due_trades menulis posisi, jurnal, saldo dan
+--     notifikasi dalam satu transaksi;
+--   * member tidak bisa lagi insert/update baris trades secara langsung.
+
+drop policy if exists "trades_insert_own" on public.trades;
+drop policy if exists "trades_settle_own" on public.trades;
+
+-- Pengaturan yang hanya dipercaya dari sisi server; dibaca semua user login untuk tampilan.
+create table if not exists public.app_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.app_settings enable row level security;
+
+drop policy if exists app_settings_select on public.app_settings;
+create policy app_settings_select on public.app_settings
+  for select
+  using (auth.uid() is not null);
+
+-- Samakan dengan VITE_TRADE_PAYOUT_RATIO, VITE_MIN_TRADE_STAKE dan TRADE_PACKAGES (constants.ts).
+insert into public.app_settings (key, value)
+values ('trading', jsonb_build_object(
+  'payoutRatio', 0.99,
+  'minStake', 50,
+  'packages', jsonb_build_object('1 Minute', 60, '5 Minute', 300, '15 Minute', 900, '1 Hour', 3600, '3 Hour', 10800)
+))
+on conflict (key) do nothing;
+
+-- Symbol yang diperdagangkan; parameter simulasi sama dengan SIMULATED_PRICE_SYMBOLS di constants.ts.
+create table if not exists public.market_symbols (
+  symbol text primary key,
+  initial_price numeric(24, 10) not null check (initial_price > 0),
+  -- Standar deviasi log-return per detik untuk simulate_market_prices
+  volatility numeric not null default 0 check (volatility >= 0),
+  decimals int not null default 5
+);
+
+alter table public.market_symbols enable row level security;
+
+drop policy if exists market_symbols_select on public.market_symbols;
+create policy market_symbols_select on public.market_symbols
+  for select
+  using (auth.uid() is not null);
+
+insert into public.market_symbols (symbol, initial_price, volatility, decimals)
+values
+  ('ETH/BTC', 0.035, 0.0003, 5),
+  ('BTC/USDT', 65000, 0.0003, 2),
+  ('EUR/USD', 1.085, 0.00005, 5),
+  ('XAU/USD', 2350, 0.0001, 2)
+on conflict (symbol) do nothing;
+
+create table if not exists public.market_prices (
+  symbol text not null references public.market_symbols (symbol),
+  time timestamptz not null,
+  price numeric(24, 10) not null check (price > 0),
+  primary key (symbol, time)
+);
+
+create index if not exists market_prices_time_idx on public.market_prices (time);
+
+alter table public.market_prices enable row level security;
+
+-- Tanpa policy insert/update: hanya service role dan fungsi security definer yang menulis harga.
+drop policy if exists market_prices_select on public.market_prices;
+create policy market_prices_select on public.market_prices
+  for select
+  using (auth.uid() is not null);
+
+-- "Rp 1.234.567" atau "Rp 1.234,50", sama dengan toLocaleString('id-ID') di klien.
+create or replace function public.format_rupiah(p_amount numeric)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select 'Rp ' || translate(
+    case when p_amount = trunc(p_amount) then to_char(p_amount, 'FM999G999G999G999G990')
+         else to_char(p_amount, 'FM999G999G999G999G990D00') end,
+    ',.', '.,');
+$$;
+
+-- Harga terakhir pada atau sebelum p_at. Null bila tidak ada tick dalam satu menit
+-- sebelumnya (feed berhenti), supaya posisi tidak diselesaikan dengan harga basi.
+create or replace function public.market_price_at(p_symbol text, p_at timestamptz)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select price from market_prices
+   where symbol = p_symbol and time <= p_at and time > p_at - interval '1 minute'
+   order by time desc
+   limit 1;
+$$;
+
+grant execute on function public.market_price_at(text, timestamptz) to authenticated;
+
+-- Sumber harga demo: random walk per symbol dengan random() server, satu tick per
+-- pemanggilan (dijadwalkan tiap 5 detik di bawah). Hapus job-nya bila market_prices
+-- diisi feed harga sungguhan.
+create or replace function public.simulate_market_prices()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_symbol market_symbols%rowtype;
+  v_last numeric;
+  v_shock numeric;
+begin
+  for v_symbol in select * from market_symbols loop
+    select price into v_last from market_prices where symbol = v_symbol.symbol order by time desc limit 1;
+    v_last := coalesce(v_last, v_symbol.initial_price);
+    -- Box-Muller; volatilitas per detik diskalakan ke tick 5 detik
+    v_shock := sqrt(-2 * ln(greatest(random(), 1e-12))) * cos(2 * pi() * random()) * v_symbol.volatility * sqrt(5);
+    insert into market_prices (symbol, time, price)
+    values (v_symbol.symbol, now(), greatest(round(v_last * exp(v_shock), v_symbol.decimals), power(10::numeric, -v_symbol.decimals)))
+    on conflict do nothing;
+  end loop;
+
+  delete from market_prices where time < now() - interval '8 days';
+end;
+$$;
+
+revoke execute on function public.simulate_market_prices() from public, anon, authenticated;
+
+create or replace function public.open_trade(
+  p_market text,
+  p_direction text,
+  p_package text,
+  p_amount numeric
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_settings jsonb;
+  v_duration int;
+  v_min_stake numeric;
+  v_rate numeric;
+  v_trade trades%rowtype;
+  v_journal uuid := gen_random_uuid();
+  v_now timestamptz := now();
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED', 'message', 'You must be logged in to trade.');
+  end if;
+
+  select value into v_settings from app_settings where key = 'trading';
+  v_duration := (v_settings->'packages'->>p_package)::int;
+  v_min_stake := coalesce((v_settings->>'minStake')::numeric, 0);
+
+  if p_direction is null or p_direction not in ('BUY', 'SELL') then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Invalid trade direction.');
+  end if;
+  if v_duration is null then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Unknown trade package.');
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'message', 'Invalid stake amount.');
+  end if;
+  if p_amount < v_min_stake then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT',
+      'message', 'Minimum stake is ' || format_rupiah(v_min_stake) || '.');
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id and email_verified_at is not null) then
+    return jsonb_build_object('success', false, 'code', 'EMAIL_NOT_VERIFIED', 'message', 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.');
+  end if;
+
+  v_rate := market_price_at(p_market, v_now);
+  if v_rate is null then
+    return jsonb_build_object('success', false, 'code', 'PRICE_UNAVAILABLE', 'message', 'Price unavailable for ' || coalesce(p_market, '') || '.');
+  end if;
+
+  perform 1 from profiles where id = v_user_id for update;
+  perform ledger_ensure_opening_balance(v_user_id);
+  if (select balance from profiles where id = v_user_id) < p_amount then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE', 'message', 'Insufficient balance.');
+  end if;
+
+  insert into trades (id, user_id, market, direction, package, amount, rate_stake, status, payout_ratio, opened_at, expires_at)
+  values (gen_random_uuid(), v_user_id, p_market, p_direction, p_package, p_amount, v_rate, 'Pending',
+          (v_settings->>'payoutRatio')::numeric, v_now, v_now + make_interval(secs => v_duration))
+  returning * into v_trade;
+
+  insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo, created_at)
+  values
+    (v_journal, v_user_id::text, 'DEBIT', p_amount, 'trade:' || v_trade.id, 'Open ' || p_direction || ' ' || p_market || ' (' || p_package || ')', v_now),
+    (v_journal, 'system:trade_escrow', 'CREDIT', p_amount, 'trade:' || v_trade.id, 'Open ' || p_direction || ' ' || p_market || ' (' || p_package || ')', v_now);
+
+  update profiles set balance = balance - p_amount where id = v_user_id;
+
+  return jsonb_build_object('success', true, 'code', null, 'message', 'Trade opened.', 'trade', to_jsonb(v_trade));
+end;
+$$;
+
+grant execute on function public.open_trade(text, text, text, numeric) to authenticated;
+
+-- Menyelesaikan posisi Pending yang sudah expired dengan harga saat expiry; harga akhir
+-- yang sama dengan harga pembukaan dihitung kalah. Member hanya memproses posisinya
+-- sendiri; pg_cron (tanpa sesi) memproses semua. Posisi yang harganya belum ada
+-- dilewati dan dicoba lagi pada putaran berikutnya.
+create or replace function public.settle_due_trades()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_trade trades%rowtype;
+  v_rate numeric;
+  v_won boolean;
+  v_profit numeric;
+  v_journal uuid;
+  v_memo text;
+  v_reference text;
+  v_label text;
+  v_count integer := 0;
+begin
+  for v_trade in
+    select * from trades
+     where status = 'Pending'
+       and expires_at <= now()
+       and (v_caller is null or user_id = v_caller)
+     order by expires_at
+     for update skip locked
+  loop
+    v_rate := market_price_at(v_trade.market, v_trade.expires_at);
+    continue when v_rate is null;
+
+    v_won := case when v_trade.direction = 'BUY' then v_rate > v_trade.rate_stake else v_rate < v_trade.rate_stake end;
+    v_profit := case when v_won then round(v_trade.amount * v_trade.payout_ratio, 2) else 0 end;
+    v_journal := gen_random_uuid();
+    v_reference := 'trade:' || v_trade.id;
+    v_label := format_rupiah(v_trade.amount);
+
+    update trades
+       set status = case when v_won then 'Win' else 'Loss' end,
+           rate_end = v_rate,
+           settled_at = now(),
+           payout = case when v_won then v_trade.amount + v_profit else 0 end
+     where id = v_trade.id;
+
+    if v_won then
+      v_memo := 'Trade WIN ' || v_trade.direction || ' ' || v_trade.market;
+      perform ledger_ensure_opening_balance(v_trade.user_id);
+      insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo)
+      select v_journal, l.account_id, l.direction, l.amount, v_reference, v_memo
+        from (values
+          ('system:trade_escrow', 'DEBIT', v_trade.amount),
+          ('system:trade_pnl', 'DEBIT', v_profit),
+          (v_trade.user_id::text, 'CREDIT', v_trade.amount + v_profit)
+        ) as l(account_id, direction, amount)
+       where l.amount > 0;
+      update profiles set balance = balance + v_trade.amount + v_profit where id = v_trade.user_id;
+      insert into notifications (user_id, message, date, read)
+      values (v_trade.user_id, 'Trade Menang: Posisi ' || v_trade.direction || ' ' || v_trade.market || ' senilai ' || v_label
+        || ' menghasilkan profit ' || format_rupiah(v_profit) || '.', now(), false);
+    else
+      v_memo := 'Trade LOSS ' || v_trade.direction || ' ' || v_trade.market;
+      insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo)
+      values
+        (v_journal, 'system:trade_escrow', 'DEBIT', v_trade.amount, v_reference, v_memo),
+        (v_journal, 'system:trade_pnl', 'CREDIT', v_trade.amount, v_reference, v_memo);
+      insert into notifications (user_id, message, date, read)
+      values (v_trade.user_id, 'Trade Kalah: Posisi ' || v_trade.direction || ' ' || v_trade.market || ' senilai ' || v_label || ' ditutup rugi.', now(), false);
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.settle_due_trades() from public, anon;
+grant execute on function public.settle_due_trades() to authenticated;
+
+-- Jadwal bila pg_cron aktif (Database -> Extensions). Tanpa pg_cron, jalankan kedua
+-- fungsi dari scheduler lain dengan service role.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('simulate-market-prices', '5 seconds', 'select public.simulate_market_prices()');
+    perform cron.schedule('settle-due-trades', '* * * * *', 'select public.settle_due_trades()');
+  end if;
+end;
+$$;
@@ -0,0 +1,241 @@
+-- Pembelian dan payout investasi dikerjakan di database. Sebelumnya klien
+-- mengirim principal/projected_profit sendiri lewat insert langsung, dan
+-- payout menandai kontrak dibayar lebih dulu lalu memposting jurnal dalam
+-- request terpisah (bila jurnal gagal, periode itu hilang). Sekarang plan dan
+-- tier dibaca dari tabel di bawah, dan purchase_investment /
+-- process_investment_payouts menulis kontrak, jurnal, saldo dan notifikasi
+-- dalam satu transaksi.
+
+drop policy if exists "investment_contracts_insert_own" on public.investment_contracts;
+drop policy if exists "investment_contracts_payout" on public.investment_contracts;
+
+-- Sama dengan INVESTMENT_PLANS di constants.ts, yang ditampilkan di Investment page.
+create table if not exists public.investment_plans (
+  id text primary key,
+  name text not null,
+  term_days integer not null check (term_days > 0)
+);
+
+create table if not exists public.investment_plan_tiers (
+  plan_id text not null references public.investment_plans (id),
+  -- Indeks tier di INVESTMENT_PLANS[].tiers
+  tier_index integer not null check (tier_index >= 0),
+  principal numeric(18, 2) not null check (principal > 0),
+  projected_profit numeric(18, 2) not null check (projected_profit >= 0),
+  primary key (plan_id, tier_index)
+);
+
+alter table public.investment_plans enable row level security;
+alter table public.investment_plan_tiers enable row level security;
+
+drop policy if exists investment_plans_select on public.investment_plans;
+create policy investment_plans_select on public.investment_plans
+  for select
+  using (auth.uid() is not null);
+
+drop policy if exists investment_plan_tiers_select on public.investment_plan_tiers;
+create policy investment_plan_tiers_select on public.investment_plan_tiers
+  for select
+  using (auth.uid() is not null);
+
+insert into public.investment_plans (id, name, term_days)
+values
+  ('gold', 'PAKET GOLD', 30),
+  ('platinum', 'PAKET PLATINUM', 60),
+  ('diamond', 'PAKET DIAMOND', 90),
+  ('vip', 'PAKET VIP', 120)
+on conflict (id) do nothing;
+
+insert into public.investment_plan_tiers (plan_id, tier_index, principal, projected_profit)
+values
+  ('gold', 0, 500000, 13000000),
+  ('gold', 1, 1000000, 30000000),
+  ('platinum', 0, 1500000, 50000000),
+  ('platinum', 1, 2500000, 80000000),
+  ('platinum', 2, 3500000, 110000000),
+  ('diamond', 0, 4500000, 140000000),
+  ('diamond', 1, 5500000, 170000000),
+  ('diamond', 2, 6500000, 200000000),
+  ('vip', 0, 8000000, 235000000),
+  ('vip', 1, 9000000, 275000000),
+  ('vip', 2, 10000000, 295000000)
+on conflict (plan_id, tier_index) do nothing;
+
+-- Samakan dengan VITE_INVESTMENT_PAYOUT_INTERVAL_HOURS.
+insert into public.app_settings (key, value)
+values ('investment', jsonb_build_object('payoutIntervalHours', 24))
+on conflict (key) do nothing;
+
+create or replace function public.purchase_investment(p_plan_id text, p_tier_index integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_plan investment_plans%rowtype;
+  v_tier investment_plan_tiers%rowtype;
+  v_term_ms bigint;
+  v_interval_ms bigint;
+  v_contract investment_contracts%rowtype;
+  v_journal uuid := gen_random_uuid();
+  v_memo text;
+  v_now timestamptz := now();
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED', 'message', 'Silakan login terlebih dahulu.');
+  end if;
+
+  select * into v_plan from investment_plans where id = p_plan_id;
+  select * into v_tier from investment_plan_tiers where plan_id = p_plan_id and tier_index = p_tier_index;
+  if v_plan.id is null or v_tier.plan_id is null then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Paket investasi tidak ditemukan.');
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id and email_verified_at is not null) then
+    return jsonb_build_object('success', false, 'code', 'EMAIL_NOT_VERIFIED', 'message', 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.');
+  end if;
+
+  perform 1 from profiles where id = v_user_id for update;
+  perform ledger_ensure_opening_balance(v_user_id);
+  if (select balance from profiles where id = v_user_id) < v_tier.principal then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE', 'message', 'Saldo tidak mencukupi untuk paket ini.');
+  end if;
+
+  v_term_ms := v_plan.term_days::bigint * 24 * 60 * 60 * 1000;
+  v_interval_ms := least(
+    round(coalesce((select (value->>'payoutIntervalHours')::numeric from app_settings where key = 'investment'), 24) * 60 * 60 * 1000)::bigint,
+    v_term_ms
+  );
+
+  insert into investment_contracts (
+    id, user_id, plan_id, plan_name, principal, projected_profit, term_days,
+    start_date, maturity_date, payout_interval_ms, total_periods, status
+  )
+  values (
+    gen_random_uuid(), v_user_id, v_plan.id, v_plan.name, v_tier.principal, v_tier.projected_profit, v_plan.term_days,
+    v_now, v_now + make_interval(days => v_plan.term_days), v_interval_ms, ceil(v_term_ms::numeric / v_interval_ms)::integer, 'Active'
+  )
+  returning * into v_contract;
+
+  v_memo := 'Pembelian ' || v_plan.name || ' ' || format_rupiah(v_tier.principal);
+  insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo, created_at)
+  values
+    (v_journal, v_user_id::text, 'DEBIT', v_tier.principal, 'investment:' || v_contract.id, v_memo, v_now),
+    (v_journal, 'system:investment_principal', 'CREDIT', v_tier.principal, 'investment:' || v_contract.id, v_memo, v_now);
+
+  update profiles set balance = balance - v_tier.principal where id = v_user_id;
+
+  insert into notifications (user_id, message, date, read)
+  values (v_user_id, 'Investasi Aktif: ' || v_plan.name || ' dengan modal ' || format_rupiah(v_tier.principal)
+    || ' berjalan selama ' || v_plan.term_days || ' hari.', v_now, false);
+
+  return jsonb_build_object('success', true, 'code', null, 'message', 'Paket investasi berhasil diaktifkan.', 'contract', to_jsonb(v_contract));
+end;
+$$;
+
+grant execute on function public.purchase_investment(text, integer) to authenticated;
+
+-- Membayar semua periode yang sudah lewat dan belum dibayar, sama seperti
+-- perhitungan sebelumnya di investmentService: profit kumulatif dibulatkan per
+-- periode, periode terakhir menutup tepat di projected_profit dan modal ikut
+-- dikembalikan saat jatuh tempo. Member hanya memproses kontraknya sendiri;
+-- p_all = true (semua user) hanya untuk finance/super_admin atau pg_cron.
+create or replace function public.process_investment_payouts(p_all boolean default false)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_contract investment_contracts%rowtype;
+  v_now timestamptz := now();
+  v_periods integer;
+  v_matured boolean;
+  v_accrued numeric;
+  v_profit numeric;
+  v_principal numeric;
+  v_journal uuid;
+  v_memo text;
+  v_count integer := 0;
+begin
+  if p_all and v_caller is not null and not public.has_admin_role(array['finance', 'super_admin']) then
+    raise exception 'Not allowed to run payouts for all users.' using errcode = '42501';
+  end if;
+
+  for v_contract in
+    select * from investment_contracts
+     where status = 'Active'
+       and (v_caller is null or p_all or user_id = v_caller)
+     for update skip locked
+  loop
+    if v_now >= v_contract.maturity_date then
+      v_periods := v_contract.total_periods;
+    else
+      v_periods := greatest(0, least(
+        floor(extract(epoch from v_now - v_contract.start_date) * 1000 / v_contract.payout_interval_ms)::integer,
+        v_contract.total_periods - 1
+      ));
+    end if;
+    continue when v_periods <= v_contract.paid_periods;
+
+    v_matured := v_periods = v_contract.total_periods;
+    v_accrued := case when v_matured then v_contract.projected_profit
+                      else round(v_contract.projected_profit * v_periods / v_contract.total_periods, 2) end;
+    v_profit := v_accrued - v_contract.paid_profit;
+    v_principal := case when v_matured then v_contract.principal else 0 end;
+
+    update investment_contracts
+       set paid_periods = v_periods,
+           paid_profit = v_accrued,
+           status = case when v_matured then 'Matured' else 'Active' end,
+           last_payout_at = v_now
+     where id = v_contract.id;
+
+    if v_profit + v_principal > 0 then
+      v_journal := gen_random_uuid();
+      v_memo := case when v_matured
+        then 'Jatuh tempo ' || v_contract.plan_name || ': profit dan pengembalian modal'
+        else 'Profit ' || v_contract.plan_name || ' periode ' || v_periods || '/' || v_contract.total_periods end;
+      perform ledger_ensure_opening_balance(v_contract.user_id);
+      insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo, created_at)
+      select v_journal, l.account_id, l.direction, l.amount, 'investment:' || v_contract.id, v_memo, v_now
+        from (values
+          ('system:investment_profit', 'DEBIT', v_profit),
+          ('system:investment_principal', 'DEBIT', v_principal),
+          (v_contract.user_id::text, 'CREDIT', v_profit + v_principal)
+        ) as l(account_id, direction, amount)
+       where l.amount > 0;
+      update profiles set balance = balance + v_profit + v_principal where id = v_contract.user_id;
+    end if;
+
+    if v_matured then
+      insert into notifications (user_id, message, date, read)
+      values (v_contract.user_id, 'Investasi Selesai: ' || v_contract.plan_name || ' telah jatuh tempo. Modal ' || format_rupiah(v_contract.principal)
+        || ' dan total profit ' || format_rupiah(v_contract.projected_profit) || ' telah dikreditkan ke wallet Anda.', v_now, false);
+    elsif v_profit > 0 then
+      insert into notifications (user_id, message, date, read)
+      values (v_contract.user_id, 'Profit Investasi: ' || format_rupiah(v_profit) || ' dari ' || v_contract.plan_name
+        || ' telah dikreditkan ke wallet Anda.', v_now, false);
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.process_investment_payouts(boolean) from public, anon;
+grant execute on function public.process_investment_payouts(boolean) to authenticated;
+
+-- Payout tetap berjalan walau member tidak membuka aplikasi (lihat 0023 untuk pg_cron).
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('process-investment-payouts', '0 * * * *', 'select public.process_investment_payouts(true)');
+  end if;
+end;
+$$;
@@ -0,0 +1,91 @@
+-- Masa tunggu dan pencocokan nama rekening penarikan ditegakkan di database.
+-- Trigger 0018 menghitung active_at dari selisih active_at - created_at yang
+-- dikirim klien, dan nama pemilik hanya dicek di beneficiaryService. Sekarang
+-- masa tunggu diambil dari app_settings dan nilai dari klien diabaikan.
+
+-- Samakan dengan VITE_BENEFICIARY_COOLING_OFF_HOURS, yang ditampilkan di form.
+insert into public.app_settings (key, value)
+values ('beneficiaries', jsonb_build_object('coolingOffHours', 24))
+on conflict (key) do nothing;
+
+alter table public.withdrawal_beneficiaries alter column active_at set default now();
+
+-- Padanan nameTokens di services/beneficiaryService.ts.
+create or replace function public.beneficiary_name_tokens(p_name text)
+returns text[]
+language sql
+immutable
+set search_path = public
+as $$
+  select coalesce(array_agg(t order by ord), '{}')
+    from regexp_split_to_table(trim(regexp_replace(upper(coalesce(p_name, '')), '[^A-Z\s]', ' ', 'g')), '\s+')
+         with ordinality as x(t, ord)
+   where t <> ''
+     and t <> all (array['BPK', 'BAPAK', 'IBU', 'SDR', 'SDRI', 'TN', 'NY', 'NN', 'IR', 'DR', 'DRS', 'DRA', 'HJ', 'H', 'SH', 'SE', 'ST', 'SKOM', 'MM']);
+$$;
+
+-- Padanan namesMatch di services/beneficiaryService.ts; hasil keduanya harus sama.
+create or replace function public.beneficiary_names_match(p_holder text, p_registered text)
+returns boolean
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_holder text[] := beneficiary_name_tokens(p_holder);
+  v_registered text[] := beneficiary_name_tokens(p_registered);
+  v_count integer := coalesce(array_length(v_registered, 1), 0);
+  v_position integer := 1;
+  v_token text;
+begin
+  if coalesce(array_length(v_holder, 1), 0) = 0 then
+    return false;
+  end if;
+
+  foreach v_token in array v_holder loop
+    while v_position <= v_count
+      and not (v_registered[v_position] = v_token or (length(v_token) = 1 and left(v_registered[v_position], 1) = v_token)) loop
+      v_position := v_position + 1;
+    end loop;
+    if v_position > v_count then
+      return false;
+    end if;
+    v_position := v_position + 1;
+  end loop;
+
+  return array_length(v_holder, 1) > 1 or v_count = 1;
+end;
+$$;
+
+-- Nama terdaftar: nama KYC bila pengajuan terakhir disetujui, selain itu nama profil.
+create or replace function public.withdrawal_beneficiaries_set_created_at()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_registered text;
+  v_cooling_off_hours numeric;
+begin
+  select case when status = 'APPROVED' then nullif(trim(identity->>'fullName'), '') end into v_registered
+    from kyc_cases
+   where user_id = new.user_id
+   order by created_at desc
+   limit 1;
+  if v_registered is null then
+    select full_name into v_registered from profiles where id = new.user_id;
+  end if;
+
+  if not beneficiary_names_match(new.account_holder_name, v_registered) then
+    raise exception 'The account holder name must match your registered name (%).', coalesce(v_registered, '');
+  end if;
+
+  v_cooling_off_hours := coalesce((select (value->>'coolingOffHours')::numeric from app_settings where key = 'beneficiaries'), 24);
+
+  new.account_holder_name := upper(trim(new.account_holder_name));
+  new.created_at := now();
+  new.active_at := now() + greatest(v_cooling_off_hours, 0) * interval '1 hour';
+  return new;
+end;
+$$;
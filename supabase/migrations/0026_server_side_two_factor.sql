@@ -0,0 +1,358 @@
+-- 2FA diperiksa di database. Sebelumnya policy user_two_factor_own (for all)
+-- membuat pemilik akun bisa membaca secret dan menghapus barisnya tanpa kode,
+-- dan langkah kedua login hanya ditandai di localStorage. Sekarang:
+--   * user_two_factor tidak bisa dibaca/diubah klien; semua akses lewat fungsi
+--     two_factor_* di bawah yang memeriksa kode TOTP/recovery code di server;
+--   * sesi yang lolos langkah kedua dicatat per session_id JWT di
+--     two_factor_sessions, dan two_factor_session_verified() dipakai oleh
+--     policy restrictive serta fungsi yang memindahkan saldo.
+
+create extension if not exists pgcrypto with schema extensions;
+
+drop policy if exists "user_two_factor_own" on public.user_two_factor;
+revoke all on public.user_two_factor from anon, authenticated;
+
+drop function if exists public.consume_two_factor_recovery_code(uuid, text);
+
+create table if not exists public.two_factor_sessions (
+  session_id uuid primary key references auth.sessions (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  verified_at timestamptz not null default now()
+);
+
+alter table public.two_factor_sessions enable row level security;
+revoke all on public.two_factor_sessions from anon, authenticated;
+
+-- Padanan base32Decode di services/totp.ts.
+create or replace function public.two_factor_base32_decode(p_input text)
+returns bytea
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  v_alphabet constant text := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  v_clean text := regexp_replace(upper(coalesce(p_input, '')), '[\s=-]', '', 'g');
+  v_bits integer := 0;
+  v_value integer := 0;
+  v_index integer;
+  v_output bytea := ''::bytea;
+begin
+  for i in 1 .. length(v_clean) loop
+    v_index := strpos(v_alphabet, substr(v_clean, i, 1)) - 1;
+    if v_index < 0 then
+      raise exception 'Invalid base32 secret.';
+    end if;
+    v_value := ((v_value << 5) | v_index) & 4095;
+    v_bits := v_bits + 5;
+    if v_bits >= 8 then
+      v_output := v_output || set_byte('\x00'::bytea, 0, (v_value >> (v_bits - 8)) & 255);
+      v_bits := v_bits - 8;
+    end if;
+  end loop;
+  return v_output;
+end;
+$$;
+
+-- HOTP (RFC 4226) 6 digit dengan HMAC-SHA1, sama dengan services/totp.ts.
+create or replace function public.two_factor_hotp(p_key bytea, p_counter bigint)
+returns text
+language plpgsql
+immutable
+set search_path = public, extensions
+as $$
+declare
+  v_hmac bytea := hmac(int8send(p_counter), p_key, 'sha1');
+  v_offset integer := get_byte(v_hmac, 19) & 15;
+  v_binary bigint;
+begin
+  v_binary := ((get_byte(v_hmac, v_offset) & 127)::bigint << 24)
+    | (get_byte(v_hmac, v_offset + 1)::bigint << 16)
+    | (get_byte(v_hmac, v_offset + 2)::bigint << 8)
+    | get_byte(v_hmac, v_offset + 3)::bigint;
+  return lpad((v_binary % 1000000)::text, 6, '0');
+end;
+$$;
+
+-- Format hash recovery code lama (SHA-256 hex dari "<user_id>:<kode>") tetap dipakai.
+create or replace function public.two_factor_recovery_hash(p_user_id uuid, p_code text)
+returns text
+language sql
+immutable
+set search_path = public, extensions
+as $$
+  select encode(digest(p_user_id::text || ':' || regexp_replace(lower(coalesce(p_code, '')), '[^a-z0-9]', '', 'g'), 'sha256'), 'hex');
+$$;
+
+/**
+ * Memeriksa kode authenticator (toleransi satu periode 30 detik, time step
+ * sekali pakai) atau, bila p_allow_recovery, menghapus satu recovery code.
+ * Hanya dipanggil fungsi lain; klien tidak punya akses.
+ */
+create or replace function public.two_factor_consume_code(p_user_id uuid, p_code text, p_allow_recovery boolean)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_record user_two_factor%rowtype;
+  v_code text := regexp_replace(coalesce(p_code, ''), '\s', '', 'g');
+  v_key bytea;
+  v_current bigint := floor(extract(epoch from now()) / 30);
+  v_step bigint;
+  v_hash text;
+begin
+  select * into v_record from user_two_factor where user_id = p_user_id for update;
+  if not found then
+    return false;
+  end if;
+
+  if v_code ~ '^\d{6}$' then
+    v_key := two_factor_base32_decode(v_record.secret);
+    for i in -1 .. 1 loop
+      v_step := v_current + i;
+      if two_factor_hotp(v_key, v_step) = v_code then
+        if v_record.last_used_step is not null and v_step <= v_record.last_used_step then
+          return false;
+        end if;
+        update user_two_factor set last_used_step = v_step where user_id = p_user_id;
+        return true;
+      end if;
+    end loop;
+    return false;
+  end if;
+
+  if not p_allow_recovery or not v_record.enabled or regexp_replace(lower(coalesce(p_code, '')), '[^a-z0-9]', '', 'g') = '' then
+    return false;
+  end if;
+  v_hash := two_factor_recovery_hash(p_user_id, p_code);
+  update user_two_factor
+     set recovery_code_hashes = array_remove(recovery_code_hashes, v_hash)
+   where user_id = p_user_id
+     and v_hash = any (recovery_code_hashes);
+  return found;
+end;
+$$;
+
+revoke execute on function public.two_factor_consume_code(uuid, text, boolean) from public, anon, authenticated;
+
+-- Menandai sesi JWT saat ini sudah melewati langkah kedua.
+create or replace function public.two_factor_mark_session()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_session_id uuid := nullif(auth.jwt()->>'session_id', '')::uuid;
+begin
+  if v_session_id is not null then
+    insert into two_factor_sessions (session_id, user_id)
+    values (v_session_id, auth.uid())
+    on conflict (session_id) do nothing;
+  end if;
+end;
+$$;
+
+revoke execute on function public.two_factor_mark_session() from public, anon, authenticated;
+
+-- True bila user tidak memakai 2FA, atau sesi saat ini sudah memasukkan kode.
+create or replace function public.two_factor_session_verified()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not exists (select 1 from user_two_factor where user_id = auth.uid() and enabled)
+      or exists (
+        select 1 from two_factor_sessions
+         where session_id = nullif(auth.jwt()->>'session_id', '')::uuid
+           and user_id = auth.uid()
+      );
+$$;
+
+grant execute on function public.two_factor_session_verified() to authenticated;
+
+create or replace function public.two_factor_status()
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'enabled', coalesce(t.enabled, false),
+    'enabled_at', case when t.enabled then t.enabled_at end,
+    'recovery_codes_remaining', case when t.enabled then coalesce(array_length(t.recovery_code_hashes, 1), 0) else 0 end,
+    'session_verified', public.two_factor_session_verified()
+  )
+  from (select auth.uid() as id) me
+  left join user_two_factor t on t.user_id = me.id;
+$$;
+
+grant execute on function public.two_factor_status() to authenticated;
+
+-- Secret dibuat klien lalu disimpan di sini; setelah aktif secret tidak pernah dikembalikan.
+create or replace function public.two_factor_begin_enrollment(p_secret text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'You must be logged in.';
+  end if;
+  if exists (select 1 from user_two_factor where user_id = auth.uid() and enabled) then
+    raise exception 'Two-factor authentication is already enabled.';
+  end if;
+  if length(two_factor_base32_decode(p_secret)) < 16 then
+    raise exception 'Invalid two-factor secret.';
+  end if;
+
+  insert into user_two_factor (user_id, secret, enabled, recovery_code_hashes, last_used_step, created_at, enabled_at)
+  values (auth.uid(), upper(p_secret), false, '{}', null, now(), null)
+  on conflict (user_id) do update
+    set secret = excluded.secret,
+        enabled = false,
+        recovery_code_hashes = '{}',
+        last_used_step = null,
+        created_at = excluded.created_at,
+        enabled_at = null;
+end;
+$$;
+
+grant execute on function public.two_factor_begin_enrollment(text) to authenticated;
+
+create or replace function public.two_factor_confirm_enrollment(p_code text, p_recovery_codes text[])
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from user_two_factor where user_id = auth.uid() and not enabled) then
+    return false;
+  end if;
+  if not two_factor_consume_code(auth.uid(), p_code, false) then
+    return false;
+  end if;
+
+  update user_two_factor
+     set enabled = true,
+         enabled_at = now(),
+         recovery_code_hashes = array(select two_factor_recovery_hash(auth.uid(), c) from unnest(p_recovery_codes) as c)
+   where user_id = auth.uid();
+  perform two_factor_mark_session();
+  return true;
+end;
+$$;
+
+grant execute on function public.two_factor_confirm_enrollment(text, text[]) to authenticated;
+
+-- Langkah kedua login dan konfirmasi ulang sebelum aksi sensitif.
+create or replace function public.two_factor_verify(p_code text, p_allow_recovery boolean default true)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from user_two_factor where user_id = auth.uid() and enabled) then
+    return false;
+  end if;
+  if not two_factor_consume_code(auth.uid(), p_code, p_allow_recovery) then
+    return false;
+  end if;
+  perform two_factor_mark_session();
+  return true;
+end;
+$$;
+
+grant execute on function public.two_factor_verify(text, boolean) to authenticated;
+
+create or replace function public.two_factor_replace_recovery_codes(p_code text, p_recovery_codes text[])
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from user_two_factor where user_id = auth.uid() and enabled) then
+    return false;
+  end if;
+  if not two_factor_consume_code(auth.uid(), p_code, false) then
+    return false;
+  end if;
+
+  update user_two_factor
+     set recovery_code_hashes = array(select two_factor_recovery_hash(auth.uid(), c) from unnest(p_recovery_codes) as c)
+   where user_id = auth.uid();
+  return true;
+end;
+$$;
+
+grant execute on function public.two_factor_replace_recovery_codes(text, text[]) to authenticated;
+
+create or replace function public.two_factor_disable(p_code text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from user_two_factor where user_id = auth.uid() and enabled) then
+    return false;
+  end if;
+  if not two_factor_consume_code(auth.uid(), p_code, true) then
+    return false;
+  end if;
+
+  delete from user_two_factor where user_id = auth.uid();
+  delete from two_factor_sessions where user_id = auth.uid();
+  return true;
+end;
+$$;
+
+grant execute on function public.two_factor_disable(text) to authenticated;
+
+-- Sesi yang belum memasukkan kode 2FA tidak bisa membaca atau mengubah data
+-- keuangan/identitas lewat API. Fungsi security definer yang memindahkan
+-- saldo memeriksa two_factor_session_verified() sendiri.
+drop policy if exists transactions_two_factor on public.transactions;
+create policy transactions_two_factor on public.transactions
+  as restrictive for all to authenticated
+  using ((select public.two_factor_session_verified()))
+  with check ((select public.two_factor_session_verified()));
+
+drop policy if exists ledger_entries_two_factor on public.ledger_entries;
+create policy ledger_entries_two_factor on public.ledger_entries
+  as restrictive for all to authenticated
+  using ((select public.two_factor_session_verified()))
+  with check ((select public.two_factor_session_verified()));
+
+drop policy if exists trades_two_factor on public.trades;
+create policy trades_two_factor on public.trades
+  as restrictive for all to authenticated
+  using ((select public.two_factor_session_verified()))
+  with check ((select public.two_factor_session_verified()));
+
+drop policy if exists investment_contracts_two_factor on public.investment_contracts;
+create policy investment_contracts_two_factor on public.investment_contracts
+  as restrictive for all to authenticated
+  using ((select public.two_factor_session_verified()))
+  with check ((select public.two_factor_session_verified()));
+
+drop policy if exists withdrawal_beneficiaries_two_factor on public.withdrawal_beneficiaries;
+create policy withdrawal_beneficiaries_two_factor on public.withdrawal_beneficiaries
+  as restrictive for all to authenticated
+  using ((select public.two_factor_session_verified()))
+  with check ((select public.two_factor_session_verified()));
+
+drop policy if exists kyc_cases_two_factor on public.kyc_cases;
+create policy kyc_cases_two_factor on public.kyc_cases
+  as restrictive for all to authenticated
+  using ((select public.two_factor_session_verified()))
+  with check ((select public.two_factor_session_verified()));
@@ -0,0 +1,395 @@
+-- Limit, verifikasi email dan kode 2FA untuk withdrawal dan transfer
+-- ditegakkan di database. Sebelumnya transfer_funds hanya memeriksa biaya dan
+-- withdrawal dibuat lewat insert langsung ke transactions, sehingga semua cek
+-- di transactionService/limitsService bisa dilewati dengan memanggil API
+-- langsung. Sekarang:
+--   * member hanya boleh insert deposit langsung; withdrawal lewat
+--     request_withdrawal, transfer lewat transfer_funds;
+--   * keduanya memeriksa email terverifikasi, limit (global per level +
+--     user_limit_overrides), saldo, biaya dan kode authenticator baru.
+
+-- Samakan dengan DEFAULT_LIMITS di services/limitsService.ts (minimum
+-- withdrawal mengikuti VITE_MIN_WITHDRAWAL).
+insert into public.app_settings (key, value)
+values ('limits', jsonb_build_object(
+  'BASIC', jsonb_build_object(
+    'WITHDRAWAL', jsonb_build_object('minPerTransaction', 50000, 'maxPerTransaction', 5000000, 'dailyAmount', 10000000, 'monthlyAmount', 50000000, 'dailyCount', 3),
+    'TRANSFER', jsonb_build_object('minPerTransaction', 10000, 'maxPerTransaction', 5000000, 'dailyAmount', 10000000, 'monthlyAmount', 50000000, 'dailyCount', 10)
+  ),
+  'VERIFIED', jsonb_build_object(
+    'WITHDRAWAL', jsonb_build_object('minPerTransaction', 50000, 'maxPerTransaction', 100000000, 'dailyAmount', 200000000, 'monthlyAmount', 1000000000, 'dailyCount', 10),
+    'TRANSFER', jsonb_build_object('minPerTransaction', 10000, 'maxPerTransaction', 50000000, 'dailyAmount', 100000000, 'monthlyAmount', 500000000, 'dailyCount', 20)
+  )
+))
+on conflict (key) do nothing;
+
+-- Withdrawal tidak lagi bisa dibuat dengan insert langsung.
+drop policy if exists transactions_insert_deposit_only on public.transactions;
+create policy transactions_insert_deposit_only on public.transactions
+  as restrictive for insert to authenticated
+  with check (type = 'DEPOSIT');
+
+/**
+ * Padanan checkLimits di services/limitsService.ts: pesan pelanggaran pertama,
+ * atau null bila `p_amount` masih dalam limit. Hari dan bulan dihitung dalam
+ * WIB; withdrawal PENDING ikut dihitung karena dananya sudah di-hold.
+ */
+create or replace function public.transaction_limit_error(p_user_id uuid, p_type text, p_amount numeric)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_label text := lower(p_type);
+  v_level text;
+  v_limits jsonb;
+  v_day_start timestamptz := date_trunc('day', now() at time zone 'Asia/Jakarta') at time zone 'Asia/Jakarta';
+  v_month_start timestamptz := date_trunc('month', now() at time zone 'Asia/Jakarta') at time zone 'Asia/Jakarta';
+  v_daily_amount numeric;
+  v_monthly_amount numeric;
+  v_daily_count integer;
+begin
+  select case when is_verified then 'VERIFIED' else 'BASIC' end into v_level from profiles where id = p_user_id;
+  v_limits := coalesce((select value->coalesce(v_level, 'BASIC')->p_type from app_settings where key = 'limits'), '{}'::jsonb)
+    || coalesce((select limits from user_limit_overrides where user_id = p_user_id and type = p_type), '{}'::jsonb);
+
+  select coalesce(sum(amount), 0),
+         coalesce(sum(amount) filter (where date >= v_day_start), 0),
+         count(*) filter (where date >= v_day_start)
+    into v_monthly_amount, v_daily_amount, v_daily_count
+    from transactions
+   where user_id = p_user_id
+     and type = p_type
+     and date >= v_month_start
+     and case when p_type = 'WITHDRAWAL' then status in ('PENDING', 'SUCCESS')
+              else status = 'SUCCESS' and coalesce(direction, 'OUT') = 'OUT' end;
+
+  if p_amount < coalesce((v_limits->>'minPerTransaction')::numeric, 0) then
+    return 'Minimum ' || v_label || ' amount is ' || format_rupiah((v_limits->>'minPerTransaction')::numeric) || '.';
+  end if;
+  if v_limits ? 'maxPerTransaction' and p_amount > (v_limits->>'maxPerTransaction')::numeric then
+    return 'Maximum ' || v_label || ' amount is ' || format_rupiah((v_limits->>'maxPerTransaction')::numeric) || ' per transaction.';
+  end if;
+  if v_limits ? 'dailyCount' and v_daily_count >= (v_limits->>'dailyCount')::integer then
+    return 'Daily ' || v_label || ' limit of ' || (v_limits->>'dailyCount') || ' transactions reached. Try again tomorrow.';
+  end if;
+  if v_limits ? 'dailyAmount' and p_amount > greatest(0, (v_limits->>'dailyAmount')::numeric - v_daily_amount) then
+    return 'Amount exceeds your remaining daily ' || v_label || ' limit ('
+      || format_rupiah(greatest(0, (v_limits->>'dailyAmount')::numeric - v_daily_amount)) || ').';
+  end if;
+  if v_limits ? 'monthlyAmount' and p_amount > greatest(0, (v_limits->>'monthlyAmount')::numeric - v_monthly_amount) then
+    return 'Amount exceeds your remaining monthly ' || v_label || ' limit ('
+      || format_rupiah(greatest(0, (v_limits->>'monthlyAmount')::numeric - v_monthly_amount)) || ').';
+  end if;
+  return null;
+end;
+$$;
+
+revoke execute on function public.transaction_limit_error(uuid, text, numeric) from public, anon, authenticated;
+
+-- Padanan requireFreshCode di services/twoFactorService.ts; null bila boleh lanjut.
+create or replace function public.two_factor_fresh_code_error(p_user_id uuid, p_code text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from user_two_factor where user_id = p_user_id and enabled) then
+    return null;
+  end if;
+  if coalesce(trim(p_code), '') = '' then
+    return 'Enter the code from your authenticator app to continue.';
+  end if;
+  if not two_factor_consume_code(p_user_id, p_code, false) then
+    return 'Invalid or already used authenticator code.';
+  end if;
+  return null;
+end;
+$$;
+
+revoke execute on function public.two_factor_fresh_code_error(uuid, text) from public, anon, authenticated;
+
+drop function if exists public.transfer_funds(uuid, text, numeric, numeric, text);
+
+create or replace function public.transfer_funds(
+  p_sender_id uuid,
+  p_recipient_email text,
+  p_amount numeric,
+  p_fee numeric,
+  p_idempotency_key text,
+  p_two_factor_code text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sender profiles%rowtype;
+  v_recipient profiles%rowtype;
+  v_recipient_id uuid;
+  v_existing transactions%rowtype;
+  v_sender_tx uuid;
+  v_recipient_tx uuid;
+  v_journal uuid := gen_random_uuid();
+  v_fee_journal uuid := gen_random_uuid();
+  v_now timestamptz := now();
+  v_fee numeric;
+  v_amount_label text;
+  v_fee_label text := '';
+  v_error text;
+begin
+  if auth.uid() is distinct from p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED', 'message', 'Not allowed to transfer from this account.');
+  end if;
+
+  if p_idempotency_key is null or length(p_idempotency_key) = 0 then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Missing idempotency key.');
+  end if;
+
+  -- Replay: kunci sudah pernah dipakai, kembalikan hasil aslinya.
+  select * into v_existing from transactions
+    where user_id = p_sender_id and idempotency_key = p_idempotency_key;
+  if found then
+    if v_existing.amount <> p_amount or lower(v_existing.counterparty_email) <> lower(trim(p_recipient_email)) then
+      return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Idempotency key was already used for a different request.');
+    end if;
+    return jsonb_build_object(
+      'success', v_existing.status = 'SUCCESS',
+      'code', case when v_existing.status = 'SUCCESS' then null else 'FAILED' end,
+      'message', 'Transfer successful.',
+      'transaction_id', v_existing.id,
+      'replayed', true
+    );
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'message', 'Invalid amount.');
+  end if;
+
+  v_fee := calculate_fee('TRANSFER', p_amount);
+  if p_fee is distinct from v_fee then
+    return jsonb_build_object('success', false, 'code', 'FEE_CHANGED', 'message', 'The transfer fee has changed. Please review the new fee and try again.');
+  end if;
+
+  if not exists (select 1 from profiles where id = p_sender_id and email_verified_at is not null) then
+    return jsonb_build_object('success', false, 'code', 'EMAIL_NOT_VERIFIED', 'message', 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.');
+  end if;
+
+  select id into v_recipient_id from profiles where lower(email) = lower(trim(p_recipient_email));
+  if v_recipient_id is null then
+    return jsonb_build_object('success', false, 'code', 'RECIPIENT_NOT_FOUND', 'message', 'Recipient email not found.');
+  end if;
+
+  if v_recipient_id = p_sender_id then
+    return jsonb_build_object('success', false, 'code', 'SELF_TRANSFER', 'message', 'Cannot transfer to your own account.');
+  end if;
+
+  perform 1 from profiles where id in (p_sender_id, v_recipient_id) order by id for update;
+  select * into v_sender from profiles where id = p_sender_id;
+  select * into v_recipient from profiles where id = v_recipient_id;
+
+  perform ledger_ensure_opening_balance(p_sender_id);
+  perform ledger_ensure_opening_balance(v_recipient_id);
+
+  if v_sender.balance < p_amount + v_fee then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE', 'message', 'Insufficient balance.');
+  end if;
+
+  v_error := transaction_limit_error(p_sender_id, 'TRANSFER', p_amount);
+  if v_error is not null then
+    return jsonb_build_object('success', false, 'code', 'LIMIT_EXCEEDED', 'message', v_error);
+  end if;
+
+  -- Paling akhir supaya kode 2FA tidak terpakai oleh permintaan yang toh ditolak.
+  v_error := two_factor_fresh_code_error(p_sender_id, p_two_factor_code);
+  if v_error is not null then
+    return jsonb_build_object('success', false, 'code', 'TWO_FACTOR_REQUIRED', 'message', v_error);
+  end if;
+
+  begin
+    insert into transactions (user_id, type, amount, fee, method, status, date, direction, counterparty_id, counterparty_email, bank_or_ewallet_name, idempotency_key)
+    values (p_sender_id, 'TRANSFER', p_amount, v_fee, 'Internal Transfer', 'SUCCESS', v_now, 'OUT', v_recipient_id, v_recipient.email, v_recipient.email, p_idempotency_key)
+    returning id into v_sender_tx;
+  exception when unique_violation then
+    -- Permintaan kembar yang berjalan bersamaan; yang pertama menang.
+    select id into v_sender_tx from transactions where user_id = p_sender_id and idempotency_key = p_idempotency_key;
+    return jsonb_build_object('success', true, 'code', null, 'message', 'Transfer successful.', 'transaction_id', v_sender_tx, 'replayed', true);
+  end;
+
+  insert into transactions (user_id, type, amount, method, status, date, direction, counterparty_id, counterparty_email, bank_or_ewallet_name)
+  values (v_recipient_id, 'TRANSFER', p_amount, 'Internal Transfer', 'SUCCESS', v_now, 'IN', p_sender_id, v_sender.email, v_sender.email)
+  returning id into v_recipient_tx;
+
+  insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, memo, created_at)
+  values
+    (v_journal, p_sender_id::text, 'DEBIT', p_amount, v_sender_tx, 'Transfer internal ' || v_sender.email || ' -> ' || v_recipient.email, v_now),
+    (v_journal, v_recipient_id::text, 'CREDIT', p_amount, v_recipient_tx, 'Transfer internal ' || v_sender.email || ' -> ' || v_recipient.email, v_now);
+
+  if v_fee > 0 then
+    insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, memo, created_at)
+    values
+      (v_fee_journal, p_sender_id::text, 'DEBIT', v_fee, v_sender_tx, 'Biaya transfer internal ke ' || v_recipient.email, v_now),
+      (v_fee_journal, 'system:fee_income', 'CREDIT', v_fee, null, 'Biaya transfer internal ke ' || v_recipient.email, v_now);
+    v_fee_label := ' (biaya ' || format_rupiah(v_fee) || ')';
+  end if;
+
+  update profiles set balance = balance - p_amount - v_fee where id = p_sender_id;
+  update profiles set balance = balance + p_amount where id = v_recipient_id;
+
+  if (select balance from profiles where id = p_sender_id) < 0 then
+    raise exception 'Insufficient balance at commit time';
+  end if;
+
+  v_amount_label := format_rupiah(p_amount);
+  insert into notifications (user_id, message, date, read)
+  values
+    (p_sender_id, 'Transfer Berhasil: Mengirim ' || v_amount_label || ' ke ' || v_recipient.email || v_fee_label || '.', v_now, false),
+    (v_recipient_id, 'Dana Masuk: Menerima ' || v_amount_label || ' dari ' || v_sender.email || '.', v_now, false);
+
+  return jsonb_build_object(
+    'success', true,
+    'code', null,
+    'message', 'Transfer successful.',
+    'transaction_id', v_sender_tx,
+    'replayed', false
+  );
+end;
+$$;
+
+grant execute on function public.transfer_funds(uuid, text, numeric, numeric, text, text) to authenticated;
+
+/**
+ * Membuat withdrawal PENDING ke rekening tersimpan milik user dan meng-hold
+ * nominal serta biayanya (dua jurnal ke system:withdrawals_payable) dalam satu
+ * transaksi. p_fee adalah biaya yang dilihat user di preview; bila berbeda
+ * dengan hasil calculate_fee, permintaan ditolak dengan FEE_CHANGED.
+ */
+create or replace function public.request_withdrawal(
+  p_amount numeric,
+  p_beneficiary_id uuid,
+  p_fee numeric,
+  p_idempotency_key text,
+  p_two_factor_code text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_existing transactions%rowtype;
+  v_beneficiary withdrawal_beneficiaries%rowtype;
+  v_fee numeric;
+  v_error text;
+  v_tx uuid;
+  v_now timestamptz := now();
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED', 'message', 'You must be logged in.');
+  end if;
+
+  if p_idempotency_key is null or length(p_idempotency_key) = 0 then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Missing idempotency key.');
+  end if;
+
+  -- Replay: kunci sudah pernah dipakai, kembalikan hasil aslinya.
+  select * into v_existing from transactions
+    where user_id = v_user_id and idempotency_key = p_idempotency_key;
+  if found then
+    if v_existing.amount <> p_amount then
+      return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Idempotency key was already used for a different request.',
+        'transaction_id', v_existing.id, 'replayed', true);
+    end if;
+    return jsonb_build_object(
+      'success', v_existing.status <> 'FAILED',
+      'code', case when v_existing.status = 'FAILED' then 'FAILED' end,
+      'message', case when v_existing.status = 'FAILED' then 'Request failed.' else 'Withdrawal submitted.' end,
+      'transaction_id', v_existing.id,
+      'replayed', true
+    );
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'message', 'Invalid amount.');
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id and email_verified_at is not null) then
+    return jsonb_build_object('success', false, 'code', 'EMAIL_NOT_VERIFIED', 'message', 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.');
+  end if;
+
+  select * into v_beneficiary from withdrawal_beneficiaries where id = p_beneficiary_id and user_id = v_user_id;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Select a saved withdrawal account.');
+  end if;
+  if v_beneficiary.active_at > v_now then
+    return jsonb_build_object('success', false, 'code', 'FAILED',
+      'message', 'This account can receive withdrawals from ' || to_char(v_beneficiary.active_at at time zone 'Asia/Jakarta', 'DD/MM/YYYY HH24:MI') || ' WIB.');
+  end if;
+
+  v_fee := calculate_fee('WITHDRAWAL_' || v_beneficiary.type, p_amount);
+  if p_fee is distinct from v_fee then
+    return jsonb_build_object('success', false, 'code', 'FEE_CHANGED', 'message', 'The withdrawal fee has changed. Please review the new fee and try again.');
+  end if;
+
+  perform 1 from profiles where id = v_user_id for update;
+  perform ledger_ensure_opening_balance(v_user_id);
+
+  v_error := transaction_limit_error(v_user_id, 'WITHDRAWAL', p_amount);
+  if v_error is not null then
+    return jsonb_build_object('success', false, 'code', 'LIMIT_EXCEEDED', 'message', v_error);
+  end if;
+
+  if (select balance from profiles where id = v_user_id) < p_amount + v_fee then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE',
+      'message', case when v_fee > 0 then 'Insufficient balance for the amount plus the ' || format_rupiah(v_fee) || ' fee.' else 'Insufficient balance.' end);
+  end if;
+
+  -- Paling akhir supaya kode 2FA tidak terpakai oleh permintaan yang toh ditolak.
+  v_error := two_factor_fresh_code_error(v_user_id, p_two_factor_code);
+  if v_error is not null then
+    return jsonb_build_object('success', false, 'code', 'TWO_FACTOR_REQUIRED', 'message', v_error);
+  end if;
+
+  begin
+    insert into transactions (user_id, type, amount, fee, method, bank_or_ewallet_name, account_number, account_holder_name, status, date, idempotency_key)
+    values (
+      v_user_id, 'WITHDRAWAL', p_amount, v_fee,
+      case when v_beneficiary.type = 'BANK' then 'Bank Transfer (' else 'E-Wallet (' end || v_beneficiary.provider_name || ')',
+      v_beneficiary.provider_name, v_beneficiary.account_number, v_beneficiary.account_holder_name,
+      'PENDING', v_now, p_idempotency_key
+    )
+    returning id into v_tx;
+  exception when unique_violation then
+    -- Permintaan kembar yang berjalan bersamaan; yang pertama menang.
+    select id into v_tx from transactions where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    return jsonb_build_object('success', true, 'code', null, 'message', 'Withdrawal submitted.', 'transaction_id', v_tx, 'replayed', true);
+  end;
+
+  -- Hold dana: pindahkan dari wallet user ke hutang penarikan. Biaya di-hold
+  -- sebagai jurnal terpisah dan baru diakui sebagai pendapatan saat SUCCESS.
+  insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, memo, created_at)
+  select j.journal_id, l.account_id, l.direction, j.amount, v_tx, j.memo, v_now
+    from (values
+      (gen_random_uuid(), p_amount, 'Penarikan ke ' || v_beneficiary.provider_name),
+      (gen_random_uuid(), v_fee, 'Biaya penarikan ke ' || v_beneficiary.provider_name)
+    ) as j(journal_id, amount, memo)
+    cross join (values (v_user_id::text, 'DEBIT'), ('system:withdrawals_payable', 'CREDIT')) as l(account_id, direction)
+   where j.amount > 0;
+
+  update profiles set balance = balance - p_amount - v_fee where id = v_user_id;
+
+  insert into notifications (user_id, message, date, read)
+  values (v_user_id, 'Permintaan Penarikan (Withdrawal) sebesar ' || format_rupiah(p_amount)
+    || case when v_fee > 0 then ' + biaya ' || format_rupiah(v_fee) else '' end
+    || ' sedang diproses. Saldo telah dikurangi sementara.', v_now, false);
+
+  return jsonb_build_object('success', true, 'code', null, 'message', 'Withdrawal submitted.', 'transaction_id', v_tx, 'replayed', false);
+end;
+$$;
+
+grant execute on function public.request_withdrawal(numeric, uuid, numeric, text, text) to authenticated;
@@ -0,0 +1,89 @@
+-- Kedaluwarsa deposit & withdrawal PENDING dijalankan di database. Sebelumnya
+-- sesi member menjalankan expireStaleTransactions tiap menit, padahal member
+-- tidak boleh mengubah transactions: jurnal refund withdrawal sudah terposting,
+-- update status gagal, lalu jurnal koreksi diposting (dua entri sampah per
+-- transaksi per menit). Sekarang expire_stale_transactions membatalkan,
+-- me-refund dan memberi notifikasi dalam satu transaksi; pg_cron menjalankannya
+-- tiap menit dan staf keuangan bisa memanggilnya dari aplikasi.
+
+-- Samakan dengan VITE_DEPOSIT_EXPIRY_HOURS / VITE_WITHDRAWAL_EXPIRY_HOURS; 0 mematikan kedaluwarsa.
+insert into public.app_settings (key, value)
+values ('expiry', jsonb_build_object('depositHours', 24, 'withdrawalHours', 72))
+on conflict (key) do nothing;
+
+/**
+ * Withdrawal dikembalikan seperti transisi CANCELLED oleh admin (nominal dan
+ * biaya sebagai jurnal terpisah dari system:withdrawals_payable); yang sedang
+ * menunggu persetujuan admin kedua dilewati. Mengembalikan jumlah transaksi
+ * yang dibatalkan.
+ */
+create or replace function public.expire_stale_transactions()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings jsonb := coalesce((select value from app_settings where key = 'expiry'), '{}'::jsonb);
+  v_deposit_hours numeric := coalesce((v_settings->>'depositHours')::numeric, 24);
+  v_withdrawal_hours numeric := coalesce((v_settings->>'withdrawalHours')::numeric, 72);
+  v_now timestamptz := now();
+  v_tx transactions%rowtype;
+  v_count integer := 0;
+begin
+  if auth.uid() is not null and not public.has_admin_role(array['finance', 'super_admin']) then
+    raise exception 'Not allowed to expire transactions.' using errcode = '42501';
+  end if;
+
+  for v_tx in
+    select * from transactions t
+     where t.status = 'PENDING'
+       and (
+         (t.type = 'DEPOSIT' and v_deposit_hours > 0 and t.date < v_now - v_deposit_hours * interval '1 hour')
+         or (t.type = 'WITHDRAWAL' and v_withdrawal_hours > 0 and t.date < v_now - v_withdrawal_hours * interval '1 hour'
+             and not exists (select 1 from approval_requests a where a.target_id = t.id::text and a.status = 'PENDING'))
+       )
+     order by t.date
+     for update skip locked
+  loop
+    update transactions set status = 'CANCELLED' where id = v_tx.id;
+
+    if v_tx.type = 'DEPOSIT' then
+      insert into notifications (user_id, message, date, read)
+      values (v_tx.user_id, 'Deposit Kedaluwarsa: Permintaan deposit ' || format_rupiah(v_tx.amount + coalesce(v_tx.unique_code, 0))
+        || ' dibatalkan karena melewati batas waktu. Jangan transfer untuk permintaan ini; buat deposit baru bila masih diperlukan.', v_now, false);
+    else
+      perform ledger_ensure_opening_balance(v_tx.user_id);
+      insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, memo, created_at)
+      select j.journal_id, l.account_id, l.direction, j.amount, v_tx.id, j.memo, v_now
+        from (values
+          (gen_random_uuid(), v_tx.amount, 'Refund penarikan (CANCELLED)'),
+          (gen_random_uuid(), coalesce(v_tx.fee, 0), 'Refund biaya penarikan (CANCELLED)')
+        ) as j(journal_id, amount, memo)
+        cross join (values ('system:withdrawals_payable', 'DEBIT'), (v_tx.user_id::text, 'CREDIT')) as l(account_id, direction)
+       where j.amount > 0;
+      update profiles set balance = balance + v_tx.amount + coalesce(v_tx.fee, 0) where id = v_tx.user_id;
+
+      insert into notifications (user_id, message, date, read)
+      values (v_tx.user_id, 'Penarikan Kedaluwarsa: Penarikan #' || left(v_tx.id::text, 8) || '... tidak diproses sebelum batas waktu. Dana '
+        || format_rupiah(v_tx.amount + coalesce(v_tx.fee, 0)) || ' telah dikembalikan ke saldo akun Anda.', v_now, false);
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.expire_stale_transactions() from public, anon;
+grant execute on function public.expire_stale_transactions() to authenticated;
+
+-- Lihat 0023 untuk pg_cron.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('expire-stale-transactions', '* * * * *', 'select public.expire_stale_transactions()');
+  end if;
+end;
+$$;
@@ -0,0 +1,111 @@
+-- Jurnal dan saldo tersimpan hanya ditulis oleh fungsi security definer.
+-- Sebelumnya policy ledger_entries_insert (with check (true)) membuat setiap
+-- user bisa memposting entri ke akun mana pun, dan ledgerService menulis
+-- profiles.balance langsung dari browser. Sekarang:
+--   * insert/update langsung ke ledger_entries dan profiles.balance dicabut;
+--   * jurnal staf (status deposit/withdrawal, penyesuaian saldo) diposting
+--     lewat post_journal; alur member sudah punya fungsinya sendiri
+--     (transfer_funds, request_withdrawal, open_trade, purchase_investment, ...).
+
+drop policy if exists "ledger_entries_insert" on public.ledger_entries;
+revoke insert, update, delete on public.ledger_entries from anon, authenticated;
+
+-- Kolom yang masih boleh diubah lewat UserRepository.update; perubahan roles
+-- dan is_verified tetap dijaga trigger profiles_guard_roles dan KYC.
+revoke insert, update on public.profiles from anon, authenticated;
+grant update (full_name, username, phone_number, profile_picture_url, roles, is_verified) on public.profiles to authenticated;
+
+/**
+ * Memposting satu jurnal seimbang dan memperbarui profiles.balance setiap user
+ * yang terlibat dalam satu transaksi. p_lines berisi
+ * [{"accountId": ..., "direction": "DEBIT" | "CREDIT", "amount": ...}, ...].
+ * Hanya untuk finance/super_admin; saldo user tidak boleh menjadi negatif.
+ */
+create or replace function public.post_journal(
+  p_memo text,
+  p_lines jsonb,
+  p_transaction_id uuid default null,
+  p_reference text default null
+)
+returns setof public.ledger_entries
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_journal uuid := gen_random_uuid();
+  v_now timestamptz := now();
+  v_debits numeric;
+  v_credits numeric;
+  v_user_id uuid;
+begin
+  if not public.has_admin_role(array['finance', 'super_admin']) then
+    raise exception 'Not allowed to post journals.' using errcode = '42501';
+  end if;
+
+  if jsonb_typeof(p_lines) is distinct from 'array' or jsonb_array_length(p_lines) < 2 then
+    raise exception 'Journal must have at least two lines.';
+  end if;
+  if exists (
+    select 1 from jsonb_array_elements(p_lines) l
+     where coalesce((l->>'amount')::numeric, 0) <= 0
+        or l->>'direction' is null or l->>'direction' not in ('DEBIT', 'CREDIT')
+        or coalesce(l->>'accountId', '') = ''
+  ) then
+    raise exception 'Journal lines need an account, a direction and a positive amount.';
+  end if;
+
+  select coalesce(sum((l->>'amount')::numeric) filter (where l->>'direction' = 'DEBIT'), 0),
+         coalesce(sum((l->>'amount')::numeric) filter (where l->>'direction' = 'CREDIT'), 0)
+    into v_debits, v_credits
+    from jsonb_array_elements(p_lines) l;
+  if v_debits <> v_credits then
+    raise exception 'Unbalanced journal: debit % != credit %.', v_debits, v_credits;
+  end if;
+
+  -- Akun selain system:* harus user yang ada; dikunci berurutan supaya tidak deadlock.
+  for v_user_id in
+    select distinct (l->>'accountId')::uuid
+      from jsonb_array_elements(p_lines) l
+     where l->>'accountId' not like 'system:%'
+     order by 1
+  loop
+    perform 1 from profiles where id = v_user_id for update;
+    if not found then
+      raise exception 'Unknown ledger account %.', v_user_id;
+    end if;
+    perform ledger_ensure_opening_balance(v_user_id);
+  end loop;
+
+  return query
+    with inserted as (
+      insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, reference, memo, created_at)
+      select v_journal, l->>'accountId', l->>'direction', (l->>'amount')::numeric, p_transaction_id, p_reference, coalesce(p_memo, ''), v_now
+        from jsonb_array_elements(p_lines) l
+      returning *
+    )
+    select * from inserted;
+
+  update profiles p
+     set balance = p.balance + x.delta
+    from (
+      select (l->>'accountId')::uuid as user_id,
+             sum(case when l->>'direction' = 'CREDIT' then (l->>'amount')::numeric else -(l->>'amount')::numeric end) as delta
+        from jsonb_array_elements(p_lines) l
+       where l->>'accountId' not like 'system:%'
+       group by 1
+    ) x
+   where p.id = x.user_id;
+
+  if exists (
+    select 1 from profiles
+     where id in (select (l->>'accountId')::uuid from jsonb_array_elements(p_lines) l where l->>'accountId' not like 'system:%')
+       and balance < 0
+  ) then
+    raise exception 'Insufficient balance.';
+  end if;
+end;
+$$;
+
+revoke execute on function public.post_journal(text, jsonb, uuid, text) from public, anon;
+grant execute on function public.post_journal(text, jsonb, uuid, text) to authenticated;
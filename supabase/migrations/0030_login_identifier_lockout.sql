@@ -0,0 +1,79 @@
+-- Lockout login dijalankan di fungsi yang sama dengan pengecekan password.
+-- Sebelumnya resolve_login_email memeriksa password untuk anon, tetapi
+-- kegagalannya hanya tercatat bila klien memanggil record_failed_login; klien
+-- bisa melewatinya (password oracle tanpa rate limit) atau memanggilnya untuk
+-- akun orang lain sampai akun itu terkunci. Sekarang:
+--   * resolve_login_email dipakai untuk semua jenis identifier, mencatat
+--     kegagalan sendiri dan menolak setelah 10 kegagalan dalam 15 menit;
+--   * record_failed_login tidak bisa dipanggil dari klien;
+--   * nomor HP unik sehingga find_profile_id_by_identifier tidak bergantung
+--     pada limit 1.
+
+-- Nomor ganda dikosongkan kecuali milik akun terlama; pemiliknya bisa login
+-- dengan email lalu mengisi nomor lain.
+update public.profiles p
+   set phone_number = ''
+  from (
+    select id, row_number() over (partition by phone_number order by created_at, id) as rn
+      from public.profiles
+     where coalesce(phone_number, '') <> ''
+  ) d
+ where p.id = d.id
+   and d.rn > 1;
+
+drop index if exists public.profiles_phone_number_idx;
+create unique index if not exists profiles_phone_number_key
+  on public.profiles (phone_number)
+  where phone_number <> '';
+
+drop function if exists public.resolve_login_email(text, text, text);
+
+/**
+ * Mengembalikan email akun bila password cocok; akun yang tidak ada, password
+ * salah dan akun yang sedang terkunci sama-sama menghasilkan null. Password
+ * salah dicatat sebagai 'Login Failed' di login_activity.
+ */
+create or replace function public.resolve_login_email(
+  p_kind text,
+  p_value text,
+  p_password text,
+  p_user_agent text,
+  p_device jsonb,
+  p_device_id text
+)
+returns text
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := find_profile_id_by_identifier(p_kind, p_value);
+  v_email text;
+  v_hash text;
+begin
+  if v_user_id is null or p_kind not in ('email', 'phone', 'username') then
+    return null;
+  end if;
+
+  if (select count(*) from login_activity
+       where user_id = v_user_id
+         and event = 'Login Failed'
+         and created_at > now() - interval '15 minutes') >= 10 then
+    return null;
+  end if;
+
+  select email, encrypted_password into v_email, v_hash from auth.users where id = v_user_id;
+  if v_hash is null or crypt(coalesce(p_password, ''), v_hash) <> v_hash then
+    insert into login_activity (user_id, event, user_agent, device, device_id)
+    values (v_user_id, 'Login Failed', left(coalesce(p_user_agent, ''), 512), coalesce(p_device, '{}'::jsonb), left(p_device_id, 64));
+    return null;
+  end if;
+
+  return v_email;
+end;
+$$;
+
+revoke execute on function public.resolve_login_email(text, text, text, text, jsonb, text) from public;
+grant execute on function public.resolve_login_email(text, text, text, text, jsonb, text) to anon, authenticated;
+
+revoke execute on function public.record_failed_login(text, text, text, jsonb, text) from public, anon, authenticated;
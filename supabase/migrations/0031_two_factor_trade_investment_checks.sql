@@ -0,0 +1,156 @@
+-- open_trade dan purchase_investment menolak sesi yang belum menyelesaikan
+-- langkah 2FA saat login (two_factor_session_verified, lihat 0026). Isi fungsi
+-- lainnya sama dengan 0023 dan 0024.
+
+create or replace function public.open_trade(
+  p_market text,
+  p_direction text,
+  p_package text,
+  p_amount numeric
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_settings jsonb;
+  v_duration int;
+  v_min_stake numeric;
+  v_rate numeric;
+  v_trade trades%rowtype;
+  v_journal uuid := gen_random_uuid();
+  v_now timestamptz := now();
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED', 'message', 'You must be logged in to trade.');
+  end if;
+  if not public.two_factor_session_verified() then
+    return jsonb_build_object('success', false, 'code', 'TWO_FACTOR_REQUIRED', 'message', 'Enter your authenticator code to continue.');
+  end if;
+
+  select value into v_settings from app_settings where key = 'trading';
+  v_duration := (v_settings->'packages'->>p_package)::int;
+  v_min_stake := coalesce((v_settings->>'minStake')::numeric, 0);
+
+  if p_direction is null or p_direction not in ('BUY', 'SELL') then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Invalid trade direction.');
+  end if;
+  if v_duration is null then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Unknown trade package.');
+  end if;
+  if p_amount is null or p_amount <= 0 then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'message', 'Invalid stake amount.');
+  end if;
+  if p_amount < v_min_stake then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT',
+      'message', 'Minimum stake is ' || format_rupiah(v_min_stake) || '.');
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id and email_verified_at is not null) then
+    return jsonb_build_object('success', false, 'code', 'EMAIL_NOT_VERIFIED', 'message', 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.');
+  end if;
+
+  v_rate := market_price_at(p_market, v_now);
+  if v_rate is null then
+    return jsonb_build_object('success', false, 'code', 'PRICE_UNAVAILABLE', 'message', 'Price unavailable for ' || coalesce(p_market, '') || '.');
+  end if;
+
+  perform 1 from profiles where id = v_user_id for update;
+  perform ledger_ensure_opening_balance(v_user_id);
+  if (select balance from profiles where id = v_user_id) < p_amount then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE', 'message', 'Insufficient balance.');
+  end if;
+
+  insert into trades (id, user_id, market, direction, package, amount, rate_stake, status, payout_ratio, opened_at, expires_at)
+  values (gen_random_uuid(), v_user_id, p_market, p_direction, p_package, p_amount, v_rate, 'Pending',
+          (v_settings->>'payoutRatio')::numeric, v_now, v_now + make_interval(secs => v_duration))
+  returning * into v_trade;
+
+  insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo, created_at)
+  values
+    (v_journal, v_user_id::text, 'DEBIT', p_amount, 'trade:' || v_trade.id, 'Open ' || p_direction || ' ' || p_market || ' (' || p_package || ')', v_now),
+    (v_journal, 'system:trade_escrow', 'CREDIT', p_amount, 'trade:' || v_trade.id, 'Open ' || p_direction || ' ' || p_market || ' (' || p_package || ')', v_now);
+
+  update profiles set balance = balance - p_amount where id = v_user_id;
+
+  return jsonb_build_object('success', true, 'code', null, 'message', 'Trade opened.', 'trade', to_jsonb(v_trade));
+end;
+$$;
+
+grant execute on function public.open_trade(text, text, text, numeric) to authenticated;
+
+create or replace function public.purchase_investment(p_plan_id text, p_tier_index integer)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_plan investment_plans%rowtype;
+  v_tier investment_plan_tiers%rowtype;
+  v_term_ms bigint;
+  v_interval_ms bigint;
+  v_contract investment_contracts%rowtype;
+  v_journal uuid := gen_random_uuid();
+  v_memo text;
+  v_now timestamptz := now();
+begin
+  if v_user_id is null then
+    return jsonb_build_object('success', false, 'code', 'UNAUTHORIZED', 'message', 'Silakan login terlebih dahulu.');
+  end if;
+  if not public.two_factor_session_verified() then
+    return jsonb_build_object('success', false, 'code', 'TWO_FACTOR_REQUIRED', 'message', 'Masukkan kode authenticator Anda terlebih dahulu.');
+  end if;
+
+  select * into v_plan from investment_plans where id = p_plan_id;
+  select * into v_tier from investment_plan_tiers where plan_id = p_plan_id and tier_index = p_tier_index;
+  if v_plan.id is null or v_tier.plan_id is null then
+    return jsonb_build_object('success', false, 'code', 'FAILED', 'message', 'Paket investasi tidak ditemukan.');
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id and email_verified_at is not null) then
+    return jsonb_build_object('success', false, 'code', 'EMAIL_NOT_VERIFIED', 'message', 'Verifikasi email Anda terlebih dahulu untuk menggunakan fitur ini.');
+  end if;
+
+  perform 1 from profiles where id = v_user_id for update;
+  perform ledger_ensure_opening_balance(v_user_id);
+  if (select balance from profiles where id = v_user_id) < v_tier.principal then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE', 'message', 'Saldo tidak mencukupi untuk paket ini.');
+  end if;
+
+  v_term_ms := v_plan.term_days::bigint * 24 * 60 * 60 * 1000;
+  v_interval_ms := least(
+    round(coalesce((select (value->>'payoutIntervalHours')::numeric from app_settings where key = 'investment'), 24) * 60 * 60 * 1000)::bigint,
+    v_term_ms
+  );
+
+  insert into investment_contracts (
+    id, user_id, plan_id, plan_name, principal, projected_profit, term_days,
+    start_date, maturity_date, payout_interval_ms, total_periods, status
+  )
+  values (
+    gen_random_uuid(), v_user_id, v_plan.id, v_plan.name, v_tier.principal, v_tier.projected_profit, v_plan.term_days,
+    v_now, v_now + make_interval(days => v_plan.term_days), v_interval_ms, ceil(v_term_ms::numeric / v_interval_ms)::integer, 'Active'
+  )
+  returning * into v_contract;
+
+  v_memo := 'Pembelian ' || v_plan.name || ' ' || format_rupiah(v_tier.principal);
+  insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo, created_at)
+  values
+    (v_journal, v_user_id::text, 'DEBIT', v_tier.principal, 'investment:' || v_contract.id, v_memo, v_now),
+    (v_journal, 'system:investment_principal', 'CREDIT', v_tier.principal, 'investment:' || v_contract.id, v_memo, v_now);
+
+  update profiles set balance = balance - v_tier.principal where id = v_user_id;
+
+  insert into notifications (user_id, message, date, read)
+  values (v_user_id, 'Investasi Aktif: ' || v_plan.name || ' dengan modal ' || format_rupiah(v_tier.principal)
+    || ' berjalan selama ' || v_plan.term_days || ' hari.', v_now, false);
+
+  return jsonb_build_object('success', true, 'code', null, 'message', 'Paket investasi berhasil diaktifkan.', 'contract', to_jsonb(v_contract));
+end;
+$$;
+
+grant execute on function public.purchase_investment(text, integer) to authenticated;
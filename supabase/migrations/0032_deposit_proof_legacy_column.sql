@@ -0,0 +1,5 @@
+-- Kolom proof_image_url lama dikembalikan. 0015 menghapusnya, padahal deposit
+-- lama menyimpan bukti transfer di sana; aplikasi menampilkan bukti itu selama
+-- proof_path masih kosong. Database yang sudah menjalankan 0015 kehilangan isi
+-- kolom tersebut; pulihkan dari backup bila diperlukan.
+alter table public.transactions add column if not exists proof_image_url text;
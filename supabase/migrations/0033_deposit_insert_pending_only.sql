@@ -0,0 +1,19 @@
+-- Insert langsung ke transactions hanya untuk deposit baru milik sendiri.
+-- Policy di 0027 hanya memeriksa type, sehingga klien bisa membuat deposit
+-- yang langsung SUCCESS (atau status lain), lengkap dengan biaya, bukti
+-- transfer dan counterparty buatan sendiri. unique_code dan reference_code
+-- tetap diisi trigger transactions_assign_deposit_codes; bukti transfer
+-- dilampirkan lewat fungsi dari 0015.
+drop policy if exists transactions_insert_deposit_only on public.transactions;
+create policy transactions_insert_deposit_only on public.transactions
+  as restrictive for insert to authenticated
+  with check (
+    type = 'DEPOSIT'
+    and status = 'PENDING'
+    and user_id = auth.uid()
+    and coalesce(fee, 0) = 0
+    and proof_path is null
+    and proof_image_url is null
+    and counterparty_id is null
+    and direction is null
+  );
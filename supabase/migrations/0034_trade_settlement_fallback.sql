@@ -0,0 +1,135 @@
+-- Posisi yang tidak punya tick dalam satu menit sebelum expiry (feed berhenti)
+-- sebelumnya dilewati selamanya: status tetap Pending dan stake tertahan di
+-- system:trade_escrow. Sekarang settle_due_trades memakai tick pertama setelah
+-- expiry bila masih dalam masa tenggang, dan mengembalikan stake (status
+-- Refunded) bila masa tenggang lewat tanpa harga.
+
+alter table public.trades drop constraint if exists trades_status_check;
+alter table public.trades add constraint trades_status_check check (status in ('Pending', 'Win', 'Loss', 'Refunded'));
+
+-- Samakan dengan TRADE_SETTLEMENT_GRACE_MS di services/repositories/localRepository.ts.
+update public.app_settings
+   set value = value || jsonb_build_object('settlementGraceSeconds', 300),
+       updated_at = now()
+ where key = 'trading'
+   and not value ? 'settlementGraceSeconds';
+
+-- Tick pertama dalam (p_at, p_at + p_grace]; null bila tidak ada.
+create or replace function public.market_price_after(p_symbol text, p_at timestamptz, p_grace interval)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select price from market_prices
+   where symbol = p_symbol and time > p_at and time <= p_at + p_grace
+   order by time
+   limit 1;
+$$;
+
+revoke execute on function public.market_price_after(text, timestamptz, interval) from public, anon, authenticated;
+
+create or replace function public.settle_due_trades()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_caller uuid := auth.uid();
+  v_grace interval := make_interval(secs => coalesce(
+    (select (value->>'settlementGraceSeconds')::numeric from app_settings where key = 'trading'), 300));
+  v_trade trades%rowtype;
+  v_rate numeric;
+  v_won boolean;
+  v_profit numeric;
+  v_journal uuid;
+  v_memo text;
+  v_reference text;
+  v_label text;
+  v_count integer := 0;
+begin
+  for v_trade in
+    select * from trades
+     where status = 'Pending'
+       and expires_at <= now()
+       and (v_caller is null or user_id = v_caller)
+     order by expires_at
+     for update skip locked
+  loop
+    v_rate := coalesce(
+      market_price_at(v_trade.market, v_trade.expires_at),
+      market_price_after(v_trade.market, v_trade.expires_at, v_grace)
+    );
+    v_journal := gen_random_uuid();
+    v_reference := 'trade:' || v_trade.id;
+    v_label := format_rupiah(v_trade.amount);
+
+    if v_rate is null then
+      -- Harga mungkin masih menyusul; setelah masa tenggang stake dikembalikan
+      continue when v_trade.expires_at + v_grace > now();
+
+      v_memo := 'Trade REFUND ' || v_trade.direction || ' ' || v_trade.market;
+      update trades
+         set status = 'Refunded',
+             settled_at = now(),
+             payout = v_trade.amount
+       where id = v_trade.id;
+      perform ledger_ensure_opening_balance(v_trade.user_id);
+      insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo)
+      values
+        (v_journal, 'system:trade_escrow', 'DEBIT', v_trade.amount, v_reference, v_memo),
+        (v_journal, v_trade.user_id::text, 'CREDIT', v_trade.amount, v_reference, v_memo);
+      update profiles set balance = balance + v_trade.amount where id = v_trade.user_id;
+      insert into notifications (user_id, message, date, read)
+      values (v_trade.user_id, 'Trade Dikembalikan: Harga ' || v_trade.market || ' saat expiry tidak tersedia. Stake '
+        || v_label || ' posisi ' || v_trade.direction || ' dikembalikan ke saldo Anda.', now(), false);
+      v_count := v_count + 1;
+      continue;
+    end if;
+
+    v_won := case when v_trade.direction = 'BUY' then v_rate > v_trade.rate_stake else v_rate < v_trade.rate_stake end;
+    v_profit := case when v_won then round(v_trade.amount * v_trade.payout_ratio, 2) else 0 end;
+
+    update trades
+       set status = case when v_won then 'Win' else 'Loss' end,
+           rate_end = v_rate,
+           settled_at = now(),
+           payout = case when v_won then v_trade.amount + v_profit else 0 end
+     where id = v_trade.id;
+
+    if v_won then
+      v_memo := 'Trade WIN ' || v_trade.direction || ' ' || v_trade.market;
+      perform ledger_ensure_opening_balance(v_trade.user_id);
+      insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo)
+      select v_journal, l.account_id, l.direction, l.amount, v_reference, v_memo
+        from (values
+          ('system:trade_escrow', 'DEBIT', v_trade.amount),
+          ('system:trade_pnl', 'DEBIT', v_profit),
+          (v_trade.user_id::text, 'CREDIT', v_trade.amount + v_profit)
+        ) as l(account_id, direction, amount)
+       where l.amount > 0;
+      update profiles set balance = balance + v_trade.amount + v_profit where id = v_trade.user_id;
+      insert into notifications (user_id, message, date, read)
+      values (v_trade.user_id, 'Trade Menang: Posisi ' || v_trade.direction || ' ' || v_trade.market || ' senilai ' || v_label
+        || ' menghasilkan profit ' || format_rupiah(v_profit) || '.', now(), false);
+    else
+      v_memo := 'Trade LOSS ' || v_trade.direction || ' ' || v_trade.market;
+      insert into ledger_entries (journal_id, account_id, direction, amount, reference, memo)
+      values
+        (v_journal, 'system:trade_escrow', 'DEBIT', v_trade.amount, v_reference, v_memo),
+        (v_journal, 'system:trade_pnl', 'CREDIT', v_trade.amount, v_reference, v_memo);
+      insert into notifications (user_id, message, date, read)
+      values (v_trade.user_id, 'Trade Kalah: Posisi ' || v_trade.direction || ' ' || v_trade.market || ' senilai ' || v_label || ' ditutup rugi.', now(), false);
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.settle_due_trades() from public, anon;
+grant execute on function public.settle_due_trades() to authenticated;
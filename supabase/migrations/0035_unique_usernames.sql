@@ -0,0 +1,65 @@
+-- Username unik (tanpa membedakan huruf besar/kecil), seperti nomor HP di 0030.
+-- Sebelumnya username login di-resolve dengan limit 1 pada index biasa,
+-- padahal setiap user boleh mengubah username-nya (0029): menyalin username
+-- orang lain membuat login dengan username itu masuk ke akun sembarang dan
+-- lockout login gagal bisa menimpa user yang salah.
+
+-- Username dari profil baru (bagian depan email) diberi akhiran angka bila sudah dipakai.
+create or replace function public.profiles_unique_username()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_base text := new.username;
+  v_suffix int := 1;
+begin
+  if coalesce(new.username, '') = '' then
+    return new;
+  end if;
+
+  while exists (select 1 from profiles where lower(username) = lower(new.username) and id <> new.id) loop
+    v_suffix := v_suffix + 1;
+    new.username := v_base || v_suffix;
+  end loop;
+  return new;
+end;
+$$;
+
+-- Username ganda dari sebelum migrasi ini: akun terlama mempertahankan username-nya.
+do $$
+declare
+  v_profile record;
+  v_username text;
+  v_suffix int;
+begin
+  for v_profile in
+    select id, username from (
+      select id, username, row_number() over (partition by lower(username) order by created_at, id) as rn
+        from public.profiles
+       where coalesce(username, '') <> ''
+    ) d
+     where d.rn > 1
+  loop
+    v_suffix := 1;
+    loop
+      v_suffix := v_suffix + 1;
+      v_username := v_profile.username || v_suffix;
+      exit when not exists (select 1 from public.profiles where lower(username) = lower(v_username));
+    end loop;
+    update public.profiles set username = v_username where id = v_profile.id;
+  end loop;
+end;
+$$;
+
+drop index if exists public.profiles_username_lower_idx;
+create unique index if not exists profiles_username_lower_key
+  on public.profiles (lower(username))
+  where username <> '';
+
+-- Hanya saat insert: perubahan username oleh user sendiri ditolak index di atas bila sudah dipakai.
+drop trigger if exists profiles_unique_username on public.profiles;
+create trigger profiles_unique_username
+  before insert on public.profiles
+  for each row execute function public.profiles_unique_username();
@@ -0,0 +1,483 @@
+-- Keputusan staf yang mengubah saldo dijalankan seluruhnya di database.
+-- Sebelumnya post_journal (0029) menerima jurnal apa pun dari sesi staf,
+-- threshold maker-checker hanya diperiksa di transactionService, dan jurnal
+-- status deposit/withdrawal diposting lewat RPC terpisah sebelum status
+-- diubah, sehingga kegagalan di tengah jalan meninggalkan jurnal tanpa
+-- perubahan status. Sekarang:
+--   * post_journal dihapus; klien tidak bisa lagi mengubah transactions atau
+--     membuat approval_requests secara langsung;
+--   * admin_update_transaction_status, admin_adjust_balance dan
+--     decide_approval memeriksa role dan threshold (app_settings 'approvals'),
+--     lalu menulis status, jurnal, saldo, permintaan persetujuan, audit log dan
+--     notifikasi dalam satu transaksi.
+
+-- Samakan dengan VITE_APPROVAL_BALANCE_ADJUSTMENT_THRESHOLD / VITE_APPROVAL_WITHDRAWAL_THRESHOLD.
+insert into public.app_settings (key, value)
+values ('approvals', jsonb_build_object('balanceAdjustmentThreshold', 10000000, 'withdrawalThreshold', 50000000))
+on conflict (key) do nothing;
+
+drop function if exists public.post_journal(text, jsonb, uuid, text);
+
+revoke update on public.transactions from anon, authenticated;
+
+drop policy if exists approval_requests_insert on public.approval_requests;
+revoke insert on public.approval_requests from anon, authenticated;
+
+/**
+ * Memindahkan p_amount dari p_from (didebit) ke p_to (dikredit) sebagai satu
+ * jurnal dan memperbarui profiles.balance akun user yang terlibat. Dipanggil
+ * fungsi lain di migration ini; pemanggil memeriksa saldo bila perlu.
+ */
+create or replace function public.admin_post_transfer(
+  p_from text,
+  p_to text,
+  p_amount numeric,
+  p_memo text,
+  p_transaction_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_journal uuid := gen_random_uuid();
+  v_now timestamptz := now();
+  v_account text;
+begin
+  if p_amount <= 0 then
+    return;
+  end if;
+
+  -- Dikunci berurutan supaya tidak deadlock
+  for v_account in
+    select a from unnest(array[p_from, p_to]) a where a not like 'system:%' order by 1
+  loop
+    perform 1 from profiles where id = v_account::uuid for update;
+    if not found then
+      raise exception 'Unknown ledger account %.', v_account;
+    end if;
+    perform ledger_ensure_opening_balance(v_account::uuid);
+  end loop;
+
+  insert into ledger_entries (journal_id, account_id, direction, amount, transaction_id, memo, created_at)
+  values
+    (v_journal, p_from, 'DEBIT', p_amount, p_transaction_id, p_memo, v_now),
+    (v_journal, p_to, 'CREDIT', p_amount, p_transaction_id, p_memo, v_now);
+
+  if p_from not like 'system:%' then
+    update profiles set balance = balance - p_amount where id = p_from::uuid;
+  end if;
+  if p_to not like 'system:%' then
+    update profiles set balance = balance + p_amount where id = p_to::uuid;
+  end if;
+end;
+$$;
+
+revoke execute on function public.admin_post_transfer(text, text, numeric, text, uuid) from public, anon, authenticated;
+
+/**
+ * Padanan transactionStateMachine.ts untuk transisi yang sudah diperiksa
+ * pemanggil (baris transaksi sudah dikunci): status, jurnal efek saldo, audit
+ * log dan notifikasi member.
+ */
+create or replace function public.apply_transaction_status(
+  p_tx public.transactions,
+  p_status text,
+  p_reason text,
+  p_approval_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_fee numeric := coalesce(p_tx.fee, 0);
+  v_message text;
+begin
+  update transactions set status = p_status where id = p_tx.id;
+
+  if p_tx.type = 'DEPOSIT' then
+    if p_status = 'SUCCESS' then
+      perform admin_post_transfer('system:bank_deposits', p_tx.user_id::text, p_tx.amount + coalesce(p_tx.unique_code, 0), 'Deposit disetujui', p_tx.id);
+      v_message := 'Deposit Berhasil (DONE): Saldo sebesar ' || format_rupiah(p_tx.amount + coalesce(p_tx.unique_code, 0)) || ' telah ditambahkan ke akun Anda.';
+    elsif p_status = 'REJECTED' then
+      v_message := 'Deposit Ditolak: Permintaan deposit ' || format_rupiah(p_tx.amount + coalesce(p_tx.unique_code, 0)) || ' tidak disetujui.';
+    else
+      v_message := 'Deposit Dibatalkan: Permintaan deposit ' || format_rupiah(p_tx.amount + coalesce(p_tx.unique_code, 0)) || ' telah dibatalkan.';
+    end if;
+  elsif p_status = 'SUCCESS' then
+    perform admin_post_transfer('system:withdrawals_payable', 'system:fee_income', v_fee, 'Biaya penarikan', p_tx.id);
+    v_message := 'Penarikan Berhasil (DONE): Dana sebesar ' || format_rupiah(p_tx.amount) || ' telah dikirim ke rekening tujuan.';
+  else
+    perform admin_post_transfer('system:withdrawals_payable', p_tx.user_id::text, p_tx.amount, 'Refund penarikan (' || p_status || ')', p_tx.id);
+    perform admin_post_transfer('system:withdrawals_payable', p_tx.user_id::text, v_fee, 'Refund biaya penarikan (' || p_status || ')', p_tx.id);
+    v_message := case p_status
+      when 'REJECTED' then 'Penarikan Ditolak: Dana ' || format_rupiah(p_tx.amount + v_fee) || ' telah dikembalikan ke saldo akun Anda.'
+      when 'CANCELLED' then 'Penarikan Dibatalkan: Dana ' || format_rupiah(p_tx.amount + v_fee) || ' telah dikembalikan ke saldo akun Anda.'
+      else 'Penarikan #' || left(p_tx.id::text, 8) || '... gagal diproses. Dana ' || format_rupiah(p_tx.amount + v_fee) || ' telah dikembalikan ke saldo akun Anda.'
+    end;
+  end if;
+
+  insert into admin_audit_log (actor_id, action, target_user_id, target_id, before_value, after_value, reason)
+  values (
+    auth.uid(),
+    case when p_tx.type = 'DEPOSIT' then 'DEPOSIT_STATUS' else 'WITHDRAWAL_STATUS' end,
+    p_tx.user_id,
+    p_tx.id::text,
+    jsonb_build_object('status', p_tx.status),
+    jsonb_build_object('status', p_status) || case when p_approval_id is null then '{}'::jsonb else jsonb_build_object('approvalId', p_approval_id) end,
+    p_reason
+  );
+
+  insert into notifications (user_id, message, date, read)
+  values (p_tx.user_id, v_message, now(), false);
+end;
+$$;
+
+revoke execute on function public.apply_transaction_status(public.transactions, text, text, uuid) from public, anon, authenticated;
+
+/**
+ * Memposting penyesuaian saldo lawan system:adjustments dan mencatatnya di
+ * audit log. 'set' dihitung sebagai selisih terhadap saldo ledger saat ini;
+ * untuk permintaan yang disetujui (p_approval_id) selisih itu hanya berlaku
+ * selama saldo masih p_balance_at_request.
+ */
+create or replace function public.apply_balance_adjustment(
+  p_user_id uuid,
+  p_operation text,
+  p_amount numeric,
+  p_reason text,
+  p_memo text default null,
+  p_approval_id uuid default null,
+  p_balance_at_request numeric default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_balance numeric;
+  v_delta numeric;
+begin
+  perform 1 from profiles where id = p_user_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'message', 'User tidak ditemukan.');
+  end if;
+  perform ledger_ensure_opening_balance(p_user_id);
+  v_balance := coalesce((
+    select sum(case when direction = 'CREDIT' then amount else -amount end) from ledger_entries where account_id = p_user_id::text
+  ), (select balance from profiles where id = p_user_id));
+
+  if p_approval_id is not null and p_operation = 'set' and v_balance <> p_balance_at_request then
+    return jsonb_build_object('success', false, 'code', 'BALANCE_CHANGED',
+      'message', 'Saldo user sudah berubah sejak permintaan dibuat (' || format_rupiah(p_balance_at_request) || ' menjadi '
+        || format_rupiah(v_balance) || '). Tolak permintaan ini dan ajukan penyesuaian baru.');
+  end if;
+
+  v_delta := case when p_operation = 'set' then p_amount - v_balance else p_amount end;
+  if v_delta = 0 then
+    return jsonb_build_object('success', true, 'message', 'Saldo tidak berubah.');
+  end if;
+  if v_balance + v_delta < 0 then
+    return jsonb_build_object('success', false, 'code', 'INSUFFICIENT_BALANCE', 'message', 'Saldo user tidak boleh menjadi negatif.');
+  end if;
+
+  if v_delta > 0 then
+    perform admin_post_transfer('system:adjustments', p_user_id::text, v_delta,
+      coalesce(p_memo, case when p_operation = 'set' then 'Penyesuaian admin: set saldo ke ' || format_rupiah(p_amount) else 'Penyesuaian admin: tambah saldo' end));
+  else
+    perform admin_post_transfer(p_user_id::text, 'system:adjustments', -v_delta,
+      coalesce(p_memo, case when p_operation = 'set' then 'Penyesuaian admin: set saldo ke ' || format_rupiah(p_amount) else 'Penyesuaian admin: kurangi saldo' end));
+  end if;
+
+  insert into admin_audit_log (actor_id, action, target_user_id, target_id, before_value, after_value, reason)
+  values (
+    auth.uid(),
+    'BALANCE_ADJUST',
+    p_user_id,
+    null,
+    jsonb_build_object('balance', v_balance),
+    jsonb_build_object('balance', v_balance + v_delta, 'operation', p_operation, 'amount', p_amount)
+      || case when p_approval_id is null then '{}'::jsonb else jsonb_build_object('approvalId', p_approval_id) end,
+    p_reason
+  );
+
+  return jsonb_build_object('success', true, 'message', 'Saldo diperbarui.');
+end;
+$$;
+
+revoke execute on function public.apply_balance_adjustment(uuid, text, numeric, text, text, uuid, numeric) from public, anon, authenticated;
+
+-- Permintaan maker-checker atas nama auth.uid(), dicatat sebagai APPROVAL_REQUEST.
+create or replace function public.create_approval_request(
+  p_type text,
+  p_target_user_id uuid,
+  p_target_id text,
+  p_amount numeric,
+  p_payload jsonb,
+  p_reason text
+)
+returns public.approval_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request approval_requests%rowtype;
+begin
+  insert into approval_requests (type, status, maker_id, target_user_id, target_id, amount, payload, reason)
+  values (p_type, 'PENDING', auth.uid(), p_target_user_id, p_target_id, p_amount, p_payload, p_reason)
+  returning * into v_request;
+
+  insert into admin_audit_log (actor_id, action, target_user_id, target_id, before_value, after_value, reason)
+  values (
+    auth.uid(),
+    'APPROVAL_REQUEST',
+    p_target_user_id,
+    coalesce(p_target_id, v_request.id::text),
+    null,
+    jsonb_build_object('approvalId', v_request.id, 'type', p_type, 'amount', p_amount) || p_payload,
+    p_reason
+  );
+
+  return v_request;
+end;
+$$;
+
+revoke execute on function public.create_approval_request(text, uuid, text, numeric, jsonb, text) from public, anon, authenticated;
+
+/**
+ * Keputusan finance/super_admin atas deposit atau withdrawal PENDING. Withdrawal
+ * SUCCESS di atas withdrawalThreshold disimpan sebagai permintaan persetujuan
+ * (dikembalikan sebagai 'approval'); selama permintaan itu menunggu, status
+ * withdrawal dikunci.
+ */
+create or replace function public.admin_update_transaction_status(
+  p_transaction_id uuid,
+  p_status text,
+  p_reason text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_threshold numeric := coalesce((select (value->>'withdrawalThreshold')::numeric from app_settings where key = 'approvals'), 50000000);
+  v_reason text := btrim(coalesce(p_reason, ''));
+  v_tx transactions%rowtype;
+  v_request approval_requests%rowtype;
+begin
+  if not public.has_admin_role(array['finance', 'super_admin']) then
+    raise exception 'Not allowed to manage transactions.' using errcode = '42501';
+  end if;
+  if not public.two_factor_session_verified() then
+    return jsonb_build_object('success', false, 'code', 'TWO_FACTOR_REQUIRED', 'message', 'Masukkan kode authenticator Anda terlebih dahulu.');
+  end if;
+  if char_length(v_reason) < 5 then
+    return jsonb_build_object('success', false, 'code', 'REASON_REQUIRED', 'message', 'Alasan wajib diisi (minimal 5 karakter).');
+  end if;
+
+  select * into v_tx from transactions where id = p_transaction_id and type in ('DEPOSIT', 'WITHDRAWAL') for update;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'message', 'Transaksi tidak ditemukan.');
+  end if;
+  if v_tx.status = p_status then
+    return jsonb_build_object('success', true, 'message', 'Status tidak berubah.');
+  end if;
+  if v_tx.status <> 'PENDING'
+     or not ((v_tx.type = 'DEPOSIT' and p_status in ('SUCCESS', 'REJECTED', 'CANCELLED'))
+             or (v_tx.type = 'WITHDRAWAL' and p_status in ('SUCCESS', 'REJECTED', 'CANCELLED', 'FAILED'))) then
+    return jsonb_build_object('success', false, 'code', 'ILLEGAL_TRANSITION',
+      'message', 'Illegal ' || v_tx.type || ' status transition: ' || v_tx.status || ' -> ' || coalesce(p_status, ''));
+  end if;
+
+  if v_tx.type = 'WITHDRAWAL' then
+    if exists (select 1 from approval_requests where target_id = v_tx.id::text and status = 'PENDING') then
+      return jsonb_build_object('success', false, 'code', 'APPROVAL_PENDING', 'message', 'Penarikan ini sedang menunggu persetujuan admin lain.');
+    end if;
+    if p_status = 'SUCCESS' and v_tx.amount > v_threshold then
+      v_request := create_approval_request('WITHDRAWAL_STATUS', v_tx.user_id, v_tx.id::text, v_tx.amount,
+        jsonb_build_object('fromStatus', v_tx.status, 'toStatus', p_status), v_reason);
+      return jsonb_build_object('success', true, 'message', 'Penarikan melebihi batas dan menunggu persetujuan admin lain.', 'approval', to_jsonb(v_request));
+    end if;
+  end if;
+
+  perform apply_transaction_status(v_tx, p_status, v_reason);
+  return jsonb_build_object('success', true,
+    'message', case when v_tx.type = 'DEPOSIT' then 'Status deposit diperbarui.' else 'Status penarikan diperbarui.' end);
+end;
+$$;
+
+revoke execute on function public.admin_update_transaction_status(uuid, text, text) from public, anon;
+grant execute on function public.admin_update_transaction_status(uuid, text, text) to authenticated;
+
+/**
+ * Penyesuaian saldo oleh finance/super_admin: 'add' menambah (atau, bila
+ * negatif, mengurangi) saldo, 'set' mengubahnya ke p_amount. Selisih di atas
+ * balanceAdjustmentThreshold disimpan sebagai permintaan persetujuan.
+ */
+create or replace function public.admin_adjust_balance(
+  p_user_id uuid,
+  p_operation text,
+  p_amount numeric,
+  p_reason text,
+  p_memo text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_threshold numeric := coalesce((select (value->>'balanceAdjustmentThreshold')::numeric from app_settings where key = 'approvals'), 10000000);
+  v_reason text := btrim(coalesce(p_reason, ''));
+  v_balance numeric;
+  v_delta numeric;
+  v_request approval_requests%rowtype;
+begin
+  if not public.has_admin_role(array['finance', 'super_admin']) then
+    raise exception 'Not allowed to adjust balances.' using errcode = '42501';
+  end if;
+  if not public.two_factor_session_verified() then
+    return jsonb_build_object('success', false, 'code', 'TWO_FACTOR_REQUIRED', 'message', 'Masukkan kode authenticator Anda terlebih dahulu.');
+  end if;
+  if char_length(v_reason) < 5 then
+    return jsonb_build_object('success', false, 'code', 'REASON_REQUIRED', 'message', 'Alasan wajib diisi (minimal 5 karakter).');
+  end if;
+  if p_operation is null or p_operation not in ('set', 'add') or p_amount is null then
+    return jsonb_build_object('success', false, 'code', 'INVALID_AMOUNT', 'message', 'Penyesuaian saldo tidak valid.');
+  end if;
+
+  perform 1 from profiles where id = p_user_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'message', 'User tidak ditemukan.');
+  end if;
+  perform ledger_ensure_opening_balance(p_user_id);
+  v_balance := coalesce((
+    select sum(case when direction = 'CREDIT' then amount else -amount end) from ledger_entries where account_id = p_user_id::text
+  ), (select balance from profiles where id = p_user_id));
+
+  v_delta := case when p_operation = 'set' then p_amount - v_balance else p_amount end;
+  if abs(v_delta) > v_threshold then
+    v_request := create_approval_request('BALANCE_ADJUSTMENT', p_user_id, null, abs(v_delta),
+      jsonb_build_object('operation', p_operation, 'amount', p_amount, 'balanceAtRequest', v_balance)
+        || case when p_memo is null then '{}'::jsonb else jsonb_build_object('memo', p_memo) end,
+      v_reason);
+    return jsonb_build_object('success', true, 'message', 'Penyesuaian melebihi batas dan menunggu persetujuan admin lain.', 'approval', to_jsonb(v_request));
+  end if;
+
+  return apply_balance_adjustment(p_user_id, p_operation, p_amount, v_reason, p_memo);
+end;
+$$;
+
+revoke execute on function public.admin_adjust_balance(uuid, text, numeric, text, text) from public, anon;
+grant execute on function public.admin_adjust_balance(uuid, text, numeric, text, text) to authenticated;
+
+/**
+ * Memutuskan permintaan maker-checker. Pemeriksa harus berbeda dari pembuat
+ * permintaan dan dari user yang terdampak. Permintaan yang disetujui langsung
+ * dijalankan atas nama pemeriksa; bila aksinya gagal tidak ada yang berubah
+ * dan permintaan tetap PENDING.
+ */
+create or replace function public.decide_approval(
+  p_request_id uuid,
+  p_decision text,
+  p_reason text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reason text := btrim(coalesce(p_reason, ''));
+  v_request approval_requests%rowtype;
+  v_tx transactions%rowtype;
+  v_result jsonb;
+begin
+  if not public.has_admin_role(array['finance', 'super_admin']) then
+    raise exception 'Not allowed to decide approval requests.' using errcode = '42501';
+  end if;
+  if not public.two_factor_session_verified() then
+    return jsonb_build_object('success', false, 'code', 'TWO_FACTOR_REQUIRED', 'message', 'Masukkan kode authenticator Anda terlebih dahulu.');
+  end if;
+  if char_length(v_reason) < 5 then
+    return jsonb_build_object('success', false, 'code', 'REASON_REQUIRED', 'message', 'Alasan wajib diisi (minimal 5 karakter).');
+  end if;
+  if p_decision is null or p_decision not in ('APPROVED', 'REJECTED') then
+    return jsonb_build_object('success', false, 'code', 'INVALID_DECISION', 'message', 'Keputusan tidak valid.');
+  end if;
+
+  select * into v_request from approval_requests where id = p_request_id for update;
+  if not found then
+    return jsonb_build_object('success', false, 'code', 'NOT_FOUND', 'message', 'Permintaan persetujuan tidak ditemukan.');
+  end if;
+  if v_request.status <> 'PENDING' then
+    return jsonb_build_object('success', false, 'code', 'ALREADY_DECIDED', 'message', 'Permintaan sudah diputuskan oleh admin lain.');
+  end if;
+  if v_request.maker_id = auth.uid() then
+    return jsonb_build_object('success', false, 'code', 'FOUR_EYES', 'message', 'Permintaan harus diputuskan oleh admin lain.');
+  end if;
+  if v_request.target_user_id = auth.uid() then
+    return jsonb_build_object('success', false, 'code', 'FOUR_EYES', 'message', 'Anda tidak dapat memutuskan permintaan untuk akun Anda sendiri.');
+  end if;
+
+  if p_decision = 'APPROVED' then
+    -- Pemeriksaan di kedua cabang terjadi sebelum ada yang ditulis
+    if v_request.type = 'BALANCE_ADJUSTMENT' then
+      v_result := apply_balance_adjustment(
+        v_request.target_user_id,
+        v_request.payload->>'operation',
+        (v_request.payload->>'amount')::numeric,
+        v_request.reason || ' (disetujui: ' || v_reason || ')',
+        v_request.payload->>'memo',
+        v_request.id,
+        (v_request.payload->>'balanceAtRequest')::numeric
+      );
+      if not (v_result->>'success')::boolean then
+        return v_result;
+      end if;
+    else
+      select * into v_tx from transactions where id = v_request.target_id::uuid for update;
+      if not found or v_tx.status <> v_request.payload->>'fromStatus' then
+        return jsonb_build_object('success', false, 'code', 'STATUS_CHANGED', 'message', 'Status penarikan sudah berubah sejak permintaan dibuat.');
+      end if;
+      perform apply_transaction_status(v_tx, v_request.payload->>'toStatus', v_request.reason || ' (disetujui: ' || v_reason || ')', v_request.id);
+    end if;
+  else
+    insert into admin_audit_log (actor_id, action, target_user_id, target_id, before_value, after_value, reason)
+    values (
+      auth.uid(),
+      'APPROVAL_REJECT',
+      v_request.target_user_id,
+      coalesce(v_request.target_id, v_request.id::text),
+      jsonb_build_object('approvalId', v_request.id, 'status', 'PENDING'),
+      jsonb_build_object('approvalId', v_request.id, 'status', 'REJECTED'),
+      v_reason
+    );
+  end if;
+
+  update approval_requests
+     set status = p_decision, checker_id = auth.uid(), decision_reason = v_reason, decided_at = now()
+   where id = v_request.id;
+
+  insert into notifications (user_id, message, date, read)
+  values (
+    v_request.maker_id,
+    'Permintaan persetujuan #' || left(v_request.id::text, 8) || '... '
+      || case when p_decision = 'APPROVED' then 'telah disetujui.' else 'ditolak: ' || v_reason end,
+    now(),
+    false
+  );
+
+  return jsonb_build_object('success', true,
+    'message', case when p_decision = 'APPROVED' then 'Permintaan disetujui dan dijalankan.' else 'Permintaan ditolak.' end);
+end;
+$$;
+
+revoke execute on function public.decide_approval(uuid, text, text) from public, anon;
+grant execute on function public.decide_approval(uuid, text, text) to authenticated;
@@ -0,0 +1,9 @@
+-- Permintaan persetujuan hanya diubah oleh decide_approval (0036).
+-- Policy approval_requests_decide dari 0021 mengizinkan admin yang memenuhi
+-- syarat mengembalikan permintaan APPROVED/REJECTED milik siapa pun ke PENDING,
+-- karena with check hanya melihat baris baru. Klaim dan aksinya sekarang
+-- berjalan dalam satu transaksi di decide_approval: bila aksinya gagal, klaim
+-- ikut dibatalkan, jadi klien tidak perlu lagi melepas klaim sendiri.
+
+drop policy if exists approval_requests_decide on public.approval_requests;
+revoke update, delete on public.approval_requests from anon, authenticated;
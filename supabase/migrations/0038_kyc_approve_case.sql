@@ -0,0 +1,82 @@
+-- Persetujuan KYC dijalankan dalam satu transaksi. Sebelumnya kycService
+-- mengubah kyc_cases menjadi APPROVED lalu mengisi profiles.is_verified dengan
+-- update terpisah; bila update kedua gagal, pengajuan tercatat disetujui tetapi
+-- akunnya tidak terverifikasi dan tidak bisa direview ulang. Sekarang:
+--   * approve_kyc_case mengubah pengajuan, profiles.is_verified, audit log dan
+--     notifikasi sekaligus;
+--   * reviewer tidak bisa lagi menulis status APPROVED atau is_verified
+--     langsung lewat API.
+
+drop policy if exists "kyc_cases_review_admin" on public.kyc_cases;
+create policy "kyc_cases_review_admin" on public.kyc_cases
+  for update to authenticated
+  using (
+    public.has_admin_role(array['compliance', 'super_admin'])
+    and user_id <> auth.uid()
+  )
+  with check (
+    status in ('SUBMITTED', 'IN_REVIEW', 'REJECTED')
+    and user_id <> auth.uid()
+  );
+
+revoke update (is_verified) on public.profiles from anon, authenticated;
+
+/**
+ * Menyetujui pengajuan IN_REVIEW atas nama reviewer yang login. Hanya
+ * compliance/super_admin, dan bukan untuk pengajuan miliknya sendiri.
+ * Mengembalikan {success, message, case}.
+ */
+create or replace function public.approve_kyc_case(p_case_id uuid, p_reason text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reason text := btrim(coalesce(p_reason, ''));
+  v_case kyc_cases%rowtype;
+  v_was_verified boolean;
+begin
+  if not public.has_admin_role(array['compliance', 'super_admin']) then
+    raise exception 'Not allowed to review KYC.' using errcode = '42501';
+  end if;
+  if char_length(v_reason) < 5 then
+    return jsonb_build_object('success', false, 'code', 'REASON_REQUIRED', 'message', 'Alasan wajib diisi (minimal 5 karakter).');
+  end if;
+
+  select * into v_case from kyc_cases where id = p_case_id for update;
+  if not found or v_case.status <> 'IN_REVIEW' then
+    return jsonb_build_object('success', false, 'code', 'NOT_IN_REVIEW', 'message', 'Only cases in review can be approved.');
+  end if;
+  if v_case.user_id = auth.uid() then
+    return jsonb_build_object('success', false, 'code', 'OWN_CASE', 'message', 'You cannot review your own KYC submission.');
+  end if;
+
+  update kyc_cases
+     set status = 'APPROVED', reviewed_at = now(), reviewer_id = auth.uid(), updated_at = now()
+   where id = v_case.id
+  returning * into v_case;
+
+  select is_verified into v_was_verified from profiles where id = v_case.user_id for update;
+  update profiles set is_verified = true where id = v_case.user_id;
+
+  insert into admin_audit_log (actor_id, action, target_user_id, target_id, before_value, after_value, reason)
+  values (
+    auth.uid(),
+    'KYC_APPROVE',
+    v_case.user_id,
+    v_case.id::text,
+    jsonb_build_object('status', 'IN_REVIEW', 'isVerified', coalesce(v_was_verified, false)),
+    jsonb_build_object('status', 'APPROVED', 'isVerified', true),
+    v_reason
+  );
+
+  insert into notifications (user_id, message, date, read)
+  values (v_case.user_id, 'KYC Disetujui: Akun Anda telah terverifikasi.', now(), false);
+
+  return jsonb_build_object('success', true, 'message', 'KYC approved.', 'case', to_jsonb(v_case));
+end;
+$$;
+
+revoke execute on function public.approve_kyc_case(uuid, text) from public, anon;
+grant execute on function public.approve_kyc_case(uuid, text) to authenticated;
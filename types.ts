@@ -4,6 +4,8 @@ export enum AuthStatus {
   UNAUTHENTICATED = 'UNAUTHENTICATED',
   AUTHENTICATED = 'AUTHENTICATED',
   LOADING = 'LOADING',
+  // Password benar, menunggu kode authenticator (langkah kedua login)
+  TWO_FACTOR_REQUIRED = 'TWO_FACTOR_REQUIRED',
 }
 
 export interface User {
@@ -12,13 +14,41 @@ export interface User {
   username: string;
   email: string;
   phoneNumber: string;
+  // isAdmin = punya minimal satu role staf; hak akses detail ditentukan oleh `roles`.
   isAdmin: boolean;
+  roles: AdminRole[];
+  // isVerified = KYC disetujui; emailVerified = alamat email sudah dikonfirmasi.
   isVerified: boolean;
+  emailVerified: boolean;
   balance: number;
   notifications: NotificationItem[];
   profilePictureUrl?: string;
 }
 
+export enum AdminRole {
+  SUPPORT = 'support',
+  FINANCE = 'finance',
+  COMPLIANCE = 'compliance',
+  SUPER_ADMIN = 'super_admin',
+}
+
+export enum Permission {
+  USERS_VIEW = 'users:view',
+  USERS_CREATE = 'users:create',
+  ROLES_MANAGE = 'roles:manage',
+  BALANCE_ADJUST = 'balance:adjust',
+  LEDGER_VIEW = 'ledger:view',
+  TRANSACTIONS_VIEW = 'transactions:view',
+  TRANSACTIONS_MANAGE = 'transactions:manage',
+  KYC_REVIEW = 'kyc:review',
+  INVESTMENTS_VIEW = 'investments:view',
+  INVESTMENTS_PAYOUT = 'investments:payout',
+  SETTINGS_MANAGE = 'settings:manage',
+  AUDIT_VIEW = 'audit:view',
+  APPROVALS_DECIDE = 'approvals:decide',
+  LIMITS_MANAGE = 'limits:manage',
+}
+
 export interface UserProfileUpdate {
   fullName?: string;
   phoneNumber?: string;
@@ -47,10 +77,27 @@ export interface DepositTransaction {
   method: string;
   status: TransactionStatus;
   date: string;
-  proofImageUrl?: string;
+  // Kode unik 1-999 yang ditambahkan ke nominal, dan referensi untuk berita transfer.
+  // Jumlah yang ditransfer (dan dikreditkan) adalah transferAmount = amount + uniqueCode.
+  uniqueCode?: number;
+  referenceCode?: string;
+  transferAmount: number;
+  proof?: DepositProof;
+  // Batas waktu PENDING; tidak ada bila kedaluwarsa dimatikan
+  expiresAt?: string;
   companyBankInfoList?: CompanyBankInfo[];
 }
 
+// Bukti transfer deposit. File disimpan private di storage; URL tampilannya diminta saat dibutuhkan.
+export interface DepositProof {
+  path: string;
+  fileName: string;
+  contentType: string;
+  uploadedAt: string;
+  // Bukti lama dari kolom proof_image_url (sebelum storage private); path-nya kosong.
+  legacyUrl?: string;
+}
+
 export interface WithdrawalTransaction {
   id: string;
   userId: string;
@@ -60,8 +107,16 @@ export interface WithdrawalTransaction {
   bankOrEwalletName: string;
   accountNumber: string;
   accountHolderName: string;
+  // Biaya di luar `amount`; `amount` adalah nominal yang diterima di rekening tujuan.
+  fee: number;
   status: TransactionStatus;
   date: string;
+  expiresAt?: string;
+}
+
+export enum TransferDirection {
+  IN = 'IN',
+  OUT = 'OUT',
 }
 
 export interface TransferTransaction {
@@ -69,12 +124,41 @@ export interface TransferTransaction {
     userId: string;
     type: TransactionType.TRANSFER;
     amount: number;
-    recipientEmail: string;
+    direction: TransferDirection;
+    counterpartyEmail: string; // Penerima untuk OUT, pengirim untuk IN
+    fee: number; // Hanya dibebankan ke pengirim (OUT); selalu 0 untuk IN
     status: TransactionStatus;
     date: string;
     method: 'Internal Transfer';
 }
 
+export enum TransferErrorCode {
+  INVALID_AMOUNT = 'INVALID_AMOUNT',
+  RECIPIENT_NOT_FOUND = 'RECIPIENT_NOT_FOUND',
+  SELF_TRANSFER = 'SELF_TRANSFER',
+  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  TWO_FACTOR_REQUIRED = 'TWO_FACTOR_REQUIRED',
+  EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED',
+  LIMIT_EXCEEDED = 'LIMIT_EXCEEDED',
+  // Jadwal biaya berubah antara preview dan submit
+  FEE_CHANGED = 'FEE_CHANGED',
+  FAILED = 'FAILED',
+}
+
+// Hasil permintaan deposit/withdrawal/transfer. `replayed` bernilai true bila
+// hasil ini berasal dari permintaan sebelumnya dengan idempotency key yang sama.
+export interface TransactionResult {
+  success: boolean;
+  message: string;
+  transactionId?: string;
+  replayed?: boolean;
+}
+
+export interface TransferResult extends TransactionResult {
+  errorCode?: TransferErrorCode;
+}
+
 export type Transaction = DepositTransaction | WithdrawalTransaction | TransferTransaction;
 
 export interface CompanyBankInfo {
@@ -84,6 +168,345 @@ export interface CompanyBankInfo {
   accountHolderName: string;
 }
 
+export enum LedgerDirection {
+  DEBIT = 'DEBIT',
+  CREDIT = 'CREDIT',
+}
+
+// Satu baris immutable di buku besar. Wallet user bersaldo normal kredit:
+// CREDIT menambah saldo, DEBIT mengurangi saldo.
+export interface LedgerEntry {
+  id: string;
+  journalId: string;
+  accountId: string;
+  direction: LedgerDirection;
+  amount: number;
+  transactionId?: string;
+  // Referensi ke objek non-transaksi, mis. `trade:<id>`.
+  reference?: string;
+  memo: string;
+  createdAt: string;
+}
+
+export interface BalanceReconciliation {
+  accountId: string;
+  storedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+export enum TradeDirection {
+  BUY = 'BUY',
+  SELL = 'SELL',
+}
+
+// Refunded: harga saat expiry tidak tersedia, stake dikembalikan.
+export type TradeStatus = 'Win' | 'Loss' | 'Pending' | 'Refunded';
+
+// Satu posisi binary option. `rateEnd` baru terisi setelah posisi diselesaikan saat expiry.
+export interface TradeHistoryItem {
+  id: string;
+  userId: string;
+  date: string;
+  market: string;
+  trx: TradeDirection;
+  package: string;
+  amount: number;
+  rateStake: number;
+  rateEnd: number | null;
+  status: TradeStatus;
+  payoutRatio: number;
+  expiresAt: string;
+  settledAt?: string;
+  payout?: number;
+}
+
+export interface TradePackage {
+  label: string;
+  durationSeconds: number;
+}
+
+export interface OpenTradeResult {
+  success: boolean;
+  message: string;
+  trade?: TradeHistoryItem;
+}
+
+export interface InvestmentTier {
+  principal: number;
+  projectedProfit: number;
+}
+
+// Paket investasi yang bisa dibeli dari saldo wallet. Profit dibayar bertahap selama `termDays`.
+export interface InvestmentPlan {
+  id: string;
+  name: string;
+  termDays: number;
+  tiers: InvestmentTier[];
+}
+
+export type InvestmentStatus = 'Active' | 'Matured';
+
+/**
+ * Kontrak investasi milik user. Profit dibayar per periode (`payoutIntervalMs`);
+ * `paidPeriods`/`paidProfit` mencatat yang sudah dikreditkan ke wallet. Modal
+ * dikembalikan bersama pembayaran periode terakhir saat jatuh tempo.
+ */
+export interface InvestmentContract {
+  id: string;
+  userId: string;
+  planId: string;
+  planName: string;
+  principal: number;
+  projectedProfit: number;
+  termDays: number;
+  startDate: string;
+  maturityDate: string;
+  payoutIntervalMs: number;
+  totalPeriods: number;
+  paidPeriods: number;
+  paidProfit: number;
+  status: InvestmentStatus;
+  lastPayoutAt?: string;
+}
+
+export interface InvestmentResult {
+  success: boolean;
+  message: string;
+  contract?: InvestmentContract;
+}
+
+export enum KycStatus {
+  DRAFT = 'DRAFT',
+  SUBMITTED = 'SUBMITTED',
+  IN_REVIEW = 'IN_REVIEW',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+export enum KycDocumentType {
+  ID_CARD = 'ID_CARD',
+  SELFIE = 'SELFIE',
+  PROOF_OF_ADDRESS = 'PROOF_OF_ADDRESS',
+}
+
+export interface KycIdentity {
+  fullName: string;
+  // NIK pada KTP (16 digit)
+  idNumber: string;
+  placeOfBirth: string;
+  dateOfBirth: string;
+  address: string;
+  city: string;
+  postalCode: string;
+}
+
+export interface KycDocument {
+  fileName: string;
+  mimeType: string;
+  // Path file di bucket private `kyc-documents`; URL tampilannya diminta saat dibutuhkan.
+  path: string;
+  uploadedAt: string;
+  // Pengajuan lama menyimpan isi file langsung sebagai data URL.
+  dataUrl?: string;
+}
+
+/**
+ * Satu pengajuan KYC. User mengisi DRAFT lalu mengirimnya (SUBMITTED); admin
+ * mengambilnya untuk direview (IN_REVIEW) lalu APPROVED atau REJECTED dengan
+ * alasan. Pengajuan yang ditolak tidak diubah lagi; user membuat pengajuan baru.
+ */
+export interface KycCase {
+  id: string;
+  userId: string;
+  status: KycStatus;
+  identity: KycIdentity;
+  documents: Partial<Record<KycDocumentType, KycDocument>>;
+  createdAt: string;
+  updatedAt: string;
+  submittedAt?: string;
+  reviewStartedAt?: string;
+  reviewedAt?: string;
+  reviewerId?: string;
+  rejectionReason?: string;
+}
+
+export interface KycResult {
+  success: boolean;
+  message: string;
+  kycCase?: KycCase;
+}
+
+export interface KycDocumentResult {
+  success: boolean;
+  message: string;
+  document?: KycDocument;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+}
+
+// Secret yang baru dibuat dan belum dikonfirmasi dengan kode pertama dari aplikasi authenticator.
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorResult {
+  success: boolean;
+  message: string;
+  // Hanya diisi saat kode dibuat; ditampilkan sekali ke user dan disimpan sebagai hash.
+  recoveryCodes?: string[];
+}
+
+export interface EmailVerificationResult {
+  success: boolean;
+  message: string;
+  // Diisi bila permintaan ditolak karena terlalu sering.
+  retryAfterSeconds?: number;
+}
+
+// Identifier yang sudah dinormalisasi (email lowercase, nomor HP +62, username lowercase).
+export interface LoginIdentifier {
+  kind: 'email' | 'phone' | 'username';
+  value: string;
+}
+
+export enum LoginEventType {
+  LOGIN = 'Login',
+  LOGOUT = 'Logout',
+  LOGIN_FAILED = 'Login Failed',
+}
+
+// Info perangkat kasar yang diturunkan dari user agent, cukup untuk dikenali user.
+export interface DeviceInfo {
+  browser: string;
+  os: string;
+  deviceType: 'Desktop' | 'Mobile' | 'Tablet';
+}
+
+export interface LoginActivity {
+  id: string;
+  userId: string;
+  event: LoginEventType;
+  timestamp: string;
+  userAgent: string;
+  device: DeviceInfo;
+  // ID acak per browser, untuk mendeteksi login dari perangkat baru.
+  deviceId: string;
+  sessionId?: string;
+}
+
+export interface UserSession {
+  id: string;
+  userId: string;
+  deviceId: string;
+  userAgent: string;
+  device: DeviceInfo;
+  createdAt: string;
+  lastSeenAt: string;
+  revokedAt?: string;
+}
+
+export enum AuditAction {
+  USER_CREATE = 'USER_CREATE',
+  ROLES_ASSIGN = 'ROLES_ASSIGN',
+  BALANCE_ADJUST = 'BALANCE_ADJUST',
+  DEPOSIT_STATUS = 'DEPOSIT_STATUS',
+  WITHDRAWAL_STATUS = 'WITHDRAWAL_STATUS',
+  COMPANY_BANK_INFO = 'COMPANY_BANK_INFO',
+  KYC_APPROVE = 'KYC_APPROVE',
+  KYC_REJECT = 'KYC_REJECT',
+  INVESTMENT_PAYOUTS = 'INVESTMENT_PAYOUTS',
+  APPROVAL_REQUEST = 'APPROVAL_REQUEST',
+  APPROVAL_REJECT = 'APPROVAL_REJECT',
+  STATEMENT_IMPORT = 'STATEMENT_IMPORT',
+  STATEMENT_LINE_IGNORE = 'STATEMENT_LINE_IGNORE',
+  LIMITS_UPDATE = 'LIMITS_UPDATE',
+  FEE_SCHEDULE_UPDATE = 'FEE_SCHEDULE_UPDATE',
+}
+
+// Satu baris audit log (append-only). `before`/`after` berisi nilai yang berubah saja.
+export interface AuditLogEntry {
+  id: string;
+  actorId: string;
+  action: AuditAction;
+  // User yang terdampak; kosong untuk aksi global seperti info bank perusahaan
+  targetUserId?: string;
+  // ID objek yang diubah (transaksi, kasus KYC, dst.)
+  targetId?: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason: string;
+  timestamp: string;
+}
+
+export interface AuditLogFilter {
+  actorId?: string;
+  targetUserId?: string;
+  action?: AuditAction;
+  // ISO date-time, inklusif
+  from?: string;
+  to?: string;
+  // Dicari di alasan dan ID target
+  search?: string;
+}
+
+export enum ApprovalType {
+  BALANCE_ADJUSTMENT = 'BALANCE_ADJUSTMENT',
+  WITHDRAWAL_STATUS = 'WITHDRAWAL_STATUS',
+}
+
+export enum ApprovalStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+export interface BalanceAdjustmentPayload {
+  operation: 'add' | 'set';
+  amount: number;
+  // Saldo saat permintaan dibuat, untuk konteks pemeriksa
+  balanceAtRequest: number;
+  // Memo jurnal khusus (mis. saldo awal akun baru)
+  memo?: string;
+}
+
+export interface WithdrawalStatusPayload {
+  fromStatus: TransactionStatus;
+  toStatus: TransactionStatus;
+}
+
+/**
+ * Aksi admin yang ditahan sampai disetujui admin lain (maker-checker).
+ * `amount` adalah nilai yang dibandingkan dengan threshold.
+ */
+export type ApprovalRequest = {
+  id: string;
+  status: ApprovalStatus;
+  makerId: string;
+  checkerId?: string;
+  targetUserId: string;
+  amount: number;
+  reason: string;
+  decisionReason?: string;
+  createdAt: string;
+  decidedAt?: string;
+} & (
+  | { type: ApprovalType.BALANCE_ADJUSTMENT; targetId?: undefined; payload: BalanceAdjustmentPayload }
+  | { type: ApprovalType.WITHDRAWAL_STATUS; targetId: string; payload: WithdrawalStatusPayload }
+);
+
+// Hasil aksi admin yang mungkin ditahan untuk persetujuan.
+export interface AdminActionResult {
+  success: boolean;
+  message: string;
+  pendingApproval?: ApprovalRequest;
+}
+
 export interface NotificationItem {
   id: string;
   userId: string;
@@ -98,4 +521,162 @@ export interface MenuItem {
   icon: React.ReactNode;
   path: string;
   children?: MenuItem[]; // Added for submenu support
-}
\ No newline at end of file
+}
+
+export enum BankStatementFormat {
+  BCA = 'BCA',
+  MANDIRI = 'MANDIRI',
+}
+
+export enum StatementLineStatus {
+  UNMATCHED = 'UNMATCHED',
+  MATCHED = 'MATCHED',
+  IGNORED = 'IGNORED',
+}
+
+// Satu mutasi kredit dari CSV rekening koran yang diimpor admin.
+export interface BankStatementLine {
+  id: string;
+  format: BankStatementFormat;
+  // Tanggal mutasi (YYYY-MM-DD) sesuai rekening koran
+  bankDate: string;
+  description: string;
+  amount: number;
+  // Hash isi baris untuk mencegah baris yang sama diimpor dua kali
+  fingerprint: string;
+  status: StatementLineStatus;
+  matchedTransactionId?: string;
+  importedBy: string;
+  importedAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+export interface ReconciliationResult {
+  totalCredits: number;
+  skippedDebits: number;
+  duplicates: number;
+  matched: number;
+  unmatched: number;
+  // Baris yang tidak bisa dibaca, dengan nomor barisnya di file
+  errors: string[];
+}
+
+export enum BeneficiaryType {
+  BANK = 'BANK',
+  E_WALLET = 'E_WALLET',
+}
+
+// Rekening tujuan penarikan yang disimpan user. Nama pemilik harus cocok dengan nama KYC/profil.
+export interface Beneficiary {
+  id: string;
+  userId: string;
+  type: BeneficiaryType;
+  // Nama bank dari BANK_OPTIONS atau e-wallet dari E_WALLET_OPTIONS
+  providerName: string;
+  accountNumber: string;
+  accountHolderName: string;
+  nickname?: string;
+  createdAt: string;
+  // Akhir masa tunggu; sebelum waktu ini rekening belum bisa menerima penarikan
+  activeAt: string;
+}
+
+export interface NewBeneficiaryInput {
+  type: BeneficiaryType;
+  providerName: string;
+  accountNumber: string;
+  accountHolderName: string;
+  nickname?: string;
+}
+
+export interface BeneficiaryResult {
+  success: boolean;
+  message: string;
+  beneficiary?: Beneficiary;
+}
+
+// BASIC: email terverifikasi; VERIFIED: KYC disetujui. Limit transaksi berbeda per level.
+export enum VerificationLevel {
+  BASIC = 'BASIC',
+  VERIFIED = 'VERIFIED',
+}
+
+export type LimitedTransactionType = TransactionType.WITHDRAWAL | TransactionType.TRANSFER;
+
+export interface TransactionLimits {
+  minPerTransaction: number;
+  maxPerTransaction: number;
+  dailyAmount: number;
+  monthlyAmount: number;
+  dailyCount: number;
+}
+
+// Pemakaian hari/bulan berjalan (zona WIB). Transaksi yang ditolak/dibatalkan tidak dihitung.
+export interface LimitUsage {
+  dailyAmount: number;
+  monthlyAmount: number;
+  dailyCount: number;
+}
+
+export interface LimitAllowance {
+  type: LimitedTransactionType;
+  level: VerificationLevel;
+  limits: TransactionLimits;
+  usage: LimitUsage;
+  remainingDailyAmount: number;
+  remainingMonthlyAmount: number;
+  remainingDailyCount: number;
+  // Nominal terbesar yang masih bisa diajukan sekarang
+  maxAmount: number;
+  // true bila ada limit khusus dari admin untuk user ini
+  hasOverride: boolean;
+}
+
+// Limit khusus per user; field yang kosong memakai limit global level user tersebut.
+export interface UserLimitOverride {
+  userId: string;
+  type: LimitedTransactionType;
+  limits: Partial<TransactionLimits>;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+// Setiap saluran punya jadwal biaya sendiri.
+export enum FeeChannel {
+  WITHDRAWAL_BANK = 'WITHDRAWAL_BANK',
+  WITHDRAWAL_E_WALLET = 'WITHDRAWAL_E_WALLET',
+  TRANSFER = 'TRANSFER',
+}
+
+export enum FeeType {
+  FLAT = 'FLAT',
+  PERCENTAGE = 'PERCENTAGE',
+  TIERED = 'TIERED',
+}
+
+// Berlaku untuk nominal >= minAmount sampai tier berikutnya.
+export interface FeeTier {
+  minAmount: number;
+  flatFee: number;
+  percentage: number;
+}
+
+export interface FeeSchedule {
+  channel: FeeChannel;
+  type: FeeType;
+  flatFee: number;
+  percentage: number;
+  minFee: number;
+  // 0 = tanpa batas atas
+  maxFee: number;
+  tiers: FeeTier[];
+}
+
+export interface FeeQuote {
+  channel: FeeChannel;
+  amount: number;
+  fee: number;
+  // Total yang dipotong dari saldo
+  total: number;
+}
@@ -0,0 +1,32 @@
+/// <reference types="vite/client" />
+
+// Lihat config.ts untuk validasi dan nilai default masing-masing variabel.
+interface ImportMetaEnv {
+  readonly VITE_DATA_BACKEND?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_FEATURE_REGISTRATION?: string;
+  readonly VITE_FEATURE_TRADING?: string;
+  readonly VITE_FEATURE_INVESTMENT?: string;
+  readonly VITE_MIN_DEPOSIT?: string;
+  readonly VITE_MIN_WITHDRAWAL?: string;
+  readonly VITE_APPROVAL_BALANCE_ADJUSTMENT_THRESHOLD?: string;
+  readonly VITE_APPROVAL_WITHDRAWAL_THRESHOLD?: string;
+  readonly VITE_DEPOSIT_EXPIRY_HOURS?: string;
+  readonly VITE_WITHDRAWAL_EXPIRY_HOURS?: string;
+  readonly VITE_BENEFICIARY_COOLING_OFF_HOURS?: string;
+  readonly VITE_TRADE_PAYOUT_RATIO?: string;
+  readonly VITE_MIN_TRADE_STAKE?: string;
+  readonly VITE_INVESTMENT_PAYOUT_INTERVAL_HOURS?: string;
+  readonly VITE_PRICE_FEED?: string;
+  readonly VITE_PRICE_FEED_SEED?: string;
+  readonly VITE_PRICE_FEED_REPLAY_FILES?: string;
+  readonly VITE_PRICE_FEED_REPLAY_SPEED?: string;
+  readonly VITE_PRICE_FEED_REPLAY_INTERVAL_SECONDS?: string;
+  readonly VITE_APP_NAME?: string;
+  readonly VITE_REFERRAL_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}